@@ -4,6 +4,7 @@ const sendToWormhole = require('stream-wormhole');
 const ffmpeg = require('fluent-ffmpeg');
 const { Controller } = require('egg');
 const os = require('os');
+const crypto = require('crypto');
 
 class UploadController extends Controller {
 	constructor(cxt) {
@@ -101,26 +102,10 @@ class UploadController extends Controller {
 				console.log(err);
 				reject(err);
 			});
-			const url = `${this.domain}/upload/${fileName}`;
 			// 监听写入完成事件
 			remoteFileStrem.on('finish', () => {
 				if (errFlag) return;
-				resolve({
-					url,
-					preview:
-						[
-							'.jpg',
-							'.png',
-							'.gif',
-							'.pdf',
-							'.txt',
-							'.html',
-							'.htm',
-						].indexOf(ext) >= 0
-							? url
-							: '',
-					download: url,
-				});
+				resolve(this.getFileResult(fileName, ext));
 			});
 		});
 
@@ -157,73 +142,219 @@ class UploadController extends Controller {
 				console.log(err);
 				reject(err);
 			});
-			const url = `${this.domain}/upload/${fileName}`;
 			// 监听写入完成事件
 			remoteFileStrem.on('finish', () => {
 				if (errFlag) return;
-				const result = {
-					url,
-					download: url,
-					name: sourceName,
-				};
-				try {
-					const platform = os.platform();
-					const osDir = platform === 'linux' ? 'linux' : 'win';
-					ffmpeg.setFfmpegPath(
-						path.join(
-							app.baseDir,
-							`./app/ffmpeg/${osDir}/ffmpeg${
-								osDir === 'win' ? '.exe' : ''
-							}`,
-						),
-					);
-					const probePath = path.join(
+				this.getVideoResult(filePath, fileName, sourceName).then(
+					resolve,
+					reject,
+				);
+			});
+		});
+
+		ctx.body = { code: 200, message: '', data: result };
+	}
+
+	getFileResult(fileName, ext) {
+		const url = `${this.domain}/upload/${fileName}`;
+		return {
+			url,
+			preview:
+				[
+					'.jpg',
+					'.png',
+					'.gif',
+					'.pdf',
+					'.txt',
+					'.html',
+					'.htm',
+				].indexOf(ext) >= 0
+					? url
+					: '',
+			download: url,
+		};
+	}
+
+	getVideoResult(filePath, fileName, sourceName) {
+		const { app } = this;
+		const url = `${this.domain}/upload/${fileName}`;
+		return new Promise((resolve, reject) => {
+			const result = {
+				url,
+				download: url,
+				name: sourceName,
+			};
+			try {
+				const platform = os.platform();
+				const osDir = platform === 'linux' ? 'linux' : 'win';
+				ffmpeg.setFfmpegPath(
+					path.join(
 						app.baseDir,
-						`./app/ffmpeg/${osDir}/ffprobe${
+						`./app/ffmpeg/${osDir}/ffmpeg${
 							osDir === 'win' ? '.exe' : ''
 						}`,
-					);
-					ffmpeg.setFfprobePath(probePath);
-					ffmpeg.ffprobe(filePath, (err, metadata) => {
-						const fileName = new Date().getTime() + '-v-image.png'; // stream对象也包含了文件名，大小等基本信息
-
-						// 创建文件写入路径
-						const imagePath = path.join(
-							app.baseDir,
-							`/app/public/upload/${fileName}`,
-						);
-
-						if (err) {
-							console.error(err);
-							reject(err);
-							return;
-						} else {
-							const { width, height } = metadata.streams[0];
-							result.width = width;
-							result.height = height;
-							ffmpeg(filePath)
-								.screenshots({
-									timestamps: ['50%'],
-									filename: fileName,
-									folder: path.join(
-										app.baseDir,
-										'/app/public/upload',
-									),
-								})
-								.on('end', () => {
-									result.cover = `${this.domain}/upload/${fileName}`;
-									resolve(result);
-								});
-						}
-					});
-				} catch (err) {
-					console.error(err);
-					result.message = err.message;
-					resolve(result);
-				}
+					),
+				);
+				const probePath = path.join(
+					app.baseDir,
+					`./app/ffmpeg/${osDir}/ffprobe${
+						osDir === 'win' ? '.exe' : ''
+					}`,
+				);
+				ffmpeg.setFfprobePath(probePath);
+				ffmpeg.ffprobe(filePath, (err, metadata) => {
+					const fileName = new Date().getTime() + '-v-image.png'; // stream对象也包含了文件名，大小等基本信息
+
+					if (err) {
+						console.error(err);
+						reject(err);
+						return;
+					} else {
+						const { width, height } = metadata.streams[0];
+						result.width = width;
+						result.height = height;
+						ffmpeg(filePath)
+							.screenshots({
+								timestamps: ['50%'],
+								filename: fileName,
+								folder: path.join(
+									app.baseDir,
+									'/app/public/upload',
+								),
+							})
+							.on('end', () => {
+								result.cover = `${this.domain}/upload/${fileName}`;
+								resolve(result);
+							});
+					}
+				});
+			} catch (err) {
+				console.error(err);
+				result.message = err.message;
+				resolve(result);
+			}
+		});
+	}
+
+	/**
+	 * 读取没有文件的 multipart 请求中的字段
+	 */
+	async getFields() {
+		const parts = this.ctx.multipart({ autoFields: true });
+		let part;
+		while ((part = await parts()) != null) {
+			await sendToWormhole(part);
+		}
+		return parts.field;
+	}
+
+	/**
+	 * 分片上传的类型和分片存放目录，uploadId 由类型和文件标识生成，同一个文件再次上传时可以续传
+	 */
+	getChunkDir(uploadId) {
+		const { ctx, app } = this;
+		const { type } = ctx.params;
+		if (['file', 'video'].indexOf(type) < 0) ctx.throw(404);
+		if (!/^[a-f0-9]{32}$/.test(uploadId || ''))
+			ctx.throw(400, 'uploadId is invalid');
+		return path.join(app.baseDir, `/app/public/upload/chunks/${uploadId}`);
+	}
+
+	async chunkInit() {
+		const { ctx } = this;
+		const { identifier, name, size, total } = await this.getFields();
+		if (!identifier || !name) ctx.throw(400, 'identifier is required');
+		const uploadId = crypto
+			.createHash('md5')
+			.update(`${ctx.params.type}-${identifier}`)
+			.digest('hex');
+		const chunkDir = this.getChunkDir(uploadId);
+		await fs.promises.mkdir(chunkDir, { recursive: true });
+		await fs.promises.writeFile(
+			path.join(chunkDir, 'meta.json'),
+			JSON.stringify({ name, size, total }),
+		);
+		//已经上传完成的分片，未写完的分片以 .part 结尾
+		const uploaded = (await fs.promises.readdir(chunkDir))
+			.filter((name) => /^\d+$/.test(name))
+			.map((name) => parseInt(name, 10));
+		ctx.body = { code: 200, message: '', data: { uploadId, uploaded } };
+	}
+
+	async chunk() {
+		const { ctx } = this;
+		const stream = await ctx.getFileStream();
+		const { uploadId, index } = stream.fields;
+		if (!/^\d+$/.test(index || '')) {
+			await sendToWormhole(stream);
+			ctx.throw(400, 'index is invalid');
+		}
+		let chunkDir;
+		try {
+			chunkDir = this.getChunkDir(uploadId);
+			await fs.promises.access(chunkDir);
+		} catch (err) {
+			await sendToWormhole(stream);
+			throw err;
+		}
+		const chunkPath = path.join(chunkDir, index);
+		await new Promise((resolve, reject) => {
+			const partStream = fs.createWriteStream(`${chunkPath}.part`);
+			stream.pipe(partStream);
+			partStream.on('error', (err) => {
+				sendToWormhole(stream);
+				partStream.destroy();
+				reject(err);
 			});
+			partStream.on('finish', resolve);
 		});
+		//写完后再改名，中断的分片不会被当作已上传
+		await fs.promises.rename(`${chunkPath}.part`, chunkPath);
+		ctx.body = { code: 200, message: '', data: { index: Number(index) } };
+	}
+
+	async chunkComplete() {
+		const { ctx, app } = this;
+		const { uploadId } = await this.getFields();
+		const chunkDir = this.getChunkDir(uploadId);
+		const meta = JSON.parse(
+			await fs.promises.readFile(
+				path.join(chunkDir, 'meta.json'),
+				'utf8',
+			),
+		);
+		const total = Number(meta.total);
+		const sourceName = meta.name;
+		const ext = sourceName.substr(sourceName.lastIndexOf('.'));
+		const { type } = ctx.params;
+		const fileName = new Date().getTime() + '-' + type + ext;
+		const filePath = path.join(
+			app.baseDir,
+			`/app/public/upload/${fileName}`,
+		);
+		//按顺序合并分片
+		const fileStream = fs.createWriteStream(filePath);
+		for (let index = 0; index < total; index++) {
+			const chunkPath = path.join(chunkDir, index.toString());
+			if (!fs.existsSync(chunkPath)) {
+				fileStream.destroy();
+				await fs.promises.unlink(filePath);
+				ctx.throw(400, `chunk ${index} is missing`);
+			}
+			await new Promise((resolve, reject) => {
+				const chunkStream = fs.createReadStream(chunkPath);
+				chunkStream.pipe(fileStream, { end: false });
+				chunkStream.on('end', resolve);
+				chunkStream.on('error', reject);
+			});
+		}
+		await new Promise((resolve) => fileStream.end(resolve));
+		await fs.promises.rmdir(chunkDir, { recursive: true });
 
+		const result =
+			type === 'video'
+				? await this.getVideoResult(filePath, fileName, sourceName)
+				: this.getFileResult(fileName, ext);
 		ctx.body = { code: 200, message: '', data: result };
 	}
 
@@ -9,6 +9,9 @@ module.exports = (app) => {
 	router.post('/upload/file', controller.upload.file);
 	router.post('/upload/video', controller.upload.video);
 	router.get('/upload/video-query', controller.upload.videoQuery);
+	router.post('/upload/:type/init', controller.upload.chunkInit);
+	router.post('/upload/:type/chunk', controller.upload.chunk);
+	router.post('/upload/:type/complete', controller.upload.chunkComplete);
 	router.post('/doc/content', controller.doc.content);
 	router.post('/comment/add', controller.comment.add);
 	router.post('/comment/remove', controller.comment.remove);
@@ -100,6 +100,7 @@ export default (opts: {
 					'/plugin/plugin-sup',
 					'/plugin/plugin-table',
 					'/plugin/plugin-tasklist',
+					'/plugin/plugin-toc',
 					'/plugin/plugin-underline',
 					'/plugin/plugin-undo',
 					'/plugin/plugin-unorderedlist',
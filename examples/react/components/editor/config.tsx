@@ -53,6 +53,12 @@ import RemoveFormat from '@aomao/plugin-removeformat';
 // import type { RemoveformatOptions } from '@aomao/plugin-removeformat';
 import SelectAll from '@aomao/plugin-selectall';
 // import type { SelectAllOptions } from '@aomao/plugin-selectall';
+import BlockHandle from '@aomao/plugin-block-handle';
+// import type { BlockHandleOptions } from '@aomao/plugin-block-handle';
+import Convert from '@aomao/plugin-convert';
+// import type { ConvertOptions } from '@aomao/plugin-convert';
+import Toc, { TocComponent } from '@aomao/plugin-toc';
+// import type { TocOptions } from '@aomao/plugin-toc';
 import Link from '@aomao/plugin-link';
 // import type { LinkOptions } from '@aomao/plugin-link';
 import Codeblock, { CodeBlockComponent } from '@aomao/plugin-codeblock';
@@ -126,6 +132,9 @@ export const plugins: Array<PluginEntry> = [
 	PaintFormat,
 	RemoveFormat,
 	SelectAll,
+	BlockHandle,
+	Convert,
+	Toc,
 	Link,
 	Codeblock,
 	Image,
@@ -168,6 +177,7 @@ export const cards: CardEntry[] = [
 	MulitCodeblockComponent,
 	TagComponent,
 	MermaidComponent,
+	TocComponent,
 ];
 
 export const tableOptions: TableOptions = {
@@ -217,6 +227,7 @@ export const imageUploaderOptions: ImageUploaderOptions = {
 	file: {
 		action: '/api/upload/image',
 		headers: { Authorization: '213434' },
+		process: true,
 	},
 	remote: {
 		action: '/api/upload/image',
@@ -226,6 +237,7 @@ export const imageUploaderOptions: ImageUploaderOptions = {
 
 export const fileOptions: FileOptions = {
 	action: '/api/upload/file',
+	chunk: true,
 };
 
 export const videoOptions: VideoOptions = {
@@ -238,6 +250,7 @@ export const videoOptions: VideoOptions = {
 export const videoUploaderOptions: VideoUploaderOptions = {
 	action: '/api/upload/video',
 	limitSize: 1024 * 1024 * 50,
+	chunk: true,
 };
 
 export const mathOptions: MathOptions = {
@@ -27,7 +27,7 @@ import { Collaboration } from './collaborators';
 import { IS_DEV } from '../../config';
 import Loading from '../loading';
 import CommentLayer, { CommentRef } from '../comment';
-import Toc from '../toc';
+import { Toc } from '@aomao/plugin-toc';
 import { cards, pluginConfig, plugins } from './config';
 import Toolbar, { ToolbarItemProps } from './toolbar';
 import './index.less';
@@ -443,7 +443,7 @@ const EditorComponent: React.FC<EditorProps> = ({
 						)}
 					</div>
 					{engine.current && !isMobile && props.toc && (
-						<Toc editor={engine.current} />
+						<Toc editor={engine.current} className="editor-toc" />
 					)}
 				</div>
 			</>
@@ -85,7 +85,7 @@ const defaultItems = (): ToolbarItemProps => {
 		: [
 				['collapse'],
 				['undo', 'redo', 'paintformat', 'removeformat'],
-				['heading', 'fontfamily', 'fontsize'],
+				['heading', 'convert', 'fontfamily', 'fontsize'],
 				['bold', 'italic', 'strikethrough', 'underline', 'moremark'],
 				['fontcolor', 'backcolor'],
 				['alignment'],
@@ -7,6 +7,7 @@ import {
 	DATA_ID,
 	READY_CARD_KEY,
 	ROOT_SELECTOR,
+	UI,
 } from '../constants';
 import Range from '../range';
 import {
@@ -14,19 +15,29 @@ import {
 	NodeInterface,
 	RangeInterface,
 	PluginEntry,
+	CardEntry,
 } from '../types';
-import { BlockInterface, BlockModelInterface } from '../types/block';
+import {
+	BlockConvertOptions,
+	BlockInterface,
+	BlockModelInterface,
+} from '../types/block';
 import {
 	convertMarkdown,
 	createMarkdownIt,
 	getDocument,
 	isEngine,
+	transformCustomTags,
 } from '../utils';
 import { Backspace, Enter } from './typing';
 import { $ } from '../node';
-import { isBlockPlugin } from '../plugin';
+import { isBlockPlugin, ListPlugin } from '../plugin';
 import { isNode } from '../node/utils';
 import { CardType } from '../card/enum';
+import Parser from '../parser';
+
+// 可以转换的 block 节点，卡片和自定义列表根据卡片名称判断
+const CONVERT_TAGS = /^(p|h[1-6]|blockquote|ul|ol)$/;
 
 class Block implements BlockModelInterface {
 	private editor: EditorInterface;
@@ -1338,5 +1349,264 @@ class Block implements BlockModelInterface {
 			this.split();
 		}
 	}
+	/**
+	 * 把一级节点移动到另一个一级节点的前面或者后面
+	 * @param block 需要移动的节点
+	 * @param target 目标节点
+	 * @param position 放在目标节点的前面或者后面，默认后面
+	 */
+	move(
+		block: NodeInterface,
+		target: NodeInterface,
+		position: 'before' | 'after' = 'after',
+	) {
+		const editor = this.editor;
+		if (!isEngine(editor) || block.equal(target)) return;
+		const { change, card } = editor;
+		const range = change.range.get();
+		const component = card.find(block);
+		// 卡片和拖放卡片一样，移除后在目标位置重新插入。先放一个空段落占位，卡片插入到空段落中
+		if (component && component.root.equal(block)) {
+			const cardName = (component.constructor as CardEntry).cardName;
+			const value = component.getValue();
+			const placeholder = $('<p><br /></p>');
+			if (position === 'before') target.before(placeholder);
+			else target.after(placeholder);
+			card.remove(component.root);
+			range.select(placeholder, true).collapse(true);
+			change.range.select(range);
+			card.insert(cardName, value);
+			return;
+		}
+		// 光标在卡片中或者不在编辑器中时不需要保留光标位置
+		const selection =
+			!range.inCard() &&
+			editor.container.contains(range.commonAncestorContainer)
+				? range.createSelection()
+				: undefined;
+		if (position === 'before') target.before(block);
+		else target.after(block);
+		if (selection) {
+			selection.move();
+			change.apply(range);
+		} else change.change();
+	}
+
+	/**
+	 * 获取光标所在的一级节点，光标在卡片的可编辑区域中时获取可编辑区域中的一级节点
+	 * @param range 光标
+	 */
+	private getConvertBlocks(range: RangeInterface) {
+		const getTop = (node: NodeInterface, offset: number) => {
+			if (node.isEditable()) return node.children().eq(offset);
+			let top: NodeInterface | undefined = node;
+			while (top?.parent() && !top.parent()!.isEditable())
+				top = top.parent();
+			return top;
+		};
+		const start = getTop(range.startNode, range.startOffset);
+		let end = range.collapsed
+			? start
+			: getTop(range.endNode, Math.max(range.endOffset - 1, 0));
+		if (!start) return [];
+		if (!end || !end.parent()?.equal(start.parent()!)) end = start;
+		const blocks: Array<NodeInterface> = [];
+		let node: NodeInterface | undefined = start;
+		while (node) {
+			if (node.isElement() && node.attributes(DATA_ELEMENT) !== UI)
+				blocks.push(node);
+			if (node.equal(end)) break;
+			node = node.next() || undefined;
+		}
+		return blocks;
+	}
+
+	private getBlockTarget(block: NodeInterface) {
+		if (block.isCard()) return block.attributes(CARD_KEY);
+		// 自定义列表返回列表项中的卡片名称
+		if (this.editor.node.isCustomize(block))
+			return block.first()?.first()?.attributes(CARD_KEY) || block.name;
+		return block.name;
+	}
+
+	/**
+	 * 把节点拆分为段落，列表项、引用中的节点以及卡片中的内容都转换为段落
+	 * @param block 节点
+	 * @returns 段落和不能转换的节点
+	 */
+	private toParagraphs(block: NodeInterface): Array<NodeInterface> {
+		const { card, node } = this.editor;
+		const flat = (blocks: Array<NodeInterface>) =>
+			blocks.reduce<Array<NodeInterface>>(
+				(items, child) => items.concat(this.toParagraphs(child)),
+				[],
+			);
+		if (block.isCard()) {
+			const component = card.find(block);
+			const entry = component?.constructor as CardEntry | undefined;
+			if (!component || !entry?.toBlocks) return [block];
+			const container = $(
+				`<div>${transformCustomTags(
+					entry.toBlocks(component.getValue()),
+				)}</div>`,
+			);
+			const children = container
+				.children()
+				.toArray()
+				.filter((child) => child.isElement());
+			children.forEach((child) => block.before(child));
+			card.removeNode(component);
+			return flat(children);
+		}
+		if (node.isList(block)) {
+			const paragraphs = block
+				.children()
+				.toArray()
+				.filter((child) => child.name === 'li')
+				.map((item) => {
+					const paragraph = node.replace(item, $('<p />'));
+					block.before(paragraph);
+					return paragraph;
+				});
+			block.remove();
+			return paragraphs;
+		}
+		const children = block
+			.children()
+			.toArray()
+			.filter(
+				(child) =>
+					child.isElement() && child.attributes(DATA_ELEMENT) !== UI,
+			);
+		// 引用这类包含 block 节点的节点，拆分出里面的节点
+		if (
+			children.length > 0 &&
+			children.every((child) => node.isBlock(child) && !child.isCard())
+		) {
+			children.forEach((child) => block.before(child));
+			block.remove();
+			return flat(children);
+		}
+		if (!node.isBlock(block)) return [block];
+		return [block.name === 'p' ? block : node.replace(block, $('<p />'))];
+	}
+
+	/**
+	 * 把选中的一级节点转换为其它类型，尽量保留节点中的文本样式
+	 * @param target 转换的目标：p、h1-h6、blockquote、ul、ol、自定义列表的卡片名称（如任务列表的 checkbox）或者 block 卡片名称
+	 * @param options 可选项
+	 */
+	convert(target: string, options: BlockConvertOptions = {}) {
+		const editor = this.editor;
+		if (!isEngine(editor)) return;
+		const { change, card, list, node, schema, conversion } = editor;
+		const range = options.range || change.range.get();
+		const blocks = this.getConvertBlocks(range);
+		if (blocks.length === 0) return;
+		const entry = card.classes[target] as CardEntry | undefined;
+		const toCard = entry?.cardType === CardType.BLOCK;
+		// 只有列表插件注册的自定义列表卡片，例如任务列表的 checkbox，才能转换为自定义列表
+		const toCustomize =
+			entry?.cardType === CardType.INLINE &&
+			Object.values(editor.plugin.components).some(
+				(plugin) =>
+					plugin instanceof ListPlugin && plugin.cardName === target,
+			);
+		if (
+			toCard
+				? !entry?.fromBlocks
+				: !toCustomize && !CONVERT_TAGS.test(target)
+		)
+			return;
+		if (blocks.every((block) => this.getBlockTarget(block) === target))
+			return;
+		const items = blocks.reduce<Array<NodeInterface>>(
+			(items, block) => items.concat(this.toParagraphs(block)),
+			[],
+		);
+		// 相邻的段落作为一组转换，不能转换的节点保持不变
+		const groups: Array<Array<NodeInterface>> = [];
+		items.forEach((item, index) => {
+			if (item.name !== 'p') return;
+			if (index > 0 && items[index - 1].name === 'p')
+				groups[groups.length - 1].push(item);
+			else groups.push([item]);
+		});
+		const results: Array<NodeInterface> = [];
+		groups.forEach((paragraphs) => {
+			if (toCard) {
+				const value = entry!.fromBlocks!(
+					paragraphs.map((paragraph) => {
+						const container = $('<div></div>');
+						container.append(paragraph.clone(true));
+						return {
+							html: new Parser(container, editor).toValue(
+								schema,
+								conversion,
+								false,
+								false,
+							),
+							text: paragraph.text(),
+						};
+					}),
+				);
+				// 卡片插入到空段落中
+				const placeholder = $('<p><br /></p>');
+				paragraphs[0].before(placeholder);
+				paragraphs.forEach((paragraph) => paragraph.remove());
+				change.range.select(
+					range.select(placeholder, true).collapse(true),
+				);
+				card.insert(target, { ...value, ...options.value });
+			} else if (target === 'blockquote') {
+				const quote = $('<blockquote />');
+				paragraphs[0].before(quote);
+				paragraphs.forEach((paragraph) => quote.append(paragraph));
+				results.push(quote);
+			} else if (target === 'ul' || target === 'ol' || toCustomize) {
+				const root = $(`<${target === 'ol' ? 'ol' : 'ul'} />`);
+				if (toCustomize) root.addClass(list.CUSTOMZIE_UL_CLASS);
+				paragraphs[0].before(root);
+				paragraphs.forEach((paragraph) => {
+					const item = node.replace(paragraph, $('<li />'));
+					root.append(item);
+					if (toCustomize) {
+						item.addClass(list.CUSTOMZIE_LI_CLASS);
+						list.addCardToCustomize(item, target, options.value);
+					}
+				});
+				results.push(root);
+			} else if (target !== 'p') {
+				paragraphs.forEach((paragraph) =>
+					results.push(node.replace(paragraph, $(`<${target} />`))),
+				);
+			} else results.push(...paragraphs);
+		});
+		// 卡片转换出来的内容中可能有待渲染的卡片
+		card.render();
+		if (results.length === 0) return;
+		// 选中转换后的节点，和前后相同的列表合并
+		const first = results[0];
+		const last = results[results.length - 1];
+		range.setStart(first, 0);
+		range.setEnd(last, last.children().length);
+		range.shrinkToTextNode();
+		const selection = range.createSelection();
+		list.merge(
+			results.filter((result) => node.isList(result)),
+			range,
+		);
+		selection.move();
+		change.apply(range);
+	}
+
+	getConvertTarget(range?: RangeInterface) {
+		const editor = this.editor;
+		if (!isEngine(editor)) return;
+		const block = this.getConvertBlocks(
+			range || editor.change.range.get(),
+		)[0];
+		return block ? this.getBlockTarget(block) : undefined;
+	}
 }
 export default Block;
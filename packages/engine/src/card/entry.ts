@@ -28,6 +28,7 @@ import Maximize from './maximize';
 import Resize from './resize';
 import Toolbar from './toolbar';
 import { $ } from '../node';
+import type { Element as ModelElement, MarkdownContext } from '../model';
 import { CardType, SelectStyleType } from './enum';
 import { DATA_ELEMENT, UI } from '../constants';
 
@@ -448,6 +449,8 @@ abstract class CardEntry<T extends CardValue = CardValue>
 
 	queryMarks?(): NodeInterface[];
 
+	toMarkdown?(node: ModelElement, context: MarkdownContext): string | void;
+
 	destroy() {
 		this.toolbarModel?.hide();
 		this.toolbarModel?.destroy();
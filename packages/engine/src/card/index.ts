@@ -809,7 +809,10 @@ class CardModel implements CardModelInterface {
 	renderComponent(card: CardInterface, ...args: any) {
 		const editor = this.editor;
 		const center = card.getCenter();
-		const result = card.render(...args);
+		const result =
+			!isEngine(editor) && card.renderReader
+				? card.renderReader(...args)
+				: card.render(...args);
 		if (result !== undefined) {
 			center.append(typeof result === 'string' ? $(result) : result);
 		}
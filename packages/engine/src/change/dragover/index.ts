@@ -2,8 +2,10 @@ import { RangeInterface } from '../../types/range';
 import Range from '../../range';
 import { EngineInterface } from '../../types/engine';
 import { CardInterface } from '../../types/card';
-import { DragoverOptions } from '../../types/change';
+import { DragoverOptions, DropBlockTarget } from '../../types/change';
+import { NodeInterface } from '../../types/node';
 import { $ } from '../../node';
+import { DATA_ELEMENT, UI } from '../../constants/root';
 import './index.css';
 
 class DragoverHelper {
@@ -169,6 +171,48 @@ class DragoverHelper {
 		};
 	}
 
+	/**
+	 * 拖动一级节点时，以鼠标所在节点的垂直中线为界，放到节点的前面或者后面
+	 * @param block 正在拖动的节点
+	 */
+	getBlockTarget(block: NodeInterface): DropBlockTarget | undefined {
+		const { y } = this;
+		let target: DropBlockTarget | undefined;
+		this.engine.container.children().each((child) => {
+			if (
+				child.nodeType !== Node.ELEMENT_NODE ||
+				(child as Element).getAttribute(DATA_ELEMENT) === UI
+			)
+				return;
+			const { top, bottom } = (child as Element).getBoundingClientRect();
+			if (y < (top + bottom) / 2) {
+				target = { node: $(child), position: 'before' };
+				return false;
+			}
+			target = { node: $(child), position: 'after' };
+			return;
+		});
+		if (target && target.node.equal(block)) return;
+		return target;
+	}
+
+	/**
+	 * 获取拖动一级节点时的光标位置，在目标节点的上边或者下边画一条横线
+	 * @param target 放置的位置
+	 * @param height 光标高度，默认为2
+	 */
+	getBlockRect(target: DropBlockTarget, height: number = 2) {
+		const { left, top, bottom, width } = target.node
+			.get<Element>()!
+			.getBoundingClientRect();
+		return {
+			x: left,
+			y: (target.position === 'before' ? top : bottom) - height / 2,
+			width,
+			height,
+		};
+	}
+
 	getCursor() {
 		const { className } = this.options;
 		return $(`body > div.${className}`);
@@ -1,14 +1,18 @@
 import DragoverHelper from './dragover';
 import { EventListener, NodeInterface } from '../types/node';
 import isHotkey from 'is-hotkey';
-import { ChangeEventInterface, ChangeEventOptions } from '../types/change';
+import {
+	ChangeEventInterface,
+	ChangeEventOptions,
+	DropBlockTarget,
+} from '../types/change';
 import { CardInterface } from '../types/card';
 import { EngineInterface } from '../types/engine';
 import { RangeInterface } from '../types/range';
 import Range from '../range';
 import { CARD_CENTER_SELECTOR, CARD_ELEMENT_KEY } from '../constants/card';
 import { ClipboardData } from '../types/clipboard';
-import { DATA_ELEMENT, UI } from '../constants';
+import { DATA_ELEMENT, DATA_ID, UI } from '../constants';
 import { $ } from '../node';
 import { isAndroid, isMobile, isSafari } from '../utils';
 import { isBlockCard, isCard, isEditable, isRoot } from '../node/utils';
@@ -462,20 +466,40 @@ class ChangeEvent implements ChangeEventInterface {
 			event: DragEvent;
 			range?: RangeInterface;
 			card?: CardInterface;
+			block?: NodeInterface;
+			target?: DropBlockTarget;
 			files: Array<File>;
 		}) => void,
 	) {
 		const { bindDrop } = this.options;
 		if (bindDrop && !bindDrop()) return;
 		let cardComponet: CardInterface | undefined;
+		let dragBlock: NodeInterface | undefined;
 		let dragImage: NodeInterface | undefined;
 		let dropRange: RangeInterface | undefined;
+		let dropTarget: DropBlockTarget | undefined;
 
 		const dragStart = (e: DragEvent) => {
 			if (!e.target || this.engine.readonly) return;
 			e.stopPropagation();
 			this.dragoverHelper.setCursor();
 			const targetNode = $(e.target);
+			// 拖动一级节点
+			const dragBlockTrigger =
+				targetNode.attributes('drag-block-trigger');
+			if (dragBlockTrigger) {
+				const block = this.engine.container
+					.children()
+					.toArray()
+					.find(
+						(child) =>
+							child.attributes(DATA_ID) === dragBlockTrigger,
+					);
+				if (!block) return;
+				dragBlock = block;
+				e.dataTransfer?.setDragImage(block.get<Element>()!, 0, 0);
+				return;
+			}
 			// 拖动Card
 			const dragCardTrigger = targetNode.attributes('drag-card-trigger');
 			cardComponet = this.engine.card.find(
@@ -517,6 +541,22 @@ class ChangeEvent implements ChangeEventInterface {
 			const cursor = dragoverHelper.getCursor();
 			if (cursor.length !== 0) {
 				dragoverHelper.parseEvent(e);
+				if (dragBlock) {
+					dropTarget = dragoverHelper.getBlockTarget(dragBlock);
+					if (!dropTarget) {
+						cursor.css('display', 'none');
+						return;
+					}
+					const rect = dragoverHelper.getBlockRect(dropTarget);
+					cursor.css({
+						display: 'block',
+						width: rect.width + 'px',
+						height: rect.height + 'px',
+						top: Math.round(window.pageYOffset + rect.y) + 'px',
+						left: Math.round(window.pageXOffset + rect.x) + 'px',
+					});
+					return;
+				}
 				dropRange = dragoverHelper.getRange();
 				const rect = dragoverHelper.getRect();
 				cursor.css({
@@ -529,13 +569,18 @@ class ChangeEvent implements ChangeEventInterface {
 		this.onContainer('dragleave', () => {
 			this.dragoverHelper.removeCursor();
 		});
-		this.onContainer('dragend', () => {
+		const dragEnd = () => {
 			this.dragoverHelper.removeCursor();
+			dragBlock = undefined;
+			dropTarget = undefined;
 			if (dragImage) {
 				dragImage.remove();
 				dragImage = undefined;
 			}
-		});
+		};
+		// 拖动一级节点的把手在容器外面，拖动结束的事件不会经过容器
+		this.onRoot('dragend', dragEnd);
+		this.onContainer('dragend', dragEnd);
 		this.onContainer('drop', (e: DragEvent) => {
 			if (this.engine.readonly) return;
 			// 禁止拖图进浏览器，浏览器默认打开图片文件
@@ -575,10 +620,14 @@ class ChangeEvent implements ChangeEventInterface {
 				event: e,
 				range: dropRange,
 				card: cardComponet,
+				block: dragBlock,
+				target: dropTarget,
 				files,
 			};
 			callback(data);
 			cardComponet = undefined;
+			dragBlock = undefined;
+			dropTarget = undefined;
 		});
 	}
 
@@ -613,7 +613,13 @@ class NativeEvent {
 			return !range || card.closest(range.commonAncestorContainer);
 		};
 
-		change.event.onDrop(({ event, range, card, files }) => {
+		change.event.onDrop(({ event, range, card, block, target, files }) => {
+			if (block) {
+				event.preventDefault();
+				if (target)
+					this.engine.block.move(block, target.node, target.position);
+				return;
+			}
 			if (card) {
 				event.preventDefault();
 				if (canInsert(range)) return;
@@ -177,6 +177,12 @@ export default class Clipboard implements ClipboardInterface {
 		const root = range.commonAncestorNode;
 		const change = editor.change;
 		change.cacheRangeBeforeCommand();
+		// 建议模式下剪切的内容标记为删除
+		if (editor.suggestion.enabled) {
+			editor.suggestion.markDelete(range);
+			change.range.select(range.collapse(false));
+			return;
+		}
 		change.delete(range);
 		const listElements = editor.node.isList(root)
 			? root
@@ -0,0 +1,2 @@
+export const DIFF_KEY = 'data-diff';
+export const DIFF_FIELDS_KEY = 'data-diff-fields';
@@ -2,6 +2,8 @@ export * from './selection';
 export * from './card';
 export * from './root';
 export * from './ot';
+export * from './diff';
+export * from './suggestion';
 import Conversion from './conversion';
 import Schema from './schema';
 
@@ -0,0 +1,5 @@
+export const SUGGESTION_KEY = 'data-suggestion';
+export const SUGGESTION_ID = 'data-suggestion-id';
+export const SUGGESTION_AUTHOR = 'data-suggestion-author';
+export const SUGGESTION_TIME = 'data-suggestion-time';
+export const SUGGESTION_SELECTOR = `[${SUGGESTION_ID}]`;
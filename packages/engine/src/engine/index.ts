@@ -16,8 +16,16 @@ import Hotkey from '../hotkey';
 import { getDocument } from '../utils';
 import { ANCHOR, CURSOR, FOCUS } from '../constants/selection';
 import Parser from '../parser';
-import { TypingInterface } from '../types';
+import {
+	FindInterface,
+	SlashInterface,
+	SuggestionInterface,
+	TypingInterface,
+} from '../types';
 import Typing from '../typing';
+import Suggestion from '../suggestion';
+import Find from '../find';
+import Slash from '../slash';
 import Container, {
 	DATA_PLACEHOLDER,
 	DATA_PLACEHOLDER_CLASS,
@@ -42,6 +50,9 @@ class Engine<T extends EngineOptions = EngineOptions>
 	change: ChangeInterface;
 	history: HistoryInterface;
 	hotkey: HotkeyInterface;
+	suggestion: SuggestionInterface;
+	find: FindInterface;
+	slash: SlashInterface;
 
 	get readonly(): boolean {
 		return this._readonly;
@@ -102,6 +113,12 @@ class Engine<T extends EngineOptions = EngineOptions>
 		this.change.init();
 		// 事件处理
 		this.typing = new Typing(this);
+		// 建议模式
+		this.suggestion = new Suggestion(this);
+		// 查找替换
+		this.find = new Find(this);
+		// 斜杠菜单
+		this.slash = new Slash(this);
 		// 只读
 		this._readonly =
 			this.options.readonly === undefined ? false : this.options.readonly;
@@ -254,6 +271,10 @@ class Engine<T extends EngineOptions = EngineOptions>
 		return cloneDeep(this.model.root);
 	}
 
+	getMarkdown() {
+		return this.model.toMarkdown();
+	}
+
 	/**
 	 * @deprecated 请使用 model.toText 性能更好
 	 */
@@ -324,8 +345,10 @@ class Engine<T extends EngineOptions = EngineOptions>
 		this.change.destroy();
 		this.hotkey.destroy();
 		this.typing.destroy();
+		this.suggestion.destroy();
+		this.find.destroy();
 		this.model.destroy();
-		this.history.reset();
+		this.history.destroy();
 		super.destroy();
 	}
 }
@@ -0,0 +1,423 @@
+import { $ } from './node';
+import { TinyCanvas } from './utils';
+import Range from './range';
+import { CARD_SELECTOR, EDITABLE_SELECTOR } from './constants';
+import { CardInterface } from './types/card';
+import { EngineInterface } from './types/engine';
+import { FindInterface, FindMatch, FindOptions } from './types/find';
+import { NodeInterface } from './types/node';
+import { RangeInterface } from './types/range';
+import { TinyCanvasInterface } from './types/tiny-canvas';
+
+type Point = { node: Text; offset: number };
+
+/**
+ * 一段连续的文本，块级节点、换行和卡片都会把文本分成不同的段，查找不会跨段匹配
+ */
+type Segment = {
+	points: Array<Point>;
+	card?: CardInterface;
+};
+
+type Match = FindMatch & {
+	points: Array<Point>;
+	// 所在文本段的内容和匹配的位置，正则替换时需要原来的上下文
+	input: string;
+	index: number;
+	// 卡片通过 getSearchNodes 提供的文本，需要卡片自己替换
+	custom: boolean;
+};
+
+const FIND_CLASS = 'am-engine-find';
+const MATCH_FILL = 'rgba(255, 198, 10, 0.35)';
+const CURRENT_FILL = 'rgba(255, 140, 0, 0.6)';
+
+const escapeRegExp = (text: string) =>
+	text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 查找替换，在所有文本节点以及卡片的编辑区域中查找，使用画布高亮查找结果，不会修改文档
+ */
+class Find implements FindInterface {
+	private engine: EngineInterface;
+	private _query: string = '';
+	private _options: FindOptions = {};
+	private _matches: Array<Match> = [];
+	private _index: number = -1;
+	private pattern?: RegExp;
+	private overlay?: NodeInterface;
+	private canvas?: TinyCanvasInterface;
+
+	constructor(engine: EngineInterface) {
+		this.engine = engine;
+		engine.on('change', this.onChange);
+	}
+
+	get query() {
+		return this._query;
+	}
+
+	get options() {
+		return { ...this._options };
+	}
+
+	get matches(): Array<FindMatch> {
+		return this._matches.map(({ text, range, card }) => ({
+			text,
+			range,
+			card,
+		}));
+	}
+
+	get index() {
+		return this._index;
+	}
+
+	/**
+	 * 按文档顺序收集所有可以查找的文本段
+	 */
+	private getSegments() {
+		const { container, card, node } = this.engine;
+		const includeCards = this._options.includeCards !== false;
+		const segments: Array<Segment> = [];
+		let points: Array<Point> = [];
+		let owner: CardInterface | undefined;
+		const flush = () => {
+			if (points.length > 0) segments.push({ points, card: owner });
+			points = [];
+		};
+		const walk = (root: Node) => {
+			root.childNodes.forEach((child) => {
+				if (child.nodeType === Node.TEXT_NODE) {
+					const text = child as Text;
+					for (let offset = 0; offset < text.data.length; offset++) {
+						if (text.data[offset] !== '\u200b')
+							points.push({ node: text, offset });
+					}
+					return;
+				}
+				if (child.nodeType !== Node.ELEMENT_NODE) return;
+				const element = $(child);
+				if (element.isCard()) {
+					flush();
+					const component = includeCards
+						? card.find(element)
+						: undefined;
+					if (!component) return;
+					const roots =
+						component.getSearchNodes?.() ??
+						(component.isEditable
+							? component.root
+									.find(EDITABLE_SELECTOR)
+									.toArray()
+									.filter((area) =>
+										area
+											.closest(CARD_SELECTOR)
+											.equal(component.root),
+									)
+							: []);
+					const parent = owner;
+					owner = component;
+					roots.forEach((root) => {
+						walk(root[0]);
+						flush();
+					});
+					owner = parent;
+					return;
+				}
+				const isBreak = node.isBlock(element) || element.name === 'br';
+				if (isBreak) flush();
+				walk(child);
+				if (isBreak) flush();
+			});
+		};
+		walk(container[0]);
+		flush();
+		return segments;
+	}
+
+	private createPattern(query: string, options: FindOptions) {
+		let source = options.regex ? query : escapeRegExp(query);
+		if (options.wholeWord) source = `(?<!\\w)(?:${source})(?!\\w)`;
+		return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+	}
+
+	private update() {
+		const pattern = this.pattern;
+		const matches: Array<Match> = [];
+		if (pattern) {
+			this.getSegments().forEach(({ points, card }) => {
+				const text = points
+					.map(({ node, offset }) => node.data[offset])
+					.join('');
+				pattern.lastIndex = 0;
+				let result: RegExpExecArray | null;
+				while ((result = pattern.exec(text))) {
+					if (result[0].length === 0) {
+						pattern.lastIndex++;
+						continue;
+					}
+					const matchPoints = points.slice(
+						result.index,
+						result.index + result[0].length,
+					);
+					const start = matchPoints[0];
+					const end = matchPoints[matchPoints.length - 1];
+					const range = Range.create(this.engine);
+					range.setStart(start.node, start.offset);
+					range.setEnd(end.node, end.offset + 1);
+					matches.push({
+						text: result[0],
+						range,
+						card,
+						points: matchPoints,
+						input: text,
+						index: result.index,
+						custom: !!card?.getSearchNodes,
+					});
+				}
+			});
+		}
+		this._matches = matches;
+		this._index = Math.min(
+			Math.max(this._index, matches.length > 0 ? 0 : -1),
+			matches.length - 1,
+		);
+		this.draw();
+		this.engine.trigger('findChange', this.matches, this._index);
+	}
+
+	private draw() {
+		if (this._matches.length === 0) {
+			this.canvas?.clear();
+			return;
+		}
+		const { root, scrollNode } = this.engine;
+		const containerElement = scrollNode ?? root;
+		if (!this.overlay || !this.canvas) {
+			this.overlay = $(`<div class="${FIND_CLASS}" />`);
+			containerElement.append(this.overlay);
+			this.canvas = new TinyCanvas({
+				container: this.overlay.get<HTMLElement>()!,
+			});
+		}
+		const overlay = this.overlay;
+		const canvas = this.canvas;
+		canvas.resize(
+			containerElement.get<Element>()?.clientWidth ||
+				containerElement.width(),
+			root.height(),
+		);
+		canvas.clear();
+		const base = overlay.get<Element>()!.getBoundingClientRect();
+		this._matches.forEach(({ range }, index) => {
+			const fill = index === this._index ? CURRENT_FILL : MATCH_FILL;
+			Array.from(range.getClientRects()).forEach((rect) => {
+				const target = new DOMRect(
+					rect.left - base.left,
+					rect.top - base.top,
+					rect.width,
+					rect.height,
+				);
+				canvas.clearRect(target);
+				canvas.drawRect({ ...target.toJSON(), fill });
+			});
+		});
+	}
+
+	search(query: string, options: FindOptions = {}) {
+		// 先创建正则，不合法时保留之前的查找结果
+		const pattern = query ? this.createPattern(query, options) : undefined;
+		this._query = query;
+		this._options = { ...options };
+		this.pattern = pattern;
+		this._index = 0;
+		this.update();
+		return this._matches.length;
+	}
+
+	select(index: number) {
+		const match = this._matches[index];
+		if (!match) return;
+		this._index = index;
+		this.draw();
+		const { container, scrollNode } = this.engine;
+		if (scrollNode)
+			match.range.scrollIntoViewIfNeeded(container, scrollNode);
+		else match.range.scrollRangeIntoView();
+		this.engine.trigger('findChange', this.matches, index);
+		return this.matches[index];
+	}
+
+	next() {
+		const { length } = this._matches;
+		if (length === 0) return;
+		return this.select((this._index + 1) % length);
+	}
+
+	prev() {
+		const { length } = this._matches;
+		if (length === 0) return;
+		return this.select((this._index - 1 + length) % length);
+	}
+
+	/**
+	 * 计算查找结果的替换内容，正则查找时支持分组引用
+	 * 在原来的文本段中从匹配的位置替换，前后断言和 ^ $ 与查找时的结果一致
+	 */
+	private getReplacement(match: Match, text: string) {
+		if (!this._options.regex || !this.pattern) return text;
+		const { source, flags } = this.pattern;
+		const { input, index } = match;
+		const pattern = new RegExp(source, flags.replace('g', '') + 'y');
+		pattern.lastIndex = index;
+		const result = input.replace(pattern, text);
+		return result.slice(
+			index,
+			result.length - (input.length - index - match.text.length),
+		);
+	}
+
+	/**
+	 * 删除替换后为空的文本节点，以及只包含它的 mark、inline 节点
+	 */
+	private removeEmpty(text: Text) {
+		const { container, node } = this.engine;
+		let target: Node = text;
+		while (
+			target.parentNode &&
+			target.parentNode.childNodes.length === 1 &&
+			!container.equal(target.parentNode) &&
+			!node.isBlock(target.parentNode) &&
+			!$(target.parentNode).isEditable()
+		)
+			target = target.parentNode;
+		target.parentNode?.removeChild(target);
+	}
+
+	/**
+	 * 替换文本节点中的内容，从后往前逐个替换，前面的查找结果位置不受影响
+	 * 每个替换后立即处理变更记录，每次生成的文本操作只包含一处修改
+	 */
+	private replaceTexts(items: Array<{ match: Match; text: string }>) {
+		const { mutation } = this.engine.model;
+		for (let i = items.length - 1; i >= 0; i--) {
+			const { match, text } = items[i];
+			const edits: Array<{
+				node: Text;
+				start: number;
+				end: number;
+				text: string;
+			}> = [];
+			match.points.forEach(({ node, offset }) => {
+				const last = edits[edits.length - 1];
+				if (last && last.node === node) {
+					last.end = offset + 1;
+					return;
+				}
+				// 替换内容放在第一个文本节点中，保留它的样式
+				edits.push({
+					node,
+					start: offset,
+					end: offset + 1,
+					text: last ? '' : text,
+				});
+			});
+			edits.forEach(({ node, start, end, text }) => {
+				const data =
+					node.data.slice(0, start) + text + node.data.slice(end);
+				if (data) node.data = data;
+				else this.removeEmpty(node);
+			});
+			mutation.flush();
+		}
+	}
+
+	/**
+	 * 替换查找结果，所有替换作为一条历史记录
+	 */
+	private apply(matches: Array<Match>, text: string) {
+		const { history, language } = this.engine;
+		return history.transact(() => this.replaceMatches(matches, text), {
+			label: language.get<string>(
+				'history',
+				matches.length > 1 ? 'replaceAll' : 'replace',
+			),
+		});
+	}
+
+	private replaceMatches(matches: Array<Match>, text: string) {
+		const { container, change, block, node } = this.engine;
+		const blocks: Array<NodeInterface> = [];
+		const textItems: Array<{ match: Match; text: string }> = [];
+		const cardItems = new Map<
+			CardInterface,
+			Array<{ range: RangeInterface; text: string }>
+		>();
+		matches.forEach((match) => {
+			const value = this.getReplacement(match, text);
+			if (!match.custom) {
+				const parentBlock = block.closest($(match.points[0].node));
+				if (parentBlock.length > 0) blocks.push(parentBlock);
+				textItems.push({ match, text: value });
+			} else if (match.card?.replaceText) {
+				const items = cardItems.get(match.card) ?? [];
+				items.push({ range: match.range, text: value });
+				cardItems.set(match.card, items);
+			}
+		});
+		this.replaceTexts(textItems);
+		let count = textItems.length;
+		cardItems.forEach((items, component) => {
+			component.replaceText!(items);
+			count += items.length;
+		});
+		blocks.forEach((blockNode) => {
+			if (container.contains(blockNode) && node.isEmpty(blockNode))
+				blockNode.html('<br />');
+		});
+		change.combinText();
+		change.change();
+		this.update();
+		return count;
+	}
+
+	replace(text: string) {
+		const match = this._matches[this._index];
+		if (!match || this.engine.readonly) return;
+		// 替换后当前索引就是下一个查找结果
+		this.apply([match], text);
+	}
+
+	replaceAll(text: string) {
+		if (this._matches.length === 0 || this.engine.readonly) return 0;
+		return this.apply(this._matches, text);
+	}
+
+	clear() {
+		this._query = '';
+		this.pattern = undefined;
+		this._index = -1;
+		this.update();
+	}
+
+	refresh() {
+		this.draw();
+	}
+
+	onChange = () => {
+		if (this.pattern) this.update();
+	};
+
+	destroy() {
+		this.engine.off('change', this.onChange);
+		this.canvas?.destroy();
+		this.overlay?.remove();
+		this.canvas = undefined;
+		this.overlay = undefined;
+		this._matches = [];
+		this.pattern = undefined;
+	}
+}
+
+export default Find;
@@ -1,13 +1,27 @@
 import cloneDeep from 'lodash/cloneDeep';
 import debounce from 'lodash/debounce';
 import findLastIndex from 'lodash/findLastIndex';
-import { decodeCardValue, getDocument, random } from './utils';
-import { EngineInterface } from './types/engine';
-import { HirtoryOperation, HistoryInterface } from './types/history';
-import { $ } from './node';
-import { CARD_VALUE_KEY, DATA_ID, EDITABLE_SELECTOR } from './constants';
-import { isTransientElementCache, Operation } from './model';
-import { RangePath } from './types';
+import { decodeCardValue, getDocument, random } from '../utils';
+import { EngineInterface } from '../types/engine';
+import {
+	HirtoryOperation,
+	HistoryInterface,
+	HistoryPersistData,
+	HistoryStackItem,
+	HistoryTransactOptions,
+} from '../types/history';
+import { $ } from '../node';
+import { CARD_VALUE_KEY, DATA_ID, EDITABLE_SELECTOR } from '../constants';
+import { isTransientElementCache, Operation } from '../model';
+import { RangePath } from '../types';
+import {
+	getValueHash,
+	LocalStorageHistoryStorage,
+	IndexedDBHistoryStorage,
+} from './storage';
+
+// 序列化格式的版本，格式变化后丢弃之前保存的历史记录
+const PERSIST_VERSION = 1;
 
 const setRangeByPath = (
 	engine: EngineInterface,
@@ -24,14 +38,14 @@ const setRangeByPath = (
 			endClone.pop();
 			const { container, change } = engine;
 			const startChild = container.getChildByPath(
-						startClone,
-						(child) => !isTransientElementCache($(child)),
-				  );
+				startClone,
+				(child) => !isTransientElementCache($(child)),
+			);
 			if (!startChild) return;
 			const endChild = container.getChildByPath(
-						endClone,
-						(child) => !isTransientElementCache($(child)),
-				  );
+				endClone,
+				(child) => !isTransientElementCache($(child)),
+			);
 			if (!endChild) return;
 			const getMaxOffset = (node: Node, offset: number) => {
 				if (node.nodeType === getDocument().TEXT_NODE) {
@@ -115,9 +129,19 @@ class HistoryModel implements HistoryInterface {
 	) => Promise<boolean> | boolean | undefined)[] = [];
 	// 等待监听收集本地操作的回调
 	#selfWaiting?: Promise<boolean>;
+	// 批量操作嵌套的层数
+	#batchDepth: number = 0;
+	// 批量操作的历史记录名称
+	#batchLabel?: string;
 
 	constructor(engine: EngineInterface) {
 		this.engine = engine;
+		if (engine.options.history) {
+			engine.on('historyChange', this.lazyPersist);
+			engine.on('undo', this.lazyPersist);
+			engine.on('redo', this.lazyPersist);
+			window.addEventListener('pagehide', this.onPageHide);
+		}
 	}
 
 	resetCurrentAction() {
@@ -131,6 +155,17 @@ class HistoryModel implements HistoryInterface {
 		this.saveOp();
 	}, 200);
 
+	/**
+	 * 懒写入存储
+	 */
+	lazyPersist = debounce(() => {
+		this.persist();
+	}, 500);
+
+	onPageHide = () => {
+		this.lazyPersist.flush();
+	};
+
 	/**
 	 * 重置所有操作
 	 */
@@ -177,7 +212,7 @@ class HistoryModel implements HistoryInterface {
 	 * 执行撤销操作
 	 */
 	undo() {
-		this.saveOp();
+		this.save();
 		const undoOp = this.getUndoOp();
 		if (undoOp) {
 			let isUndo = false;
@@ -214,7 +249,7 @@ class HistoryModel implements HistoryInterface {
 	 * 执行重做操作
 	 */
 	redo() {
-		this.saveOp();
+		this.save();
 		const redoOp = this.getRedoOp();
 		if (redoOp) {
 			let isRedo = false;
@@ -252,11 +287,24 @@ class HistoryModel implements HistoryInterface {
 	 */
 	clear() {
 		setTimeout(() => {
+			// 设置内容产生的操作也一起丢弃
+			this.lazySave.cancel();
+			this.resetCurrentAction();
 			this.reset();
+			// 重新加载文档后恢复保存的历史记录
+			this.restore();
 		}, 10);
 	}
 
 	saveOp() {
+		if (this.#batchDepth > 0) return;
+		this.save();
+	}
+
+	/**
+	 * 保存当前操作，批量操作中也会保存
+	 */
+	private save() {
 		if (
 			this.currentAction &&
 			this.currentAction.ops &&
@@ -265,6 +313,9 @@ class HistoryModel implements HistoryInterface {
 			if (this.currentAction.self) {
 				this.currentAction.rangePath = this.getCurrentRangePath();
 				this.currentAction.id = random(8);
+				this.currentAction.time = Date.now();
+				if (this.#batchLabel)
+					this.currentAction.label = this.#batchLabel;
 				this.actionOps.splice(this.currentActionIndex);
 				this.actionOps.push(this.currentAction);
 				this.currentActionIndex = this.actionOps.length;
@@ -276,8 +327,65 @@ class HistoryModel implements HistoryInterface {
 		}
 	}
 
+	transact<T>(fn: () => T, options: HistoryTransactOptions = {}): T {
+		this.startBatch(options.label);
+		let result: T;
+		try {
+			result = fn();
+		} catch (error) {
+			this.endBatch();
+			throw error;
+		}
+		if (result instanceof Promise) {
+			return result.finally(() => this.endBatch()) as unknown as T;
+		}
+		this.endBatch();
+		return result;
+	}
+
+	startBatch(label?: string) {
+		if (this.#batchDepth === 0) {
+			// 之前的操作单独保存
+			this.engine.model.mutation.flush();
+			this.lazySave.cancel();
+			this.save();
+			this.engine.change.cacheRangeBeforeCommand();
+			this.#batchLabel = label;
+		} else if (!this.#batchLabel) {
+			this.#batchLabel = label;
+		}
+		this.#batchDepth++;
+	}
+
+	endBatch() {
+		if (this.#batchDepth === 0) return;
+		// 同步修改的 DOM 还没有回调，先转换为操作
+		this.engine.model.mutation.flush();
+		this.#batchDepth--;
+		if (this.#batchDepth > 0) return;
+		// 还在等待监听收集的结果时，由结果决定保存还是丢弃
+		if (this.#selfWaiting) {
+			if (this.#batchLabel) this.currentAction.label = this.#batchLabel;
+		} else this.save();
+		this.#batchLabel = undefined;
+	}
+
+	isBatching() {
+		return this.#batchDepth > 0;
+	}
+
+	getStack() {
+		const items: HistoryStackItem[] = this.actionOps.map((action) => ({
+			id: action.id || '',
+			label: action.label,
+			time: action.time || 0,
+			size: action.ops.length,
+		}));
+		return { items, index: this.currentActionIndex };
+	}
+
 	handleSelfOps(ops: Operation[]) {
-		if (!this.currentAction?.self) this.saveOp();
+		if (!this.currentAction?.self) this.save();
 		let isSave = false;
 		ops.forEach((op) => {
 			isSave = true;
@@ -301,7 +409,7 @@ class HistoryModel implements HistoryInterface {
 				}
 			}
 		});
-		// 监听收集
+		// 监听收集，批量操作中也要通知，保存由 saveOp 推迟到批量操作结束时
 		if (isSave) {
 			let callback: undefined | Promise<boolean> | boolean = undefined;
 			this.selfEvents.some((event) => {
@@ -326,7 +434,7 @@ class HistoryModel implements HistoryInterface {
 						}
 					})
 					.finally(() => (this.#selfWaiting = undefined));
-			} else if (callback === undefined) {
+			} else if (callback === undefined && this.#batchDepth === 0) {
 				this.lazySave();
 			}
 		}
@@ -385,7 +493,8 @@ class HistoryModel implements HistoryInterface {
 	};
 
 	handleRemoteOps(ops: Operation[]) {
-		if (this.currentAction.self && !this.#selfWaiting) this.saveOp();
+		// 批量操作中收到远程操作时，已经收集的操作先保存，避免和远程操作混在一起
+		if (this.currentAction.self && !this.#selfWaiting) this.save();
 		const range = this.engine.change.range.get();
 		this.actionOps.forEach((action) => {
 			if (action.rangePath) {
@@ -487,6 +596,8 @@ class HistoryModel implements HistoryInterface {
 				return false;
 			});
 		});
+		// 远程操作会修改或者移除历史记录，同步写入存储
+		this.lazyPersist();
 	}
 
 	getUndoOp(): HirtoryOperation | undefined {
@@ -511,6 +622,7 @@ class HistoryModel implements HistoryInterface {
 					type: 'undo',
 					rangePath: prevOp.rangePath,
 					startRangePath: prevOp.startRangePath,
+					label: prevOp.label,
 				};
 			} catch (error: any) {
 				this.engine.messageError('history-undo-op', error);
@@ -539,6 +651,7 @@ class HistoryModel implements HistoryInterface {
 					type: 'redo',
 					rangePath: currentOp.rangePath,
 					startRangePath: currentOp.startRangePath,
+					label: currentOp.label,
 				};
 			} catch (error: any) {
 				this.engine.messageError('history-redo-op', error);
@@ -547,6 +660,92 @@ class HistoryModel implements HistoryInterface {
 		return;
 	}
 
+	toJSON(): HistoryPersistData {
+		return {
+			version: PERSIST_VERSION,
+			hash: getValueHash(this.engine.model.toValue()),
+			index: this.currentActionIndex,
+			actions: cloneDeep(this.actionOps),
+		};
+	}
+
+	fromJSON(data: HistoryPersistData) {
+		if (
+			!data ||
+			data.version !== PERSIST_VERSION ||
+			!Array.isArray(data.actions) ||
+			data.hash !== getValueHash(this.engine.model.toValue())
+		)
+			return false;
+		this.actionOps = cloneDeep(data.actions);
+		this.currentActionIndex = Math.min(
+			Math.max(data.index, 0),
+			this.actionOps.length,
+		);
+		this.resetCurrentAction();
+		this.engine.trigger('historyChange');
+		return true;
+	}
+
+	async restore() {
+		const options = this.engine.options.history;
+		if (!options) return false;
+		const { storage, key } = options;
+		const value = await storage.get(key);
+		if (!value) return false;
+		// 读取期间已经产生了新的操作，保留新的操作
+		if (this.actionOps.length > 0 || this.currentAction.ops.length > 0)
+			return false;
+		let data: HistoryPersistData | undefined;
+		try {
+			data = JSON.parse(value);
+		} catch (error) {}
+		if (data && this.fromJSON(data)) return true;
+		// 文档已经变化，保存的历史记录不再可用
+		await storage.remove(key);
+		return false;
+	}
+
+	/**
+	 * 写入存储，还有未保存的操作时等待下一次保存后再写入
+	 */
+	private persist() {
+		const options = this.engine.options.history;
+		// 远程操作不会保存为历史记录，只等待本地未保存的操作
+		if (
+			!options ||
+			this.#batchDepth > 0 ||
+			(this.currentAction.self && this.currentAction.ops.length > 0)
+		)
+			return;
+		const { storage, key, maxSize = 1024 * 1024 } = options;
+		const data = this.toJSON();
+		// 超过最大长度时丢弃最早的记录，只丢弃可以撤销的记录，保留可以重做的记录
+		const sizes = data.actions.map(
+			(action) => JSON.stringify(action).length,
+		);
+		let size = sizes.reduce((total, current) => total + current + 1, 100);
+		while (size > maxSize && data.index > 0) {
+			size -= sizes.shift()! + 1;
+			data.actions.shift();
+			data.index--;
+		}
+		Promise.resolve(
+			data.actions.length === 0
+				? storage.remove(key)
+				: storage.set(key, JSON.stringify(data)),
+		).catch((error) => this.engine.messageError('history-persist', error));
+	}
+
+	destroy() {
+		this.lazyPersist.flush();
+		window.removeEventListener('pagehide', this.onPageHide);
+		this.engine.off('historyChange', this.lazyPersist);
+		this.engine.off('undo', this.lazyPersist);
+		this.engine.off('redo', this.lazyPersist);
+		this.reset();
+	}
+
 	getCurrentRangePath() {
 		const { model, change } = this.engine;
 		const currentPath = model.selection.currentRangePath;
@@ -562,3 +761,5 @@ class HistoryModel implements HistoryInterface {
 }
 
 export default HistoryModel;
+
+export { LocalStorageHistoryStorage, IndexedDBHistoryStorage };
@@ -0,0 +1,115 @@
+import { HistoryStorage } from '../types/history';
+
+/**
+ * 计算文档内容的 hash，用于判断保存的历史记录是否属于当前文档
+ * @param value 文档内容
+ */
+export const getValueHash = (value: string) => {
+	// FNV-1a 32 位
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return value.length.toString(36) + '-' + (hash >>> 0).toString(36);
+};
+
+/**
+ * 使用 localStorage 保存历史记录，受浏览器 5M 左右的容量限制
+ */
+export class LocalStorageHistoryStorage implements HistoryStorage {
+	private prefix: string;
+
+	constructor(prefix: string = 'am-history::') {
+		this.prefix = prefix;
+	}
+
+	get(key: string) {
+		try {
+			return window.localStorage.getItem(this.prefix + key);
+		} catch (error) {
+			return null;
+		}
+	}
+
+	set(key: string, value: string) {
+		try {
+			window.localStorage.setItem(this.prefix + key, value);
+		} catch (error) {
+			// 超出容量或者禁用了存储，不再保存
+		}
+	}
+
+	remove(key: string) {
+		try {
+			window.localStorage.removeItem(this.prefix + key);
+		} catch (error) {}
+	}
+}
+
+/**
+ * 使用 IndexedDB 保存历史记录，适合较大的文档
+ */
+export class IndexedDBHistoryStorage implements HistoryStorage {
+	private name: string;
+	private storeName: string = 'history';
+	private db?: Promise<IDBDatabase>;
+
+	constructor(name: string = 'am-history') {
+		this.name = name;
+	}
+
+	private open() {
+		if (!this.db) {
+			this.db = new Promise<IDBDatabase>((resolve, reject) => {
+				const request = window.indexedDB.open(this.name, 1);
+				request.onupgradeneeded = () => {
+					request.result.createObjectStore(this.storeName);
+				};
+				request.onsuccess = () => resolve(request.result);
+				request.onerror = () => reject(request.error);
+			});
+			// 打开失败后下次重新打开
+			this.db.catch(() => (this.db = undefined));
+		}
+		return this.db;
+	}
+
+	private async request<T>(
+		mode: IDBTransactionMode,
+		callback: (store: IDBObjectStore) => IDBRequest,
+	) {
+		const db = await this.open();
+		return new Promise<T>((resolve, reject) => {
+			const request = callback(
+				db
+					.transaction(this.storeName, mode)
+					.objectStore(this.storeName),
+			);
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	async get(key: string) {
+		try {
+			return await this.request<string | undefined>('readonly', (store) =>
+				store.get(key),
+			);
+		} catch (error) {
+			return null;
+		}
+	}
+
+	async set(key: string, value: string) {
+		try {
+			await this.request('readwrite', (store) => store.put(value, key));
+		} catch (error) {}
+	}
+
+	async remove(key: string) {
+		try {
+			await this.request('readwrite', (store) => store.delete(key));
+		} catch (error) {}
+	}
+}
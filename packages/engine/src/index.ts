@@ -18,16 +18,20 @@ import Toolbar, { Tooltip } from './toolbar';
 import Range, { isRangeInterface, isRange, isSelection } from './range';
 import Selection from './selection';
 import Parser from './parser';
+import StaticParser from './parser/static';
 import Request, {
 	Ajax,
 	Uploader,
 	getExtensionName,
 	getFileSize,
+	PresignedTransport,
+	MemoryTransport,
 } from './request';
 import Scrollbar from './scrollbar';
 import Position from './position';
 import { $, getHashId, uuid } from './node';
 import Resizer from './resizer';
+import { LocalStorageHistoryStorage, IndexedDBHistoryStorage } from './history';
 
 export * from './types';
 export * from './utils';
@@ -58,16 +62,21 @@ export {
 	Toolbar,
 	Tooltip,
 	Parser,
+	StaticParser,
 	isHotkey,
 	Request,
 	Uploader,
 	Ajax,
 	getExtensionName,
 	getFileSize,
+	PresignedTransport,
+	MemoryTransport,
 	Scrollbar,
 	Position,
 	isRangeInterface,
 	isRange,
 	isSelection,
 	Resizer,
+	LocalStorageHistoryStorage,
+	IndexedDBHistoryStorage,
 };
@@ -52,4 +52,10 @@ export default {
 	searchEmtpy: {
 		title: 'No matching card',
 	},
+	history: {
+		replace: 'Replace',
+		replaceAll: 'Replace all',
+		acceptSuggestion: 'Accept suggestion',
+		rejectSuggestion: 'Reject suggestion',
+	},
 };
@@ -52,4 +52,10 @@ export default {
 	searchEmtpy: {
 		title: '无匹配卡片',
 	},
+	history: {
+		replace: '替换',
+		replaceAll: '全部替换',
+		acceptSuggestion: '接受建议',
+		rejectSuggestion: '拒绝建议',
+	},
 };
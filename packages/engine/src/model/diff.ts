@@ -0,0 +1,684 @@
+import cloneDeep from 'lodash/cloneDeep';
+import isEqual from 'lodash/isEqual';
+import {
+	CARD_KEY,
+	CARD_TYPE_KEY,
+	CARD_VALUE_KEY,
+	DATA_ID,
+	DIFF_FIELDS_KEY,
+	DIFF_KEY,
+} from '../constants';
+import { encodeCardValue, escape } from '../utils';
+import { Element } from './element';
+import { Node } from './node';
+import { Path } from './path';
+import { Text } from './text';
+import { toCardValue } from './transform/to-card-value';
+import { getCardName, getCardValue } from './transform/to-markdown';
+import { isPlainObject } from './utils';
+
+export type DiffType = 'insert' | 'delete' | 'update' | 'move';
+
+export type DiffChange = {
+	type: DiffType;
+	// 变更节点在合并文档中的路径
+	path: Path;
+	// 合并文档中的变更节点
+	node: Element;
+	// 卡片值中变化的字段，多层级的字段使用 . 连接
+	fields?: string[];
+};
+
+export type DiffResult = {
+	// 合并后的文档，删除的内容保留在原来的位置
+	root: Element;
+	// 块级节点的变更，按文档顺序排列
+	changes: DiffChange[];
+};
+
+export type DiffOptions = {
+	/**
+	 * 比较同一个卡片的两个值，返回用于预览的卡片值，返回 undefined 将使用新的值
+	 */
+	card?: (
+		name: string,
+		oldValue: Record<string, any>,
+		newValue: Record<string, any>,
+	) => Record<string, any> | void;
+	// 两个块级节点的文本相似度不低于这个值时作为修改比较，否则作为删除和新增，默认 0.4
+	similarity?: number;
+};
+
+type DiffContext = Required<Pick<DiffOptions, 'similarity'>> &
+	Pick<DiffOptions, 'card'> & {
+		changes: DiffChange[];
+		// 节点用于计算相似度的词，避免配对时重复分词
+		words: WeakMap<Element, string[]>;
+	};
+
+type SequenceType = 'equal' | 'insert' | 'delete';
+
+type SequenceItem = {
+	type: SequenceType;
+	oldIndex: number;
+	newIndex: number;
+};
+
+type Token = {
+	key: string;
+	// 从块级节点到当前位置的 mark、inline 节点
+	marks: Element[];
+	node: Node;
+};
+
+const BLOCK_TAGS = [
+	'p',
+	'h1',
+	'h2',
+	'h3',
+	'h4',
+	'h5',
+	'h6',
+	'ul',
+	'ol',
+	'li',
+	'blockquote',
+	'pre',
+	'div',
+	'hr',
+	'table',
+	'colgroup',
+	'col',
+	'thead',
+	'tbody',
+	'tfoot',
+	'tr',
+	'td',
+	'th',
+];
+const VOID_TAGS = ['br', 'hr', 'img', 'input', 'col', 'wbr'];
+const IGNORE_ATTRIBUTES = [
+	'type',
+	'children',
+	DATA_ID,
+	DIFF_KEY,
+	DIFF_FIELDS_KEY,
+];
+// 超过这个大小的序列不再计算最长公共子序列，直接作为删除和新增
+const MAX_SEQUENCE_SIZE = 4000000;
+// 配对修改时每个新增的块级节点最多比较的删除节点数量，超出的作为删除和新增
+const MAX_PAIR_CANDIDATES = 50;
+
+const DIFF_MARKS = {
+	insert: Element.create('span', { [DIFF_KEY]: 'insert' }),
+	delete: Element.create('span', { [DIFF_KEY]: 'delete' }),
+};
+
+const isCardNode = (node: Node) =>
+	Element.isElement(node) && !!getCardName(node);
+
+const isBlockNode = (node: Node) => {
+	if (!Element.isElement(node)) return false;
+	if (isCardNode(node)) return node[CARD_TYPE_KEY] === 'block';
+	return Node.isBlock(node) || BLOCK_TAGS.includes(node.type);
+};
+
+const isBlockList = (nodes: Node[]) => nodes.every(isBlockNode);
+
+const isContainer = (node: Element) =>
+	node.children.length > 0 && isBlockList(node.children);
+
+const getAttributesKey = (node: Element) => {
+	return Object.keys(node)
+		.filter((key) => !IGNORE_ATTRIBUTES.includes(key))
+		.sort()
+		.map((key) => `${key}="${node[key]}"`)
+		.join(' ');
+};
+
+/**
+ * 节点的比较键，卡片只比较名称和值
+ */
+const getKey = (node: Node): string => {
+	if (Text.isText(node)) return node.text;
+	if (isCardNode(node))
+		return `card:${getCardName(node)}:${node[CARD_VALUE_KEY] ?? ''}`;
+	return `<${node.type} ${getAttributesKey(node)}>${node.children
+		.map(getKey)
+		.join('')}</${node.type}>`;
+};
+
+const getText = (node: Node): string => {
+	if (Text.isText(node)) return node.text;
+	if (isCardNode(node)) return '';
+	return node.children.map(getText).join(isContainer(node) ? '\n' : '');
+};
+
+/**
+ * 文本分词，连续的字母数字、空白为一个词，其它字符单独为一个词
+ */
+const tokenize = (text: string) =>
+	text.match(/[a-zA-Z0-9_]+|\s+|[\ud800-\udbff][\udc00-\udfff]|[\s\S]/g) ||
+	[];
+
+/**
+ * 使用最长公共子序列比较两个序列
+ */
+const diffSequence = (oldKeys: string[], newKeys: string[]) => {
+	const result: SequenceItem[] = [];
+	let start = 0;
+	while (
+		start < oldKeys.length &&
+		start < newKeys.length &&
+		oldKeys[start] === newKeys[start]
+	) {
+		result.push({ type: 'equal', oldIndex: start, newIndex: start });
+		start++;
+	}
+	let oldEnd = oldKeys.length;
+	let newEnd = newKeys.length;
+	while (
+		oldEnd > start &&
+		newEnd > start &&
+		oldKeys[oldEnd - 1] === newKeys[newEnd - 1]
+	) {
+		oldEnd--;
+		newEnd--;
+	}
+	const rows = oldEnd - start;
+	const cols = newEnd - start;
+	let i = 0;
+	let j = 0;
+	if (rows * cols <= MAX_SEQUENCE_SIZE) {
+		const width = cols + 1;
+		const table = new Uint32Array((rows + 1) * width);
+		for (let row = rows - 1; row >= 0; row--) {
+			for (let col = cols - 1; col >= 0; col--) {
+				table[row * width + col] =
+					oldKeys[start + row] === newKeys[start + col]
+						? table[(row + 1) * width + col + 1] + 1
+						: Math.max(
+								table[(row + 1) * width + col],
+								table[row * width + col + 1],
+						  );
+			}
+		}
+		while (i < rows && j < cols) {
+			if (oldKeys[start + i] === newKeys[start + j]) {
+				result.push({
+					type: 'equal',
+					oldIndex: start + i++,
+					newIndex: start + j++,
+				});
+			} else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+				result.push({
+					type: 'delete',
+					oldIndex: start + i++,
+					newIndex: -1,
+				});
+			} else {
+				result.push({
+					type: 'insert',
+					oldIndex: -1,
+					newIndex: start + j++,
+				});
+			}
+		}
+	}
+	for (; i < rows; i++) {
+		result.push({ type: 'delete', oldIndex: start + i, newIndex: -1 });
+	}
+	for (; j < cols; j++) {
+		result.push({ type: 'insert', oldIndex: -1, newIndex: start + j });
+	}
+	for (let k = 0; k < oldKeys.length - oldEnd; k++) {
+		result.push({
+			type: 'equal',
+			oldIndex: oldEnd + k,
+			newIndex: newEnd + k,
+		});
+	}
+	return result;
+};
+
+const getWords = (node: Element, context: DiffContext) => {
+	let words = context.words.get(node);
+	if (!words) {
+		// 空白不参与相似度的计算
+		words = tokenize(getText(node)).filter((text) => text.trim());
+		context.words.set(node, words);
+	}
+	return words;
+};
+
+const getSimilarity = (
+	oldNode: Element,
+	newNode: Element,
+	context: DiffContext,
+) => {
+	const oldTokens = getWords(oldNode, context);
+	const newTokens = getWords(newNode, context);
+	const total = oldTokens.length + newTokens.length;
+	if (total === 0) return oldNode.type === newNode.type ? 1 : 0;
+	// 公共子序列的长度不超过较短的序列和两者共有的词数，先用这两个上限排除，不再计算最长公共子序列
+	if (
+		(Math.min(oldTokens.length, newTokens.length) * 2) / total <
+		context.similarity
+	)
+		return 0;
+	const counts = new Map<string, number>();
+	oldTokens.forEach((token) =>
+		counts.set(token, (counts.get(token) ?? 0) + 1),
+	);
+	let common = 0;
+	newTokens.forEach((token) => {
+		const count = counts.get(token);
+		if (!count) return;
+		counts.set(token, count - 1);
+		common++;
+	});
+	if ((common * 2) / total < context.similarity) return 0;
+	const equal = diffSequence(oldTokens, newTokens).filter(
+		(item) => item.type === 'equal',
+	).length;
+	return (equal * 2) / total;
+};
+
+/**
+ * 获取卡片值中变化的字段
+ */
+const getChangedFields = (
+	oldValue: any,
+	newValue: any,
+	prefix: string = '',
+): string[] => {
+	if (isEqual(oldValue, newValue)) return [];
+	if (!isPlainObject(oldValue) || !isPlainObject(newValue))
+		return prefix ? [prefix] : [];
+	const keys = new Set([...Object.keys(oldValue), ...Object.keys(newValue)]);
+	const fields: string[] = [];
+	keys.forEach((key) => {
+		fields.push(
+			...getChangedFields(
+				oldValue[key],
+				newValue[key],
+				prefix ? `${prefix}.${key}` : key,
+			),
+		);
+	});
+	return fields;
+};
+
+/**
+ * 将块级节点内的文本、mark、inline 节点展开为词的序列
+ */
+const getTokens = (
+	nodes: Node[],
+	marks: Element[] = [],
+	tokens: Token[] = [],
+) => {
+	const marksKey = marks
+		.map((mark) => `<${mark.type} ${getAttributesKey(mark)}>`)
+		.join('');
+	for (const node of nodes) {
+		if (Text.isText(node)) {
+			for (const text of tokenize(node.text)) {
+				tokens.push({
+					key: `${marksKey}#${text}`,
+					marks,
+					node: Text.create(text),
+				});
+			}
+		} else if (isCardNode(node) || node.children.length === 0) {
+			tokens.push({ key: `${marksKey}${getKey(node)}`, marks, node });
+		} else {
+			getTokens(node.children, marks.concat(node), tokens);
+		}
+	}
+	return tokens;
+};
+
+/**
+ * 按词的序列重新生成节点，相同的 mark 会合并，增删的内容包裹在 span[data-diff] 中
+ */
+const buildInline = (
+	items: Array<{ type: SequenceType; token: Token }>,
+): Node[] => {
+	const root = Element.create('div');
+	const stack: Array<{ source: Element; element: Element }> = [];
+	for (const { type, token } of items) {
+		let { node, marks } = token;
+		if (type !== 'equal') {
+			if (isCardNode(node)) {
+				node = cloneDeep(node);
+				node[DIFF_KEY] = type;
+			} else marks = marks.concat(DIFF_MARKS[type]);
+		}
+		let depth = 0;
+		while (
+			depth < stack.length &&
+			depth < marks.length &&
+			stack[depth].source === marks[depth]
+		)
+			depth++;
+		stack.splice(depth);
+		for (let i = depth; i < marks.length; i++) {
+			const parent =
+				stack.length > 0 ? stack[stack.length - 1].element : root;
+			const element = { ...marks[i], children: [] };
+			parent.children.push(element);
+			stack.push({ source: marks[i], element });
+		}
+		const parent =
+			stack.length > 0 ? stack[stack.length - 1].element : root;
+		const last = parent.children[parent.children.length - 1];
+		if (Text.isText(node) && last && Text.isText(last)) {
+			last.text += node.text;
+		} else {
+			parent.children.push(
+				Text.isText(node) ? Text.create(node.text) : cloneDeep(node),
+			);
+		}
+	}
+	return root.children;
+};
+
+const diffInline = (oldNodes: Node[], newNodes: Node[]) => {
+	const oldTokens = getTokens(oldNodes);
+	const newTokens = getTokens(newNodes);
+	const sequence = diffSequence(
+		oldTokens.map((token) => token.key),
+		newTokens.map((token) => token.key),
+	);
+	const items: Array<{ type: SequenceType; token: Token }> = [];
+	let deletes: typeof items = [];
+	let inserts: typeof items = [];
+	// 连续的变更中先删除后新增，夹在变更中间的空白也作为变更，避免文本过于零碎
+	const flush = () => {
+		items.push(...deletes, ...inserts);
+		deletes = [];
+		inserts = [];
+	};
+	sequence.forEach((item, index) => {
+		if (item.type === 'delete') {
+			deletes.push({ type: 'delete', token: oldTokens[item.oldIndex] });
+		} else if (item.type === 'insert') {
+			inserts.push({ type: 'insert', token: newTokens[item.newIndex] });
+		} else {
+			const token = newTokens[item.newIndex];
+			const next = sequence[index + 1];
+			if (
+				deletes.length + inserts.length > 0 &&
+				next &&
+				next.type !== 'equal' &&
+				Text.isText(token.node) &&
+				!token.node.text.trim()
+			) {
+				deletes.push({
+					type: 'delete',
+					token: oldTokens[item.oldIndex],
+				});
+				inserts.push({ type: 'insert', token });
+				return;
+			}
+			flush();
+			items.push({ type: 'equal', token });
+		}
+	});
+	flush();
+	return {
+		children: buildInline(items),
+		changed: items.some((item) => item.type !== 'equal'),
+	};
+};
+
+const canPair = (oldNode: Node, newNode: Node, context: DiffContext) => {
+	if (!Element.isElement(oldNode) || !Element.isElement(newNode))
+		return false;
+	const oldName = getCardName(oldNode);
+	const newName = getCardName(newNode);
+	if (oldName || newName) return oldName === newName;
+	if (
+		isContainer(oldNode) !== isContainer(newNode) &&
+		oldNode.children.length > 0 &&
+		newNode.children.length > 0
+	)
+		return false;
+	return getSimilarity(oldNode, newNode, context) >= context.similarity;
+};
+
+const markNode = (
+	node: Node,
+	type: DiffType,
+	path: Path,
+	context: DiffContext,
+) => {
+	const element = cloneDeep(node as Element);
+	element[DIFF_KEY] = type;
+	context.changes.push({ type, path, node: element });
+	return element;
+};
+
+const diffCard = (
+	oldNode: Element,
+	newNode: Element,
+	path: Path,
+	context: DiffContext,
+) => {
+	const oldValue = getCardValue(oldNode);
+	const newValue = getCardValue(newNode);
+	const fields = getChangedFields(oldValue, newValue);
+	const element = cloneDeep(newNode);
+	element[DIFF_KEY] = 'update';
+	if (fields.length > 0) element[DIFF_FIELDS_KEY] = fields.join(',');
+	const value = context.card?.(getCardName(newNode)!, oldValue, newValue);
+	if (value) element[CARD_VALUE_KEY] = encodeCardValue(value);
+	context.changes.push({ type: 'update', path, node: element, fields });
+	return element;
+};
+
+const diffBlock = (
+	oldNode: Element,
+	newNode: Element,
+	path: Path,
+	context: DiffContext,
+) => {
+	if (isCardNode(newNode)) return diffCard(oldNode, newNode, path, context);
+	const element: Element = { ...newNode, children: [] };
+	const index = context.changes.length;
+	const { children, changed } = diffChildren(oldNode, newNode, path, context);
+	element.children = children;
+	const updated =
+		oldNode.type !== newNode.type ||
+		getAttributesKey(oldNode) !== getAttributesKey(newNode);
+	if (updated) element[DIFF_KEY] = 'update';
+	// 块级节点的变更排在其子节点的变更之前
+	if (updated || (changed && context.changes.length === index))
+		context.changes.splice(index, 0, {
+			type: 'update',
+			path,
+			node: element,
+		});
+	return element;
+};
+
+const diffBlocks = (
+	oldNodes: Node[],
+	newNodes: Node[],
+	path: Path,
+	context: DiffContext,
+) => {
+	const oldKeys = oldNodes.map(getKey);
+	const newKeys = newNodes.map(getKey);
+	const sequence = diffSequence(oldKeys, newKeys);
+	// 内容完全一致，只是位置变化的节点作为移动
+	const moved = new Set<number>();
+	const movedOld = new Set<number>();
+	const deletes = sequence.filter((item) => item.type === 'delete');
+	const deletesByKey = new Map<string, number[]>();
+	deletes.forEach(({ oldIndex }) => {
+		const indexes = deletesByKey.get(oldKeys[oldIndex]);
+		if (indexes) indexes.push(oldIndex);
+		else deletesByKey.set(oldKeys[oldIndex], [oldIndex]);
+	});
+	sequence.forEach((item) => {
+		if (item.type !== 'insert') return;
+		const oldIndex = deletesByKey.get(newKeys[item.newIndex])?.shift();
+		if (oldIndex === undefined) return;
+		moved.add(item.newIndex);
+		movedOld.add(oldIndex);
+	});
+	// 同一段变更中可以配对的删除和新增作为修改
+	const pairs = new Map<number, number>();
+	const pairedOld = new Set<number>();
+	let candidates: number[] = [];
+	sequence.forEach((item) => {
+		if (item.type === 'equal') {
+			candidates = [];
+		} else if (item.type === 'delete') {
+			if (!movedOld.has(item.oldIndex)) candidates.push(item.oldIndex);
+		} else if (!moved.has(item.newIndex)) {
+			const index = candidates
+				.slice(0, MAX_PAIR_CANDIDATES)
+				.findIndex((oldIndex) =>
+					canPair(
+						oldNodes[oldIndex],
+						newNodes[item.newIndex],
+						context,
+					),
+				);
+			if (index < 0) return;
+			pairs.set(item.newIndex, candidates[index]);
+			pairedOld.add(candidates[index]);
+			candidates = candidates.slice(index + 1);
+		}
+	});
+	// 不在同一段变更中的，例如修改后又移动了位置，在新的位置作为修改
+	const remaining = deletes.filter(
+		({ oldIndex }) => !movedOld.has(oldIndex) && !pairedOld.has(oldIndex),
+	);
+	sequence.forEach((item) => {
+		if (
+			item.type !== 'insert' ||
+			moved.has(item.newIndex) ||
+			pairs.has(item.newIndex)
+		)
+			return;
+		const index = remaining
+			.slice(0, MAX_PAIR_CANDIDATES)
+			.findIndex(({ oldIndex }) =>
+				canPair(oldNodes[oldIndex], newNodes[item.newIndex], context),
+			);
+		if (index < 0) return;
+		pairs.set(item.newIndex, remaining[index].oldIndex);
+		pairedOld.add(remaining[index].oldIndex);
+		remaining.splice(index, 1);
+	});
+
+	const children: Node[] = [];
+	let changed = false;
+	sequence.forEach(({ type, oldIndex, newIndex }) => {
+		const childPath = path.concat(children.length);
+		if (type === 'equal') {
+			children.push(cloneDeep(newNodes[newIndex]));
+			return;
+		}
+		changed = true;
+		if (type === 'delete') {
+			if (movedOld.has(oldIndex) || pairedOld.has(oldIndex)) return;
+			children.push(
+				markNode(oldNodes[oldIndex], 'delete', childPath, context),
+			);
+		} else if (moved.has(newIndex)) {
+			children.push(
+				markNode(newNodes[newIndex], 'move', childPath, context),
+			);
+		} else if (pairs.has(newIndex)) {
+			children.push(
+				diffBlock(
+					oldNodes[pairs.get(newIndex)!] as Element,
+					newNodes[newIndex] as Element,
+					childPath,
+					context,
+				),
+			);
+		} else {
+			children.push(
+				markNode(newNodes[newIndex], 'insert', childPath, context),
+			);
+		}
+	});
+	return { children, changed };
+};
+
+const diffChildren = (
+	oldNode: Element,
+	newNode: Element,
+	path: Path,
+	context: DiffContext,
+): { children: Node[]; changed: boolean } => {
+	if (isBlockList(oldNode.children) && isBlockList(newNode.children))
+		return diffBlocks(oldNode.children, newNode.children, path, context);
+	return diffInline(oldNode.children, newNode.children);
+};
+
+const defaultIsVoid = (node: Element) =>
+	Node.isVoid(node) || VOID_TAGS.includes(node.type);
+
+const nodeToValue = (node: Node, isVoid: (node: Element) => boolean) => {
+	if (Text.isText(node)) {
+		return escape(node.text)
+			.replace(/\u00a0/g, ' ')
+			.replace(/\u200b/g, '');
+	}
+	if (node[CARD_KEY]) return toCardValue(node);
+	let value = `<${node.type}`;
+	for (const [key, attr] of Object.entries(node)) {
+		if (key === 'type' || key === 'children') continue;
+		value += ` ${key}="${escape(String(attr))}"`;
+	}
+	if (isVoid(node)) return value + ' />';
+	value += '>';
+	for (const child of node.children) {
+		value += nodeToValue(child, isVoid);
+	}
+	return value + `</${node.type}>`;
+};
+
+export const Diff = {
+	/**
+	 * 比较两个版本的文档，生成带有增删标记的合并文档
+	 * 行内的增删使用 span[data-diff] 包裹，块级节点在 data-diff 属性上标记 insert delete update move
+	 * @param oldRoot 旧版本的根节点
+	 * @param newRoot 新版本的根节点
+	 * @param options 选项
+	 */
+	diff(
+		oldRoot: Element,
+		newRoot: Element,
+		options: DiffOptions = {},
+	): DiffResult {
+		const context: DiffContext = {
+			similarity: options.similarity ?? 0.4,
+			card: options.card,
+			changes: [],
+			words: new WeakMap(),
+		};
+		const { children } = diffChildren(oldRoot, newRoot, [], context);
+		return {
+			root: { ...newRoot, children },
+			changes: context.changes,
+		};
+	},
+
+	/**
+	 * 将合并文档转换为编辑器值，不包含根节点
+	 * @param root 合并文档的根节点
+	 * @param isVoid 判断是否为空元素，默认使用节点的 schema 类型
+	 */
+	toValue(root: Element, isVoid: (node: Element) => boolean = defaultIsVoid) {
+		return root.children
+			.map((child) => nodeToValue(child, isVoid))
+			.join('');
+	},
+};
@@ -1,7 +1,12 @@
 import EventEmitter2 from 'eventemitter2';
 import cloneDeep from 'lodash/cloneDeep';
 import { CARD_VALUE_KEY, READY_CARD_KEY } from '../constants';
-import { CardInterface, EngineInterface, NodeInterface } from '../types';
+import {
+	CardInterface,
+	ElementPluginInterface,
+	EngineInterface,
+	NodeInterface,
+} from '../types';
 import { applyToDOM, findDOMByPath } from './apply-to-dom';
 import { DOMNode } from './dom';
 import { Element } from './element';
@@ -18,6 +23,8 @@ import { toHTML } from './transform/to-html';
 import { toValue } from './transform/to-value';
 import { toDOM } from './transform/to-dom';
 import { toText } from './transform/to-text';
+import { toMarkdown, getCardName, getCardValue } from './transform/to-markdown';
+import type { MarkdownContext } from './transform/to-markdown';
 import { $ } from '../node';
 
 const ENGINE_TO_MODEL: WeakMap<EngineInterface, Model> = new WeakMap();
@@ -49,6 +56,7 @@ export interface Model {
 		) => boolean | number | void,
 	): Promise<string>;
 	toText(node?: Node, intoCard?: boolean): string;
+	toMarkdown(node?: Node): string;
 	destroy(): void;
 }
 
@@ -316,6 +324,40 @@ const createModel = (engine: EngineInterface, root: Element) => {
 					.join('');
 			return toText(node, intoCard);
 		},
+		toMarkdown: (node) => {
+			const filter = (node: Element, context: MarkdownContext) => {
+				let markdown: string | undefined;
+				engine.trigger(
+					'parse:markdown',
+					node,
+					context,
+					(result: string) => {
+						markdown = result;
+					},
+				);
+				if (markdown !== undefined) return markdown;
+				// 卡片自行转换
+				if (getCardName(node)) {
+					const { id } = getCardValue(node);
+					const component = id ? engine.card.find(id) : undefined;
+					return component?.toMarkdown?.(node, context);
+				}
+				// 标签名称一致的插件
+				const { components } = engine.plugin;
+				for (const name in components) {
+					const plugin = components[name] as ElementPluginInterface;
+					if (!plugin.toMarkdown || !plugin.tagName) continue;
+					const tagNames = Array.isArray(plugin.tagName)
+						? plugin.tagName
+						: [plugin.tagName];
+					if (!tagNames.includes(node.type)) continue;
+					const result = plugin.toMarkdown(node, context);
+					if (typeof result === 'string') return result;
+				}
+				return;
+			};
+			return toMarkdown(node ?? model.root, filter).trim();
+		},
 		destroy: () => {
 			mutation.destroy();
 			selection.destroy();
@@ -347,5 +389,15 @@ export const Model = {
 
 export { Node, Element, Path, Text, CollaborationMember };
 export type { CursorAttribute };
+export { Diff } from './diff';
+export type { DiffType, DiffChange, DiffResult, DiffOptions } from './diff';
 export * from './utils';
 export * from './operation';
+export {
+	escapeMarkdown,
+	wrapMarkdown,
+	getMarkdownFence,
+	getCardName,
+	getCardValue,
+} from './transform/to-markdown';
+export type { MarkdownContext, MarkdownFilter } from './transform/to-markdown';
@@ -23,6 +23,10 @@ export interface Mutation {
 	submitCache(): void;
 	destroyCache(): void;
 	getCaches(): MutationRecord[];
+	/**
+	 * 立即处理还没有回调的变更记录
+	 */
+	flush(): void;
 	destroy(): void;
 }
 
@@ -31,14 +35,15 @@ const createMutation = (engine: EngineInterface) => {
 	let isStopped = true;
 	let cachedRecords: MutationRecord[] = [];
 	const ee = new EventEmitter2();
-	const observer = new MutationObserver((records) => {
+	const handleRecords = (records: MutationRecord[]) => {
 		if (isCache) {
 			cachedRecords.push(...records);
 		}
 		if (!isStopped && !isCache) {
 			ee.emit('change', records);
 		}
-	});
+	};
+	const observer = new MutationObserver(handleRecords);
 
 	const mutation: Mutation = {
 		get isStopped() {
@@ -104,6 +109,11 @@ const createMutation = (engine: EngineInterface) => {
 		getCaches: () => {
 			return cachedRecords;
 		},
+		flush: () => {
+			if (isStopped) return;
+			const records = observer.takeRecords();
+			if (records.length > 0) handleRecords(records);
+		},
 		destroy: () => {
 			ee.removeAllListeners();
 			mutation.stop();
@@ -0,0 +1,337 @@
+import { Node } from '../node';
+import { Text } from '../text';
+import { Element } from '../element';
+import { decodeCardValue, escape, unescape } from '../../utils';
+import {
+	CARD_EDITABLE_KEY,
+	CARD_KEY,
+	CARD_VALUE_KEY,
+	DATA_ID,
+	READY_CARD_KEY,
+} from '../../constants';
+import { toCardValue } from './to-card-value';
+
+/**
+ * 转换 markdown 时的上下文
+ */
+export type MarkdownContext = {
+	/**
+	 * 当前所在列表的缩进层级
+	 */
+	indent: number;
+	/**
+	 * 是否在表格单元格内，单元格内不能换行
+	 */
+	inTable: boolean;
+	/**
+	 * 将节点转换为 markdown
+	 * @param node 节点
+	 * @param context 需要覆盖的上下文
+	 */
+	toMarkdown(node: Node, context?: Partial<MarkdownContext>): string;
+	/**
+	 * 将节点的所有子节点转换为 markdown
+	 * @param node 节点
+	 * @param context 需要覆盖的上下文
+	 */
+	children(node: Element, context?: Partial<MarkdownContext>): string;
+};
+
+/**
+ * 自定义节点转换，返回 string 表示已处理，返回 undefined 继续使用默认规则
+ */
+export type MarkdownFilter = (
+	node: Element,
+	context: MarkdownContext,
+) => string | void;
+
+const HEADING_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+const LIST_TAGS = ['ul', 'ol'];
+const BLOCK_TAGS = [
+	'p',
+	'div',
+	'blockquote',
+	'pre',
+	'hr',
+	...HEADING_TAGS,
+	...LIST_TAGS,
+];
+// markdown 不支持的行内标签，将以 html 的方式保留
+const INLINE_HTML_TAGS = ['u', 'sup', 'sub', 'mark', 'ins', 'kbd', 'font'];
+
+/**
+ * 获取卡片名称
+ * @param node 节点
+ */
+export const getCardName = (node: Element): string | undefined => {
+	const name = node[CARD_KEY] || node[READY_CARD_KEY];
+	return name ? String(name).toLowerCase() : undefined;
+};
+
+/**
+ * 获取卡片值
+ * @param node 卡片节点
+ */
+export const getCardValue = <T = Record<string, any>>(node: Element) => {
+	const value = node[CARD_VALUE_KEY];
+	return value ? decodeCardValue<T>(value) : ({} as T);
+};
+
+/**
+ * 对文本中的 markdown 语法字符进行转义
+ * @param text 文本
+ */
+export const escapeMarkdown = (text: string) => {
+	return text.replace(/([\\`*_\[\]<>|~])/g, '\\$1');
+};
+
+/**
+ * 使用标记字符包裹文本，前后的空白字符会移到标记外面，否则 markdown 无法识别
+ * @param text 文本
+ * @param marker 标记字符
+ */
+export const wrapMarkdown = (text: string, marker: string) => {
+	const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text);
+	if (!match || !match[2]) return text;
+	return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+};
+
+/**
+ * 生成代码块的围栏，围栏长度要大于代码中出现的最长的反引号
+ * @param code 代码
+ */
+export const getMarkdownFence = (code: string, min: number = 3) => {
+	const matches = code.match(/`+/g) || [];
+	const max = matches.reduce((max, tick) => Math.max(max, tick.length), 0);
+	return '`'.repeat(Math.max(min, max + 1));
+};
+
+const isList = (node: Node): node is Element =>
+	Element.isElement(node) && LIST_TAGS.includes(node.type);
+
+const isBlockElement = (node: Node) =>
+	Element.isElement(node) &&
+	(Node.isBlock(node) ||
+		BLOCK_TAGS.includes(node.type) ||
+		(!!getCardName(node) && node.type === 'div'));
+
+const getIndent = (node: Element) => {
+	const indent = node['data-indent'];
+	return indent ? parseInt(indent, 10) || 0 : 0;
+};
+
+const inlineCodeToMarkdown = (node: Element) => {
+	const text = node.children
+		.map((child) => (Text.isText(child) ? textValue(child) : ''))
+		.join('');
+	if (!text) return '';
+	const fence = getMarkdownFence(text, 1);
+	const space = /^`|`$/.test(text) ? ' ' : '';
+	return `${fence}${space}${text}${space}${fence}`;
+};
+
+const textValue = (node: Text) => {
+	return unescape(node.text)
+		.replace(/\u00a0/g, ' ')
+		.replace(/\u200b/g, '');
+};
+
+/**
+ * 行首的字符会被识别为标题、引用、列表等块级语法，需要转义
+ * @param text 文本
+ */
+const escapeLineStart = (text: string) => {
+	return text.replace(
+		/^(\s*)(?:([#>+-])|(\d+)\.)(?=\s)/,
+		(_, space, mark, num) =>
+			mark ? `${space}\\${mark}` : `${space}${num}\\.`,
+	);
+};
+
+/**
+ * 是否需要以 html 的方式保留节点
+ * @param node 节点
+ */
+const isHTMLElement = (node: Element) => {
+	if (!Node.isMark(node) && !Node.isInline(node)) {
+		return INLINE_HTML_TAGS.includes(node.type);
+	}
+	// 没有任何属性的 span 对 markdown 没有意义
+	return (
+		node.type !== 'span' ||
+		Object.keys(node).some(
+			(key) => !['type', 'children', DATA_ID].includes(key),
+		)
+	);
+};
+
+const toHTMLMarkdown = (node: Element, content: string) => {
+	let html = `<${node.type}`;
+	for (const [key, value] of Object.entries(node)) {
+		if (key === 'type' || key === 'children' || key === DATA_ID) continue;
+		html += ` ${key}="${escape(String(value))}"`;
+	}
+	if (Node.isVoid(node)) return html + ' />';
+	return `${html}>${content}</${node.type}>`;
+};
+
+const listToMarkdown = (node: Element, context: MarkdownContext) => {
+	const classz = node['class'] || '';
+	const isTask = classz.includes('data-list-task');
+	const isOrder = node.type === 'ol';
+	const start = node['start'] ? parseInt(node['start'], 10) || 1 : 1;
+	const space = '    '.repeat(getIndent(node) + context.indent);
+	const lines: string[] = [];
+	let index = start;
+	node.children.forEach((child) => {
+		if (!Element.isElement(child) || child.type !== 'li') return;
+		let prefix = isOrder ? `${index++}. ` : '- ';
+		const children = child.children.filter((item) => {
+			if (!isTask || !Element.isElement(item)) return true;
+			if (getCardName(item) !== 'checkbox') return true;
+			prefix += getCardValue(item).checked ? '[x] ' : '[ ] ';
+			return false;
+		});
+		const content = context
+			.children({ ...child, children }, { inTable: false })
+			.trim()
+			.split('\n')
+			.join(`\n${space}${' '.repeat(prefix.length)}`);
+		lines.push(`${space}${prefix}${content}`);
+	});
+	return lines.join('\n');
+};
+
+const blocksToMarkdown = (children: Node[], context: MarkdownContext) => {
+	let markdown = '';
+	let inline = '';
+	let prev: Node | undefined;
+	const append = (text: string, node?: Node) => {
+		if (!text) return;
+		if (markdown) {
+			// 同类型的列表连续排列才能保持缩进层级
+			const isSameList =
+				node &&
+				prev &&
+				isList(node) &&
+				isList(prev) &&
+				node.type === prev.type &&
+				node['class'] === prev['class'];
+			markdown += isSameList ? '\n' : '\n\n';
+		}
+		markdown += text;
+		prev = node;
+	};
+	children.forEach((child) => {
+		if (isBlockElement(child)) {
+			append(inline.trim());
+			inline = '';
+			append(context.toMarkdown(child), child);
+		} else {
+			inline += context.toMarkdown(child);
+		}
+	});
+	append(inline.trim());
+	return markdown;
+};
+
+const elementToMarkdown = (node: Element, context: MarkdownContext) => {
+	const { type } = node;
+	const children = () => context.children(node);
+
+	if (getCardName(node)) {
+		if (getCardName(node) === 'checkbox')
+			return getCardValue(node).checked ? '[x] ' : '[ ] ';
+		if (node[CARD_EDITABLE_KEY] === 'true') {
+			return blocksToMarkdown(node.children, context);
+		}
+		// 没有插件处理的卡片保留卡片标签，再次导入时可以还原
+		return toCardValue(node);
+	}
+	if (HEADING_TAGS.includes(type)) {
+		const level = HEADING_TAGS.indexOf(type) + 1;
+		const text = children().trim();
+		return text ? `${'#'.repeat(level)} ${text}` : '';
+	}
+	switch (type) {
+		case 'br':
+			return context.inTable ? '<br>' : '\\\n';
+		case 'strong':
+		case 'b':
+			return wrapMarkdown(children(), '**');
+		case 'em':
+		case 'i':
+			return wrapMarkdown(children(), '*');
+		case 'del':
+		case 's':
+			return wrapMarkdown(children(), '~~');
+		case 'code':
+			return inlineCodeToMarkdown(node);
+		case 'a': {
+			const text = children();
+			const href = node['href'];
+			if (!href) return text;
+			const title = node['title'] ? ` "${node['title']}"` : '';
+			return `[${text || href}](${href}${title})`;
+		}
+		case 'img': {
+			const src = node['src'];
+			if (!src) return '';
+			return `![${escapeMarkdown(node['alt'] || '')}](${src})`;
+		}
+		case 'hr':
+			return '---';
+		case 'ul':
+		case 'ol':
+			return listToMarkdown(node, context);
+		case 'blockquote':
+			return blocksToMarkdown(node.children, context)
+				.split('\n')
+				.map((line) => (line ? `> ${line}` : '>'))
+				.join('\n');
+		case 'p':
+		case 'li':
+			// 末尾的换行符在 markdown 中没有意义
+			return escapeLineStart(children().replace(/(\\\n)+$/, ''));
+	}
+	if (node.children.some((child) => isBlockElement(child))) {
+		return blocksToMarkdown(node.children, context);
+	}
+	if (isHTMLElement(node)) return toHTMLMarkdown(node, children());
+	return children();
+};
+
+/**
+ * 将节点转换为 markdown
+ * @param node 节点
+ * @param filter 自定义节点转换
+ * @param options 初始上下文
+ */
+export const toMarkdown = (
+	node: Node,
+	filter?: MarkdownFilter,
+	options: Partial<Pick<MarkdownContext, 'indent' | 'inTable'>> = {},
+): string => {
+	const context: MarkdownContext = {
+		indent: 0,
+		inTable: false,
+		...options,
+		toMarkdown: (child, override) =>
+			toMarkdown(child, filter, { ...context, ...override }),
+		children: (element, override) => {
+			const childContext = { ...context, ...override };
+			return element.children
+				.map((child) => toMarkdown(child, filter, childContext))
+				.join('');
+		},
+	};
+	if (Text.isText(node)) {
+		const text = escapeMarkdown(textValue(node));
+		return context.inTable ? text.replace(/\n/g, '<br>') : text;
+	} else if (Element.isElement(node)) {
+		const result = filter ? filter(node, context) : undefined;
+		if (typeof result === 'string') return result;
+		return elementToMarkdown(node, context);
+	}
+	throw new Error('Cannot convert node to markdown');
+};
@@ -0,0 +1,51 @@
+import { CardType } from '../card/enum';
+import { CardStaticContext, CardStaticEntry } from '../types/card';
+import { decodeCardValue, getAttrMap } from '../utils/string';
+
+/**
+ * 不依赖 DOM 的解析器，在服务端将编辑器值转换为可以发布的静态 html
+ */
+class StaticParser {
+	source: string;
+	cards: Array<CardStaticEntry>;
+
+	/**
+	 * @param source 编辑器值，也就是 getValue 的结果
+	 * @param cards 卡片的静态渲染器，也可以传入卡片组件
+	 */
+	constructor(source: string, cards: Array<CardStaticEntry> = []) {
+		this.source = source;
+		this.cards = cards;
+	}
+
+	/**
+	 * 渲染卡片标签，没有实现 toStaticHTML 的卡片将被移除
+	 * @param tag 卡片开始标签
+	 */
+	renderCard(tag: string) {
+		const { name, type, value } = getAttrMap(tag);
+		const entry = this.cards.find(
+			(card) => card.cardName === (name || '').toLowerCase(),
+		);
+		if (!entry?.toStaticHTML) return '';
+		const context: CardStaticContext = {
+			type: type === CardType.INLINE ? CardType.INLINE : CardType.BLOCK,
+			toHTML: (html) => new StaticParser(html, this.cards).toHTML(),
+		};
+		return entry.toStaticHTML(decodeCardValue(value || ''), context);
+	}
+
+	/**
+	 * 转换为 html
+	 */
+	toHTML() {
+		return this.source
+			.replace(/<(?:anchor|focus|cursor)\s*\/>/gi, '')
+			.replace(/(<card\s+[^>]+>)[\s\S]*?<\/card>/gi, (_, tag) =>
+				this.renderCard(tag),
+			)
+			.replace(/\u200b/g, '');
+	}
+}
+
+export default StaticParser;
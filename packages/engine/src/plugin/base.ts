@@ -1,6 +1,7 @@
 import { CardInterface } from '../types/card';
 import { EditorInterface } from '../types/editor';
 import { PluginOptions, PluginInterface } from '../types/plugin';
+import { SlashItem } from '../types/slash';
 
 abstract class PluginEntry<T extends PluginOptions = PluginOptions>
 	implements PluginInterface<T>
@@ -44,6 +45,10 @@ abstract class PluginEntry<T extends PluginOptions = PluginOptions>
 		| { key: string; args: any }
 		| Array<{ key: string; args: any }>
 		| Array<string>;
+	/**
+	 * 插件提供给斜杠菜单的条目，打开菜单时获取，可以使用当前语言的标题
+	 */
+	slash?(): Array<SlashItem>;
 	/**
 	 * 插件等待动作
 	 * @param callback 有待等待的动作时回调
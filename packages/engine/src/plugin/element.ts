@@ -16,6 +16,7 @@ import type {
 import { $ } from '../node';
 import PluginEntry from './base';
 import { isNode } from '../node/utils';
+import type { Element as ModelElement, MarkdownContext } from '../model';
 
 abstract class ElementPluginEntry<T extends PluginOptions = PluginOptions>
 	extends PluginEntry<T>
@@ -245,6 +246,13 @@ abstract class ElementPluginEntry<T extends PluginOptions = PluginOptions>
 	 */
 	conversion?(): ConversionData;
 
+	/**
+	 * 将符合当前插件标签名称的节点转换为 markdown，返回 undefined 将使用默认规则
+	 * @param node model 节点
+	 * @param context 转换上下文
+	 */
+	toMarkdown?(node: ModelElement, context: MarkdownContext): string | void;
+
 	/**
 	 * 创建符合当前插件规则的节点
 	 * @param args 参数
@@ -5,7 +5,12 @@ import {
 	OpenDialogOptions,
 } from '../types';
 import Ajax from './ajax';
-import Uploader, { getExtensionName, getFileSize } from './uploader';
+import Uploader, {
+	getExtensionName,
+	getFileSize,
+	PresignedTransport,
+	MemoryTransport,
+} from './uploader';
 
 class Request implements RequestInterface {
 	ajax(options: AjaxOptions | string) {
@@ -16,6 +21,26 @@ class Request implements RequestInterface {
 		return new Uploader(options).request(files, name);
 	}
 
+	pauseUpload(uid: string) {
+		return Uploader.pause(uid);
+	}
+
+	resumeUpload(uid: string) {
+		return Uploader.resume(uid);
+	}
+
+	cancelUpload(uid: string) {
+		return Uploader.cancel(uid);
+	}
+
+	getUploadStatus(uid: string) {
+		return Uploader.getStatus(uid);
+	}
+
+	createUid(text: string | number) {
+		return Uploader.createUid(text);
+	}
+
 	getFiles(options?: OpenDialogOptions) {
 		let { event, accept, multiple } = options || {};
 		accept = accept || '*';
@@ -71,5 +96,12 @@ class Request implements RequestInterface {
 		});
 	}
 }
-export { getExtensionName, Ajax, Uploader, getFileSize };
+export {
+	getExtensionName,
+	Ajax,
+	Uploader,
+	getFileSize,
+	PresignedTransport,
+	MemoryTransport,
+};
 export default Request;
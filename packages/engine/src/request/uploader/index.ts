@@ -3,21 +3,85 @@ import {
 	FileInfo,
 	UploaderOptions,
 	File,
+	UploadTaskStatus,
 } from '../../types/request';
 import { getExtensionName, getFileSize } from './utils';
-import Ajax from '../ajax';
-import { isFormData } from '../ajax/utils';
+import UploadTask from './task';
+import queue from './queue';
+import { PresignedTransport, MemoryTransport } from './transport';
+
+let uidCounter = 0;
 
 class Uploader implements UploaderInterface {
 	private options: UploaderOptions;
 	private uploadingFiles: Array<FileInfo> = [];
 
+	/**
+	 * 所有上传共用的最多同时上传文件数量，默认 3
+	 */
+	static get concurrency() {
+		return queue.concurrency;
+	}
+
+	static set concurrency(count: number) {
+		queue.concurrency = count;
+		queue.next();
+	}
+
+	/**
+	 * 暂停上传
+	 * @param uid 文件 uid
+	 */
+	static pause(uid: string) {
+		return !!queue.get(uid)?.pause();
+	}
+
+	/**
+	 * 恢复上传
+	 * @param uid 文件 uid
+	 */
+	static resume(uid: string) {
+		return !!queue.get(uid)?.resume();
+	}
+
+	/**
+	 * 取消上传
+	 * @param uid 文件 uid
+	 */
+	static cancel(uid: string) {
+		return !!queue.get(uid)?.cancel();
+	}
+
+	/**
+	 * 获取上传状态，上传结束后不再记录
+	 * @param uid 文件 uid
+	 */
+	static getStatus(uid: string): UploadTaskStatus | undefined {
+		return queue.get(uid)?.status;
+	}
+
+	/**
+	 * 生成文件 uid，uid 作为上传队列和续传记录的键，需要在同一个页面中唯一
+	 * @param text 附加在 uid 后面的内容
+	 */
+	static createUid(text: string | number) {
+		if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+			return crypto.randomUUID() + '-' + text;
+		}
+		return [
+			Date.now().toString(36),
+			(uidCounter++).toString(36),
+			Math.random().toString(36).substring(2, 10),
+			text,
+		].join('-');
+	}
+
 	constructor(options: UploaderOptions) {
 		this.options = options;
 	}
 
 	createUid(text: string | number) {
-		return Date.now() + '-' + text;
+		return Uploader.createUid(text);
 	}
 
 	async request(files: Array<File>, name?: string) {
@@ -31,79 +95,9 @@ class Uploader implements UploaderInterface {
 		this.upload(files, name);
 	}
 
-	private async upload(files: Array<File>, name: string = 'file') {
-		files.forEach(async (file) => {
-			const formData = new FormData();
-			const {
-				url,
-				onUploading,
-				onSuccess,
-				onError,
-				withCredentials,
-				crossOrigin,
-				headers,
-			} = this.options;
-			let data = this.options.data;
-			if (typeof data === 'function') {
-				data = await data();
-			}
-			if (data) {
-				if (isFormData(data)) {
-					for (const [key, value] of data) {
-						formData.append(key, value);
-					}
-				} else {
-					Object.keys(data).forEach((key) => {
-						formData.append(key, data![key]);
-					});
-				}
-			}
-			if (file.data) {
-				Object.keys(file.data).forEach((key) => {
-					formData.append(key, file.data![key]);
-				});
-			}
-			formData.append(name, file, file.name);
-
-			await new Ajax({
-				xhr: () => {
-					const xhr = new window.XMLHttpRequest();
-					xhr.upload.addEventListener(
-						'progress',
-						(evt) => {
-							if (evt.lengthComputable) {
-								if (onUploading)
-									onUploading(file, {
-										percent: parseInt(
-											(
-												(evt.loaded / evt.total) *
-												100
-											).toString(),
-											10,
-										),
-									});
-							}
-						},
-						false,
-					);
-					return xhr;
-				},
-				url,
-				data: formData,
-				contentType: this.options.contentType,
-				type: this.options.type || 'json',
-				withCredentials,
-				crossOrigin,
-				headers,
-				success: (response: any) => {
-					if (onSuccess) onSuccess(response, file);
-				},
-				error: (err) => {
-					if (onError) onError(err, file);
-				},
-				method: 'POST',
-				processData: true,
-			});
+	private upload(files: Array<File>, name: string = 'file') {
+		files.forEach((file) => {
+			queue.add(new UploadTask(file, this.options, name));
 		});
 	}
 
@@ -164,4 +158,4 @@ class Uploader implements UploaderInterface {
 
 export default Uploader;
 
-export { getExtensionName, getFileSize };
+export { getExtensionName, getFileSize, PresignedTransport, MemoryTransport };
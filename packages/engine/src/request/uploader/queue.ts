@@ -0,0 +1,56 @@
+import type UploadTask from './task';
+
+/**
+ * 上传队列，所有上传器共用，同时上传的文件数量不超过 concurrency
+ */
+class UploadQueue {
+	/**
+	 * 最多同时上传的文件数量
+	 */
+	concurrency: number = 3;
+	private tasks: Record<string, UploadTask> = {};
+	private waiting: Array<UploadTask> = [];
+	private running: Array<UploadTask> = [];
+
+	get(uid: string): UploadTask | undefined {
+		return this.tasks[uid];
+	}
+
+	/**
+	 * 加入队列等待上传
+	 * @param task 上传任务
+	 */
+	add(task: UploadTask) {
+		this.tasks[task.uid] = task;
+		if (this.waiting.indexOf(task) < 0) this.waiting.push(task);
+		this.next();
+	}
+
+	/**
+	 * 任务暂停、完成或者取消后让出位置，开始下一个等待中的任务
+	 * @param task 上传任务
+	 * @param remove 是否不再记录这个任务
+	 */
+	release(task: UploadTask, remove: boolean = false) {
+		[this.waiting, this.running].forEach((tasks) => {
+			const index = tasks.indexOf(task);
+			if (index > -1) tasks.splice(index, 1);
+		});
+		if (remove && this.tasks[task.uid] === task)
+			delete this.tasks[task.uid];
+		this.next();
+	}
+
+	next() {
+		while (
+			this.running.length < Math.max(this.concurrency, 1) &&
+			this.waiting.length > 0
+		) {
+			const task = this.waiting.shift()!;
+			this.running.push(task);
+			task.start();
+		}
+	}
+}
+
+export default new UploadQueue();
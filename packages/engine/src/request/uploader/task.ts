@@ -0,0 +1,558 @@
+import {
+	AjaxOptions,
+	File,
+	RequestHeaders,
+	UploaderOptions,
+	UploadTransport,
+	UploadTaskStatus,
+} from '../../types/request';
+import Ajax from '../ajax';
+import { isFormData } from '../ajax/utils';
+import queue from './queue';
+
+type ChunkOptions = {
+	size: number;
+	protocol: 'default' | 'tus';
+	init: string;
+	chunk: string;
+	complete?: string;
+};
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const TUS_VERSION = '1.0.0';
+
+/**
+ * 网络错误、超时、服务端错误以及限流时可以重试
+ * @param error 请求错误
+ */
+const isRetryable = (error: any) => {
+	const status: number | undefined = error?.xhr?.status;
+	return !status || status >= 500 || status === 408 || status === 429;
+};
+
+const base64 = (text: string) => {
+	return window.btoa(unescape(encodeURIComponent(text)));
+};
+
+const storage = {
+	get(key: string) {
+		try {
+			return window.localStorage.getItem(key);
+		} catch (error) {
+			return null;
+		}
+	},
+	set(key: string, value: string) {
+		try {
+			window.localStorage.setItem(key, value);
+		} catch (error) {}
+	},
+	remove(key: string) {
+		try {
+			window.localStorage.removeItem(key);
+		} catch (error) {}
+	},
+};
+
+/**
+ * 单个文件的上传任务，由上传队列调度
+ */
+class UploadTask {
+	uid: string;
+	status: UploadTaskStatus = 'waiting';
+	private file: File;
+	private name: string;
+	private options: UploaderOptions;
+	// 暂停或者取消时递增，旧的请求结果不再处理
+	private version: number = 0;
+	private xhr?: XMLHttpRequest;
+	// 自定义上传方式的中断信号
+	private controller?: AbortController;
+	// 默认协议的上传 id 和已经上传的分片序号
+	private uploadId?: string;
+	private uploaded: Array<number> = [];
+	// tus 协议的文件地址
+	private location?: string;
+
+	constructor(file: File, options: UploaderOptions, name: string) {
+		this.uid = file.uid!;
+		this.file = file;
+		this.options = options;
+		this.name = name;
+	}
+
+	/**
+	 * 文件标识，同一个文件重新上传时用来续传
+	 */
+	getIdentifier() {
+		const { name, size, lastModified } = this.file;
+		return `${name}-${size}-${lastModified}`;
+	}
+
+	getChunkOptions(): ChunkOptions | undefined {
+		const { chunk, url } = this.options;
+		if (!chunk) return;
+		const options = chunk === true ? {} : chunk;
+		const size = options.size || DEFAULT_CHUNK_SIZE;
+		const { threshold = size, protocol = 'default' } = options;
+		if (this.file.size <= threshold) return;
+		if (protocol === 'tus') {
+			return {
+				size,
+				protocol,
+				init: options.init || url,
+				chunk: '',
+				complete: options.complete,
+			};
+		}
+		return {
+			size,
+			protocol,
+			init: options.init || `${url}/init`,
+			chunk: options.chunk || `${url}/chunk`,
+			complete: options.complete || `${url}/complete`,
+		};
+	}
+
+	start() {
+		if (this.status !== 'waiting') return;
+		this.status = 'uploading';
+		const version = this.version;
+		const { onSuccess, onError } = this.options;
+		this.run(version).then(
+			(response) => {
+				if (version !== this.version) return;
+				this.status = 'done';
+				queue.release(this, true);
+				if (onSuccess) onSuccess(response, this.file);
+			},
+			(error) => {
+				if (version !== this.version) return;
+				this.status = 'error';
+				queue.release(this, true);
+				if (onError) onError(error, this.file);
+			},
+		);
+	}
+
+	/**
+	 * 暂停上传，中断正在进行的请求
+	 */
+	pause() {
+		if (this.status !== 'uploading' && this.status !== 'waiting')
+			return false;
+		this.status = 'paused';
+		this.interrupt();
+		queue.release(this);
+		return true;
+	}
+
+	/**
+	 * 恢复上传，重新排队
+	 */
+	resume() {
+		if (this.status !== 'paused') return false;
+		this.status = 'waiting';
+		queue.add(this);
+		return true;
+	}
+
+	/**
+	 * 取消上传，tus 协议时通知服务端删除已经上传的内容
+	 */
+	cancel() {
+		if (
+			this.status === 'done' ||
+			this.status === 'error' ||
+			this.status === 'cancelled'
+		)
+			return false;
+		this.status = 'cancelled';
+		this.interrupt();
+		queue.release(this, true);
+		const { transport } = this.options;
+		if (transport) {
+			if (transport.cancel) transport.cancel(this.file);
+			return true;
+		}
+		const chunk = this.getChunkOptions();
+		if (chunk?.protocol === 'tus' && this.location) {
+			storage.remove(this.getStorageKey(chunk.init));
+			const { withCredentials, crossOrigin } = this.options;
+			new Ajax({
+				url: this.location,
+				method: 'DELETE',
+				headers: this.getHeaders({ 'Tus-Resumable': TUS_VERSION }),
+				withCredentials,
+				crossOrigin,
+			});
+		}
+		return true;
+	}
+
+	private interrupt() {
+		this.version++;
+		this.xhr?.abort();
+		this.xhr = undefined;
+		this.controller?.abort();
+		this.controller = undefined;
+	}
+
+	private run(version: number) {
+		const { transport } = this.options;
+		if (transport) return this.uploadTransport(version, transport);
+		const chunk = this.getChunkOptions();
+		if (!chunk) return this.uploadFile(version);
+		if (chunk.protocol === 'tus') return this.uploadTus(version, chunk);
+		return this.uploadChunks(version, chunk);
+	}
+
+	private emitProgress(loaded: number) {
+		const { onUploading } = this.options;
+		if (!onUploading) return;
+		const { size } = this.file;
+		onUploading(this.file, {
+			percent:
+				size > 0 ? Math.min(Math.floor((loaded / size) * 100), 100) : 0,
+		});
+	}
+
+	/**
+	 * 使用自定义的上传方式，请求共用重试和中断逻辑
+	 */
+	private uploadTransport(version: number, transport: UploadTransport) {
+		const controller = new AbortController();
+		this.controller = controller;
+		return transport.upload(this.file, {
+			name: this.name,
+			options: this.options,
+			request: (options, onProgress) =>
+				this.request(version, options, onProgress),
+			getFormData: (fields, blob) => this.getFormData(fields, blob),
+			progress: (loaded) => {
+				if (version === this.version) this.emitProgress(loaded);
+			},
+			signal: controller.signal,
+		});
+	}
+
+	/**
+	 * 整个文件一次上传
+	 */
+	private async uploadFile(version: number) {
+		const { url } = this.options;
+		const { response } = await this.request(
+			version,
+			{
+				url,
+				method: 'POST',
+				data: await this.getFormData({}, this.file),
+			},
+			(loaded, total) =>
+				this.emitProgress(this.file.size * (loaded / total)),
+		);
+		return response;
+	}
+
+	/**
+	 * 默认协议：init 获取上传 id 和已经上传的分片，逐个上传剩余的分片，最后 complete 合并
+	 */
+	private async uploadChunks(version: number, chunk: ChunkOptions) {
+		const { file } = this;
+		const total = Math.ceil(file.size / chunk.size);
+		if (!this.uploadId) {
+			const { response } = await this.request(version, {
+				url: chunk.init,
+				method: 'POST',
+				data: await this.getFormData({
+					identifier: this.getIdentifier(),
+					name: file.name,
+					size: file.size,
+					type: file.type,
+					chunkSize: chunk.size,
+					total,
+				}),
+			});
+			const uploadId: string =
+				response.uploadId || (response.data && response.data.uploadId);
+			if (!uploadId) throw new Error('Upload id is undefined');
+			const uploaded: Array<number | string> =
+				response.uploaded || (response.data && response.data.uploaded);
+			this.uploadId = uploadId;
+			this.uploaded = Array.isArray(uploaded)
+				? uploaded.map((index) => Number(index))
+				: [];
+		}
+		const getLoaded = () =>
+			this.uploaded.reduce(
+				(loaded, index) =>
+					loaded +
+					Math.min(file.size - index * chunk.size, chunk.size),
+				0,
+			);
+		for (let index = 0; index < total; index++) {
+			if (this.uploaded.indexOf(index) > -1) continue;
+			const start = index * chunk.size;
+			const blob = file.slice(
+				start,
+				Math.min(file.size, start + chunk.size),
+			);
+			const loaded = getLoaded();
+			this.emitProgress(loaded);
+			await this.request(
+				version,
+				{
+					url: chunk.chunk,
+					method: 'POST',
+					data: await this.getFormData(
+						{ uploadId: this.uploadId, index },
+						blob,
+					),
+				},
+				(current, size) =>
+					this.emitProgress(loaded + blob.size * (current / size)),
+			);
+			this.uploaded.push(index);
+		}
+		this.emitProgress(file.size);
+		const { response } = await this.request(version, {
+			url: chunk.complete!,
+			method: 'POST',
+			data: await this.getFormData({
+				uploadId: this.uploadId,
+				name: file.name,
+				total,
+			}),
+		});
+		return response;
+	}
+
+	getStorageKey(endpoint: string) {
+		return `am-upload::${endpoint}::${this.getIdentifier()}`;
+	}
+
+	/**
+	 * tus 协议：创建或者查询上传地址和偏移量，从偏移量开始逐片 PATCH
+	 */
+	private async uploadTus(version: number, chunk: ChunkOptions) {
+		const { file } = this;
+		const storageKey = this.getStorageKey(chunk.init);
+		let offset = 0;
+		if (!this.location)
+			this.location = storage.get(storageKey) || undefined;
+		if (this.location) {
+			try {
+				const { xhr } = await this.request(version, {
+					url: this.location,
+					method: 'HEAD',
+					type: 'text',
+					headers: this.getHeaders({ 'Tus-Resumable': TUS_VERSION }),
+				});
+				offset = parseInt(
+					xhr.getResponseHeader('Upload-Offset') || '',
+					10,
+				);
+				if (isNaN(offset))
+					throw new Error('Upload offset is undefined');
+			} catch (error) {
+				if (version !== this.version) throw error;
+				// 服务端已经没有这个上传，重新创建
+				storage.remove(storageKey);
+				this.location = undefined;
+				offset = 0;
+			}
+		}
+		if (!this.location) {
+			const { xhr } = await this.request(version, {
+				url: chunk.init,
+				method: 'POST',
+				type: 'text',
+				headers: this.getHeaders({
+					'Tus-Resumable': TUS_VERSION,
+					'Upload-Length': file.size.toString(),
+					'Upload-Metadata': [
+						`filename ${base64(file.name)}`,
+						`filetype ${base64(file.type)}`,
+					].join(','),
+				}),
+			});
+			const location = xhr.getResponseHeader('Location');
+			if (!location) throw new Error('Upload location is undefined');
+			this.location = new URL(
+				location,
+				new URL(chunk.init, window.location.href),
+			).href;
+			storage.set(storageKey, this.location);
+		}
+		while (offset < file.size) {
+			const loaded = offset;
+			const blob = file.slice(
+				offset,
+				Math.min(file.size, offset + chunk.size),
+			);
+			this.emitProgress(loaded);
+			const { xhr } = await this.request(
+				version,
+				{
+					url: this.location,
+					method: 'PATCH',
+					type: 'text',
+					contentType: 'application/offset+octet-stream',
+					processData: false,
+					data: blob,
+					headers: this.getHeaders({
+						'Tus-Resumable': TUS_VERSION,
+						'Upload-Offset': offset.toString(),
+					}),
+				},
+				(current, size) =>
+					this.emitProgress(loaded + blob.size * (current / size)),
+			);
+			const nextOffset = parseInt(
+				xhr.getResponseHeader('Upload-Offset') || '',
+				10,
+			);
+			offset = isNaN(nextOffset) ? loaded + blob.size : nextOffset;
+		}
+		storage.remove(storageKey);
+		this.emitProgress(file.size);
+		if (!chunk.complete) return { url: this.location, name: file.name };
+		const { response } = await this.request(version, {
+			url: chunk.complete,
+			method: 'POST',
+			data: await this.getFormData({
+				url: this.location,
+				name: file.name,
+				size: file.size,
+			}),
+		});
+		return response;
+	}
+
+	/**
+	 * 组合上传数据，附加数据在前，文件在最后
+	 * @param fields 字段
+	 * @param blob 文件或者分片
+	 */
+	private async getFormData(
+		fields: Record<string, string | number | undefined>,
+		blob?: Blob,
+	) {
+		const formData = new FormData();
+		let data = this.options.data;
+		if (typeof data === 'function') {
+			data = await data();
+		}
+		if (data) {
+			if (isFormData(data)) {
+				data.forEach((value, key) => formData.append(key, value));
+			} else {
+				Object.keys(data).forEach((key) => {
+					formData.append(key, data![key]);
+				});
+			}
+		}
+		const { file } = this;
+		if (file.data) {
+			Object.keys(file.data).forEach((key) => {
+				formData.append(key, file.data![key]);
+			});
+		}
+		Object.keys(fields).forEach((key) => {
+			const value = fields[key];
+			if (value !== undefined) formData.append(key, value.toString());
+		});
+		if (blob) formData.append(this.name, blob, file.name);
+		return formData;
+	}
+
+	private getHeaders(headers: Record<string, string>): RequestHeaders {
+		const { headers: optionHeaders } = this.options;
+		return async () => {
+			const values =
+				typeof optionHeaders === 'function'
+					? await optionHeaders()
+					: optionHeaders;
+			return { ...values, ...headers };
+		};
+	}
+
+	/**
+	 * 发送请求，失败时按照 retryDelay、2 * retryDelay、4 * retryDelay ... 的间隔重试
+	 * @param version 发起请求的上传过程的版本，暂停或者取消后不再发送
+	 * @param options 请求选项
+	 * @param onProgress 上传进度
+	 */
+	private async request(
+		version: number,
+		options: AjaxOptions,
+		onProgress?: (loaded: number, total: number) => void,
+	) {
+		// 整个文件一次上传时默认不重试，避免重复提交大文件
+		const {
+			chunk,
+			transport,
+			retries = chunk || transport ? 3 : 0,
+			retryDelay = 1000,
+		} = this.options;
+		for (let attempt = 0; ; attempt++) {
+			if (version !== this.version) throw new Error('Request is aborted');
+			try {
+				return await this.send(options, onProgress);
+			} catch (error) {
+				if (
+					version !== this.version ||
+					attempt >= retries ||
+					!isRetryable(error)
+				)
+					throw error;
+				await new Promise((resolve) =>
+					setTimeout(resolve, retryDelay * Math.pow(2, attempt)),
+				);
+			}
+		}
+	}
+
+	private send(
+		options: AjaxOptions,
+		onProgress?: (loaded: number, total: number) => void,
+	) {
+		const { type, contentType, withCredentials, crossOrigin, headers } =
+			this.options;
+		return new Promise<{ response: any; xhr: XMLHttpRequest }>(
+			(resolve, reject) => {
+				let xhr: XMLHttpRequest;
+				new Ajax({
+					type: type || 'json',
+					contentType,
+					withCredentials,
+					crossOrigin,
+					headers,
+					processData: true,
+					...options,
+					xhr: () => {
+						xhr = new window.XMLHttpRequest();
+						if (onProgress) {
+							xhr.upload.addEventListener(
+								'progress',
+								(evt) => {
+									if (evt.lengthComputable)
+										onProgress(evt.loaded, evt.total);
+								},
+								false,
+							);
+						}
+						this.xhr = xhr;
+						return xhr;
+					},
+					success: (response: any) => {
+						resolve({ response, xhr });
+					},
+					error: reject,
+				});
+			},
+		);
+	}
+}
+
+export default UploadTask;
@@ -0,0 +1,4 @@
+import PresignedTransport from './presigned';
+import MemoryTransport from './memory';
+
+export { PresignedTransport, MemoryTransport };
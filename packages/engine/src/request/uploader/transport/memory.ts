@@ -0,0 +1,80 @@
+import type {
+	File,
+	MemoryTransportOptions,
+	UploadTransport,
+	UploadTransportContext,
+} from '../../../types/request';
+
+/**
+ * 把文件保存在内存中的上传方式，不发送请求，用于测试和演示
+ */
+class MemoryTransport implements UploadTransport {
+	private options: MemoryTransportOptions;
+	files: Record<string, File> = {};
+
+	constructor(options: MemoryTransportOptions = {}) {
+		this.options = options;
+	}
+
+	/**
+	 * 浏览器中使用 blob 地址，可以直接预览，测试环境中不支持时使用 memory 地址
+	 */
+	createUrl(file: File) {
+		try {
+			return URL.createObjectURL(file);
+		} catch (error) {
+			return `memory://${file.uid}/${encodeURIComponent(file.name)}`;
+		}
+	}
+
+	upload(file: File, { progress, signal }: UploadTransportContext) {
+		const { delay = 0 } = this.options;
+		const step =
+			this.options.step || Math.max(Math.ceil(file.size / 10), 1);
+		return new Promise<{ url: string; name: string; size: number }>(
+			(resolve, reject) => {
+				let loaded = 0;
+				let timeout: NodeJS.Timeout | undefined;
+				const abort = () => {
+					if (timeout) clearTimeout(timeout);
+					reject(new Error('Upload is aborted'));
+				};
+				if (signal.aborted) return abort();
+				signal.addEventListener('abort', abort);
+				const next = () => {
+					loaded = Math.min(loaded + step, file.size);
+					progress(loaded);
+					if (loaded < file.size) {
+						timeout = setTimeout(next, delay);
+						return;
+					}
+					signal.removeEventListener('abort', abort);
+					const url = this.createUrl(file);
+					this.files[url] = file;
+					resolve({ url, name: file.name, size: file.size });
+				};
+				timeout = setTimeout(next, delay);
+			},
+		);
+	}
+
+	/**
+	 * 获取上传的文件
+	 * @param url 上传后返回的地址
+	 */
+	get(url: string): File | undefined {
+		return this.files[url];
+	}
+
+	remove(url: string) {
+		if (!this.files[url]) return;
+		delete this.files[url];
+		if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+	}
+
+	clear() {
+		Object.keys(this.files).forEach((url) => this.remove(url));
+	}
+}
+
+export default MemoryTransport;
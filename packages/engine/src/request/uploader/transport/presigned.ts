@@ -0,0 +1,87 @@
+import type {
+	File,
+	PresignedTarget,
+	PresignedTransportOptions,
+	UploadTransport,
+	UploadTransportContext,
+} from '../../../types/request';
+
+/**
+ * 先从后端获取预签名地址，再把文件直接上传到 S3 兼容的对象存储
+ */
+class PresignedTransport implements UploadTransport {
+	private options: PresignedTransportOptions;
+
+	constructor(options: PresignedTransportOptions) {
+		this.options = options;
+	}
+
+	parse(response: any): PresignedTarget {
+		const { parse } = this.options;
+		if (parse) return parse(response);
+		return response && response.url ? response : response?.data;
+	}
+
+	async upload(file: File, context: UploadTransportContext) {
+		const { action, complete } = this.options;
+		const { name, request, progress, getFormData } = context;
+		const { response } = await request({
+			url: action,
+			method: 'POST',
+			data: await getFormData({
+				name: file.name,
+				size: file.size,
+				type: file.type,
+			}),
+		});
+		const target = this.parse(response);
+		if (!target || !target.url)
+			throw new Error('Presigned url is undefined');
+		const { url, method = 'PUT', fields = {} } = target;
+		const headers = { ...target.headers };
+		let data: FormData | Blob = file;
+		if (method === 'POST') {
+			const formData = new FormData();
+			Object.keys(fields).forEach((key) => {
+				formData.append(key, fields[key]);
+			});
+			// S3 要求文件是表单中的最后一个字段
+			formData.append(name, file, file.name);
+			data = formData;
+		} else if (!headers['Content-Type']) {
+			headers['Content-Type'] = file.type || 'application/octet-stream';
+		}
+		// 存储服务不需要后端的请求头和 cookie
+		await request(
+			{
+				url,
+				method,
+				data,
+				processData: false,
+				type: 'text',
+				headers,
+				withCredentials: false,
+				crossOrigin: true,
+			},
+			(loaded, total) => progress(file.size * (loaded / total)),
+		);
+		const result = target.result || {
+			url: url.split('?')[0],
+			name: file.name,
+		};
+		if (!complete) return result;
+		const { response: completeResponse } = await request({
+			url: complete,
+			method: 'POST',
+			data: await getFormData({
+				url: result.url,
+				name: file.name,
+				size: file.size,
+				type: file.type,
+			}),
+		});
+		return completeResponse;
+	}
+}
+
+export default PresignedTransport;
@@ -0,0 +1,157 @@
+import { EngineInterface } from './types/engine';
+import { SlashInterface, SlashItem, SlashMatch } from './types/slash';
+
+const MAX_RECENT = 10;
+
+const isBoundary = (text: string, index: number) =>
+	index === 0 || /[\s\-_./]/.test(text[index - 1]);
+
+/**
+ * 文本和关键词的匹配分数，0 表示不匹配。
+ * 完全相同 > 前缀 > 包含 > 按顺序包含关键词的所有字符，连续的字符和单词开头的字符分数更高
+ */
+const scoreText = (text: string, query: string) => {
+	text = text.toLowerCase();
+	if (text === query) return 100;
+	if (text.startsWith(query))
+		return 90 - Math.min(text.length - query.length, 20) * 0.5;
+	const index = text.indexOf(query);
+	if (index > 0)
+		return (isBoundary(text, index) ? 75 : 65) - Math.min(index, 10) * 0.5;
+	let score = 0;
+	let last = -1;
+	for (const char of query) {
+		const i = text.indexOf(char, last + 1);
+		if (i < 0) return 0;
+		score += i === last + 1 ? 3 : isBoundary(text, i) ? 2 : 1;
+		last = i;
+	}
+	return 20 + (score / (query.length * 3)) * 30;
+};
+
+const scoreItem = (item: SlashItem, query: string) => {
+	return Math.max(
+		...[item.title, item.name, ...(item.keywords || [])].map((text) =>
+			text ? scoreText(text, query) : 0,
+		),
+	);
+};
+
+/**
+ * 斜杠菜单的条目注册和搜索，插件通过 slash 方法提供条目，工具栏只负责展示
+ */
+class Slash implements SlashInterface {
+	private engine: EngineInterface;
+	private items: Array<SlashItem> = [];
+	#recent: Array<string> = [];
+
+	constructor(engine: EngineInterface) {
+		this.engine = engine;
+	}
+
+	get recent() {
+		return [...this.#recent];
+	}
+
+	add(items: SlashItem | Array<SlashItem>) {
+		(Array.isArray(items) ? items : [items]).forEach((item) => {
+			const index = this.items.findIndex(
+				({ name }) => name === item.name,
+			);
+			if (index < 0) this.items.push(item);
+			else this.items[index] = item;
+		});
+	}
+
+	remove(name: string) {
+		this.items = this.items.filter((item) => item.name !== name);
+	}
+
+	getItems() {
+		const items: Array<SlashItem> = [];
+		const push = (item: SlashItem) => {
+			const index = items.findIndex(({ name }) => name === item.name);
+			if (index < 0) items.push(item);
+			else items[index] = item;
+		};
+		const { components } = this.engine.plugin;
+		Object.keys(components).forEach((name) => {
+			const plugin = components[name];
+			if (plugin.slash && !plugin.disabled) plugin.slash().forEach(push);
+		});
+		this.items.forEach(push);
+		return items;
+	}
+
+	get(name: string) {
+		return this.getItems().find((item) => item.name === name);
+	}
+
+	search(keyword: string, items: Array<SlashItem> = this.getItems()) {
+		const query = keyword.trim().toLowerCase();
+		const boost = (name: string) => {
+			const index = this.#recent.indexOf(name);
+			return index < 0 ? 0 : MAX_RECENT - index;
+		};
+		const matches: Array<SlashMatch> = [];
+		// 空格前面的内容匹配条目，后面的内容作为参数
+		const space = keyword.trim().search(/\s/);
+		const term = space < 0 ? '' : query.slice(0, space);
+		const params = space < 0 ? '' : keyword.trim().slice(space).trim();
+		items.forEach((item) => {
+			let match: SlashMatch | undefined;
+			const score = query ? scoreItem(item, query) : 1;
+			if (score > 0) match = { item, score, args: [] };
+			if (term && params && item.params) {
+				const termScore = scoreItem(item, term);
+				const args = termScore > 0 ? item.params(params) : undefined;
+				if (args && (!match || termScore >= match.score))
+					match = { item, score: termScore, args, params };
+			}
+			if (match) {
+				match.score += boost(item.name);
+				matches.push(match);
+			}
+		});
+		// sort 是稳定的，分数相同时保持注册顺序
+		return matches.sort((a, b) => b.score - a.score);
+	}
+
+	getCommand({ item, args }: SlashMatch) {
+		const { command } = item;
+		let name = item.name;
+		let commandArgs: Array<any> = [];
+		if (Array.isArray(command)) commandArgs = command;
+		else if (command) {
+			name = command.name;
+			commandArgs = command.args || [];
+		}
+		return { name, args: args.length > 0 ? args : commandArgs };
+	}
+
+	execute(match: SlashMatch | string) {
+		if (typeof match === 'string') {
+			const item = this.get(match);
+			if (!item) return;
+			match = { item, score: 0, args: [] };
+		}
+		const { item } = match;
+		const { name, args } = this.getCommand(match);
+		this.record(item.name);
+		if (item.onSelect) item.onSelect(args);
+		else this.engine.command.execute(name, ...args);
+	}
+
+	record(name: string) {
+		this.#recent = [
+			name,
+			...this.#recent.filter((item) => item !== name),
+		].slice(0, MAX_RECENT);
+	}
+
+	setRecent(names: Array<string>) {
+		this.#recent = names.slice(0, MAX_RECENT);
+	}
+}
+
+export default Slash;
@@ -0,0 +1,657 @@
+import { $ } from './node';
+import { getDocument, random } from './utils';
+import {
+	CARD_KEY,
+	READY_CARD_KEY,
+	SUGGESTION_AUTHOR,
+	SUGGESTION_ID,
+	SUGGESTION_KEY,
+	SUGGESTION_SELECTOR,
+	SUGGESTION_TIME,
+} from './constants';
+import { EngineInterface } from './types/engine';
+import { NodeInterface } from './types/node';
+import { RangeInterface } from './types/range';
+import {
+	SuggestionInterface,
+	SuggestionItem,
+	SuggestionType,
+} from './types/suggestion';
+
+type Point = { node: Node; offset: number };
+
+// 建议的 mark 节点，卡片的建议记录在卡片根节点上
+const MARK_SELECTOR = `span${SUGGESTION_SELECTOR}:not([${CARD_KEY}]):not([${READY_CARD_KEY}])`;
+
+const isCardRoot = (node: Node) =>
+	node.nodeType === Node.ELEMENT_NODE &&
+	((node as Element).hasAttribute(CARD_KEY) ||
+		(node as Element).hasAttribute(READY_CARD_KEY));
+
+const isVisibleText = (text: string) => !!text.replace(/\u200b/g, '');
+
+/**
+ * 按文档顺序获取节点下的所有文本节点和卡片根节点，不进入卡片内部
+ */
+const getUnits = (root: Node, units: Array<Node> = []) => {
+	root.childNodes.forEach((child) => {
+		if (child.nodeType === Node.TEXT_NODE || isCardRoot(child))
+			units.push(child);
+		else if (child.nodeType === Node.ELEMENT_NODE) getUnits(child, units);
+	});
+	return units;
+};
+
+const closestMark = (node: Node) => {
+	const element =
+		node.nodeType === Node.ELEMENT_NODE
+			? (node as Element)
+			: node.parentElement;
+	return element?.closest<HTMLElement>(MARK_SELECTOR) ?? null;
+};
+
+const getIndex = (node: Node) =>
+	Array.prototype.indexOf.call(node.parentNode!.childNodes, node);
+
+/**
+ * 建议模式，开启后输入和删除的内容以带有作者和时间的 mark 记录，由审阅者接受或拒绝。
+ * 建议都保存在节点属性上，协同编辑时和普通的 mark 一样同步给其他用户
+ */
+class Suggestion implements SuggestionInterface {
+	private engine: EngineInterface;
+	private _enabled: boolean = false;
+	private _author: string = '';
+
+	constructor(engine: EngineInterface) {
+		this.engine = engine;
+		const attributes = {
+			[SUGGESTION_KEY]: ['insert', 'delete'],
+			[SUGGESTION_ID]: '*',
+			[SUGGESTION_AUTHOR]: '*',
+			[SUGGESTION_TIME]: '@number',
+		};
+		engine.schema.add([
+			{
+				name: 'span',
+				type: 'mark',
+				attributes: {
+					...attributes,
+					[SUGGESTION_KEY]: {
+						required: true,
+						value: ['insert', 'delete'],
+					},
+				},
+			},
+			// 卡片根节点上的建议属性
+			{
+				type: 'inline',
+				attributes,
+			},
+			{
+				type: 'block',
+				attributes,
+			},
+		]);
+		engine.container.on('keydown', this.onKeydown);
+		engine.on('keydown:enter', this.onEnter);
+		engine.on('keydown:backspace', this.onBackspace);
+		engine.on('keydown:delete', this.onDelete);
+		engine.on('paste:event', this.onPaste);
+		engine.on('paste:before', this.onPasteBefore);
+	}
+
+	get enabled() {
+		return this._enabled;
+	}
+
+	get author() {
+		return this._author;
+	}
+
+	enable(author: string) {
+		this._author = author;
+		if (this._enabled) return;
+		this._enabled = true;
+		this.engine.trigger('suggestionChange', true);
+	}
+
+	disable() {
+		if (!this._enabled) return;
+		this._enabled = false;
+		this.engine.trigger('suggestionChange', false);
+	}
+
+	private isActive() {
+		return this._enabled && !this.engine.readonly;
+	}
+
+	private isOwn(element: Element, type: SuggestionType) {
+		return (
+			element.getAttribute(SUGGESTION_KEY) === type &&
+			element.getAttribute(SUGGESTION_AUTHOR) === this._author
+		);
+	}
+
+	private createMark(type: SuggestionType, id: string) {
+		const mark = $('<span></span>');
+		mark.attributes({
+			[SUGGESTION_KEY]: type,
+			[SUGGESTION_ID]: id,
+			[SUGGESTION_AUTHOR]: this._author,
+			[SUGGESTION_TIME]: Date.now().toString(),
+		});
+		return mark.get<HTMLElement>()!;
+	}
+
+	getItems() {
+		const items: Array<SuggestionItem> = [];
+		const map: Record<string, SuggestionItem> = {};
+		this.engine.container.find(SUGGESTION_SELECTOR).each((child) => {
+			const node = $(child);
+			const id = node.attributes(SUGGESTION_ID);
+			let item = map[id];
+			if (!item) {
+				item = map[id] = {
+					id,
+					type: node.attributes(SUGGESTION_KEY) as SuggestionType,
+					author: node.attributes(SUGGESTION_AUTHOR),
+					time: Number(node.attributes(SUGGESTION_TIME)) || 0,
+					text: '',
+					nodes: [],
+				};
+				items.push(item);
+			}
+			item.nodes.push(node);
+			if (!node.isCard())
+				item.text += (child.textContent || '').replace(/\u200b/g, '');
+		});
+		// 输入后又全部删除的建议只剩下占位符
+		return items.filter(
+			(item) => !!item.text || item.nodes.some((node) => node.isCard()),
+		);
+	}
+
+	find(id: string) {
+		return this.getItems().find((item) => item.id === id);
+	}
+
+	/**
+	 * 删除一段文本，返回删除后的开始和结束位置
+	 */
+	private deleteText(
+		text: Text,
+		start: number,
+		end: number,
+		state: { id: string },
+	): [Point, Point] {
+		const mark = closestMark(text);
+		// 当前作者插入的内容直接删除
+		if (mark && this.isOwn(mark, 'insert')) {
+			text.deleteData(start, end - start);
+			const point = { node: text, offset: start };
+			return [point, point];
+		}
+		if (mark?.getAttribute(SUGGESTION_KEY) === 'delete')
+			return [
+				{ node: text, offset: start },
+				{ node: text, offset: end },
+			];
+		if (end < text.length) text.splitText(end);
+		const segment = start > 0 ? text.splitText(start) : text;
+		if (isVisibleText(segment.data)) this.wrapDelete(segment, state);
+		return [
+			{ node: segment, offset: 0 },
+			{ node: segment, offset: segment.length },
+		];
+	}
+
+	/**
+	 * 使用删除建议包裹文本，和相邻的当前作者的删除建议合并
+	 */
+	private wrapDelete(segment: Text, state: { id: string }) {
+		const canMerge = (node: Node | null): node is HTMLElement =>
+			!!node &&
+			node.nodeType === Node.ELEMENT_NODE &&
+			!isCardRoot(node) &&
+			this.isOwn(node as Element, 'delete') &&
+			(!state.id ||
+				(node as Element).getAttribute(SUGGESTION_ID) === state.id);
+		const prev = segment.previousSibling;
+		const next = segment.nextSibling;
+		if (canMerge(prev)) {
+			state.id = prev.getAttribute(SUGGESTION_ID)!;
+			prev.appendChild(segment);
+			if (canMerge(next)) {
+				while (next.firstChild) prev.appendChild(next.firstChild);
+				next.remove();
+			}
+			return;
+		}
+		if (canMerge(next)) {
+			state.id = next.getAttribute(SUGGESTION_ID)!;
+			next.insertBefore(segment, next.firstChild);
+			return;
+		}
+		if (!state.id) state.id = random(8);
+		const mark = this.createMark('delete', state.id);
+		segment.parentNode!.insertBefore(mark, segment);
+		mark.appendChild(segment);
+	}
+
+	/**
+	 * 删除一个卡片，返回删除后的开始和结束位置
+	 */
+	private deleteCard(
+		root: HTMLElement,
+		state: { id: string },
+	): [Point, Point] {
+		const parent = root.parentNode!;
+		const index = getIndex(root);
+		if (this.isOwn(root, 'insert')) {
+			this.engine.card.remove(root);
+			const point = { node: parent, offset: index };
+			return [point, point];
+		}
+		if (root.getAttribute(SUGGESTION_KEY) !== 'delete') {
+			if (!state.id) state.id = random(8);
+			$(root).attributes({
+				[SUGGESTION_KEY]: 'delete',
+				[SUGGESTION_ID]: state.id,
+				[SUGGESTION_AUTHOR]: this._author,
+				[SUGGESTION_TIME]: Date.now().toString(),
+			});
+		}
+		return [
+			{ node: parent, offset: index },
+			{ node: parent, offset: index + 1 },
+		];
+	}
+
+	markDelete(range: RangeInterface) {
+		if (range.collapsed) return;
+		const nativeRange = range.toRange();
+		let root = range.commonAncestorContainer;
+		if (root.nodeType === Node.TEXT_NODE || isCardRoot(root))
+			root = root.parentNode!;
+		const state = { id: '' };
+		const result: Array<[Point, Point]> = [];
+		getUnits(root).forEach((unit) => {
+			if (!nativeRange.intersectsNode(unit)) return;
+			let points: [Point, Point];
+			if (unit.nodeType === Node.TEXT_NODE) {
+				const text = unit as Text;
+				const startOffset =
+					text === nativeRange.startContainer
+						? nativeRange.startOffset
+						: 0;
+				const endOffset =
+					text === nativeRange.endContainer
+						? nativeRange.endOffset
+						: text.length;
+				if (startOffset >= endOffset) return;
+				points = this.deleteText(text, startOffset, endOffset, state);
+			} else {
+				// 卡片需要完全在范围内
+				const index = getIndex(unit);
+				if (
+					nativeRange.comparePoint(unit.parentNode!, index) !== 0 ||
+					nativeRange.comparePoint(unit.parentNode!, index + 1) !== 0
+				)
+					return;
+				points = this.deleteCard(unit as HTMLElement, state);
+			}
+			result.push(points);
+		});
+		if (result.length === 0) return;
+		const [start] = result[0];
+		const [, end] = result[result.length - 1];
+		range.setStart(start.node, start.offset);
+		range.setEnd(end.node, end.offset);
+	}
+
+	/**
+	 * 在块级节点中查找光标前面或者后面第一个没有被删除的字符或者卡片
+	 */
+	private findTarget(
+		block: Node,
+		range: RangeInterface,
+		isBackspace: boolean,
+	) {
+		const nativeRange = range.toRange();
+		const { startContainer, startOffset } = nativeRange;
+		const units = getUnits(block);
+		if (isBackspace) units.reverse();
+		const target = range.cloneRange();
+		for (const unit of units) {
+			if (unit.nodeType === Node.TEXT_NODE) {
+				const text = unit as Text;
+				const isCurrent = text === startContainer;
+				if (
+					!isCurrent &&
+					nativeRange.comparePoint(text, 0) < 0 !== isBackspace
+				)
+					continue;
+				if (
+					closestMark(text)?.getAttribute(SUGGESTION_KEY) === 'delete'
+				)
+					continue;
+				const { data } = text;
+				if (isBackspace) {
+					for (
+						let i = (isCurrent ? startOffset : data.length) - 1;
+						i >= 0;
+						i--
+					) {
+						if (data[i] === '\u200b') continue;
+						const code = data.charCodeAt(i);
+						// 代理对需要一起删除
+						const start =
+							i > 0 && code >= 0xdc00 && code <= 0xdfff
+								? i - 1
+								: i;
+						target.setStart(text, start);
+						target.setEnd(text, i + 1);
+						return target;
+					}
+				} else {
+					for (
+						let i = isCurrent ? startOffset : 0;
+						i < data.length;
+						i++
+					) {
+						if (data[i] === '\u200b') continue;
+						const code = data.charCodeAt(i);
+						const end =
+							i < data.length - 1 &&
+							code >= 0xd800 &&
+							code <= 0xdbff
+								? i + 2
+								: i + 1;
+						target.setStart(text, i);
+						target.setEnd(text, end);
+						return target;
+					}
+				}
+			} else {
+				const index = getIndex(unit);
+				if (
+					isBackspace
+						? nativeRange.comparePoint(
+								unit.parentNode!,
+								index + 1,
+						  ) > 0
+						: nativeRange.comparePoint(unit.parentNode!, index) < 0
+				)
+					continue;
+				if ((unit as Element).getAttribute(SUGGESTION_KEY) === 'delete')
+					continue;
+				return target.select(unit);
+			}
+		}
+		return;
+	}
+
+	private remove(event: KeyboardEvent, isBackspace: boolean) {
+		if (!this.isActive()) return;
+		const { change, card, block, node } = this.engine;
+		const range = change.range.get();
+		const component = card.find(range.startNode, true);
+		// 光标在卡片两侧时删除卡片
+		if (range.collapsed && component?.isCursor(range.startNode)) {
+			event.preventDefault();
+			if (isBackspace === component.isRightCursor(range.startNode)) {
+				change.cacheRangeBeforeCommand();
+				this.markDelete(range.cloneRange().select(component.root));
+				card.focus(component, isBackspace);
+				change.change();
+			}
+			return false;
+		}
+		let target: RangeInterface | undefined = range;
+		if (range.collapsed) {
+			const blockNode = block.closest(range.startNode);
+			// 空行保持原有的删除行为
+			if (blockNode.length === 0 || node.isEmpty(blockNode)) return;
+			target = this.findTarget(blockNode[0], range, isBackspace);
+		}
+		event.preventDefault();
+		// 在块级节点的开始或者结尾不合并段落
+		if (!target) return false;
+		change.cacheRangeBeforeCommand();
+		this.markDelete(target);
+		change.apply(target.collapse(isBackspace));
+		return false;
+	}
+
+	onBackspace = (event: KeyboardEvent) => this.remove(event, true);
+
+	onDelete = (event: KeyboardEvent) => this.remove(event, false);
+
+	/**
+	 * 将光标移到建议的外面，光标在建议中间时分割建议
+	 */
+	private moveOut(range: RangeInterface, mark: HTMLElement) {
+		const doc = getDocument(mark);
+		const after = doc.createRange();
+		after.selectNodeContents(mark);
+		after.setStart(range.startContainer, range.startOffset);
+		const before = doc.createRange();
+		before.selectNodeContents(mark);
+		before.setEnd(range.startContainer, range.startOffset);
+		if (!isVisibleText(before.toString())) {
+			range.setStartBefore(mark);
+		} else if (!isVisibleText(after.toString())) {
+			range.setStartAfter(mark);
+		} else {
+			const right = mark.cloneNode(false);
+			right.appendChild(after.extractContents());
+			mark.parentNode!.insertBefore(right, mark.nextSibling);
+			range.setStartAfter(mark);
+		}
+		range.collapse(true);
+	}
+
+	/**
+	 * 确保光标在当前作者插入的建议中
+	 */
+	private prepareInsert(range: RangeInterface) {
+		const mark = closestMark(range.startContainer);
+		if (mark && this.isOwn(mark, 'insert')) return;
+		if (mark) this.moveOut(range, mark);
+		const { startContainer, startOffset } = range;
+		let prev: Node | null = null;
+		if (startContainer.nodeType !== Node.TEXT_NODE)
+			prev = startContainer.childNodes[startOffset - 1] ?? null;
+		else if (
+			!isVisibleText(
+				(startContainer as Text).data.substring(0, startOffset),
+			)
+		)
+			prev = startContainer.previousSibling;
+		// 紧挨着当前作者插入的建议时继续在这个建议中输入
+		if (
+			prev &&
+			prev.nodeType === Node.ELEMENT_NODE &&
+			(prev as Element).matches(MARK_SELECTOR) &&
+			this.isOwn(prev as Element, 'insert')
+		) {
+			const last = getUnits(prev)
+				.filter((unit) => unit.nodeType === Node.TEXT_NODE)
+				.pop() as Text | undefined;
+			if (last) {
+				range.setStart(last, last.length);
+				range.collapse(true);
+				return;
+			}
+		}
+		const element = this.createMark('insert', random(8));
+		const text = getDocument(element).createTextNode('\u200b');
+		element.appendChild(text);
+		range.insertNode(element);
+		range.setStart(text, 1);
+		range.collapse(true);
+		range.handleBr();
+	}
+
+	onKeydown = (event: KeyboardEvent) => {
+		if (
+			!this.isActive() ||
+			event.defaultPrevented ||
+			event.ctrlKey ||
+			event.metaKey ||
+			(event.key.length !== 1 && event.key !== 'Process')
+		)
+			return;
+		const { change, card } = this.engine;
+		const range = change.range.get();
+		if (card.find(range.startNode, true)?.isCursor(range.startNode)) return;
+		if (!range.collapsed) {
+			this.markDelete(range);
+			range.collapse(false);
+		}
+		this.prepareInsert(range);
+		change.range.select(range);
+	};
+
+	onEnter = () => {
+		if (!this.isActive()) return;
+		const { change } = this.engine;
+		const range = change.range.get();
+		if (range.collapsed) return;
+		this.markDelete(range);
+		change.range.select(range.collapse(false));
+		return;
+	};
+
+	onPaste = () => {
+		if (!this.isActive()) return;
+		const { change } = this.engine;
+		const range = change.range.get();
+		if (range.collapsed) return;
+		this.markDelete(range);
+		change.range.select(range.collapse(false));
+		return;
+	};
+
+	/**
+	 * 粘贴的内容全部作为一条插入建议
+	 */
+	onPasteBefore = (fragment: DocumentFragment) => {
+		if (!this.isActive()) return;
+		const { node } = this.engine;
+		const id = random(8);
+		getUnits(fragment).forEach((unit) => {
+			if (isCardRoot(unit)) {
+				$(unit).attributes({
+					[SUGGESTION_KEY]: 'insert',
+					[SUGGESTION_ID]: id,
+					[SUGGESTION_AUTHOR]: this._author,
+					[SUGGESTION_TIME]: Date.now().toString(),
+				});
+				return;
+			}
+			const parent = unit.parentNode!;
+			// 块级节点之间的空白
+			if (
+				!unit.textContent?.trim() &&
+				(parent === fragment ||
+					Array.from(parent.childNodes).some((child) =>
+						node.isBlock(child),
+					))
+			)
+				return;
+			const mark = this.createMark('insert', id);
+			parent.insertBefore(mark, unit);
+			mark.appendChild(unit);
+		});
+	};
+
+	/**
+	 * 接受或拒绝建议
+	 * @param id 建议 id，不传为所有建议
+	 * @param accept 是否接受
+	 */
+	private resolve(id: string | undefined, accept: boolean) {
+		const { container, change, history, card, node, block } = this.engine;
+		const nodes = container.find(
+			id ? `[${SUGGESTION_ID}="${id}"]` : SUGGESTION_SELECTOR,
+		);
+		if (nodes.length === 0) return;
+		const label = this.engine.language.get<string>(
+			'history',
+			accept ? 'acceptSuggestion' : 'rejectSuggestion',
+		);
+		// 接受或拒绝单独作为一条历史记录
+		history.transact(
+			() => {
+				const blocks: Array<NodeInterface> = [];
+				nodes.each((child) => {
+					if (!container.contains(child)) return;
+					const element = $(child);
+					const parentBlock = block.closest(element);
+					if (parentBlock.length > 0 && !parentBlock.equal(element))
+						blocks.push(parentBlock);
+					const keep =
+						(element.attributes(SUGGESTION_KEY) === 'insert') ===
+						accept;
+					if (element.isCard()) {
+						if (!keep) return card.remove(element);
+						[
+							SUGGESTION_KEY,
+							SUGGESTION_ID,
+							SUGGESTION_AUTHOR,
+							SUGGESTION_TIME,
+						].forEach((key) => element.removeAttributes(key));
+					} else if (keep) {
+						getUnits(child).forEach((unit) => {
+							if (unit.nodeType !== Node.TEXT_NODE) return;
+							const text = unit as Text;
+							text.data = text.data.replace(/\u200b/g, '');
+							if (!text.data) text.remove();
+						});
+						node.unwrap(element);
+					} else element.remove();
+					return;
+				});
+				blocks.forEach((blockNode) => {
+					if (
+						container.contains(blockNode) &&
+						node.isEmpty(blockNode)
+					)
+						blockNode.html('<br />');
+				});
+				change.combinText();
+				change.change();
+			},
+			{ label },
+		);
+	}
+
+	accept(id: string) {
+		this.resolve(id, true);
+	}
+
+	reject(id: string) {
+		this.resolve(id, false);
+	}
+
+	acceptAll() {
+		this.resolve(undefined, true);
+	}
+
+	rejectAll() {
+		this.resolve(undefined, false);
+	}
+
+	destroy() {
+		const { container } = this.engine;
+		container.off('keydown', this.onKeydown);
+		this.engine.off('keydown:enter', this.onEnter);
+		this.engine.off('keydown:backspace', this.onBackspace);
+		this.engine.off('keydown:delete', this.onDelete);
+		this.engine.off('paste:event', this.onPaste);
+		this.engine.off('paste:before', this.onPasteBefore);
+	}
+}
+
+export default Suggestion;
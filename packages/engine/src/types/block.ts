@@ -1,7 +1,22 @@
+import { CardValue } from './card';
 import { NodeInterface } from './node';
 import { ElementPluginInterface, PluginOptions } from './plugin';
 import { RangeInterface } from './range';
 import { SchemaBlock } from './schema';
+/**
+ * 转换节点类型的可选项
+ */
+export type BlockConvertOptions = {
+	/**
+	 * 转换的区域，默认为当前光标所在位置
+	 */
+	range?: RangeInterface;
+	/**
+	 * 转换为卡片或者自定义列表时附加的卡片值
+	 */
+	value?: CardValue;
+};
+
 /**
  * block 插件管理器
  */
@@ -157,6 +172,28 @@ export interface BlockModelInterface {
 	 * @param block 节点
 	 */
 	insertOrSplit(range: RangeInterface, block: NodeInterface): void;
+	/**
+	 * 把一级节点移动到另一个一级节点的前面或者后面
+	 * @param block 需要移动的节点
+	 * @param target 目标节点
+	 * @param position 放在目标节点的前面或者后面，默认后面
+	 */
+	move(
+		block: NodeInterface,
+		target: NodeInterface,
+		position?: 'before' | 'after',
+	): void;
+	/**
+	 * 把选中的一级节点转换为其它类型，尽量保留节点中的文本样式
+	 * @param target 转换的目标：p、h1-h6、blockquote、ul、ol、自定义列表的卡片名称（如任务列表的 checkbox）或者 block 卡片名称
+	 * @param options 可选项
+	 */
+	convert(target: string, options?: BlockConvertOptions): void;
+	/**
+	 * 获取选中的一级节点当前的类型，类型和 convert 的目标一致
+	 * @param range 光标，默认为当前光标
+	 */
+	getConvertTarget(range?: RangeInterface): string | undefined;
 }
 /**
  * block 插件
@@ -9,6 +9,7 @@ import {
 } from './toolbar';
 import { CardActiveTrigger, CardType, SelectStyleType } from '../card/enum';
 import { Placement } from './position';
+import type { Element as ModelElement, MarkdownContext } from '../model';
 
 export interface CardOptions<T extends CardValue = CardValue> {
 	editor: EditorInterface;
@@ -97,6 +98,49 @@ export type CardToolbarItemOptions =
 			items: Array<DropdownSwitchOptions | DropdownButtonOptions>;
 	  };
 
+/**
+ * 静态渲染卡片时的上下文
+ */
+export type CardStaticContext = {
+	/**
+	 * 卡片在文档中的类型 block inline
+	 */
+	type: CardType;
+	/**
+	 * 将编辑器值转换为静态 html，用于卡片值中嵌套的内容
+	 * @param value 编辑器值
+	 */
+	toHTML(value: string): string;
+};
+
+/**
+ * 卡片的静态渲染器，不依赖卡片组件，服务端可以单独引入
+ */
+export type CardStaticEntry<T extends CardValue = CardValue> = {
+	/**
+	 * 卡片名称
+	 */
+	readonly cardName: string;
+	/**
+	 * 不依赖 DOM 将卡片值渲染为静态 html
+	 * @param value 卡片值
+	 * @param context 渲染上下文
+	 */
+	toStaticHTML?(value: T, context: CardStaticContext): string;
+};
+
+/**
+ * 比较卡片版本时的上下文
+ */
+export type CardDiffContext = {
+	/**
+	 * 比较两个编辑器值，返回带有增删标记的合并值，用于卡片值中嵌套的内容
+	 * @param oldValue 旧的编辑器值
+	 * @param newValue 新的编辑器值
+	 */
+	diffValue(oldValue: string, newValue: string): string;
+};
+
 export interface CardEntry<T extends CardValue = CardValue> {
 	prototype: CardInterface;
 	new (options: CardOptions<T>): CardInterface;
@@ -136,8 +180,45 @@ export interface CardEntry<T extends CardValue = CardValue> {
 	 * 是否在卡片处于视图内时才渲染，默认 false
 	 */
 	readonly lazyRender: boolean;
+	/**
+	 * 不依赖 DOM 将卡片值渲染为静态 html，用于服务端输出
+	 * @param value 卡片值
+	 * @param context 渲染上下文
+	 */
+	toStaticHTML?(value: T, context: CardStaticContext): string;
+	/**
+	 * 比较卡片的两个版本，返回用于预览差异的卡片值，返回 undefined 将使用新的值渲染
+	 * @param oldValue 旧的卡片值
+	 * @param newValue 新的卡片值
+	 * @param context 比较上下文
+	 */
+	diff?(oldValue: T, newValue: T, context: CardDiffContext): T | void;
+	/**
+	 * 卡片转换为其它类型时，把卡片值转换为 block 节点的 html。没有实现的卡片保持不变
+	 * @param value 卡片值
+	 */
+	toBlocks?(value: T): string;
+	/**
+	 * 其它节点转换为卡片时，根据转换的段落生成卡片值。没有实现的卡片不能作为转换的目标
+	 * @param blocks 转换的段落
+	 */
+	fromBlocks?(blocks: Array<CardConvertBlock>): T;
 }
 
+/**
+ * 转换为卡片时的段落
+ */
+export type CardConvertBlock = {
+	/**
+	 * 段落的 html，和编辑器 getValue 的格式一致
+	 */
+	html: string;
+	/**
+	 * 段落的文本
+	 */
+	text: string;
+};
+
 export interface CardInterface<T extends CardValue = CardValue> {
 	/**
 	 * 初始化调用
@@ -348,6 +429,11 @@ export interface CardInterface<T extends CardValue = CardValue> {
 	 * @param args 渲染自定义参数
 	 */
 	render(...args: any): NodeInterface | string | void;
+	/**
+	 * 在阅读器中渲染卡片，实现后 View 中会代替 render 调用，只需要处理只读状态下的展示和交互
+	 * @param args 渲染自定义参数
+	 */
+	renderReader?(...args: any): NodeInterface | string | void;
 	/**
 	 * 销毁
 	 */
@@ -378,6 +464,15 @@ export interface CardInterface<T extends CardValue = CardValue> {
 	 * 获取可编辑区域选中的所有节点
 	 */
 	getSelectionNodes?(): Array<NodeInterface>;
+	/**
+	 * 获取查找替换时可以搜索的节点，每个节点中的文本单独匹配。不是可编辑卡片时需要实现才会被搜索
+	 */
+	getSearchNodes?(): Array<NodeInterface>;
+	/**
+	 * 替换 getSearchNodes 中搜索到的文本，区域按在文档中出现的顺序排列
+	 * @param items 需要替换的区域和替换内容
+	 */
+	replaceText?(items: Array<{ range: RangeInterface; text: string }>): void;
 	/**
 	 * 卡片自行处理mark样式
 	 * @param mark 如果为空，则移除所有mark样式
@@ -389,6 +484,12 @@ export interface CardInterface<T extends CardValue = CardValue> {
 	 * @param clone 是否克隆
 	 */
 	queryMarks?(clone?: boolean): NodeInterface[];
+	/**
+	 * 转换为 markdown，返回 undefined 将使用默认规则，不可编辑卡片默认保留 card 标签
+	 * @param node 卡片的 model 节点
+	 * @param context 转换上下文
+	 */
+	toMarkdown?(node: ModelElement, context: MarkdownContext): string | void;
 }
 
 export interface CardModel {
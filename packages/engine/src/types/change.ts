@@ -50,6 +50,8 @@ export interface ChangeEventInterface {
 			event: DragEvent;
 			range?: RangeInterface;
 			card?: CardInterface;
+			block?: NodeInterface;
+			target?: DropBlockTarget;
 			files: Array<File | null>;
 		}) => void,
 	): void;
@@ -333,3 +335,11 @@ export interface ChangeInterface {
 export type DragoverOptions = {
 	className?: string;
 };
+
+/**
+ * 拖动block节点时放置的位置，在目标节点的前面或者后面
+ */
+export type DropBlockTarget = {
+	node: NodeInterface;
+	position: 'before' | 'after';
+};
@@ -1,14 +1,17 @@
 import { NodeInterface, Selector, EventListener } from './node';
 import { ChangeInterface } from './change';
 import { SchemaInterface } from './schema';
-import { HistoryInterface } from './history';
+import { HistoryInterface, HistoryPersistOptions } from './history';
 import { CardInterface } from './card';
 import { ClipboardData } from './clipboard';
 import { TypingInterface } from './typing';
 import { RangeInterface } from './range';
 import { EditorInterface, EditorOptions } from './editor';
 import { HotkeyInterface } from './hotkey';
-import { Model, Operation, Element, Node } from '../model';
+import { SuggestionInterface } from './suggestion';
+import { FindInterface, FindMatch } from './find';
+import { SlashInterface } from './slash';
+import { Model, Operation, Element, Node, MarkdownContext } from '../model';
 
 /**
  * 编辑器容器接口
@@ -84,6 +87,10 @@ export interface EngineOptions extends EditorOptions {
 		 */
 		check?: (text: string, html: string) => Promise<string | false>;
 	};
+	/**
+	 * 持久化历史记录，刷新页面后加载同一个文档还可以撤销
+	 */
+	history?: HistoryPersistOptions;
 }
 
 export interface Engine<T extends EngineOptions = EngineOptions> {
@@ -123,6 +130,18 @@ export interface EngineInterface<T extends EngineOptions = EngineOptions>
 	 * 快捷键
 	 */
 	hotkey: HotkeyInterface;
+	/**
+	 * 建议模式
+	 */
+	suggestion: SuggestionInterface;
+	/**
+	 * 查找替换
+	 */
+	find: FindInterface;
+	/**
+	 * 斜杠菜单的条目
+	 */
+	slash: SlashInterface;
 	/**
 	 * 聚焦到编辑器
 	 */
@@ -200,6 +219,10 @@ export interface EngineInterface<T extends EngineOptions = EngineOptions>
 	 * 获取JSON格式的值
 	 */
 	getJsonValue(): Element;
+	/**
+	 * 获取 markdown 格式的值
+	 */
+	getMarkdown(): string;
 	/**
 	 * 获取纯文本
 	 * @deprecated 请使用 model.toText 性能更好
@@ -300,6 +323,21 @@ export interface EngineInterface<T extends EngineOptions = EngineOptions>
 		listener: (node: Node) => false | void,
 		options?: boolean | AddEventListenerOptions,
 	): void;
+	/**
+	 * 解析 model node 为 markdown 时触发。调用 callback 传入 markdown 并返回 false 表示已处理当前节点
+	 * @param node 当前节点
+	 * @param context 转换上下文
+	 * @param callback 设置当前节点的 markdown
+	 */
+	on(
+		eventType: 'parse:markdown',
+		listener: (
+			node: Element,
+			context: MarkdownContext,
+			callback: (markdown: string) => void,
+		) => false | void,
+		options?: boolean | AddEventListenerOptions,
+	): void;
 	/**
 	 * 解析DOM节点，生成文本，遍历子节点时触发。返回false跳过当前节点
 	 * @param node 当前遍历的节点
@@ -511,6 +549,20 @@ export interface EngineInterface<T extends EngineOptions = EngineOptions>
 		listener: (node: Node) => false | void,
 		options?: boolean | AddEventListenerOptions,
 	): void;
+	/**
+	 * 解析 model node 为 markdown 时触发。调用 callback 传入 markdown 并返回 false 表示已处理当前节点
+	 * @param node 当前节点
+	 * @param context 转换上下文
+	 * @param callback 设置当前节点的 markdown
+	 */
+	off(
+		eventType: 'parse:markdown',
+		listener: (
+			node: Element,
+			context: MarkdownContext,
+			callback: (markdown: string) => void,
+		) => false | void,
+	): void;
 	/**
 	 * 解析DOM节点，生成文本，遍历子节点时触发。返回false跳过当前节点
 	 * @param node 当前遍历的节点
@@ -1012,6 +1064,28 @@ export interface EngineInterface<T extends EngineOptions = EngineOptions>
 		listener: (readonly: boolean) => void,
 		options?: boolean | AddEventListenerOptions,
 	): void;
+	/**
+	 * 建议模式开启或关闭时
+	 * @param eventType
+	 * @param listener enabled:是否开启
+	 * @param options
+	 */
+	on(
+		eventType: 'suggestionChange',
+		listener: (enabled: boolean) => void,
+		options?: boolean | AddEventListenerOptions,
+	): void;
+	/**
+	 * 查找结果或者当前查找结果变化时
+	 * @param eventType
+	 * @param listener matches:所有查找结果、index:当前查找结果的索引
+	 * @param options
+	 */
+	on(
+		eventType: 'findChange',
+		listener: (matches: Array<FindMatch>, index: number) => void,
+		options?: boolean | AddEventListenerOptions,
+	): void;
 	/**
 	 * 执行命令之前
 	 * @param eventType
@@ -1256,6 +1330,24 @@ export interface EngineInterface<T extends EngineOptions = EngineOptions>
 	 * @param listener name:插件名称、args:参数
 	 */
 	off(eventType: 'readonly', listener: (readonly: boolean) => void): void;
+	/**
+	 * 建议模式开启或关闭时
+	 * @param eventType
+	 * @param listener enabled:是否开启
+	 */
+	off(
+		eventType: 'suggestionChange',
+		listener: (enabled: boolean) => void,
+	): void;
+	/**
+	 * 查找结果或者当前查找结果变化时
+	 * @param eventType
+	 * @param listener matches:所有查找结果、index:当前查找结果的索引
+	 */
+	off(
+		eventType: 'findChange',
+		listener: (matches: Array<FindMatch>, index: number) => void,
+	): void;
 	/**
 	 * 执行命令之前
 	 * @param eventType
@@ -1443,6 +1535,23 @@ export interface EngineInterface<T extends EngineOptions = EngineOptions>
 	 * @param listener name:插件名称、args:参数
 	 */
 	trigger(eventType: 'readonly', readonly: boolean): void;
+	/**
+	 * 建议模式开启或关闭时
+	 * @param eventType
+	 * @param enabled 是否开启
+	 */
+	trigger(eventType: 'suggestionChange', enabled: boolean): void;
+	/**
+	 * 查找结果或者当前查找结果变化时
+	 * @param eventType
+	 * @param matches 所有查找结果
+	 * @param index 当前查找结果的索引
+	 */
+	trigger(
+		eventType: 'findChange',
+		matches: Array<FindMatch>,
+		index: number,
+	): void;
 	/**
 	 * 执行命令之前
 	 * @param eventType
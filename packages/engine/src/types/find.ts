@@ -0,0 +1,105 @@
+import { CardInterface } from './card';
+import { RangeInterface } from './range';
+
+/**
+ * 查找选项
+ */
+export type FindOptions = {
+	/**
+	 * 是否把查找内容作为正则表达式
+	 */
+	regex?: boolean;
+	/**
+	 * 是否区分大小写
+	 */
+	caseSensitive?: boolean;
+	/**
+	 * 是否全词匹配
+	 */
+	wholeWord?: boolean;
+	/**
+	 * 是否查找卡片中的内容，包括可编辑卡片的编辑区域以及实现了 getSearchNodes 的卡片，默认 true
+	 */
+	includeCards?: boolean;
+};
+
+/**
+ * 一个查找结果
+ */
+export type FindMatch = {
+	/**
+	 * 匹配到的文本
+	 */
+	text: string;
+	/**
+	 * 匹配到的文本所在的区域，文档变化后会重新查找
+	 */
+	range: RangeInterface;
+	/**
+	 * 匹配结果所在的卡片
+	 */
+	card?: CardInterface;
+};
+
+export interface FindInterface {
+	/**
+	 * 当前查找的内容
+	 */
+	readonly query: string;
+	/**
+	 * 当前查找的选项
+	 */
+	readonly options: FindOptions;
+	/**
+	 * 所有查找结果，按在文档中出现的顺序排列
+	 */
+	readonly matches: Array<FindMatch>;
+	/**
+	 * 当前查找结果的索引，没有查找结果时为 -1
+	 */
+	readonly index: number;
+	/**
+	 * 查找并高亮所有结果，不会修改文档。正则表达式不合法时抛出错误
+	 * @param query 查找内容
+	 * @param options 查找选项
+	 * @return 查找结果数量
+	 */
+	search(query: string, options?: FindOptions): number;
+	/**
+	 * 选中下一个查找结果，到最后一个时回到第一个
+	 */
+	next(): FindMatch | undefined;
+	/**
+	 * 选中上一个查找结果，到第一个时回到最后一个
+	 */
+	prev(): FindMatch | undefined;
+	/**
+	 * 选中指定索引的查找结果
+	 * @param index 索引
+	 */
+	select(index: number): FindMatch | undefined;
+	/**
+	 * 替换当前的查找结果，并选中下一个结果。
+	 * 使用正则表达式查找时可以在替换内容中使用 $1、$<name> 等分组引用
+	 * @param text 替换内容
+	 */
+	replace(text: string): void;
+	/**
+	 * 替换所有查找结果，作为一条历史记录
+	 * @param text 替换内容
+	 * @return 替换的数量
+	 */
+	replaceAll(text: string): number;
+	/**
+	 * 清除查找结果和高亮
+	 */
+	clear(): void;
+	/**
+	 * 重新绘制高亮，编辑器尺寸变化后调用
+	 */
+	refresh(): void;
+	/**
+	 * 销毁
+	 */
+	destroy(): void;
+}
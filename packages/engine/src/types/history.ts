@@ -8,6 +8,76 @@ export type HirtoryOperation = {
 	startRangePath?: { start: RangePath; end: RangePath };
 	id?: string;
 	type?: 'undo' | 'redo';
+	/**
+	 * 历史记录名称，通过 transact 或者 startBatch 设置
+	 */
+	label?: string;
+	/**
+	 * 保存时间
+	 */
+	time?: number;
+};
+
+export type HistoryStackItem = {
+	id: string;
+	/**
+	 * 历史记录名称，没有设置时为 undefined
+	 */
+	label?: string;
+	/**
+	 * 保存时间
+	 */
+	time: number;
+	/**
+	 * 包含的操作数量
+	 */
+	size: number;
+};
+
+export type HistoryTransactOptions = {
+	/**
+	 * 历史记录名称，可以用于展示历史记录面板
+	 */
+	label?: string;
+};
+
+/**
+ * 历史记录存储，可以使用 LocalStorageHistoryStorage、IndexedDBHistoryStorage 或者自定义
+ */
+export interface HistoryStorage {
+	get(
+		key: string,
+	): Promise<string | null | undefined> | string | null | undefined;
+	set(key: string, value: string): Promise<void> | void;
+	remove(key: string): Promise<void> | void;
+}
+
+export type HistoryPersistOptions = {
+	/**
+	 * 存储
+	 */
+	storage: HistoryStorage;
+	/**
+	 * 文档标识，不同文档使用不同的 key
+	 */
+	key: string;
+	/**
+	 * 序列化后的最大长度，超过后丢弃最早的可以撤销的记录，可以重做的记录不会丢弃，默认 1024 * 1024
+	 */
+	maxSize?: number;
+};
+
+export type HistoryPersistData = {
+	/**
+	 * 序列化格式的版本
+	 */
+	version: number;
+	/**
+	 * 保存时文档内容的 hash，和加载的文档不一致时丢弃
+	 */
+	hash: string;
+	index: number;
+	actions: HirtoryOperation[];
 };
 
 export interface HistoryInterface {
@@ -36,9 +106,49 @@ export interface HistoryInterface {
 	 */
 	clear(): void;
 	/**
-	 * 保存一个 op 到历史记录
+	 * 保存一个 op 到历史记录，批量操作中调用不会保存
 	 */
 	saveOp(): void;
+	/**
+	 * 执行 fn，期间产生的所有操作合并为一条历史记录，fn 返回 Promise 时等待完成后再保存
+	 * @param fn 执行的方法
+	 * @param options 可选项
+	 */
+	transact<T>(fn: () => T, options?: HistoryTransactOptions): T;
+	/**
+	 * 开始批量操作，到对应的 endBatch 为止产生的操作合并为一条历史记录，可以嵌套，使用最外层的名称
+	 * @param label 历史记录名称
+	 */
+	startBatch(label?: string): void;
+	/**
+	 * 结束批量操作，最外层结束时保存
+	 */
+	endBatch(): void;
+	/**
+	 * 是否在批量操作中
+	 */
+	isBatching(): boolean;
+	/**
+	 * 获取历史记录堆栈，index 之前的为可撤销的记录，从 index 开始为可恢复的记录
+	 */
+	getStack(): { items: HistoryStackItem[]; index: number };
+	/**
+	 * 序列化历史记录堆栈，包含当前文档内容的 hash
+	 */
+	toJSON(): HistoryPersistData;
+	/**
+	 * 恢复序列化的历史记录堆栈，hash 和当前文档内容不一致时返回 false
+	 * @param data 序列化的数据
+	 */
+	fromJSON(data: HistoryPersistData): boolean;
+	/**
+	 * 从配置的存储中恢复历史记录，setValue 后会自动调用
+	 */
+	restore(): Promise<boolean>;
+	/**
+	 * 保存未写入存储的历史记录，移除监听并重置
+	 */
+	destroy(): void;
 	/**
 	 * 处理本地自身操作
 	 * @param ops 操作集合
@@ -23,3 +23,6 @@ export * from './parser';
 export * from './resizer';
 export * from './position';
 export * from './editor';
+export * from './suggestion';
+export * from './find';
+export * from './slash';
@@ -4,6 +4,8 @@ import { ConversionData } from './conversion';
 import { EditorInterface } from './editor';
 import { NodeInterface } from './node';
 import { SchemaGlobal, SchemaRule, SchemaValue } from './schema';
+import { SlashItem } from './slash';
+import type { Element as ModelElement, MarkdownContext } from '../model';
 
 export type PluginOptions = {
 	/**
@@ -66,6 +68,10 @@ export interface PluginInterface<T extends PluginOptions = PluginOptions> {
 		| { key: string; args: any }
 		| Array<{ key: string; args: any }>
 		| Array<string>;
+	/**
+	 * 插件提供给斜杠菜单的条目，打开菜单时获取，可以使用当前语言的标题
+	 */
+	slash?(): Array<SlashItem>;
 	/**
 	 * 插件是否在等待处理中
 	 * @param callback 插件有等待动作时回调
@@ -160,6 +166,13 @@ export interface ElementPluginInterface<T extends PluginOptions = PluginOptions>
 	 * @returns 节点
 	 */
 	createElement(...args: any): NodeInterface;
+	/**
+	 * 将符合当前插件标签名称的节点转换为 markdown，返回 undefined 将使用默认规则
+	 * 默认规则无法转换的节点会以 html 的方式保留
+	 * @param node model 节点
+	 * @param context 转换上下文
+	 */
+	toMarkdown?(node: ModelElement, context: MarkdownContext): string | void;
 }
 
 export interface PluginModelInterface {
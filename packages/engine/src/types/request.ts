@@ -2,6 +2,7 @@ export type RequestDataValue = string | number | boolean | symbol | Blob;
 export type RequestData =
 	| Record<string, RequestDataValue>
 	| FormData
+	| Blob
 	| (() => Promise<Record<string, RequestDataValue> | FormData>);
 export type RequestHeaders =
 	| Record<string, string>
@@ -15,7 +16,7 @@ export type AjaxOptions = {
 	/**
 	 * 请求方法
 	 */
-	method?: 'POST' | 'GET' | 'PUT' | 'DELETE' | 'OPTIONS' | 'HEAD';
+	method?: 'POST' | 'GET' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS' | 'HEAD';
 	/**
 	 * 数据
 	 */
@@ -99,6 +100,22 @@ export type UploaderOptions = {
 	 * 请求头
 	 */
 	headers?: RequestHeaders;
+	/**
+	 * 自定义上传方式，例如直接上传到对象存储，设置后不使用 url 和 chunk
+	 */
+	transport?: UploadTransport;
+	/**
+	 * 分片上传，传 true 使用默认配置，不传时整个文件一次上传
+	 */
+	chunk?: UploaderChunkOptions | boolean;
+	/**
+	 * 请求失败后的重试次数，分片上传或者设置了 transport 时默认 3 次，否则默认不重试
+	 */
+	retries?: number;
+	/**
+	 * 第一次重试前等待的毫秒数，之后每次重试等待时间翻倍，默认 1000
+	 */
+	retryDelay?: number;
 	/**
 	 * 上传前处理
 	 */
@@ -121,6 +138,147 @@ export type UploaderOptions = {
 	onSuccess?: (response: any, file: File) => void;
 };
 
+export type UploaderChunkOptions = {
+	/**
+	 * 分片大小，默认 5M
+	 */
+	size?: number;
+	/**
+	 * 文件大于这个值时才分片上传，默认等于分片大小
+	 */
+	threshold?: number;
+	/**
+	 * 断点续传协议，默认 default
+	 * default 依次请求 init、chunk、complete 三个接口
+	 * tus 使用 tus 1.0.0 协议，https://tus.io/protocols/resumable-upload.html
+	 */
+	protocol?: 'default' | 'tus';
+	/**
+	 * 初始化上传的地址，默认为上传地址加上 /init，返回 uploadId 和已经上传的分片序号 uploaded
+	 * tus 协议时为创建上传的地址，默认为上传地址
+	 */
+	init?: string;
+	/**
+	 * 上传分片的地址，默认为上传地址加上 /chunk，tus 协议时不使用
+	 */
+	chunk?: string;
+	/**
+	 * 合并分片的地址，默认为上传地址加上 /complete，返回值和整个文件上传时一致
+	 * tus 协议时可选，上传完成后把文件地址提交到这个地址，不传时返回 { url: 文件地址 }
+	 */
+	complete?: string;
+};
+
+export type UploadTransportContext = {
+	/**
+	 * FormData 中文件的字段名称
+	 */
+	name: string;
+	/**
+	 * 上传选项
+	 */
+	options: UploaderOptions;
+	/**
+	 * 发送请求，失败时按照 retries 重试，暂停或者取消上传时中断
+	 * @param options 请求选项，没有设置的 headers、withCredentials 等使用上传选项中的值
+	 * @param onProgress 请求数据的发送进度
+	 */
+	request(
+		options: AjaxOptions,
+		onProgress?: (loaded: number, total: number) => void,
+	): Promise<{ response: any; xhr: XMLHttpRequest }>;
+	/**
+	 * 组合上传选项中的 data、文件的 data 以及 fields，有 blob 时以 name 为字段名称放在最后
+	 * @param fields 字段
+	 * @param blob 文件或者分片
+	 */
+	getFormData(
+		fields: Record<string, string | number | undefined>,
+		blob?: Blob,
+	): Promise<FormData>;
+	/**
+	 * 报告上传进度，会触发 onUploading
+	 * @param loaded 已经上传的字节数
+	 */
+	progress(loaded: number): void;
+	/**
+	 * 暂停或者取消上传时触发 abort
+	 */
+	signal: AbortSignal;
+};
+
+export interface UploadTransport {
+	/**
+	 * 上传文件，暂停后恢复上传会再次调用
+	 * @param file 文件
+	 * @param context 上传上下文
+	 * @returns 上传结果，会传给 onSuccess
+	 */
+	upload(file: File, context: UploadTransportContext): Promise<any>;
+	/**
+	 * 取消上传后调用，可以在这里清理已经上传的内容
+	 * @param file 文件
+	 */
+	cancel?(file: File): void;
+}
+
+export type PresignedTarget = {
+	/**
+	 * 上传地址
+	 */
+	url: string;
+	/**
+	 * 请求方法，默认 PUT，PUT 时请求内容为文件，POST 时为包含 fields 和文件的 FormData
+	 */
+	method?: 'PUT' | 'POST';
+	/**
+	 * 请求头，PUT 时默认带上文件的 Content-Type
+	 */
+	headers?: Record<string, string>;
+	/**
+	 * POST 上传时表单中的字段，例如 S3 的 policy、signature
+	 */
+	fields?: Record<string, string>;
+	/**
+	 * 上传完成后传给 onSuccess 的数据，默认为 { url: 去掉参数的上传地址, name: 文件名称 }
+	 */
+	result?: any;
+};
+
+export type PresignedTransportOptions = {
+	/**
+	 * 获取预签名地址的接口，提交 name、size、type 以及上传选项中的 data
+	 */
+	action: string;
+	/**
+	 * 解析接口返回的预签名地址，默认读取 response 或者 response.data 中的 url、method、headers、fields、result
+	 */
+	parse?: (response: any) => PresignedTarget;
+	/**
+	 * 上传完成后通知后端的地址，提交 url、name、size、type，返回值传给 onSuccess
+	 */
+	complete?: string;
+};
+
+export type MemoryTransportOptions = {
+	/**
+	 * 每次报告进度的间隔，单位毫秒，默认 0
+	 */
+	delay?: number;
+	/**
+	 * 每次报告进度时增加的字节数，默认为文件大小的 1/10
+	 */
+	step?: number;
+};
+
+export type UploadTaskStatus =
+	| 'waiting'
+	| 'uploading'
+	| 'paused'
+	| 'done'
+	| 'error'
+	| 'cancelled';
+
 export type File = globalThis.File & { uid?: string; data?: {} };
 
 export type FileInfo = {
@@ -196,4 +354,29 @@ export interface RequestInterface {
 	 * @param options
 	 */
 	getFiles(options?: OpenDialogOptions): Promise<Array<globalThis.File>>;
+	/**
+	 * 暂停上传，分片上传时恢复后从未完成的分片继续上传
+	 * @param uid 文件 uid
+	 */
+	pauseUpload(uid: string): boolean;
+	/**
+	 * 恢复暂停的上传
+	 * @param uid 文件 uid
+	 */
+	resumeUpload(uid: string): boolean;
+	/**
+	 * 取消上传，取消后不会再触发上传回调
+	 * @param uid 文件 uid
+	 */
+	cancelUpload(uid: string): boolean;
+	/**
+	 * 获取上传状态
+	 * @param uid 文件 uid
+	 */
+	getUploadStatus(uid: string): UploadTaskStatus | undefined;
+	/**
+	 * 生成文件 uid，上传前需要自己设置 uid 时使用，避免和上传队列中的文件冲突
+	 * @param text 附加在 uid 后面的内容
+	 */
+	createUid(text: string | number): string;
 }
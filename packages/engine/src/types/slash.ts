@@ -0,0 +1,114 @@
+/**
+ * 斜杠菜单中的一项，由插件的 slash 方法提供或者通过 engine.slash.add 注册
+ */
+export type SlashItem = {
+	/**
+	 * 唯一名称，默认也是执行的命令名称
+	 */
+	name: string;
+	/**
+	 * 显示的标题，使用当前语言
+	 */
+	title: string;
+	/**
+	 * 搜索关键词，应该包含所有语言的叫法以及拼音，不区分大小写
+	 */
+	keywords?: Array<string>;
+	/**
+	 * 图标，svg 等 html 字符串，或者 data-icon-* 图标字体的名称
+	 */
+	icon?: string;
+	/**
+	 * 描述
+	 */
+	description?: string;
+	/**
+	 * 执行的命令，默认执行 name 命令。数组表示 name 命令的参数
+	 */
+	command?: { name: string; args?: Array<any> } | Array<any>;
+	/**
+	 * 解析关键词后面的参数，例如“table 4x3”中的“4x3”。返回命令参数，会替换 command 中的参数，返回 undefined 表示参数无效
+	 * @param text 参数文本
+	 */
+	params?(text: string): Array<any> | undefined;
+	/**
+	 * 是否禁用，默认根据命令的 queryEnabled 判断
+	 */
+	disabled?(): boolean;
+	/**
+	 * 自定义执行，设置后不再执行命令
+	 * @param args 命令参数
+	 */
+	onSelect?(args: Array<any>): void;
+};
+
+/**
+ * 一个搜索结果
+ */
+export type SlashMatch = {
+	item: SlashItem;
+	/**
+	 * 匹配分数，越大越靠前，最近使用过的会额外加分
+	 */
+	score: number;
+	/**
+	 * 参数文本解析出的命令参数，没有参数时为空数组
+	 */
+	args: Array<any>;
+	/**
+	 * 参数文本
+	 */
+	params?: string;
+};
+
+export interface SlashInterface {
+	/**
+	 * 最近使用的条目名称，最近的在前面
+	 */
+	readonly recent: Array<string>;
+	/**
+	 * 注册条目，已有同名的条目会被替换
+	 * @param items 条目
+	 */
+	add(items: SlashItem | Array<SlashItem>): void;
+	/**
+	 * 移除通过 add 注册的条目
+	 * @param name 条目名称
+	 */
+	remove(name: string): void;
+	/**
+	 * 获取所有条目，先是插件按注册顺序提供的条目，然后是通过 add 注册的条目
+	 */
+	getItems(): Array<SlashItem>;
+	/**
+	 * 获取一个条目
+	 * @param name 条目名称
+	 */
+	get(name: string): SlashItem | undefined;
+	/**
+	 * 模糊搜索并按匹配程度排序。关键词为空时返回所有条目，最近使用的排在前面
+	 * @param keyword 关键词，空格后面的内容作为参数传给条目的 params
+	 * @param items 搜索的条目，默认所有条目
+	 */
+	search(keyword: string, items?: Array<SlashItem>): Array<SlashMatch>;
+	/**
+	 * 获取搜索结果要执行的命令和参数
+	 * @param match 搜索结果
+	 */
+	getCommand(match: SlashMatch): { name: string; args: Array<any> };
+	/**
+	 * 执行搜索结果或者条目，并记录为最近使用
+	 * @param match 搜索结果或者条目名称
+	 */
+	execute(match: SlashMatch | string): void;
+	/**
+	 * 记录最近使用的条目
+	 * @param name 条目名称
+	 */
+	record(name: string): void;
+	/**
+	 * 设置最近使用的条目，用于恢复保存的记录
+	 * @param names 条目名称，最近的在前面
+	 */
+	setRecent(names: Array<string>): void;
+}
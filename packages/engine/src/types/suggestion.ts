@@ -0,0 +1,93 @@
+import { NodeInterface } from './node';
+import { RangeInterface } from './range';
+
+/**
+ * 建议类型，插入 | 删除
+ */
+export type SuggestionType = 'insert' | 'delete';
+
+/**
+ * 一条建议，相同 id 的所有节点属于同一条建议
+ */
+export type SuggestionItem = {
+	/**
+	 * 建议 id
+	 */
+	id: string;
+	/**
+	 * 建议类型
+	 */
+	type: SuggestionType;
+	/**
+	 * 作者
+	 */
+	author: string;
+	/**
+	 * 创建时间
+	 */
+	time: number;
+	/**
+	 * 建议涉及的文本，不包含卡片
+	 */
+	text: string;
+	/**
+	 * 建议涉及的所有节点，mark 节点或者卡片根节点
+	 */
+	nodes: Array<NodeInterface>;
+};
+
+export interface SuggestionInterface {
+	/**
+	 * 是否处于建议模式
+	 */
+	readonly enabled: boolean;
+	/**
+	 * 当前建议的作者
+	 */
+	readonly author: string;
+	/**
+	 * 开启建议模式，开启后输入和删除的内容都会以建议的形式记录，不直接修改文档
+	 * @param author 作者
+	 */
+	enable(author: string): void;
+	/**
+	 * 关闭建议模式
+	 */
+	disable(): void;
+	/**
+	 * 获取文档中的所有建议，按在文档中出现的顺序排列
+	 */
+	getItems(): Array<SuggestionItem>;
+	/**
+	 * 查找建议
+	 * @param id 建议 id
+	 */
+	find(id: string): SuggestionItem | undefined;
+	/**
+	 * 将范围内的内容标记为当前作者删除的建议，当前作者插入的建议会直接删除
+	 * @param range 范围
+	 */
+	markDelete(range: RangeInterface): void;
+	/**
+	 * 接受建议，插入的内容保留，删除的内容移除
+	 * @param id 建议 id
+	 */
+	accept(id: string): void;
+	/**
+	 * 拒绝建议，插入的内容移除，删除的内容保留
+	 * @param id 建议 id
+	 */
+	reject(id: string): void;
+	/**
+	 * 接受所有建议
+	 */
+	acceptAll(): void;
+	/**
+	 * 拒绝所有建议
+	 */
+	rejectAll(): void;
+	/**
+	 * 销毁
+	 */
+	destroy(): void;
+}
@@ -1,5 +1,6 @@
 import { EditorInterface, EditorOptions } from './editor';
 import { NodeInterface } from './node';
+import type { DiffResult, Element as ModelElement } from '../model';
 
 export interface ViewOptions extends EditorOptions {}
 /**
@@ -14,6 +15,17 @@ export interface ViewInterface<T extends ViewOptions = ViewOptions>
 	 * @param trigger 是否触发渲染完成事件，用来展示插件的特俗效果。例如在heading插件中，展示锚点显示功能。默认为 true
 	 */
 	render(content: string, trigger?: boolean): void;
+	/**
+	 * 渲染两个版本的差异，新增、删除、修改、移动的内容使用 data-diff 属性标记
+	 * @param oldValue 旧版本的编辑器值或者 getJsonValue 的结果
+	 * @param newValue 新版本的编辑器值或者 getJsonValue 的结果
+	 * @param trigger 是否触发渲染完成事件，默认为 true
+	 */
+	renderDiff(
+		oldValue: string | ModelElement,
+		newValue: string | ModelElement,
+		trigger?: boolean,
+	): DiffResult;
 	/**
 	 * 触发事件
 	 * @param eventType 事件名称
@@ -1,6 +1,6 @@
 const userAgent = (
-	typeof navigator !== 'undefined' ? navigator : window.navigator
-).userAgent.toLowerCase();
+	typeof navigator !== 'undefined' ? navigator.userAgent : ''
+).toLowerCase();
 export const isServer = typeof navigator === 'undefined';
 /**
  * 是否是 Edge 浏览器
@@ -1,8 +1,22 @@
 import { ViewInterface, ViewOptions } from './types/view';
 import Parser from './parser';
 import Editor from './editor';
-import { Selector } from './types';
+import { SchemaInterface, Selector } from './types';
+import { CardDiffContext } from './types/card';
 import { VIEW_CLASS_NAME } from './constants';
+import { $ } from './node';
+import { Diff, DiffOptions, Element, Node } from './model';
+import { transformCustomTags } from './utils';
+
+/**
+ * 将编辑器值转换为 model 节点
+ */
+const toModel = (value: string | Element, schema: SchemaInterface) => {
+	if (typeof value !== 'string') return value;
+	const container = $('<div></div>');
+	container.html(transformCustomTags(value));
+	return Node.createFromDOM(container[0], schema) as Element;
+};
 
 class View<T extends ViewOptions = ViewOptions>
 	extends Editor<T>
@@ -26,6 +40,49 @@ class View<T extends ViewOptions = ViewOptions>
 			if (trigger) this.trigger('render', this.container);
 		});
 	}
+
+	renderDiff(
+		oldValue: string | Element,
+		newValue: string | Element,
+		trigger: boolean = true,
+	) {
+		const { schema } = this;
+		const isVoid = (node: Element) =>
+			Node.isVoid(node) ||
+			schema.find((rule) => rule.name === node.type && !!rule.isVoid)
+				.length > 0;
+		const context: CardDiffContext = {
+			diffValue: (oldCardValue, newCardValue) =>
+				Diff.toValue(
+					Diff.diff(
+						toModel(oldCardValue, schema),
+						toModel(newCardValue, schema),
+						options,
+					).root,
+					isVoid,
+				),
+		};
+		const options: DiffOptions = {
+			card: (name, oldCardValue, newCardValue) =>
+				this.card.classes[name]?.diff?.(
+					oldCardValue,
+					newCardValue,
+					context,
+				),
+		};
+		const result = Diff.diff(
+			toModel(oldValue, schema),
+			toModel(newValue, schema),
+			options,
+		);
+		this.container.html(
+			transformCustomTags(Diff.toValue(result.root, isVoid)),
+		);
+		this.card.render(this.container, () => {
+			if (trigger) this.trigger('render', this.container);
+		});
+		return result;
+	}
 }
 
 export default View;
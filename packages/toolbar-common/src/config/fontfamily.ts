@@ -1,4 +1,4 @@
-import { DropdownListItem } from '../types';
+import { FontFamilyItem } from '../types';
 import { checkSupportFontFamily } from '../utils';
 
 export const defaultData = [
@@ -99,23 +99,35 @@ export const defaultData = [
  * 生成字体下拉列表项
  * @param data key-value 键值对数据，key 名称，如果有传语言则是语言键值对的key否则就直接显示
  * @param language 语言，可选
+ * @param html 把 html 代码转换为工具栏中可以渲染的内容，默认直接使用 html 代码
  */
-export default (
+function fontfamily(
 	data: Array<{ key: string; value: string }>,
 	language?: { [key: string]: string },
-): Array<DropdownListItem> => {
+): Array<FontFamilyItem<string>>;
+function fontfamily<N>(
+	data: Array<{ key: string; value: string }>,
+	language: { [key: string]: string } | undefined,
+	html: (html: string) => N,
+): Array<FontFamilyItem<N>>;
+function fontfamily(
+	data: Array<{ key: string; value: string }>,
+	language?: { [key: string]: string },
+	html: (html: string) => unknown = (html) => html,
+): Array<FontFamilyItem<unknown>> {
 	return checkSupportFontFamily((check) => {
 		return data.map(({ key, value }) => {
 			const disabled =
 				key !== 'default'
 					? !value.split(',').some((v) => check(v.trim()))
 					: false;
+			const name = language ? language[key] : key;
 			return {
 				key: value,
-				faimlyName: language ? language[key] : key,
-				content: `<span style="font-family: ${value}">${
-					language ? language[key] : key
-				}</span>`,
+				faimlyName: name,
+				content: html(
+					`<span style='font-family: ${value}'>${name}</span>`,
+				),
 				hotkey: false,
 				disabled,
 				title: disabled
@@ -125,4 +137,6 @@ export default (
 			};
 		});
 	});
-};
+}
+
+export default fontfamily;
@@ -0,0 +1,10 @@
+import {
+	getToolbarDefaultConfig,
+	fontFamilyDefaultData,
+	fontfamily,
+} from './config';
+import locales from './locales';
+export * from './types';
+export * from './utils';
+
+export { getToolbarDefaultConfig, fontFamilyDefaultData, fontfamily, locales };
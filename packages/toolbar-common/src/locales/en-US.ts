@@ -29,6 +29,19 @@ export default {
 			h5: 'Heading 5',
 			h6: 'Heading 6',
 		},
+		convert: {
+			title: 'Turn into',
+			p: 'Text',
+			h1: 'Heading 1',
+			h2: 'Heading 2',
+			h3: 'Heading 3',
+			ul: 'Unordered list',
+			ol: 'Ordered list',
+			checkbox: 'Task list',
+			blockquote: 'Quote',
+			codeblock: 'Code block',
+			lightblock: 'Highlight block',
+		},
 		fontfamily: {
 			title: 'Font family',
 			notInstalled: 'The font may not be installed',
@@ -225,6 +238,9 @@ export default {
 		commonlyUsed: {
 			title: 'Commonly used',
 		},
+		recent: {
+			title: 'Recently used',
+		},
 		searchEmtpy: {
 			title: 'No matching card',
 		},
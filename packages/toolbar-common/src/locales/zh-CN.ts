@@ -29,6 +29,19 @@ export default {
 			h5: '标题 5',
 			h6: '标题 6',
 		},
+		convert: {
+			title: '转换为',
+			p: '正文',
+			h1: '标题 1',
+			h2: '标题 2',
+			h3: '标题 3',
+			ul: '无序列表',
+			ol: '有序列表',
+			checkbox: '任务列表',
+			blockquote: '引用',
+			codeblock: '代码块',
+			lightblock: '高亮块',
+		},
 		fontfamily: {
 			title: '字体',
 			notInstalled: '可能未安装该字体',
@@ -225,6 +238,9 @@ export default {
 		commonlyUsed: {
 			title: '常用',
 		},
+		recent: {
+			title: '最近使用',
+		},
 		searchEmtpy: {
 			title: '无匹配卡片',
 		},
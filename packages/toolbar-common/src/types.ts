@@ -0,0 +1,104 @@
+import type { Placement } from '@aomao/engine';
+
+/**
+ * 工具栏默认配置的结构，@aomao/toolbar、@aomao/toolbar-vue、@aomao/toolbar-element 共用
+ * 图标和内容都是 html 代码，需要渲染成组件的部分通过 ToolbarRender 交给各个工具栏转换
+ */
+
+//命令
+export type ToolbarCommand = { name: string; args: Array<any> } | Array<any>;
+
+//转换为各个工具栏中可以渲染的内容
+export type ToolbarRender<N, P> = {
+	/**
+	 * 把 html 代码转换为工具栏中可以渲染的内容
+	 */
+	html: (html: string) => N;
+	/**
+	 * 创建表格行列选择器，作为插入表格时旁边展示的内容
+	 */
+	tableSelector: (
+		onSelect: (event: MouseEvent, rows: number, cols: number) => void,
+	) => P;
+};
+
+//按钮
+export type ToolbarButtonSchema = {
+	type: 'button';
+	name: string;
+	icon: string;
+	title: string;
+	command?: ToolbarCommand;
+	onActive?: () => boolean;
+	onDisabled?: () => boolean;
+};
+
+//下拉项
+export type ToolbarDropdownItemSchema<N> = {
+	key: string;
+	icon?: string;
+	content?: string | N;
+	className?: string;
+	hotkey?: boolean;
+	isDefault?: boolean;
+	disabled?: boolean;
+	title?: string;
+	command?: ToolbarCommand;
+};
+
+//字体下拉项，faimlyName 是字体的显示名称
+export type FontFamilyItem<N> = ToolbarDropdownItemSchema<N> & {
+	faimlyName: string;
+};
+
+//下拉
+export type ToolbarDropdownSchema<N> = {
+	type: 'dropdown';
+	name: string;
+	title: string;
+	icon?: string;
+	content?: () => N;
+	className?: string;
+	single?: boolean;
+	hasDot?: boolean;
+	items: Array<ToolbarDropdownItemSchema<N>>;
+	onActive?: () => string | Array<string>;
+	onDisabled?: () => boolean;
+};
+
+//颜色
+export type ToolbarColorSchema<N> = {
+	type: 'color';
+	name: string;
+	defaultColor: string;
+	defaultActiveColor: string;
+	buttonTitle: string;
+	dropdownTitle: string;
+	content: (color: string, stroke: string, disabled?: boolean) => N;
+};
+
+//collapse item
+export type ToolbarCollapseItemSchema<P> = {
+	name: string;
+	icon: string;
+	title: string;
+	search: string;
+	command?: ToolbarCommand;
+	placement?: Placement;
+	prompt?: P;
+	onDisabled?: () => boolean;
+};
+
+//collapse
+export type ToolbarCollapseSchema<P> = {
+	type: 'collapse';
+	header: string;
+	icon: string;
+	groups: Array<{ items: Array<ToolbarCollapseItemSchema<P>> }>;
+};
+
+export type ToolbarItemSchema<N, P> =
+	| ToolbarButtonSchema
+	| ToolbarDropdownSchema<N>
+	| ToolbarColorSchema<N>
+	| ToolbarCollapseSchema<P>;
@@ -63,10 +63,7 @@ export const checkSupportFontFamily = <T>(
 	const sansWidth = getWidth('sans-serif');
 
 	const result = callback((font) => {
-		if (typeof font !== 'string') {
-			console.log('Font name is not legal !');
-			return false;
-		}
+		if (typeof font !== 'string') return false;
 		if (supportFontFamilyCache[font] !== undefined)
 			return supportFontFamilyCache[font];
 		const reuslt =
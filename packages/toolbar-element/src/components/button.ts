@@ -0,0 +1,117 @@
+import { $, escape, formatHotkey, isMobile, Tooltip } from '@aomao/engine';
+import { autoGetHotkey } from '@aomao/toolbar-common';
+import { ButtonProps } from '../types';
+import ToolbarElement, { define, executeCommand, renderIcon } from './element';
+import './button.css';
+
+/**
+ * 提示文字和快捷键
+ */
+export const renderTitle = (title?: string, hotkey?: string) => {
+	let html = '';
+	if (title)
+		html += `<div class="toolbar-tooltip-title">${escape(title)}</div>`;
+	if (hotkey) html += `<div class="toolbar-tooltip-hotkey">${hotkey}</div>`;
+	return html;
+};
+
+class Button extends ToolbarElement<ButtonProps> {
+	static elementName = 'am-toolbar-button';
+	#button?: HTMLButtonElement;
+	#html?: string;
+
+	get element() {
+		return this.#button;
+	}
+
+	getHotkey() {
+		const { engine, props } = this;
+		let hotkey = props.hotkey;
+		//默认获取插件的热键
+		if (engine && (hotkey === true || hotkey === undefined)) {
+			hotkey = autoGetHotkey(
+				engine,
+				props.command && !Array.isArray(props.command)
+					? props.command.name
+					: props.name,
+			);
+		}
+		if (typeof hotkey === 'string' && hotkey !== '') {
+			return formatHotkey(hotkey);
+		}
+		return;
+	}
+
+	render(props: ButtonProps) {
+		const { icon, content, className, active, disabled } = props;
+		if (!this.#button) {
+			const button = document.createElement('button');
+			button.addEventListener('click', this.triggerClick);
+			button.addEventListener('mousedown', this.triggerMouseDown);
+			button.addEventListener('mouseenter', this.triggerMouseEnter);
+			button.addEventListener('mouseleave', this.triggerMouseLeave);
+			this.appendChild(button);
+			this.#button = button;
+		}
+		this.#button.className = [
+			'toolbar-button',
+			className,
+			active ? 'toolbar-button-active' : '',
+			disabled ? 'toolbar-button-disabled' : '',
+		]
+			.filter((name) => !!name)
+			.join(' ');
+		const html =
+			renderIcon(icon) +
+			(typeof content === 'function'
+				? content(this.engine)
+				: content || '');
+		// 内容不变时不替换节点，避免正在分发的事件的 target 被移除
+		if (html !== this.#html) {
+			this.#button.innerHTML = html;
+			this.#html = html;
+		}
+	}
+
+	triggerMouseDown = (event: MouseEvent) => {
+		event.preventDefault();
+		Tooltip.hide();
+		const { disabled, onMouseDown } = this.props;
+		if (disabled) return;
+		if (onMouseDown) onMouseDown(event, this.engine);
+	};
+
+	triggerMouseEnter = (event: MouseEvent) => {
+		const { title, placement, onMouseEnter } = this.props;
+		if (onMouseEnter) onMouseEnter(event, this.engine);
+		const html = renderTitle(title, this.getHotkey());
+		if (html && !isMobile && this.#button)
+			Tooltip.show($(this.#button), html, {
+				placement: placement || 'bottom',
+			});
+	};
+
+	triggerMouseLeave = (event: MouseEvent) => {
+		const { onMouseLevel } = this.props;
+		if (onMouseLevel) onMouseLevel(event, this.engine);
+		Tooltip.hide();
+	};
+
+	triggerClick = (event: MouseEvent) => {
+		const nodeName = (event.target as Node).nodeName;
+		if (nodeName !== 'INPUT' && nodeName !== 'TEXTAREA')
+			event.preventDefault();
+		const { name, disabled, command, autoExecute, onClick } = this.props;
+		if (disabled) return;
+		if (onClick && onClick(event, this.engine) === false) return;
+		if (autoExecute !== false) executeCommand(this.engine, name, command);
+	};
+
+	unmount() {
+		Tooltip.hide();
+	}
+}
+
+define(Button.elementName, Button);
+
+export default Button;
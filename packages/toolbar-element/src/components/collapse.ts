@@ -0,0 +1,263 @@
+import { isMobile } from '@aomao/engine';
+import { CollapseItemProps, CollapseProps } from '../types';
+import Button from './button';
+import ToolbarElement, { define, executeCommand, renderIcon } from './element';
+import './collapse.css';
+
+class Collapse extends ToolbarElement<CollapseProps> {
+	static elementName = 'am-toolbar-collapse';
+	#visible = false;
+	#button?: Button;
+	#list?: HTMLDivElement;
+	#prompt?: HTMLDivElement;
+	#promptTimer?: NodeJS.Timeout;
+
+	/**
+	 * 没有图标和内容时不显示按钮，直接展开面板
+	 */
+	get isCustomize() {
+		const { icon, content } = this.props;
+		return !(icon || content);
+	}
+
+	render(props: CollapseProps) {
+		const { icon, content, disabled, className } = props;
+		const isRight =
+			isMobile &&
+			this.getBoundingClientRect().left > window.visualViewport.width / 2;
+		this.className = [
+			'toolbar-dropdown toolbar-collapse',
+			isRight ? 'toolbar-dropdown-right' : '',
+			className,
+		]
+			.filter((name) => !!name)
+			.join(' ');
+		if (this.isCustomize) {
+			this.#visible = true;
+			this.#button?.remove();
+			this.#button = undefined;
+		} else {
+			if (!this.#button) {
+				this.#button = new Button();
+				this.prepend(this.#button);
+			}
+			this.#button.props = {
+				name: 'collapse',
+				icon,
+				content,
+				active: this.#visible,
+				disabled,
+				onClick: this.triggerClick,
+				autoExecute: false,
+			};
+		}
+		this.removePrompt();
+		this.#list?.remove();
+		this.#list = undefined;
+		if (this.#visible) {
+			this.#list = this.renderList(props);
+			this.appendChild(this.#list);
+		}
+	}
+
+	renderList(props: CollapseProps) {
+		const { header, groups } = props;
+		const list = document.createElement('div');
+		list.className = 'toolbar-dropdown-list';
+		list.setAttribute('data-element', 'ui');
+		if (header) {
+			const headerElement = document.createElement('div');
+			headerElement.className = 'toolbar-collapse-header';
+			headerElement.innerHTML = header;
+			list.appendChild(headerElement);
+		}
+		const content = document.createElement('div');
+		content.className = 'toolbar-collapse-content';
+		groups.forEach(({ title, items, onSelect }) => {
+			const group = document.createElement('div');
+			group.className = 'toolbar-collapse-group';
+			if (title) {
+				const titleElement = document.createElement('div');
+				titleElement.className = 'toolbar-collapse-group-title';
+				titleElement.textContent = title;
+				group.appendChild(titleElement);
+			}
+			items.forEach((item) =>
+				group.appendChild(
+					this.renderItem(item, (event) => {
+						let result;
+						if (item.onClick)
+							result = item.onClick(
+								event,
+								item.name,
+								this.engine,
+							);
+						if (onSelect) onSelect(event, item.name, this.engine);
+						this.triggerSelect(event, item.name);
+						return result;
+					}),
+				),
+			);
+			content.appendChild(group);
+		});
+		list.appendChild(content);
+		return list;
+	}
+
+	renderItem(
+		props: CollapseItemProps,
+		onClick: (event: MouseEvent) => boolean | void,
+	) {
+		const {
+			name,
+			icon,
+			title,
+			description,
+			disabled,
+			className,
+			command,
+			autoExecute,
+		} = props;
+		const item = document.createElement('div');
+		item.className = [
+			'toolbar-collapse-item',
+			disabled ? 'toolbar-collapse-item-disabled' : '',
+			className,
+		]
+			.filter((name) => !!name)
+			.join(' ');
+		item.innerHTML = renderIcon(icon);
+		if (title) {
+			const text = document.createElement('div');
+			text.className = 'toolbar-collapse-item-text';
+			const titleElement = document.createElement('div');
+			titleElement.className = 'toolbar-collapse-item-title';
+			titleElement.textContent = title;
+			text.appendChild(titleElement);
+			if (description) {
+				const descriptionElement = document.createElement('div');
+				descriptionElement.className =
+					'toolbar-collapse-item-description';
+				descriptionElement.textContent =
+					typeof description === 'function'
+						? description()
+						: description;
+				text.appendChild(descriptionElement);
+			}
+			item.appendChild(text);
+		}
+		item.addEventListener('mouseenter', () => {
+			if (disabled) return;
+			item.classList.add('toolbar-collapse-item-active');
+			// prompt 是功能展示，禁用时不显示
+			if (props.prompt) this.showPrompt(item, props, onClick);
+		});
+		item.addEventListener('mouseleave', () => {
+			item.classList.remove('toolbar-collapse-item-active');
+			this.hidePrompt();
+		});
+		item.addEventListener('mousedown', (event) => {
+			event.preventDefault();
+			if (props.onMouseDown) props.onMouseDown(event, this.engine);
+		});
+		item.addEventListener('click', (event) => {
+			if (disabled) return;
+			const nodeName = (event.target as Node).nodeName;
+			if (nodeName !== 'INPUT' && nodeName !== 'TEXTAREA')
+				event.preventDefault();
+			if (onClick(event) === false) return;
+			if (autoExecute !== false)
+				executeCommand(this.engine, name, command);
+		});
+		return item;
+	}
+
+	showPrompt(
+		item: HTMLElement,
+		props: CollapseItemProps,
+		onClick: (event: MouseEvent) => boolean | void,
+	) {
+		this.removePrompt();
+		const content =
+			typeof props.prompt === 'function' ? props.prompt() : props.prompt;
+		if (!content) return;
+		const prompt = document.createElement('div');
+		prompt.className = 'toolbar-collapse-item-prompt';
+		prompt.setAttribute('data-element', 'ui');
+		if (typeof content === 'string') prompt.innerHTML = content;
+		else prompt.appendChild(content);
+		prompt.addEventListener('mouseenter', () => {
+			if (this.#promptTimer) clearTimeout(this.#promptTimer);
+		});
+		prompt.addEventListener('mouseleave', () => this.hidePrompt());
+		prompt.addEventListener('mousedown', (event) => event.preventDefault());
+		prompt.addEventListener('click', (event) => {
+			event.preventDefault();
+			this.removePrompt();
+			onClick(event);
+		});
+		document.body.appendChild(prompt);
+		this.#prompt = prompt;
+		// 默认在右侧垂直居中，rightTop、rightBottom 和条目的顶部、底部对齐
+		const rect = item.getBoundingClientRect();
+		const promptRect = prompt.getBoundingClientRect();
+		const placement = props.placement || 'right';
+		let top = rect.top + (rect.height - promptRect.height) / 2;
+		if (placement === 'rightTop') top = rect.top;
+		else if (placement === 'rightBottom')
+			top = rect.bottom - promptRect.height;
+		prompt.style.left = `${rect.right + 4}px`;
+		prompt.style.top = `${Math.max(top, 0)}px`;
+	}
+
+	hidePrompt() {
+		if (this.#promptTimer) clearTimeout(this.#promptTimer);
+		// 留出鼠标从条目移动到提示内容的时间
+		this.#promptTimer = setTimeout(() => this.removePrompt(), 100);
+	}
+
+	removePrompt() {
+		if (this.#promptTimer) clearTimeout(this.#promptTimer);
+		this.#prompt?.remove();
+		this.#prompt = undefined;
+	}
+
+	show() {
+		this.#visible = true;
+		this.update();
+		setTimeout(() => {
+			document.addEventListener('click', this.hide);
+		}, 10);
+	}
+
+	hide = () => {
+		document.removeEventListener('click', this.hide);
+		if (this.isCustomize) return;
+		this.#visible = false;
+		this.update();
+	};
+
+	triggerClick = () => {
+		if (this.#visible) {
+			this.hide();
+		} else {
+			this.show();
+		}
+		return false;
+	};
+
+	triggerSelect = (event: MouseEvent, name: string) => {
+		this.hide();
+		const { onSelect } = this.props;
+		if (onSelect) onSelect(event, name, this.engine);
+	};
+
+	unmount() {
+		this.removePrompt();
+		document.removeEventListener('click', this.hide);
+	}
+}
+
+define(Collapse.elementName, Collapse);
+
+export default Collapse;
@@ -0,0 +1,257 @@
+import { colord } from 'colord';
+import { escape, isMobile } from '@aomao/engine';
+import { ColorPickerProps, ColorProps } from '../types';
+import Button from './button';
+import ToolbarElement, { define } from './element';
+import Palette from './palette';
+import './color.css';
+
+//选中时对勾的颜色，浅色背景用灰色
+const getContrastingColor = (color: string) => {
+	if (color === 'transparent') return 'rgba(0,0,0,0.4)';
+	const { r, g, b } = colord(color).toRgb();
+	const yiq = (r * 299 + g * 587 + b * 114) / 1000;
+	return yiq >= 210 ? '#8C8C8C' : '#FFFFFF';
+};
+
+class ColorPicker extends ToolbarElement<ColorPickerProps> {
+	static elementName = 'am-toolbar-color-picker';
+	#activeColor?: string;
+
+	constructor() {
+		super();
+		this.addEventListener('mousedown', (event) => {
+			if ('INPUT' !== (event.target as Element).tagName) {
+				event.preventDefault();
+			}
+		});
+	}
+
+	renderItem(color: string, active: boolean, setStroke?: boolean) {
+		const hex = color.toLowerCase();
+		const title = this.engine?.language.get<string>(
+			'toolbar',
+			'colorPicker',
+			color.toUpperCase(),
+		);
+		const item = document.createElement('span');
+		item.className = [
+			'colorpicker-group-item',
+			//接近白色的颜色，需要添加一个边框。不然看不见
+			['#ffffff', '#fafafa', 'transparent'].indexOf(hex) >= 0
+				? 'colorpicker-group-item-border'
+				: '',
+			active ? 'colorpicker-group-item-active' : '',
+			'transparent' === color ? 'colorpicker-group-item-special' : '',
+		]
+			.filter((name) => !!name)
+			.join(' ');
+		if (title && typeof title === 'string') item.title = title;
+		const border = setStroke
+			? `border: 1px solid ${Palette.getStroke(color)};`
+			: '';
+		item.innerHTML = `<span style="background-color: ${escape(
+			color,
+		)};${border}"><svg style="fill: ${getContrastingColor(
+			color,
+		)}; display: ${
+			active ? 'block' : 'none'
+		}" viewBox="0 0 18 18"><path d="M21,7L9,19L3.5,13.5L4.91,12.09L9,16.17L19.59,5.59L21,7Z" /></svg></span>`;
+		item.addEventListener('click', (event) => {
+			event.preventDefault();
+			event.stopPropagation();
+			this.triggerSelect(color, event);
+		});
+		return item;
+	}
+
+	render(props: ColorPickerProps) {
+		const { defaultColor, defaultActiveColor, setStroke } = props;
+		const colors = props.colors || Palette.getColors();
+		const activeColor = this.#activeColor ?? defaultActiveColor;
+		this.className = 'colorpicker-board';
+		this.innerHTML = '';
+		const defaultElement = document.createElement('div');
+		defaultElement.className = 'colorpicker-default';
+		defaultElement.appendChild(this.renderItem(defaultColor, false));
+		const text = document.createElement('span');
+		text.className = 'colorpicker-default-text';
+		text.textContent =
+			this.engine?.language.get<string>(
+				'toolbar',
+				'colorPicker',
+				defaultColor === 'transparent' ? 'nonFillText' : 'defaultText',
+			) || '';
+		defaultElement.appendChild(text);
+		defaultElement.addEventListener('click', (event) =>
+			this.triggerSelect(defaultColor, event),
+		);
+		this.appendChild(defaultElement);
+		colors.forEach((group) => {
+			const groupElement = document.createElement('span');
+			groupElement.className = 'colorpicker-group';
+			group.forEach((color) =>
+				groupElement.appendChild(
+					this.renderItem(color, color === activeColor, setStroke),
+				),
+			);
+			this.appendChild(groupElement);
+		});
+	}
+
+	triggerSelect(color: string, event: MouseEvent) {
+		this.#activeColor = color;
+		this.update();
+		const { onSelect } = this.props;
+		if (onSelect) onSelect(color, event);
+	}
+}
+
+define(ColorPicker.elementName, ColorPicker);
+
+class Color extends ToolbarElement<ColorProps> {
+	static elementName = 'am-toolbar-color';
+	#visible = false;
+	#currentColor?: string;
+	#trigger?: HTMLDivElement;
+	#textButton?: Button;
+	#dropdownButton?: Button;
+	#list?: HTMLDivElement;
+
+	getContent() {
+		const { content, disabled } = this.props;
+		const color = this.#currentColor!;
+		return typeof content === 'string'
+			? content
+			: content(color, Palette.getStroke(color), disabled);
+	}
+
+	render(props: ColorProps) {
+		const { name, buttonTitle, dropdownTitle, disabled, placement } = props;
+		if (this.#currentColor === undefined)
+			this.#currentColor = props.defaultActiveColor;
+		const isRight =
+			isMobile &&
+			this.getBoundingClientRect().left > window.visualViewport.width / 2;
+		this.className = `toolbar-dropdown colorpicker-button${
+			isRight ? ' toolbar-dropdown-right' : ''
+		}`;
+		if (!this.#trigger) {
+			this.#trigger = document.createElement('div');
+			this.#textButton = new Button();
+			this.#dropdownButton = new Button();
+			this.#trigger.append(this.#textButton, this.#dropdownButton);
+			this.appendChild(this.#trigger);
+		}
+		this.#trigger.className = `toolbar-dropdown-trigger colorpicker-button-group${
+			this.#visible ? ' colorpicker-button-group-active' : ''
+		}`;
+		this.#textButton!.props = {
+			name,
+			className: 'colorpicker-button-text',
+			title: buttonTitle,
+			disabled,
+			placement,
+			content: `<span>${this.getContent()}</span>`,
+			onClick: this.triggerClick,
+			autoExecute: false,
+		};
+		this.#dropdownButton!.props = {
+			name,
+			className:
+				'colorpicker-button-dropdown toolbar-dropdown-trigger-arrow',
+			title: dropdownTitle,
+			disabled,
+			placement,
+			icon: '<span class="colorpicker-button-dropdown-empty"></span>',
+			content: '<span class="data-icon data-icon-arrow"></span>',
+			onClick: this.toggleDropdown,
+			autoExecute: false,
+		};
+		if (!this.#visible) {
+			this.#list?.remove();
+			this.#list = undefined;
+			return;
+		}
+		if (!this.#list) {
+			this.#list = document.createElement('div');
+			this.#list.className = 'toolbar-dropdown-list';
+			this.#list.setAttribute('data-element', 'ui');
+			const picker = new ColorPicker();
+			picker.engine = this.engine;
+			this.#list.appendChild(picker);
+			this.appendChild(this.#list);
+			picker.props = {
+				colors: props.colors,
+				defaultColor: props.defaultColor,
+				defaultActiveColor: this.#currentColor,
+				setStroke: props.setStroke,
+				onSelect: this.triggerSelect,
+			};
+		}
+	}
+
+	toggleDropdown = (event: MouseEvent) => {
+		event.preventDefault();
+		if (this.#visible) {
+			this.hideDropdown();
+		} else {
+			this.showDropdown();
+		}
+		return false;
+	};
+
+	showDropdown() {
+		this.#visible = true;
+		document.addEventListener('click', this.hideDropdown);
+		this.update();
+	}
+
+	hideDropdown = (event?: MouseEvent) => {
+		if (
+			event &&
+			this.#dropdownButton?.element?.contains(event.target as Node)
+		)
+			return;
+		document.removeEventListener('click', this.hideDropdown);
+		this.#visible = false;
+		this.update();
+	};
+
+	triggerClick = (event: MouseEvent) => {
+		this.triggerSelect(this.#currentColor!, event);
+		return false;
+	};
+
+	triggerSelect = (color: string, event: MouseEvent) => {
+		this.hideDropdown();
+		this.#currentColor = color;
+		this.update();
+		const { name, defaultColor, command, autoExecute, onSelect } =
+			this.props;
+		if (autoExecute !== false) {
+			let commandName = name;
+			let commandArgs = [color, defaultColor];
+			if (command) {
+				if (!Array.isArray(command)) {
+					commandName = command.name;
+					commandArgs = command.args;
+				} else {
+					commandArgs = command;
+				}
+			}
+			if (this.engine)
+				this.engine.command.execute(commandName, ...commandArgs);
+		}
+		if (onSelect) onSelect(color, event);
+	};
+
+	unmount() {
+		document.removeEventListener('click', this.hideDropdown);
+	}
+}
+
+define(Color.elementName, Color);
+
+export default Color;
+export { ColorPicker };
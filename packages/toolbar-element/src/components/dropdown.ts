@@ -0,0 +1,278 @@
+import { $, formatHotkey, isMobile, Tooltip } from '@aomao/engine';
+import type { EngineInterface } from '@aomao/engine';
+import { autoGetHotkey } from '@aomao/toolbar-common';
+import { DropdownListItem, DropdownListProps, DropdownProps } from '../types';
+import Button, { renderTitle } from './button';
+import ToolbarElement, { define, renderIcon } from './element';
+import './dropdown.css';
+
+const isRight = (element: HTMLElement) => {
+	if (!isMobile) return false;
+	const rect = element.getBoundingClientRect();
+	return rect.left > window.visualViewport.width / 2;
+};
+
+const getHotkey = (
+	engine: EngineInterface | undefined,
+	name: string,
+	item: DropdownListItem,
+) => {
+	const { command, key } = item;
+	let { hotkey } = item;
+	//默认获取插件的热键
+	if (engine && (hotkey === true || hotkey === undefined)) {
+		hotkey = autoGetHotkey(
+			engine,
+			command && !Array.isArray(command) ? command.name : name,
+			key,
+		);
+	}
+	if (typeof hotkey === 'string' && hotkey !== '') {
+		return formatHotkey(hotkey);
+	}
+	return;
+};
+
+/**
+ * 渲染下拉列表，选中的项前面显示对勾
+ */
+export const renderDropdownList = (
+	engine: EngineInterface | undefined,
+	props: DropdownListProps,
+) => {
+	const { name, items, values, direction, hasDot, className, onSelect } =
+		props;
+	const list = document.createElement('div');
+	list.className = [
+		'toolbar-dropdown-list',
+		`toolbar-dropdown-${direction || 'vertical'}`,
+		hasDot !== false ? 'toolbar-dropdown-dot' : '',
+		className,
+	]
+		.filter((name) => !!name)
+		.join(' ');
+	list.setAttribute('data-element', 'ui');
+	items.forEach((item) => {
+		const { key, icon, content, title, placement, disabled } = item;
+		const element = document.createElement('a');
+		element.className = [
+			'toolbar-dropdown-list-item',
+			item.className,
+			disabled ? 'toolbar-dropdown-list-item-disabled' : '',
+		]
+			.filter((name) => !!name)
+			.join(' ');
+		if (
+			((typeof values === 'string' && values === key) ||
+				(Array.isArray(values) && values.indexOf(key) > -1)) &&
+			direction !== 'horizontal' &&
+			hasDot !== false
+		)
+			element.innerHTML = '<span class="data-icon data-icon-dot"></span>';
+		if (icon)
+			element.innerHTML += `<span class="data-icon data-icon-${icon}"></span>`;
+		const text = document.createElement('div');
+		text.innerHTML =
+			typeof content === 'function' ? content(engine) : content || '';
+		element.appendChild(text);
+		const tooltip = renderTitle(title, getHotkey(engine, name, item));
+		if (tooltip && !isMobile) {
+			element.addEventListener('mouseenter', () => {
+				Tooltip.show($(element), tooltip, {
+					placement: placement || 'right',
+				});
+			});
+			element.addEventListener('mouseleave', () => Tooltip.hide());
+		}
+		element.addEventListener('click', (event) => {
+			event.preventDefault();
+			event.stopPropagation();
+			Tooltip.hide();
+			if (disabled) return;
+			const { autoExecute, command } = item;
+			if (onSelect && onSelect(event, key, engine) === false) return;
+			if (autoExecute !== false) {
+				let commandName = name;
+				let commandArgs = [key];
+				if (command) {
+					if (!Array.isArray(command)) {
+						commandName = command.name;
+						commandArgs = commandArgs.concat(command.args);
+					} else {
+						commandArgs = commandArgs.concat(command);
+					}
+				}
+				if (engine) engine.command.execute(commandName, ...commandArgs);
+			}
+		});
+		list.appendChild(element);
+	});
+	return list;
+};
+
+class Dropdown extends ToolbarElement<DropdownProps> {
+	static elementName = 'am-toolbar-dropdown';
+	#visible = false;
+	#trigger?: HTMLDivElement;
+	#button?: Button;
+	#list?: HTMLElement;
+
+	constructor() {
+		super();
+		this.addEventListener('click', this.triggerClick);
+		this.addEventListener('mousedown', (event) => event.preventDefault());
+	}
+
+	/**
+	 * 当前选中的值以及按钮显示的内容
+	 */
+	getState() {
+		const { engine, props } = this;
+		const { items = [], icon, content, single } = props;
+		let values = props.values;
+		if (single !== false)
+			values =
+				Array.isArray(values) && values.length > 0 ? values[0] : values;
+		const item = items.find(
+			(item) =>
+				(typeof values === 'string' && item.key === values) ||
+				(Array.isArray(values) && values.indexOf(item.key) > -1),
+		);
+		const defaultItem =
+			items.length > 0
+				? items.find((item) => item.isDefault === true) || items[0]
+				: null;
+		const getContent = (content: DropdownListItem['content']) =>
+			typeof content === 'function' ? content(engine) : content;
+		let buttonContent: { icon?: string; content?: string } | undefined;
+		if (item) {
+			if (
+				typeof content === 'function' ||
+				(Array.isArray(values) && values.length > 1)
+			) {
+				buttonContent = { icon, content: getContent(content) };
+			} else {
+				buttonContent = {
+					icon: item.icon,
+					content: getContent(item.content),
+				};
+			}
+		} else if (icon || content) {
+			if (!Array.isArray(values) || values.length < 1) {
+				buttonContent = { icon, content: getContent(content) };
+			}
+		} else if (defaultItem) {
+			buttonContent = {
+				icon: defaultItem.icon,
+				content: getContent(defaultItem.content),
+			};
+		}
+		return {
+			values:
+				values ||
+				(icon || content ? '' : defaultItem ? defaultItem.key : ''),
+			buttonContent,
+		};
+	}
+
+	render(props: DropdownProps) {
+		const { name, title, disabled, placement, className, hasArrow } = props;
+		const { values, buttonContent } = this.getState();
+		this.className = [
+			'toolbar-dropdown',
+			isRight(this) ? 'toolbar-dropdown-right' : '',
+			className,
+		]
+			.filter((name) => !!name)
+			.join(' ');
+		if (!this.#trigger) {
+			this.#trigger = document.createElement('div');
+			this.#button = new Button();
+			this.#trigger.appendChild(this.#button);
+			this.appendChild(this.#trigger);
+		}
+		this.#trigger.className = [
+			'toolbar-dropdown-trigger',
+			this.#visible ? 'toolbar-dropdown-trigger-active' : '',
+			hasArrow !== false ? 'toolbar-dropdown-trigger-arrow' : '',
+		]
+			.filter((name) => !!name)
+			.join(' ');
+		let content = '';
+		if (buttonContent?.icon) content = renderIcon(buttonContent.icon);
+		else if (buttonContent?.content)
+			content = `<span class="toolbar-dropdown-button-text">${buttonContent.content}</span>`;
+		if (hasArrow !== false)
+			content += '<span class="data-icon data-icon-arrow"></span>';
+		this.#button!.props = {
+			name,
+			title,
+			active: this.#visible,
+			disabled,
+			placement,
+			content,
+			autoExecute: false,
+		};
+		this.#list?.remove();
+		this.#list = undefined;
+		if (!this.#visible) return;
+		const list = renderDropdownList(this.engine, {
+			...props,
+			values,
+			onSelect: this.triggerSelect,
+		});
+		this.appendChild(list);
+		this.#list = list;
+		const scrollElement = this.engine?.scrollNode?.get<HTMLElement>();
+		if (scrollElement) {
+			const rect = list.getBoundingClientRect();
+			const scrollRect = scrollElement.getBoundingClientRect();
+			if (rect.top < scrollRect.top)
+				list.classList.add('toolbar-dropdown-placement-bottom');
+			if (rect.bottom > scrollRect.bottom)
+				list.classList.add('toolbar-dropdown-placement-top');
+		}
+	}
+
+	triggerClick = (event: MouseEvent) => {
+		event.preventDefault();
+		if (this.props.disabled) return;
+		if (this.#visible) {
+			this.hide();
+		} else {
+			this.show();
+		}
+	};
+
+	show() {
+		this.#visible = true;
+		document.addEventListener('click', this.hide);
+		this.update();
+	}
+
+	hide = (event?: MouseEvent) => {
+		if (event && this.#trigger?.contains(event.target as Node)) return;
+		document.removeEventListener('click', this.hide);
+		this.#visible = false;
+		this.update();
+	};
+
+	triggerSelect = (
+		event: MouseEvent,
+		key: string,
+		engine?: EngineInterface,
+	) => {
+		this.hide();
+		const { onSelect } = this.props;
+		if (onSelect) return onSelect(event, key, engine);
+		return;
+	};
+
+	unmount() {
+		document.removeEventListener('click', this.hide);
+	}
+}
+
+define(Dropdown.elementName, Dropdown);
+
+export default Dropdown;
@@ -0,0 +1,92 @@
+import type { EngineInterface } from '@aomao/engine';
+
+/**
+ * 工具栏元素的基类。通过 engine 和 props 属性传入引擎和配置，
+ * 元素在文档中时每次设置都会重新渲染，元素自己的状态（例如下拉框是否展开）保留在实例上
+ */
+export default abstract class ToolbarElement<
+	P extends Record<string, any>,
+> extends HTMLElement {
+	#engine?: EngineInterface;
+	#props?: P;
+
+	get engine() {
+		return this.#engine;
+	}
+
+	set engine(engine: EngineInterface | undefined) {
+		this.#engine = engine;
+		this.update();
+	}
+
+	get props() {
+		return this.#props || ({} as P);
+	}
+
+	set props(props: P) {
+		this.#props = props;
+		this.update();
+	}
+
+	connectedCallback() {
+		this.update();
+	}
+
+	disconnectedCallback() {
+		this.unmount();
+	}
+
+	update() {
+		if (!this.isConnected || !this.#props) return;
+		this.render(this.#props);
+	}
+
+	/**
+	 * 渲染元素内容
+	 * @param props 配置
+	 */
+	abstract render(props: P): void;
+
+	/**
+	 * 从文档中移除后清理全局事件
+	 */
+	unmount() {}
+}
+
+/**
+ * 定义元素，已经定义过的名称不再重复定义
+ */
+export const define = (name: string, element: CustomElementConstructor) => {
+	if (!customElements.get(name)) customElements.define(name, element);
+};
+
+/**
+ * 渲染图标，html 字符串直接渲染，否则作为 data-icon-* 图标字体的名称
+ */
+export const renderIcon = (icon?: string) => {
+	if (!icon) return '';
+	return /^<.*>/.test(icon.trim())
+		? `<span>${icon}</span>`
+		: `<span class="data-icon data-icon-${icon}"></span>`;
+};
+
+/**
+ * 执行按钮、折叠面板等配置的命令，默认执行 name 命令
+ */
+export const executeCommand = (
+	engine: EngineInterface | undefined,
+	name: string,
+	command?: { name: string; args: Array<any> } | Array<any>,
+) => {
+	let commandName = name;
+	let commandArgs: Array<any> = [];
+	if (command) {
+		if (!Array.isArray(command)) {
+			commandName = command.name;
+			commandArgs = command.args;
+		} else {
+			commandArgs = command;
+		}
+	}
+	if (engine) engine.command.execute(commandName, ...commandArgs);
+};
@@ -0,0 +1,111 @@
+import { EngineInterface, isMobile, Placement } from '@aomao/engine';
+import { GroupProps, ToolbarItemProps } from '../types';
+import Button from './button';
+import Collapse from './collapse';
+import Color from './color';
+import Dropdown from './dropdown';
+import ToolbarElement, { define } from './element';
+import './group.css';
+
+const elements = {
+	button: Button,
+	dropdown: Dropdown,
+	color: Color,
+	collapse: Collapse,
+};
+
+/**
+ * 渲染工具栏项，同一位置上类型和名称相同的元素会复用，保留展开等状态
+ */
+export const renderItems = (
+	container: HTMLElement,
+	engine: EngineInterface,
+	items: Array<ToolbarItemProps>,
+	placement?: Placement,
+) => {
+	items.forEach((item, index) => {
+		const Element = elements[item.type];
+		if (!Element) return;
+		const name = item.type === 'collapse' ? item.type : item.name;
+		let element = container.children[index] as ToolbarElement<any>;
+		if (
+			!(element instanceof Element) ||
+			element.getAttribute('data-name') !== name
+		) {
+			const newElement = new Element();
+			newElement.setAttribute('data-name', name);
+			if (element) container.replaceChild(newElement, element);
+			else container.appendChild(newElement);
+			element = newElement;
+		}
+		if (element.engine !== engine) element.engine = engine;
+		element.props = placement ? { ...item, placement } : item;
+	});
+	while (container.children.length > items.length) {
+		container.lastElementChild?.remove();
+	}
+};
+
+class Group extends ToolbarElement<GroupProps> {
+	static elementName = 'am-toolbar-group';
+	#button?: Button;
+	#popover?: HTMLDivElement;
+	#content?: HTMLDivElement;
+
+	constructor() {
+		super();
+		this.addEventListener('mouseenter', () => this.togglePopover(true));
+		this.addEventListener('mouseleave', () => this.togglePopover(false));
+	}
+
+	render(props: GroupProps) {
+		const { icon, content, items, popup } = props;
+		this.className = 'editor-toolbar-group';
+		if (!this.engine) return;
+		if (!icon && !content) {
+			if (this.#button) {
+				this.innerHTML = '';
+				this.#button = this.#popover = this.#content = undefined;
+			}
+			renderItems(this, this.engine, items);
+			return;
+		}
+		// 有图标或者内容时，工具栏项在鼠标移入按钮后弹出
+		if (!this.#button) {
+			this.innerHTML = '';
+			this.#button = new Button();
+			this.#popover = document.createElement('div');
+			this.#popover.className = 'editor-toolbar-popover';
+			this.#content = document.createElement('div');
+			this.#content.setAttribute('data-element', 'ui');
+			this.#popover.appendChild(this.#content);
+			this.append(this.#button, this.#popover);
+		}
+		this.#button.props = {
+			name: 'group-popover',
+			icon,
+			content,
+			autoExecute: false,
+		};
+		this.#popover!.classList.toggle(
+			'editor-toolbar-popover-mobile',
+			isMobile,
+		);
+		this.#content!.className = [
+			'editor-toolbar',
+			isMobile && !popup ? 'editor-toolbar-mobile' : '',
+			popup ? 'editor-toolbar-popup' : '',
+		]
+			.filter((name) => !!name)
+			.join(' ');
+		renderItems(this.#content!, this.engine, items, 'top');
+	}
+
+	togglePopover(visible: boolean) {
+		this.#popover?.classList.toggle('editor-toolbar-popover-show', visible);
+	}
+}
+
+define(Group.elementName, Group);
+
+export default Group;
@@ -0,0 +1,67 @@
+import { TableSelectorProps } from '../types';
+import ToolbarElement, { define } from './element';
+import './table.css';
+
+/**
+ * 表格行列选择，鼠标移动时多显示一行一列，直到最大行列数
+ */
+class TableSelector extends ToolbarElement<TableSelectorProps> {
+	static elementName = 'am-toolbar-table-selector';
+	#currentRows = 4;
+	#currentCols = 4;
+	#selectedRows = 0;
+	#selectedCols = 0;
+
+	render(props: TableSelectorProps) {
+		this.className = 'data-toolbar-table-selector';
+		this.setAttribute('data-element', 'ui');
+		this.innerHTML = '';
+		for (let row = 0; row < this.#currentRows; row++) {
+			const tr = document.createElement('div');
+			tr.className = 'data-toolbar-table-selector-tr';
+			for (let col = 0; col < this.#currentCols; col++) {
+				const td = document.createElement('div');
+				td.className = `data-toolbar-table-selector-td${
+					row < this.#selectedRows && col < this.#selectedCols
+						? ' actived'
+						: ''
+				}`;
+				td.addEventListener('click', (event) => {
+					if (props.onSelect) props.onSelect(event, row + 1, col + 1);
+				});
+				td.addEventListener('mousedown', (event) =>
+					event.preventDefault(),
+				);
+				td.addEventListener('mouseover', () =>
+					this.triggerHover(row, col),
+				);
+				tr.appendChild(td);
+			}
+			this.appendChild(tr);
+		}
+		const info = document.createElement('div');
+		info.className = 'data-toolbar-table-selector-info';
+		info.textContent = `${this.#selectedRows}x${this.#selectedCols}`;
+		this.appendChild(info);
+	}
+
+	triggerHover(rows: number, cols: number) {
+		if (rows + 1 === this.#selectedRows && cols + 1 === this.#selectedCols)
+			return;
+		const {
+			maxRows = 10,
+			maxCols = 10,
+			minRows = 4,
+			minCols = 4,
+		} = this.props;
+		this.#currentRows = Math.max(minRows, Math.min(maxRows, rows + 2));
+		this.#currentCols = Math.max(minCols, Math.min(maxCols, cols + 2));
+		this.#selectedRows = rows + 1;
+		this.#selectedCols = cols + 1;
+		this.update();
+	}
+}
+
+define(TableSelector.elementName, TableSelector);
+
+export default TableSelector;
@@ -0,0 +1,309 @@
+import merge from 'lodash/merge';
+import omit from 'lodash/omit';
+import { EngineInterface, isMobile, removeUnit } from '@aomao/engine';
+import { locales } from '@aomao/toolbar-common';
+import {
+	CollapseItemProps,
+	GroupDataProps,
+	GroupItemProps,
+	ToolbarButtonProps,
+	ToolbarCollapseGroupProps,
+	ToolbarColorProps,
+	ToolbarDropdownProps,
+	ToolbarProps,
+} from '../types';
+import { getToolbarDefaultConfig } from '../config';
+import ToolbarElement, { define } from './element';
+import Group from './group';
+import './toolbar.css';
+
+/**
+ * 合并默认配置，并根据引擎的状态计算每一项的激活、选中值和禁用状态
+ */
+export const getGroups = (
+	engine: EngineInterface,
+	items: Array<GroupItemProps>,
+) => {
+	const data: Array<GroupDataProps> = [];
+	const defaultConfig = getToolbarDefaultConfig(engine);
+	items.forEach((group) => {
+		const dataGroup: GroupDataProps = { items: [] };
+		if (!Array.isArray(group)) {
+			dataGroup.icon = group.icon;
+			dataGroup.content = group.content;
+			group = group.items;
+		}
+		group.forEach((item) => {
+			let customItem:
+				| ToolbarButtonProps
+				| ToolbarDropdownProps
+				| ToolbarColorProps
+				| ToolbarCollapseGroupProps
+				| undefined = undefined;
+			if (typeof item === 'string') {
+				const defaultItem = defaultConfig.find((config) =>
+					item === 'collapse'
+						? config.type === item
+						: config.type !== 'collapse' && config.name === item,
+				);
+				if (defaultItem) customItem = { ...defaultItem };
+			} else {
+				const defaultItem = defaultConfig.find((config) =>
+					item.type === 'collapse'
+						? config.type === item.type
+						: config.type !== 'collapse' &&
+						  config.name === item.name,
+				);
+				// 解析collapse item 为字符串时
+				if (item.type === 'collapse') {
+					const customCollapse: ToolbarCollapseGroupProps = {
+						...merge(
+							omit({ ...defaultItem }, 'groups'),
+							omit({ ...item }, 'groups'),
+						),
+						groups: [],
+					};
+					item.groups.forEach((group) => {
+						const items: Array<CollapseItemProps> = [];
+						group.items.forEach((cItem) => {
+							let targetItem: CollapseItemProps | undefined =
+								undefined;
+							(
+								defaultItem as ToolbarCollapseGroupProps
+							)?.groups.some((g) =>
+								g.items.some((i) => {
+									const isEqual =
+										i.name ===
+										(typeof cItem === 'string'
+											? cItem
+											: cItem.name);
+									if (isEqual) {
+										targetItem = {
+											...i,
+											...(typeof cItem === 'string'
+												? {}
+												: cItem),
+										};
+									}
+									return isEqual;
+								}),
+							);
+							if (targetItem) items.push(targetItem);
+							else if (typeof cItem === 'object')
+								items.push(cItem);
+						});
+						if (items.length > 0) {
+							customCollapse.groups.push({
+								...omit(group, 'items'),
+								items,
+							});
+						}
+					});
+					customItem =
+						customCollapse.groups.length > 0
+							? customCollapse
+							: undefined;
+				} else if (item.type === 'dropdown') {
+					customItem = defaultItem
+						? merge(
+								{ ...defaultItem },
+								omit({ ...item }, 'type', 'items'),
+						  )
+						: { ...item };
+					(customItem as ToolbarDropdownProps).items = item.items;
+				} else {
+					customItem = defaultItem
+						? merge({ ...defaultItem }, omit({ ...item }, 'type'))
+						: { ...item };
+				}
+			}
+			if (customItem) {
+				if (customItem.type === 'button') {
+					if (customItem.onActive)
+						customItem.active = customItem.onActive();
+					else if (engine.command.queryEnabled(customItem.name))
+						customItem.active = engine.command.queryState(
+							customItem.name,
+						);
+				} else if (customItem.type === 'dropdown') {
+					if (customItem.onActive)
+						customItem.values = customItem.onActive(
+							customItem.items,
+						);
+					else
+						customItem.values = engine.command.queryState(
+							customItem.name,
+						);
+				}
+				if (customItem.type !== 'collapse')
+					customItem.disabled = customItem.onDisabled
+						? customItem.onDisabled()
+						: !engine.command.queryEnabled(customItem.name);
+				else {
+					customItem.groups.forEach((group) =>
+						group.items.forEach((item) => {
+							item.disabled = item.onDisabled
+								? item.onDisabled()
+								: !engine.command.queryEnabled(item.name);
+						}),
+					);
+					customItem.disabled = !customItem.groups.some((g) =>
+						g.items.some((item) => !item.disabled),
+					);
+				}
+				dataGroup.items.push(customItem);
+			}
+		});
+		if (dataGroup.items.length > 0) data.push(dataGroup);
+	});
+	return data;
+};
+
+class Toolbar extends ToolbarElement<ToolbarProps> {
+	static elementName = 'am-toolbar';
+	#content?: HTMLDivElement;
+	#bindEngine?: EngineInterface;
+	#updateTimer?: NodeJS.Timeout;
+	#calcuTimer?: NodeJS.Timeout;
+	#scrollTimer?: NodeJS.Timeout;
+
+	constructor() {
+		super();
+		this.setAttribute('data-element', 'ui');
+		this.addEventListener('mouseover', (event) => event.preventDefault());
+		this.addEventListener('mousemove', (event) => event.preventDefault());
+		this.addEventListener('contextmenu', (event) => event.preventDefault());
+	}
+
+	render(props: ToolbarProps) {
+		const { engine } = this;
+		if (!engine) return;
+		if (this.#bindEngine !== engine) this.bind(engine);
+		if (isMobile) this.calcuMobileView();
+		const { className, popup } = props;
+		this.className = [
+			'editor-toolbar',
+			className,
+			isMobile && !popup ? 'editor-toolbar-mobile' : '',
+			popup ? 'editor-toolbar-popup' : '',
+		]
+			.filter((name) => !!name)
+			.join(' ');
+		if (!this.#content) {
+			this.#content = document.createElement('div');
+			this.#content.className = 'editor-toolbar-content';
+			this.appendChild(this.#content);
+		}
+		const groups = getGroups(engine, props.items || []);
+		groups.forEach((group, index) => {
+			let element = this.#content!.children[index] as Group | undefined;
+			if (!element) {
+				element = new Group();
+				element.engine = engine;
+				this.#content!.appendChild(element);
+			}
+			element.props = { ...group, popup };
+		});
+		while (this.#content.children.length > groups.length) {
+			this.#content.lastElementChild?.remove();
+		}
+	}
+
+	//计算移动浏览器的视图变化
+	calcuMobileView = () => {
+		const { engine } = this;
+		if (!engine || !engine.isFocus() || engine.readonly) return;
+		if (this.#calcuTimer) clearTimeout(this.#calcuTimer);
+		this.#calcuTimer = setTimeout(() => {
+			const rect = this.getBoundingClientRect();
+			const borderTop = removeUnit(getComputedStyle(this).borderTopWidth);
+			const borderBottom = removeUnit(
+				getComputedStyle(this).borderBottomWidth,
+			);
+			const height = rect.height || 0;
+			this.style.top = `${
+				Math.max(
+					document.body.scrollTop,
+					document.documentElement.scrollTop,
+				) +
+				(window.visualViewport.height || 0) -
+				height +
+				borderTop +
+				borderBottom
+			}px`;
+		}, 10);
+	};
+
+	hideMobileToolbar = () => {
+		this.style.top = '-120px';
+		if (this.#scrollTimer) clearTimeout(this.#scrollTimer);
+		this.#scrollTimer = setTimeout(() => {
+			this.calcuMobileView();
+		}, 200);
+	};
+
+	handleReadonly = () => {
+		if (this.engine?.readonly) {
+			this.hideMobileToolbar();
+		} else {
+			this.calcuMobileView();
+		}
+	};
+
+	updateByTimeout = () => {
+		if (this.#updateTimer) clearTimeout(this.#updateTimer);
+		this.#updateTimer = setTimeout(() => {
+			this.update();
+		}, 100);
+	};
+
+	bind(engine: EngineInterface) {
+		this.unbind();
+		this.#bindEngine = engine;
+		engine.language.add(locales);
+		engine.on('select', this.updateByTimeout);
+		engine.on('change', this.updateByTimeout);
+		engine.on('blur', this.updateByTimeout);
+		engine.on('focus', this.updateByTimeout);
+		engine.on('historyChange', this.updateByTimeout);
+		if (isMobile) {
+			engine.on('readonly', this.handleReadonly);
+			engine.on('blur', this.hideMobileToolbar);
+			if (!engine.isFocus()) this.hideMobileToolbar();
+			document.addEventListener('scroll', this.calcuMobileView);
+			visualViewport.addEventListener('resize', this.calcuMobileView);
+			visualViewport.addEventListener('scroll', this.calcuMobileView);
+		} else {
+			engine.on('readonly', this.updateByTimeout);
+		}
+	}
+
+	unbind() {
+		const engine = this.#bindEngine;
+		if (!engine) return;
+		this.#bindEngine = undefined;
+		engine.off('select', this.updateByTimeout);
+		engine.off('change', this.updateByTimeout);
+		engine.off('blur', this.updateByTimeout);
+		engine.off('focus', this.updateByTimeout);
+		engine.off('historyChange', this.updateByTimeout);
+		if (isMobile) {
+			engine.off('readonly', this.handleReadonly);
+			engine.off('blur', this.hideMobileToolbar);
+			document.removeEventListener('scroll', this.calcuMobileView);
+			visualViewport.removeEventListener('resize', this.calcuMobileView);
+			visualViewport.removeEventListener('scroll', this.calcuMobileView);
+		} else {
+			engine.off('readonly', this.updateByTimeout);
+		}
+	}
+
+	unmount() {
+		if (this.#updateTimer) clearTimeout(this.#updateTimer);
+		this.unbind();
+	}
+}
+
+define(Toolbar.elementName, Toolbar);
+
+export default Toolbar;
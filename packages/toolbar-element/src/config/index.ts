@@ -0,0 +1,22 @@
+import { EngineInterface } from '@aomao/engine';
+import {
+	getToolbarDefaultConfig as getDefaultConfig,
+	fontfamily,
+	fontFamilyDefaultData,
+} from '@aomao/toolbar-common';
+import { ToolbarItemProps } from '../types';
+import TableSelector from '../components/table';
+
+export { fontfamily, fontFamilyDefaultData };
+
+export const getToolbarDefaultConfig = (
+	engine: EngineInterface,
+): Array<ToolbarItemProps> =>
+	getDefaultConfig(engine, {
+		html: (html) => html,
+		tableSelector: (onSelect) => () => {
+			const selector = new TableSelector();
+			selector.props = { onSelect };
+			return selector;
+		},
+	});
@@ -0,0 +1,34 @@
+import { locales } from '@aomao/toolbar-common';
+import Toolbar, { getGroups } from './components/toolbar';
+import Group from './components/group';
+import Button from './components/button';
+import Dropdown from './components/dropdown';
+import Color, { ColorPicker } from './components/color';
+import Collapse from './components/collapse';
+import TableSelector from './components/table';
+import ToolbarElement from './components/element';
+import ToolbarPopup from './popup';
+import {
+	getToolbarDefaultConfig,
+	fontFamilyDefaultData,
+	fontfamily,
+} from './config';
+export * from './types';
+
+export default Toolbar;
+export {
+	ToolbarElement,
+	Group,
+	Button,
+	Dropdown,
+	Color,
+	ColorPicker,
+	Collapse,
+	TableSelector,
+	ToolbarPopup,
+	getGroups,
+	getToolbarDefaultConfig as getDefaultConfig,
+	fontFamilyDefaultData,
+	fontfamily,
+	locales,
+};
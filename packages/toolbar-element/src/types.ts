@@ -0,0 +1,235 @@
+import type { EngineInterface, Placement } from '@aomao/engine';
+
+/**
+ * 配置项和 @aomao/toolbar、@aomao/toolbar-vue 的一致，只使用字符串、html 和函数，
+ * 同一份配置可以在三个工具栏中使用
+ */
+
+//命令
+export type Command =
+	| { name: string; args: Array<any> }
+	| Array<any>
+	| undefined;
+//内容，字符串按 html 渲染
+export type Content = string | ((engine?: EngineInterface) => string);
+//按钮
+export type ButtonProps = {
+	name: string;
+	icon?: string;
+	content?: Content;
+	title?: string;
+	placement?: Placement;
+	hotkey?: boolean | string;
+	command?: Command;
+	autoExecute?: boolean;
+	className?: string;
+	active?: boolean;
+	disabled?: boolean;
+	onClick?: (event: MouseEvent, engine?: EngineInterface) => void | boolean;
+	onMouseDown?: (
+		event: MouseEvent,
+		engine?: EngineInterface,
+	) => void | boolean;
+	onMouseEnter?: (
+		event: MouseEvent,
+		engine?: EngineInterface,
+	) => void | boolean;
+	onMouseLevel?: (
+		event: MouseEvent,
+		engine?: EngineInterface,
+	) => void | boolean;
+};
+//增加type
+export type GroupButtonProps = {
+	type: 'button';
+	values?: any;
+} & ButtonProps;
+//下拉项
+export type DropdownListItem = {
+	key: string;
+	icon?: string;
+	content?: Content;
+	hotkey?: boolean | string;
+	isDefault?: boolean;
+	disabled?: boolean;
+	title?: string;
+	placement?: Placement;
+	className?: string;
+	command?: { name: string; args: Array<any> } | Array<any>;
+	autoExecute?: boolean;
+};
+//下拉列表
+export type DropdownListProps = {
+	name: string;
+	direction?: 'vertical' | 'horizontal';
+	items: Array<DropdownListItem>;
+	values: string | number | Array<string>;
+	className?: string;
+	onSelect?: (
+		event: MouseEvent,
+		key: string,
+		engine?: EngineInterface,
+	) => void | boolean;
+	hasDot?: boolean;
+};
+//下拉
+export type DropdownProps = {
+	name: string;
+	values?: string | number | Array<string>;
+	items: Array<DropdownListItem>;
+	icon?: string;
+	placement?: Placement;
+	content?: Content;
+	title?: string;
+	disabled?: boolean;
+	single?: boolean;
+	className?: string;
+	direction?: 'vertical' | 'horizontal';
+	onSelect?: (
+		event: MouseEvent,
+		key: string,
+		engine?: EngineInterface,
+	) => void | boolean;
+	hasArrow?: boolean;
+	hasDot?: boolean;
+};
+
+export type GroupDropdownProps = {
+	type: 'dropdown';
+} & DropdownProps;
+
+//颜色面板
+export type ColorPickerProps = {
+	colors?: Array<Array<string>>;
+	defaultColor: string;
+	defaultActiveColor: string;
+	setStroke?: boolean;
+	onSelect?: (color: string, event: MouseEvent) => void;
+	placement?: Placement;
+};
+//颜色
+export type ColorProps = {
+	name: string;
+	content:
+		| string
+		| ((color: string, stroke: string, disabled?: boolean) => string);
+	buttonTitle?: string;
+	dropdownTitle?: string;
+	command?: Command;
+	autoExecute?: boolean;
+	disabled?: boolean;
+} & ColorPickerProps;
+
+export type GroupColorProps = {
+	type: 'color';
+} & ColorProps;
+
+//表格行列选择
+export type TableSelectorProps = {
+	maxRows?: number;
+	maxCols?: number;
+	minRows?: number;
+	minCols?: number;
+	onSelect?: (event: MouseEvent, rows: number, cols: number) => void;
+};
+
+//collapse item
+export type CollapseItemProps = {
+	name: string;
+	icon?: string;
+	title?: string;
+	search?: string;
+	description?: Content;
+	disabled?: boolean;
+	/**
+	 * 鼠标移入时在旁边展示的内容，例如表格的行列选择
+	 */
+	prompt?: string | HTMLElement | (() => string | HTMLElement);
+	command?: Command;
+	autoExecute?: boolean;
+	className?: string;
+	placement?: Placement;
+	onClick?: (
+		event: MouseEvent,
+		name: string,
+		engine?: EngineInterface,
+	) => boolean | void;
+	onMouseDown?: (event: MouseEvent, engine?: EngineInterface) => void;
+	onDisabled?: () => boolean;
+};
+
+//collapse group
+export type CollapseGroupProps = {
+	title?: string;
+	items: Array<CollapseItemProps>;
+	onSelect?: CollapseItemProps['onClick'];
+};
+//collapse
+export type CollapseProps = {
+	header?: string;
+	groups: Array<CollapseGroupProps>;
+	disabled?: boolean;
+	className?: string;
+	icon?: string;
+	content?: Content;
+	onSelect?: CollapseGroupProps['onSelect'];
+};
+
+export type ToolbarCollapseGroupProps = {
+	type: 'collapse';
+} & CollapseProps;
+
+export type ToolbarButtonProps = {
+	onActive?: () => boolean;
+	onDisabled?: () => boolean;
+} & GroupButtonProps;
+
+export type ToolbarDropdownProps = {
+	onActive?: (items: Array<DropdownListItem>) => string | Array<string>;
+	onDisabled?: () => boolean;
+} & GroupDropdownProps;
+
+export type ToolbarColorProps = {
+	onActive?: () => string | Array<string>;
+	onDisabled?: () => boolean;
+} & GroupColorProps;
+
+export type ToolbarItemProps =
+	| ToolbarButtonProps
+	| ToolbarDropdownProps
+	| ToolbarColorProps
+	| ToolbarCollapseGroupProps;
+
+export type GroupItemDataProps = {
+	icon?: string;
+	content?: Content;
+	items: Array<ToolbarItemProps | string>;
+};
+
+export type GroupItemProps =
+	| Array<
+			| ToolbarItemProps
+			| string
+			| (Omit<ToolbarCollapseGroupProps, 'groups'> & {
+					groups: Array<
+						Omit<CollapseGroupProps, 'items'> & {
+							items: Array<CollapseItemProps | string>;
+						}
+					>;
+			  })
+	  >
+	| GroupItemDataProps;
+
+export type GroupDataProps = Omit<GroupItemDataProps, 'items'> & {
+	items: Array<ToolbarItemProps>;
+};
+
+export type GroupProps = GroupDataProps & {
+	popup?: boolean;
+};
+
+export type ToolbarProps = {
+	items: Array<GroupItemProps>;
+	className?: string;
+	popup?: boolean;
+};
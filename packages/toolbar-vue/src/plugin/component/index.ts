@@ -9,6 +9,7 @@ import {
 	CardValue,
 	DATA_CONTENTEDITABLE_KEY,
 } from '@aomao/engine';
+import type { EngineInterface, SlashItem, SlashMatch } from '@aomao/engine';
 import {
 	CollapseGroupProps,
 	CollapseItemProps,
@@ -20,6 +21,19 @@ import ToolbarPopup from './popup';
 import './index.css';
 
 type Data = Array<CollapseGroupProps>;
+type Item = Omit<CollapseItemProps, 'engine'>;
+/**
+ * 列表中的一个条目
+ */
+type Entry = {
+	// 用于搜索的条目，配置中的条目会转换为斜杠菜单的条目
+	slash: SlashItem;
+	// 工具栏中的条目，提供图标、提示等展示内容
+	collapse?: Item;
+	// 是否是斜杠菜单注册的条目
+	registered: boolean;
+	disabled?: boolean;
+};
 
 export interface ToolbarValue extends CardValue {
 	data: Data;
@@ -30,6 +44,7 @@ class ToolbarComponent<V extends ToolbarValue = ToolbarValue> extends Card<V> {
 	private placeholder?: NodeInterface;
 	private component?: CollapseComponentInterface;
 	#collapseData?: Data;
+	#entries: Array<Entry> = [];
 	#data?: any;
 
 	static get cardName() {
@@ -68,79 +83,192 @@ class ToolbarComponent<V extends ToolbarValue = ToolbarValue> extends Card<V> {
 		this.#data = _data;
 	}
 
-	getData(): Data {
-		const editor = this.editor;
-		if (!isEngine(editor)) {
-			return [];
-		}
-		const data:
-			| Data
-			| { title: any; items: Omit<CollapseItemProps, 'engine'>[] }[] = [];
-		const defaultConfig = getToolbarDefaultConfig(editor);
+	/**
+	 * 工具栏“插入”中的条目，提供同名条目的图标、提示等展示内容
+	 */
+	getCollapseItems(engine: EngineInterface) {
+		const defaultConfig = getToolbarDefaultConfig(engine);
 		const collapseConfig = defaultConfig.find(
 			({ type }) => type === 'collapse',
 		);
 		let collapseGroups: Array<CollapseGroupProps> = [];
 		if (collapseConfig)
 			collapseGroups = (collapseConfig as CollapseProps).groups;
-		const collapseItems: Array<Omit<CollapseItemProps, 'engine'>> = [];
+		const collapseItems: Array<Item> = [];
 		collapseGroups.forEach((group) => {
 			collapseItems.push(...group.items);
 		});
+		return collapseItems;
+	}
+
+	/**
+	 * 转换为列表中的条目，斜杠菜单注册的条目按搜索结果设置标题和命令参数
+	 */
+	toCollapseItem(entry: Entry, match: SlashMatch): Item {
+		const editor = this.editor;
+		const { collapse, disabled } = entry;
+		if (!entry.registered || !isEngine(editor))
+			return { ...collapse!, disabled };
+		const { item, params } = match;
+		const command = editor.slash.getCommand(match);
+		return {
+			...collapse,
+			name: item.name,
+			title: params ? `${item.title} ${params}` : item.title,
+			description: item.description || collapse?.description,
+			icon: collapse?.icon || item.icon,
+			search: item.keywords?.join(','),
+			command,
+			disabled,
+			onClick: (event, name, engine) => {
+				editor.slash.record(item.name);
+				if (collapse?.onClick?.(event, name, engine) === false)
+					return false;
+				if (!item.onSelect) return;
+				item.onSelect(command.args);
+				return false;
+			},
+		};
+	}
+
+	getData(): Data {
+		const editor = this.editor;
+		if (!isEngine(editor)) {
+			return [];
+		}
+		const { slash, language } = editor;
+		const collapseItems = this.getCollapseItems(editor);
+		const findCollapseItem = (name: string) =>
+			collapseItems.find((item) => item.name === name);
+		const toMatch = (item: SlashItem): SlashMatch => ({
+			item,
+			score: 0,
+			args: [],
+		});
+		// 打开时计算禁用状态，搜索时光标在关键词中，不能再查询命令状态
+		const getDisabled = (item: SlashItem, collapse?: Item) => {
+			if (item.disabled) return item.disabled();
+			if (collapse?.onDisabled) return collapse.onDisabled();
+			return !editor.command.queryEnabled(
+				slash.getCommand(toMatch(item)).name,
+			);
+		};
+		const toItem = (entry: Entry) =>
+			this.toCollapseItem(entry, toMatch(entry.slash));
+		this.#entries = [];
 		const value = this.getValue();
-		(this.#data || (value ? value.data : []) || []).forEach(
-			(group: any) => {
-				const title = group.title;
-				const items: Array<Omit<CollapseItemProps, 'engine'>> = [];
-				group.items.forEach((item: any) => {
-					let name = item;
-					if (typeof item !== 'string') name = item.name;
-					const collapseItem = collapseItems.find(
-						(item) => item.name === name,
-					);
-					if (collapseItem) {
-						items.push({
-							...collapseItem,
-							...(typeof item !== 'string' ? item : {}),
-							disabled: collapseItem.onDisabled
-								? collapseItem.onDisabled()
-								: !editor.command.queryEnabled(name),
-						});
-					} else if (typeof item === 'object') items.push(item);
-				});
+		const config = this.#data || (value ? value.data : undefined);
+		// 没有配置时显示插件提供的所有条目，最近使用的单独一组
+		if (!config) {
+			const recent: Array<Entry> = [];
+			const others: Array<Entry> = [];
+			slash.search('').forEach(({ item }) => {
+				const collapse = findCollapseItem(item.name);
+				const entry = {
+					slash: item,
+					collapse,
+					registered: true,
+					disabled: getDisabled(item, collapse),
+				};
+				this.#entries.push(entry);
+				(slash.recent.includes(item.name) ? recent : others).push(
+					entry,
+				);
+			});
+			const data: Data = [];
+			if (recent.length > 0)
 				data.push({
-					title,
-					items,
+					title: language.get<string>('toolbar', 'recent', 'title'),
+					items: recent.map(toItem),
 				});
-			},
-		);
+			data.push({
+				title: language.get<string>('toolbar', 'commonlyUsed', 'title'),
+				items: others.map(toItem),
+			});
+			return data;
+		}
+		const data: Data = [];
+		config.forEach((group: any) => {
+			const title = group.title;
+			const items: Array<Item> = [];
+			group.items.forEach((item: any) => {
+				let name = item;
+				if (typeof item !== 'string') name = item.name;
+				const registered = slash.get(name);
+				const collapseItem = findCollapseItem(name);
+				let entry: Entry | undefined;
+				if (registered) {
+					const collapse =
+						collapseItem || typeof item !== 'string'
+							? {
+									...collapseItem!,
+									...(typeof item !== 'string' ? item : {}),
+							  }
+							: undefined;
+					entry = {
+						slash: registered,
+						collapse,
+						registered: true,
+						disabled: getDisabled(registered, collapse),
+					};
+				} else if (collapseItem || typeof item === 'object') {
+					const collapse: Item = {
+						...collapseItem!,
+						...(typeof item !== 'string' ? item : {}),
+					};
+					const { title, search } = collapse;
+					entry = {
+						// 配置中的条目使用 search 作为关键词
+						slash: {
+							name,
+							title: typeof title === 'string' ? title : '',
+							keywords: search ? search.split(',') : [],
+						},
+						collapse,
+						registered: false,
+						disabled: collapseItem
+							? collapseItem.onDisabled
+								? collapseItem.onDisabled()
+								: !editor.command.queryEnabled(name)
+							: item.disabled,
+					};
+				}
+				if (!entry) return;
+				this.#entries.push(entry);
+				items.push(toItem(entry));
+			});
+			data.push({
+				title,
+				items,
+			});
+		});
 		return data;
 	}
 
 	/**
 	 * 查询
-	 * @param keyword 关键字
+	 * @param keyword 关键字，空格后面的内容作为条目的参数，例如“table 4x3”
 	 * @returns
 	 */
 	search(keyword: string) {
-		const items: Array<Omit<CollapseItemProps, 'engine'>> = [];
-		// search with case insensitive
-		if (typeof keyword === 'string') keyword = keyword.toLowerCase();
-		// 已经有值了就不用赋值了，不然会影响禁用状态
-
-		if (!this.#collapseData) this.#collapseData = [];
-		this.#collapseData.forEach((group) => {
-			group.items.forEach((item) => {
+		const editor = this.editor;
+		if (!isEngine(editor)) return [];
+		const items: Array<Item> = [];
+		const entries = this.#entries;
+		editor.slash
+			.search(
+				keyword,
+				entries.map(({ slash }) => slash),
+			)
+			.forEach((match) => {
+				const entry = entries.find(({ slash }) => slash === match.item);
 				if (
-					item.search &&
-					item.search.toLowerCase().indexOf(keyword) >= 0
-				) {
-					if (!items.find(({ name }) => name === item.name)) {
-						items.push({ ...item });
-					}
-				}
+					!entry ||
+					items.find(({ name }) => name === entry.slash.name)
+				)
+					return;
+				items.push(this.toCollapseItem(entry, match));
 			});
-		});
 		const data = [];
 		if (items.length > 0) {
 			data.push({
@@ -1,6 +1,5 @@
 import {
 	CARD_KEY,
-	EditorInterface,
 	isEngine,
 	isSafari,
 	Node,
@@ -8,8 +7,8 @@ import {
 	Plugin,
 	PluginOptions,
 } from '@aomao/engine';
+import { locales } from '@aomao/toolbar-common';
 import { CollapseItemProps, GroupItemProps } from '../types';
-import locales from '../locales';
 import ToolbarComponent, { ToolbarPopup } from './component';
 import type { ToolbarValue } from './component';
 
@@ -18,33 +17,15 @@ type Config = Array<{
 	items: Array<Omit<CollapseItemProps, 'engine'> | string>;
 }>;
 export interface ToolbarOptions extends PluginOptions {
+	/**
+	 * 斜杠菜单的分组，默认显示插件通过 slash 方法提供的所有条目，false 不显示斜杠菜单
+	 */
 	config?: Config | false;
 	popup?: {
 		items: GroupItemProps[];
 	};
 }
 
-const defaultConfig = (editor: EditorInterface): Config => {
-	return [
-		{
-			title: editor.language.get<string>(
-				'toolbar',
-				'commonlyUsed',
-				'title',
-			),
-			items: [
-				'image-uploader',
-				'codeblock',
-				'table',
-				'file-uploader',
-				'video-uploader',
-				'math',
-				'status',
-			],
-		},
-	];
-};
-
 class ToolbarPlugin<
 	T extends ToolbarOptions = ToolbarOptions,
 > extends Plugin<T> {
@@ -106,7 +87,7 @@ class ToolbarPlugin<
 			range = change.range.get();
 			if (range.collapsed) {
 				event.preventDefault();
-				const data = this.options.config || defaultConfig(editor);
+				const data = this.options.config;
 				const card = editor.card.insert(
 					ToolbarComponent.cardName,
 					{},
@@ -9,6 +9,7 @@ import React, {
 } from 'react';
 import classnames from 'classnames-es-ts';
 import { EngineInterface, isMobile, removeUnit } from '@aomao/engine';
+import { locales } from '@aomao/toolbar-common';
 import ToolbarGroup from './group';
 import {
 	getToolbarDefaultConfig,
@@ -18,7 +19,6 @@ import {
 import { ButtonProps, DropdownProps, ColorProps, CollapseProps } from './types';
 import { CollapseGroupProps } from './collapse/group';
 import { CollapseItemProps } from './collapse/item';
-import locales from './locales';
 import './index.css';
 
 export type ToolbarItemProps =
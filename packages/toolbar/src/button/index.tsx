@@ -2,8 +2,8 @@ import React, { useState } from 'react';
 import Tooltip from 'antd/es/tooltip';
 import classnames from 'classnames-es-ts';
 import { formatHotkey, isMobile } from '@aomao/engine';
+import { autoGetHotkey } from '@aomao/toolbar-common';
 import type { EngineInterface, Placement } from '@aomao/engine';
-import { autoGetHotkey } from '../utils';
 import 'antd/es/tooltip/style/css';
 import './index.css';
 
@@ -84,7 +84,11 @@ const CollapseItem: React.FC<CollapseItemProps> = (props) => {
 				onMouseDown={onMouseDown}
 			>
 				{typeof icon === 'string' ? (
-					<span className={`data-icon data-icon-${icon}`} />
+					/^<.*>/.test(icon.trim()) ? (
+						<span dangerouslySetInnerHTML={{ __html: icon }} />
+					) : (
+						<span className={`data-icon data-icon-${icon}`} />
+					)
 				) : (
 					icon
 				)}
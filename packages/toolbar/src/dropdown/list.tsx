@@ -2,7 +2,7 @@ import React, { useEffect, useRef, useState } from 'react';
 import classnames from 'classnames-es-ts';
 import Tooltip from 'antd/es/tooltip';
 import { EngineInterface, formatHotkey, isMobile } from '@aomao/engine';
-import { autoGetHotkey } from '../utils';
+import { autoGetHotkey } from '@aomao/toolbar-common';
 import 'antd/es/tooltip/style/css';
 
 export type DropdownListItem = {
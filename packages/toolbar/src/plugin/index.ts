@@ -6,52 +6,26 @@ import {
 	isSafari,
 	Plugin,
 } from '@aomao/engine';
-import type {
-	EditorInterface,
-	NodeInterface,
-	PluginOptions,
-	Node,
-} from '@aomao/engine';
+import type { NodeInterface, PluginOptions, Node } from '@aomao/engine';
+import { locales } from '@aomao/toolbar-common';
 import type { CollapseItemProps } from '../collapse/item';
 import ToolbarComponent, { ToolbarPopup } from './component';
 import type { ToolbarValue, GroupItemProps } from './component';
-import locales from '../locales';
 
 type Config = Array<{
 	title: React.ReactNode;
 	items: Array<Omit<CollapseItemProps, 'engine'> | string>;
 }>;
 export interface ToolbarOptions extends PluginOptions {
+	/**
+	 * 斜杠菜单的分组，默认显示插件通过 slash 方法提供的所有条目，false 不显示斜杠菜单
+	 */
 	config?: Config | false;
 	popup?: {
 		items: GroupItemProps[];
 	};
 }
 
-const defaultConfig = (editor: EditorInterface): Config => {
-	return [
-		{
-			title: editor.language.get<string>(
-				'toolbar',
-				'commonlyUsed',
-				'title',
-			),
-			items: [
-				'image-uploader',
-				'codeblock',
-				'table',
-				'file-uploader',
-				'video-uploader',
-				'math',
-				'status',
-				'tag',
-				'lightblock',
-				'mulit_codeblock',
-			],
-		},
-	];
-};
-
 class ToolbarPlugin<
 	T extends ToolbarOptions = ToolbarOptions,
 > extends Plugin<T> {
@@ -114,7 +88,7 @@ class ToolbarPlugin<
 			range = change.range.get();
 			if (range.collapsed) {
 				event.preventDefault();
-				const data = this.options.config || defaultConfig(editor);
+				const data = this.options.config;
 				const card = editor.card.insert(
 					ToolbarComponent.cardName,
 					{},
@@ -0,0 +1,429 @@
+import {
+	$,
+	CardEntry,
+	CardType,
+	CardValue,
+	DATA_ELEMENT,
+	DATA_ID,
+	isEngine,
+	isMobile,
+	NodeInterface,
+	Plugin,
+	PluginOptions,
+	Tooltip,
+	UI,
+} from '@aomao/engine';
+import locales from './locales';
+import './index.css';
+
+export type BlockHandleAction = 'up' | 'down' | 'duplicate' | 'delete';
+
+export type BlockConvertItem = {
+	// 菜单项的键，语言包中同名的文字作为菜单项的名称
+	key: string;
+	// 图标名称，对应 data-icon-xxx
+	icon?: string;
+	// 转换的目标，和引擎 block.convert 的目标一致
+	target: string;
+};
+
+export interface BlockHandleOptions extends PluginOptions {
+	hotkey?: {
+		up?: string;
+		down?: string;
+	};
+	// 菜单中“转换为”的选项，设置为空数组不显示
+	convert?: Array<BlockConvertItem>;
+}
+
+const PLUGIN_NAME = 'block-handle';
+// 把手和节点之间留出标题锚点按钮的位置
+const HANDLE_GAP = 24;
+
+const DEFAULT_CONVERT: Array<BlockConvertItem> = [
+	{ key: 'paragraph', icon: 'text', target: 'p' },
+	{ key: 'h1', icon: 'h1', target: 'h1' },
+	{ key: 'h2', icon: 'h2', target: 'h2' },
+	{ key: 'h3', icon: 'h3', target: 'h3' },
+	{ key: 'unorderedlist', icon: 'unordered-list', target: 'ul' },
+	{ key: 'orderedlist', icon: 'ordered-list', target: 'ol' },
+	{ key: 'tasklist', icon: 'task-list', target: 'checkbox' },
+	{ key: 'quote', icon: 'quote', target: 'blockquote' },
+	{ key: 'codeblock', icon: 'codeblock', target: 'codeblock' },
+	{ key: 'lightblock', icon: 'highlight', target: 'lightblock' },
+];
+
+export default class<
+	T extends BlockHandleOptions = BlockHandleOptions,
+> extends Plugin<T> {
+	private handle?: NodeInterface;
+	private menu?: NodeInterface;
+	// 把手当前对应的一级节点
+	private block?: NodeInterface;
+
+	static get pluginName() {
+		return PLUGIN_NAME;
+	}
+
+	init() {
+		const editor = this.editor;
+		if (!isEngine(editor)) return;
+		editor.language.add(locales);
+		if (isMobile) return;
+		editor.container.on('mousemove', this.onMouseMove);
+		editor.root.on('mouseleave', this.onMouseLeave);
+		editor.on('change', this.updateHandle);
+		editor.on('readonly', this.hideHandle);
+	}
+
+	execute(action: BlockHandleAction, block?: NodeInterface) {
+		const editor = this.editor;
+		if (!isEngine(editor)) return;
+		if (!block) {
+			const range = editor.change.range.get();
+			block = this.getTopBlock(range.startNode);
+		}
+		if (!block) return;
+		if (action === 'up') {
+			const prev = this.getSibling(block, 'prev');
+			if (prev) editor.block.move(block, prev, 'before');
+		} else if (action === 'down') {
+			const next = this.getSibling(block, 'next');
+			if (next) editor.block.move(block, next, 'after');
+		} else if (action === 'duplicate') {
+			this.duplicate(block);
+		} else if (action === 'delete') {
+			this.remove(block);
+		}
+	}
+
+	hotkey() {
+		const { hotkey } = this.options;
+		return [
+			{ key: hotkey?.up || 'mod+shift+up', args: 'up' },
+			{ key: hotkey?.down || 'mod+shift+down', args: 'down' },
+		];
+	}
+
+	/**
+	 * 获取节点所在的编辑器一级节点
+	 * @param node 节点
+	 */
+	getTopBlock(node: NodeInterface) {
+		const { container } = this.editor;
+		let top: NodeInterface | undefined = node;
+		while (top) {
+			const parent: NodeInterface | undefined = top.parent();
+			if (parent && parent.equal(container))
+				return top.isElement() && top.attributes(DATA_ELEMENT) !== UI
+					? top
+					: undefined;
+			top = parent;
+		}
+		return;
+	}
+
+	/**
+	 * 获取相邻的一级节点，跳过文本节点和界面元素
+	 */
+	getSibling(block: NodeInterface, direction: 'prev' | 'next') {
+		let sibling =
+			direction === 'prev' ? block.prevElement() : block.nextElement();
+		while (sibling && sibling.attributes(DATA_ELEMENT) === UI) {
+			sibling =
+				direction === 'prev'
+					? sibling.prevElement()
+					: sibling.nextElement();
+		}
+		return sibling || undefined;
+	}
+
+	/**
+	 * 在节点后面插入一个副本
+	 * @param block 一级节点
+	 */
+	duplicate(block: NodeInterface) {
+		const editor = this.editor;
+		if (!isEngine(editor)) return;
+		const { change, card, node } = editor;
+		const component = card.find(block);
+		if (component && component.root.equal(block)) {
+			// 副本使用新的卡片编号
+			const value: CardValue = { ...component.getValue() };
+			delete value.id;
+			// 卡片插入到后面的空段落中
+			const placeholder = $('<p><br /></p>');
+			block.after(placeholder);
+			const range = change.range.get();
+			range.select(placeholder, true).collapse(true);
+			change.range.select(range);
+			card.insert((component.constructor as CardEntry).cardName, value);
+			return;
+		}
+		const cloneNode = node.clone(block, true, false);
+		block.after(cloneNode);
+		const range = change.range.get();
+		range.select(cloneNode, true).shrinkToTextNode().collapse(false);
+		change.apply(range);
+	}
+
+	/**
+	 * 删除节点，光标移动到相邻的节点中
+	 * @param block 一级节点
+	 */
+	remove(block: NodeInterface) {
+		const editor = this.editor;
+		if (!isEngine(editor)) return;
+		const { change, card, container } = editor;
+		const component = card.find(block);
+		if (component && component.root.equal(block)) {
+			card.remove(component.root);
+			return;
+		}
+		let sibling =
+			this.getSibling(block, 'next') || this.getSibling(block, 'prev');
+		block.remove();
+		// 删除最后一个节点后保留一个空段落
+		if (!sibling) {
+			sibling = $('<p><br /></p>');
+			container.append(sibling);
+		}
+		const range = change.range.get();
+		if (card.find(sibling)?.root.equal(sibling)) {
+			range.select(sibling).collapse(true);
+		} else {
+			range.select(sibling, true).shrinkToTextNode().collapse(true);
+		}
+		change.apply(range);
+	}
+
+	/**
+	 * 获取节点可以转换的类型，没有实现 toBlocks 的卡片不能转换
+	 * @param block 一级节点
+	 */
+	getConvertItems(block: NodeInterface) {
+		const editor = this.editor;
+		if (!isEngine(editor)) return [];
+		const { card, schema } = editor;
+		const component = card.find(block);
+		if (
+			component?.root.equal(block) &&
+			!(component.constructor as CardEntry).toBlocks
+		)
+			return [];
+		const tags = schema.getTags('blocks');
+		const current = editor.block.getConvertTarget(
+			editor.change.range.get().cloneRange().select(block, true),
+		);
+		return (this.options.convert || DEFAULT_CONVERT).filter(
+			({ target }) => {
+				if (target === current) return false;
+				const entry = card.classes[target] as CardEntry | undefined;
+				// 行内卡片作为自定义列表项中的卡片，block 卡片需要实现 fromBlocks
+				if (entry)
+					return (
+						entry.cardType === CardType.INLINE || !!entry.fromBlocks
+					);
+				return tags.indexOf(target) > -1;
+			},
+		);
+	}
+
+	/**
+	 * 选中整个节点后转换为目标类型
+	 * @param block 一级节点
+	 * @param item 转换的类型
+	 */
+	convert(block: NodeInterface, item: BlockConvertItem) {
+		const editor = this.editor;
+		if (!isEngine(editor)) return;
+		const { change } = editor;
+		const range = change.range.get();
+		range.select(block, true).shrinkToTextNode();
+		change.range.select(range);
+		editor.block.convert(item.target);
+	}
+
+	onMouseMove = (event: MouseEvent) => {
+		const editor = this.editor;
+		if (!isEngine(editor) || editor.readonly || this.menu) return;
+		const block = this.getTopBlock($(event.target || []));
+		if (!block || (this.block && block.equal(this.block))) return;
+		this.showHandle(block);
+	};
+
+	onMouseLeave = () => {
+		if (this.menu) return;
+		this.hideHandle();
+	};
+
+	showHandle(block: NodeInterface) {
+		const { root, language } = this.editor;
+		if (!this.handle) {
+			const handle = $(
+				`<div class="data-block-handle" ${DATA_ELEMENT}="${UI}"><span class="data-icon data-icon-drag"></span></div>`,
+			);
+			handle.on('mouseenter', () => {
+				if (this.menu) return;
+				Tooltip.show(
+					handle,
+					language.get<string>('blockHandle', 'title'),
+					{ placement: 'left' },
+				);
+			});
+			handle.on('mouseleave', () => Tooltip.hide());
+			handle.on('dragstart', () => Tooltip.hide());
+			handle.on('click', this.toggleMenu);
+			root.append(handle);
+			this.handle = handle;
+		}
+		this.block = block;
+		// 拖动时根据 drag-block-trigger 找到需要移动的节点
+		const id = block.attributes(DATA_ID);
+		if (id) {
+			this.handle.attributes({
+				draggable: 'true',
+				'drag-block-trigger': id,
+			});
+		} else {
+			this.handle.attributes('draggable', 'false');
+			this.handle.removeAttributes('drag-block-trigger');
+		}
+		this.handle.addClass('data-block-handle-active');
+		this.updatePosition();
+	}
+
+	updatePosition() {
+		const { handle, block } = this;
+		if (!handle || !block) return;
+		const { root } = this.editor;
+		const rootRect = root.get<Element>()?.getBoundingClientRect() || {
+			left: 0,
+			top: 0,
+		};
+		const rect = block.get<Element>()!.getBoundingClientRect();
+		handle.css({
+			top: `${Math.round(rect.top - rootRect.top)}px`,
+			left: `${Math.round(
+				rect.left -
+					rootRect.left -
+					handle.get<Element>()!.clientWidth -
+					HANDLE_GAP,
+			)}px`,
+		});
+	}
+
+	updateHandle = () => {
+		const { block } = this;
+		if (!block) return;
+		// 节点被删除或者移动到其它节点中后隐藏把手
+		if (!block.parent()?.equal(this.editor.container)) {
+			this.hideHandle();
+			return;
+		}
+		this.updatePosition();
+	};
+
+	hideHandle = () => {
+		this.hideMenu();
+		this.block = undefined;
+		this.handle?.removeClass('data-block-handle-active');
+		this.handle?.removeAttributes('drag-block-trigger');
+		Tooltip.hide();
+	};
+
+	toggleMenu = (event: MouseEvent) => {
+		event.preventDefault();
+		event.stopPropagation();
+		if (this.menu) this.hideMenu();
+		else this.showMenu();
+	};
+
+	showMenu() {
+		const { handle, block } = this;
+		if (!handle || !block) return;
+		Tooltip.hide();
+		const { root, language } = this.editor;
+		const menu = $(
+			`<div class="data-block-handle-menu" ${DATA_ELEMENT}="${UI}"></div>`,
+		);
+		const appendItem = (
+			icon: string | undefined,
+			title: string,
+			onClick: () => void,
+			disabled?: boolean,
+		) => {
+			const item = $(
+				`<div class="data-block-handle-menu-item${
+					disabled ? ' data-block-handle-menu-item-disabled' : ''
+				}">${
+					icon
+						? `<span class="data-icon data-icon-${icon}"></span>`
+						: ''
+				}</div>`,
+			);
+			item.append($('<span></span>').text(title));
+			item.on('mousedown', (event) => event.preventDefault());
+			item.on('click', (event: MouseEvent) => {
+				event.preventDefault();
+				event.stopPropagation();
+				if (disabled) return;
+				this.hideMenu();
+				onClick();
+			});
+			menu.append(item);
+		};
+		const actions: Array<[BlockHandleAction, string, boolean]> = [
+			['up', 'arrow-up', !this.getSibling(block, 'prev')],
+			['down', 'arrow-down', !this.getSibling(block, 'next')],
+			['duplicate', 'copy', false],
+			['delete', 'delete', false],
+		];
+		actions.forEach(([action, icon, disabled]) => {
+			appendItem(
+				icon,
+				language.get<string>('blockHandle', action),
+				() => this.editor.command.execute(PLUGIN_NAME, action, block),
+				disabled,
+			);
+		});
+		const convertItems = this.getConvertItems(block);
+		if (convertItems.length > 0) {
+			const title = $('<div class="data-block-handle-menu-title"></div>');
+			title.text(language.get<string>('blockHandle', 'convert'));
+			menu.append(title);
+			convertItems.forEach((item) => {
+				appendItem(
+					item.icon,
+					language.get<string>('blockHandle', item.key) || item.key,
+					() => this.convert(block, item),
+				);
+			});
+		}
+		root.append(menu);
+		const handleElement = handle.get<HTMLElement>()!;
+		menu.css({
+			top: `${handleElement.offsetTop + handleElement.offsetHeight}px`,
+			left: `${handleElement.offsetLeft}px`,
+		});
+		this.menu = menu;
+		document.addEventListener('click', this.hideMenu);
+	}
+
+	hideMenu = () => {
+		document.removeEventListener('click', this.hideMenu);
+		this.menu?.remove();
+		this.menu = undefined;
+	};
+
+	destroy() {
+		const editor = this.editor;
+		if (!isEngine(editor)) return;
+		editor.container.off('mousemove', this.onMouseMove);
+		editor.root.off('mouseleave', this.onMouseLeave);
+		editor.off('change', this.updateHandle);
+		editor.off('readonly', this.hideHandle);
+		this.hideMenu();
+		this.handle?.remove();
+	}
+}
@@ -0,0 +1,20 @@
+export default {
+	blockHandle: {
+		title: 'Drag to move, click to open menu',
+		up: 'Move up',
+		down: 'Move down',
+		duplicate: 'Duplicate',
+		delete: 'Delete',
+		convert: 'Turn into',
+		paragraph: 'Text',
+		h1: 'Heading 1',
+		h2: 'Heading 2',
+		h3: 'Heading 3',
+		unorderedlist: 'Bulleted list',
+		orderedlist: 'Numbered list',
+		tasklist: 'Task list',
+		quote: 'Quote',
+		codeblock: 'Code block',
+		lightblock: 'Highlight block',
+	},
+};
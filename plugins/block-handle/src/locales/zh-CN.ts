@@ -0,0 +1,20 @@
+export default {
+	blockHandle: {
+		title: '拖动移动位置，点击打开菜单',
+		up: '上移',
+		down: '下移',
+		duplicate: '复制',
+		delete: '删除',
+		convert: '转换为',
+		paragraph: '正文',
+		h1: '标题 1',
+		h2: '标题 2',
+		h3: '标题 3',
+		unorderedlist: '无序列表',
+		orderedlist: '有序列表',
+		tasklist: '任务列表',
+		quote: '引用',
+		codeblock: '代码块',
+		lightblock: '高亮块',
+	},
+};
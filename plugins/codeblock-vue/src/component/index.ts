@@ -5,10 +5,12 @@ import {
 	Card,
 	CardToolbarItemOptions,
 	CardType,
+	escape,
 	isEngine,
 	isServer,
 	ToolbarItemOptions,
 	CardValue,
+	CardConvertBlock,
 } from '@aomao/engine';
 import CodeBlockEditor from './editor';
 import renderSelect from './select';
@@ -42,6 +44,38 @@ class CodeBlcok<V extends CodeBlockValue = CodeBlockValue> extends Card<V> {
 		return false;
 	}
 
+	/**
+	 * 转换为段落时每行代码一个段落，连续的空格转换为不间断空格以保留缩进
+	 */
+	static toBlocks(value: CodeBlockValue) {
+		const { code = '' } = value;
+		return code
+			.split('\n')
+			.map(
+				(line) =>
+					`<p>${
+						line
+							? escape(line).replace(/ (?= )|^ /g, '\u00a0')
+							: '<br />'
+					}</p>`,
+			)
+			.join('');
+	}
+
+	/**
+	 * 段落转换为代码块时只保留文本，每个段落一行
+	 */
+	static fromBlocks(blocks: Array<CardConvertBlock>): CodeBlockValue {
+		return {
+			mode: 'plain',
+			code: blocks
+				.map(({ text }) =>
+					text.replace(/\u200b/g, '').replace(/\u00a0/g, ' '),
+				)
+				.join('\n'),
+		};
+	}
+
 	static getModes() {
 		return modeDatas;
 	}
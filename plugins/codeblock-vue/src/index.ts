@@ -13,6 +13,12 @@ import {
 	decodeCardValue,
 	VIEW_CLASS_NAME,
 	SchemaBlock,
+	Element,
+	MarkdownContext,
+	getCardName,
+	getCardValue,
+	getMarkdownFence,
+	SlashItem,
 } from '@aomao/engine';
 import type MarkdownIt from 'markdown-it';
 import CodeBlockComponent, {
@@ -27,6 +33,7 @@ const PARSE_HTML = 'parse:html';
 const PASTE_SCHEMA = 'paste:schema';
 const PASTE_EACH = 'paste:each';
 const MARKDOWN_IT = 'markdown-it';
+const PARSE_MARKDOWN = 'parse:markdown';
 export default class<
 	T extends CodeBlockOptions = CodeBlockOptions,
 > extends Plugin<T> {
@@ -42,9 +49,20 @@ export default class<
 		editor.on(PASTE_EACH, this.pasteHtml);
 		if (isEngine(editor)) {
 			editor.on(MARKDOWN_IT, this.markdownIt);
+			editor.on(PARSE_MARKDOWN, this.parseMarkdown);
 		}
 	}
 
+	slash(): Array<SlashItem> {
+		return [
+			{
+				name: 'codeblock',
+				title: this.editor.language.get<string>('codeblock', 'title'),
+				keywords: ['code', 'codeblock', 'daimakuai', '代码块'],
+			},
+		];
+	}
+
 	execute(mode: string, value: string) {
 		const editor = this.editor;
 		if (!isEngine(editor)) return;
@@ -255,6 +273,19 @@ export default class<
 		return results;
 	};
 
+	parseMarkdown = (
+		node: Element,
+		_context: MarkdownContext,
+		callback: (markdown: string) => void,
+	) => {
+		if (getCardName(node) !== CodeBlockComponent.cardName) return;
+		const { mode, code = '' } = getCardValue<CodeBlockValue>(node);
+		const fence = getMarkdownFence(code);
+		const syntax = mode && mode !== 'plain' ? mode : '';
+		callback(`${fence}${syntax}\n${code}\n${fence}`);
+		return false;
+	};
+
 	destroy() {
 		const editor = this.editor;
 		editor.off(PARSE_HTML, this.parseHtml);
@@ -262,6 +293,7 @@ export default class<
 		editor.off(PASTE_EACH, this.pasteHtml);
 		if (isEngine(editor)) {
 			editor.off(MARKDOWN_IT, this.markdownIt);
+			editor.off(PARSE_MARKDOWN, this.parseMarkdown);
 		}
 	}
 }
@@ -5,10 +5,16 @@ import {
 	Card,
 	CardToolbarItemOptions,
 	CardType,
+	escape,
 	isEngine,
 	isServer,
+	RangeInterface,
 	ToolbarItemOptions,
 	CardValue,
+	CardConvertBlock,
+	DATA_ELEMENT,
+	Tooltip,
+	UI,
 } from '@aomao/engine';
 import CodeBlockEditor from './editor';
 import renderSelect from './select';
@@ -16,6 +22,7 @@ import modeDatas from './mode';
 import { CodeBlockEditorInterface } from './types';
 import { CodeBlockOptions } from '@/types';
 import './index.css';
+import { toStaticHTML } from '../static';
 
 export interface CodeBlockValue extends CardValue {
 	mode?: string;
@@ -45,6 +52,40 @@ class CodeBlcok<V extends CodeBlockValue = CodeBlockValue> extends Card<V> {
 		return true;
 	}
 
+	static toStaticHTML = toStaticHTML;
+
+	/**
+	 * 转换为段落时每行代码一个段落，连续的空格转换为不间断空格以保留缩进
+	 */
+	static toBlocks(value: CodeBlockValue) {
+		const { code = '' } = value;
+		return code
+			.split('\n')
+			.map(
+				(line) =>
+					`<p>${
+						line
+							? escape(line).replace(/ (?= )|^ /g, '\u00a0')
+							: '<br />'
+					}</p>`,
+			)
+			.join('');
+	}
+
+	/**
+	 * 段落转换为代码块时只保留文本，每个段落一行
+	 */
+	static fromBlocks(blocks: Array<CardConvertBlock>): CodeBlockValue {
+		return {
+			mode: 'plain',
+			code: blocks
+				.map(({ text }) =>
+					text.replace(/\u200b/g, '').replace(/\u00a0/g, ' '),
+				)
+				.join('\n'),
+		};
+	}
+
 	static getModes() {
 		return modeDatas;
 	}
@@ -253,6 +294,50 @@ class CodeBlcok<V extends CodeBlockValue = CodeBlockValue> extends Card<V> {
 		this.editor.card.activate(this.root);
 	}
 
+	/**
+	 * 查找替换时搜索 CodeMirror 渲染的每一行
+	 */
+	getSearchNodes() {
+		if (!this.mirror || !this.codeEditor) return [];
+		return this.codeEditor.container
+			.find('.CodeMirror-code pre.CodeMirror-line')
+			.toArray();
+	}
+
+	replaceText(items: Array<{ range: RangeInterface; text: string }>) {
+		const mirror = this.mirror;
+		if (!mirror || !this.codeEditor) return;
+		const lines = this.getSearchNodes().map(
+			(line) => line.get<HTMLElement>()!,
+		);
+		// 替换前先把所有区域转换为 CodeMirror 中的位置，替换后行会重新渲染
+		const toPosition = (node: Node, offset: number) => {
+			const line = lines.findIndex((element) => element.contains(node));
+			if (line < 0) return;
+			const walker = document.createTreeWalker(
+				lines[line],
+				NodeFilter.SHOW_TEXT,
+			);
+			let ch = offset;
+			while (walker.nextNode() && walker.currentNode !== node) {
+				ch += walker.currentNode.textContent?.length ?? 0;
+			}
+			return { line, ch };
+		};
+		const changes = items.map(({ range, text }) => ({
+			from: toPosition(range.startContainer, range.startOffset),
+			to: toPosition(range.endContainer, range.endOffset),
+			text,
+		}));
+		mirror.operation(() => {
+			for (let i = changes.length - 1; i >= 0; i--) {
+				const { from, to, text } = changes[i];
+				if (from && to) mirror.replaceRange(text, from, to);
+			}
+		});
+		this.codeEditor.save();
+	}
+
 	onSelectLeft(event: KeyboardEvent) {
 		if (!this.codeEditor) return;
 		event.preventDefault();
@@ -311,6 +396,40 @@ class CodeBlcok<V extends CodeBlockValue = CodeBlockValue> extends Card<V> {
 			});
 		}
 	}
+
+	renderReader() {
+		this.render();
+		const container = this.codeEditor?.container;
+		if (!container || container.find('.data-codeblock-copy').length > 0)
+			return;
+		const editor = this.editor;
+		const { language } = editor;
+		// 阅读模式下悬停时显示复制按钮，复制的是纯文本代码
+		const button = $(
+			`<span class="data-codeblock-copy" ${DATA_ELEMENT}="${UI}"><span class="data-icon data-icon-copy"></span></span>`,
+		);
+		button.on('mouseenter', () => {
+			Tooltip.show(button, language.get<string>('copy', 'title'));
+		});
+		button.on('mouseleave', () => {
+			Tooltip.hide();
+		});
+		button.on('click', (event: MouseEvent) => {
+			event.preventDefault();
+			event.stopPropagation();
+			if (editor.clipboard.copy(this.getValue()?.code || ''))
+				editor.messageSuccess(
+					'copy',
+					language.get<string>('copy', 'success'),
+				);
+			else
+				editor.messageError(
+					'copy',
+					language.get<string>('copy', 'error'),
+				);
+		});
+		container.append(button);
+	}
 }
 
 export default CodeBlcok;
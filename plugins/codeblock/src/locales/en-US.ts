@@ -1,5 +1,6 @@
 export default {
 	codeblock: {
+		title: 'Codeblock',
 		autoWrap: 'Auto Wrap',
 	},
 };
@@ -1,5 +1,6 @@
 export default {
 	codeblock: {
+		title: '代码块',
 		autoWrap: '自动换行',
 	},
 };
@@ -0,0 +1,24 @@
+import { CardStaticEntry, escape } from '@aomao/engine';
+import type { CodeBlockValue } from './component';
+
+/**
+ * 静态渲染，没有 DOM 时无法使用 CodeMirror 高亮，只输出代码
+ */
+export const toStaticHTML = (value: CodeBlockValue) => {
+	const { mode = 'plain', code = '', autoWrap } = value;
+	return `<pre data-syntax="${escape(
+		mode,
+	)}" style="border:1px solid #e8e8e8;padding:8px;background:#f9f9f9;overflow:auto;white-space:${
+		autoWrap ? 'pre-wrap' : 'pre'
+	};"><code class="language-${escape(mode)}">${escape(code)}</code></pre>`;
+};
+
+/**
+ * 代码块卡片的静态渲染器，不依赖组件和 DOM，服务端可以通过 @aomao/plugin-codeblock/dist/static 单独引入
+ */
+const CodeBlockStatic: CardStaticEntry<CodeBlockValue> = {
+	cardName: 'codeblock',
+	toStaticHTML,
+};
+
+export default CodeBlockStatic;
@@ -0,0 +1,371 @@
+import {
+	isEngine,
+	NodeInterface,
+	Plugin,
+	PluginOptions,
+	random,
+	RangeInterface,
+} from '@aomao/engine';
+import { layoutComments } from './layout';
+import { MemoryStorage } from './storage';
+import {
+	CommentReply,
+	CommentStorage,
+	CommentThread,
+	CommentThreadState,
+} from './types';
+
+export interface CommentOptions extends PluginOptions {
+	// mark-range 插件中配置的标记类型，默认为 comment
+	key?: string;
+	// 存储适配器，默认为内存存储
+	storage?: CommentStorage;
+	// 没有传入作者时使用的默认作者
+	author?: string;
+	// 侧边栏中评论之间的间距，默认 16
+	gap?: number;
+	hotkey?: string | Array<string>;
+}
+
+const PLUGIN_NAME = 'comment';
+
+export default class<
+	T extends CommentOptions = CommentOptions,
+> extends Plugin<T> {
+	private threads: Map<string, CommentThread> = new Map();
+	private storage: CommentStorage = new MemoryStorage();
+	// 上一次通知时已经失去标记的评论编号
+	private orphanIds: Array<string> = [];
+	// 正在创建的评论选中的文本
+	private pendingTitle?: string;
+
+	static get pluginName() {
+		return PLUGIN_NAME;
+	}
+
+	get key() {
+		return this.options.key || 'comment';
+	}
+
+	init() {
+		if (this.options.storage) this.storage = this.options.storage;
+		const editor = this.editor;
+		editor.on('mark-range:change', this.onMarkChange);
+		editor.on('mark-range:select', this.onMarkSelect);
+	}
+
+	private markAction(action: string, ...args: any) {
+		return this.editor.command.executeMethod(
+			'mark-range',
+			'action',
+			this.key,
+			action,
+			...args,
+		);
+	}
+
+	/**
+	 * 获取评论在编辑器中的所有标记节点
+	 * @param id 评论编号
+	 */
+	findAnchors(id: string): Array<NodeInterface> {
+		return this.markAction('find', id) || [];
+	}
+
+	private toState(thread: CommentThread): CommentThreadState {
+		return {
+			...thread,
+			orphaned:
+				thread.status === 'open' &&
+				this.findAnchors(thread.id).length === 0,
+		};
+	}
+
+	private createReply(content: string, author?: string): CommentReply {
+		return {
+			id: random(12),
+			author: author ?? this.options.author ?? '',
+			content,
+			createdAt: Date.now(),
+		};
+	}
+
+	private triggerChange() {
+		const threads = this.getThreads();
+		this.orphanIds = threads
+			.filter((thread) => thread.orphaned)
+			.map((thread) => thread.id);
+		this.editor.trigger(`${PLUGIN_NAME}:change`, threads);
+	}
+
+	private async save(thread: CommentThread) {
+		await this.storage.save(thread);
+		this.threads.set(thread.id, thread);
+		this.triggerChange();
+		return this.toState(thread);
+	}
+
+	/**
+	 * 获取所有评论，按创建时间排序
+	 */
+	getThreads() {
+		return Array.from(this.threads.values())
+			.sort((a, b) => a.createdAt - b.createdAt)
+			.map((thread) => this.toState(thread));
+	}
+
+	getThread(id: string) {
+		const thread = this.threads.get(id);
+		return thread ? this.toState(thread) : undefined;
+	}
+
+	/**
+	 * 从存储中加载所有评论
+	 */
+	async load() {
+		const threads = await this.storage.list();
+		this.threads = new Map(threads.map((thread) => [thread.id, thread]));
+		this.triggerChange();
+		return this.getThreads();
+	}
+
+	/**
+	 * 预览当前选中的区域，返回选中的文本，之后调用 create 创建评论
+	 */
+	preview(): string | undefined {
+		if (!isEngine(this.editor)) return;
+		this.pendingTitle = this.markAction('preview') || undefined;
+		return this.pendingTitle;
+	}
+
+	/**
+	 * 取消正在创建的评论
+	 */
+	cancel() {
+		this.pendingTitle = undefined;
+		this.markAction('revoke');
+	}
+
+	/**
+	 * 在预览的区域创建评论，保存失败时会取消预览
+	 * @param content 评论内容
+	 * @param author 作者
+	 */
+	async create(content: string, author?: string) {
+		const title = this.pendingTitle;
+		if (!isEngine(this.editor) || title === undefined) return;
+		this.pendingTitle = undefined;
+		const thread: CommentThread = {
+			id: random(18),
+			title,
+			status: 'open',
+			replies: [this.createReply(content, author)],
+			createdAt: Date.now(),
+		};
+		try {
+			await this.storage.save(thread);
+		} catch (error) {
+			this.markAction('revoke');
+			throw error;
+		}
+		this.markAction('apply', thread.id);
+		this.threads.set(thread.id, thread);
+		this.triggerChange();
+		return this.toState(thread);
+	}
+
+	/**
+	 * 回复评论
+	 * @param id 评论编号
+	 * @param content 回复内容
+	 * @param author 作者
+	 */
+	async reply(id: string, content: string, author?: string) {
+		const thread = this.threads.get(id);
+		if (!thread) return;
+		return this.save({
+			...thread,
+			replies: thread.replies.concat(this.createReply(content, author)),
+		});
+	}
+
+	/**
+	 * 修改回复内容
+	 * @param id 评论编号
+	 * @param replyId 回复编号
+	 * @param content 回复内容
+	 */
+	async updateReply(id: string, replyId: string, content: string) {
+		const thread = this.threads.get(id);
+		if (!thread) return;
+		return this.save({
+			...thread,
+			replies: thread.replies.map((reply) =>
+				reply.id === replyId
+					? { ...reply, content, updatedAt: Date.now() }
+					: reply,
+			),
+		});
+	}
+
+	/**
+	 * 删除回复，删除最后一条回复时删除整个评论
+	 * @param id 评论编号
+	 * @param replyId 回复编号
+	 */
+	async removeReply(id: string, replyId: string) {
+		const thread = this.threads.get(id);
+		if (!thread) return;
+		const replies = thread.replies.filter((reply) => reply.id !== replyId);
+		if (replies.length === 0) return this.remove(id);
+		return this.save({ ...thread, replies });
+	}
+
+	/**
+	 * 解决评论，移除编辑器中的标记
+	 * @param id 评论编号
+	 * @param author 解决评论的作者
+	 */
+	async resolve(id: string, author?: string) {
+		const thread = this.threads.get(id);
+		if (!thread || thread.status === 'resolved') return;
+		const result = await this.save({
+			...thread,
+			status: 'resolved',
+			resolvedAt: Date.now(),
+			resolvedBy: author ?? this.options.author ?? '',
+		});
+		if (isEngine(this.editor)) this.markAction('remove', id);
+		return result;
+	}
+
+	/**
+	 * 重新打开评论，编辑器中没有标记时为失去标记的状态，可以使用 attach 重新标记
+	 * @param id 评论编号
+	 */
+	async reopen(id: string) {
+		const thread = this.threads.get(id);
+		if (!thread || thread.status === 'open') return;
+		const { resolvedAt, resolvedBy, ...rest } = thread;
+		return this.save({ ...rest, status: 'open' });
+	}
+
+	/**
+	 * 将评论标记到当前选中的区域，用于失去标记或者重新打开的评论
+	 * @param id 评论编号
+	 */
+	async attach(id: string) {
+		const thread = this.threads.get(id);
+		if (!thread || !isEngine(this.editor)) return;
+		const title = this.markAction('preview');
+		if (!title) return;
+		this.markAction('remove', id);
+		this.markAction('apply', id);
+		return this.save({ ...thread, title, status: 'open' });
+	}
+
+	/**
+	 * 删除评论以及编辑器中的标记
+	 * @param id 评论编号
+	 */
+	async remove(id: string) {
+		if (!this.threads.has(id)) return;
+		await this.storage.remove(id);
+		this.threads.delete(id);
+		if (isEngine(this.editor)) this.markAction('remove', id);
+		this.triggerChange();
+		return;
+	}
+
+	/**
+	 * 高亮评论在编辑器中的标记，不传编号时取消高亮
+	 * @param id 评论编号
+	 */
+	select(id?: string) {
+		this.markAction('revoke');
+		if (id) this.markAction('preview', id);
+		this.editor.trigger(`${PLUGIN_NAME}:select`, id);
+	}
+
+	/**
+	 * 获取节点相对于编辑器根节点的 top
+	 */
+	private getTop(node: NodeInterface) {
+		const { root } = this.editor;
+		let element: HTMLElement | null = node.get<HTMLElement>();
+		let top = 0;
+		while (element && !root.equal(element)) {
+			const parent: HTMLElement | null = element.parentElement;
+			if (!parent) break;
+			top +=
+				element.getBoundingClientRect().top -
+				parent.getBoundingClientRect().top;
+			element = parent;
+		}
+		return top;
+	}
+
+	/**
+	 * 计算侧边栏中所有打开状态的评论的位置，位置相对于编辑器根节点
+	 * @param heights 每个评论在侧边栏中渲染后的高度
+	 * @param activeId 激活的评论编号，以它为基准排列其它评论
+	 */
+	layout(heights: Record<string, number>, activeId?: string) {
+		const items = this.getThreads()
+			.filter((thread) => thread.status === 'open')
+			.map((thread) => {
+				const anchors = this.findAnchors(thread.id);
+				return {
+					id: thread.id,
+					top: anchors.length > 0 ? this.getTop(anchors[0]) : -1,
+					height: heights[thread.id] ?? 0,
+				};
+			});
+		return layoutComments(items, activeId, this.options.gap);
+	}
+
+	onMarkChange = () => {
+		// 删除或者撤销恢复了标记的文本后，更新失去标记的评论
+		const orphanIds = this.getThreads()
+			.filter((thread) => thread.orphaned)
+			.map((thread) => thread.id);
+		if (
+			orphanIds.length !== this.orphanIds.length ||
+			orphanIds.some((id) => this.orphanIds.indexOf(id) < 0)
+		)
+			this.triggerChange();
+	};
+
+	onMarkSelect = (
+		_: RangeInterface,
+		selectInfo?: { key: string; id: string },
+	) => {
+		this.editor.trigger(
+			`${PLUGIN_NAME}:select`,
+			selectInfo?.key === this.key ? selectInfo.id : undefined,
+		);
+	};
+
+	hotkey() {
+		return this.options.hotkey || '';
+	}
+
+	execute() {}
+
+	destroy() {
+		const editor = this.editor;
+		editor.off('mark-range:change', this.onMarkChange);
+		editor.off('mark-range:select', this.onMarkSelect);
+	}
+}
+
+export { MemoryStorage, layoutComments };
+export type {
+	CommentReply,
+	CommentStatus,
+	CommentStorage,
+	CommentThread,
+	CommentThreadState,
+	CommentLayoutItem,
+	CommentLayoutResult,
+} from './types';
@@ -0,0 +1,48 @@
+import { CommentLayoutItem, CommentLayoutResult } from './types';
+
+/**
+ * 计算侧边栏中每个评论的位置，评论尽量和编辑器中的标记对齐，互相重叠时按间距排开。
+ * 以激活的评论为基准，在其上方的评论向上偏移，在其下方的评论向下偏移。没有标记的评论排在最后
+ * @param items 评论，top 为标记在编辑器中的位置
+ * @param activeId 激活的评论编号
+ * @param gap 评论之间的间距
+ */
+export const layoutComments = (
+	items: Array<CommentLayoutItem>,
+	activeId?: string,
+	gap: number = 16,
+): Array<CommentLayoutResult> => {
+	const anchored = items
+		.filter((item) => item.top >= 0)
+		.sort((a, b) => a.top - b.top);
+	const orphaned = items.filter((item) => item.top < 0);
+	const tops: Array<number> = anchored.map((item) => item.top);
+
+	let activeIndex = anchored.findIndex((item) => item.id === activeId);
+	if (activeIndex < 0) activeIndex = 0;
+	for (let i = activeIndex - 1; i >= 0; i--) {
+		const bottom = anchored[i].top + anchored[i].height + gap;
+		if (bottom > tops[i + 1])
+			tops[i] = tops[i + 1] - anchored[i].height - gap;
+	}
+	for (let i = activeIndex + 1; i < anchored.length; i++) {
+		const prevBottom = tops[i - 1] + anchored[i - 1].height + gap;
+		if (prevBottom > tops[i]) tops[i] = prevBottom;
+	}
+
+	const result: Array<CommentLayoutResult> = anchored.map((item, index) => ({
+		id: item.id,
+		top: tops[index],
+	}));
+	let next =
+		anchored.length > 0
+			? tops[anchored.length - 1] +
+			  anchored[anchored.length - 1].height +
+			  gap
+			: 0;
+	orphaned.forEach((item) => {
+		result.push({ id: item.id, top: next });
+		next += item.height + gap;
+	});
+	return result;
+};
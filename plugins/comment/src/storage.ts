@@ -0,0 +1,29 @@
+import { CommentStorage, CommentThread } from './types';
+
+const clone = (thread: CommentThread): CommentThread => ({
+	...thread,
+	replies: thread.replies.map((reply) => ({ ...reply })),
+});
+
+/**
+ * 默认的内存存储，刷新页面后评论会丢失，一般用于演示或者测试
+ */
+export class MemoryStorage implements CommentStorage {
+	private threads: Map<string, CommentThread> = new Map();
+
+	constructor(threads: Array<CommentThread> = []) {
+		threads.forEach((thread) => this.threads.set(thread.id, clone(thread)));
+	}
+
+	async list() {
+		return Array.from(this.threads.values()).map(clone);
+	}
+
+	async save(thread: CommentThread) {
+		this.threads.set(thread.id, clone(thread));
+	}
+
+	async remove(id: string) {
+		this.threads.delete(id);
+	}
+}
@@ -0,0 +1,63 @@
+export type CommentReply = {
+	id: string;
+	// 回复的作者
+	author: string;
+	// 回复的内容
+	content: string;
+	createdAt: number;
+	updatedAt?: number;
+};
+
+export type CommentStatus = 'open' | 'resolved';
+
+export type CommentThread = {
+	// 评论编号，与编辑器中 mark-range 标记的编号一致
+	id: string;
+	// 创建评论时选中的文本
+	title: string;
+	status: CommentStatus;
+	// 第一条为评论内容，之后都是回复
+	replies: Array<CommentReply>;
+	createdAt: number;
+	resolvedAt?: number;
+	resolvedBy?: string;
+};
+
+export type CommentThreadState = CommentThread & {
+	// 打开状态的评论在编辑器中的标记已经被删除
+	orphaned: boolean;
+};
+
+/**
+ * 评论的存储适配器，所有评论都以评论串为单位读写
+ */
+export interface CommentStorage {
+	/**
+	 * 获取所有评论
+	 */
+	list(): Promise<Array<CommentThread>>;
+	/**
+	 * 新增或更新评论
+	 * @param thread 评论
+	 */
+	save(thread: CommentThread): Promise<void>;
+	/**
+	 * 删除评论
+	 * @param id 评论编号
+	 */
+	remove(id: string): Promise<void>;
+}
+
+export type CommentLayoutItem = {
+	id: string;
+	// 标记在编辑器中的 top，没有标记时为 -1
+	top: number;
+	// 评论在侧边栏中渲染后的高度
+	height: number;
+};
+
+export type CommentLayoutResult = {
+	id: string;
+	// 评论在侧边栏中的 top
+	top: number;
+};
@@ -0,0 +1,28 @@
+import { CardValue, isEngine, Plugin, PluginOptions } from '@aomao/engine';
+
+export interface ConvertOptions extends PluginOptions {}
+
+export default class<
+	T extends ConvertOptions = ConvertOptions,
+> extends Plugin<T> {
+	static get pluginName() {
+		return 'convert';
+	}
+
+	/**
+	 * 把光标所在的一级节点转换为其它类型
+	 * @param target 转换的目标：p、h1-h6、blockquote、ul、ol、checkbox 或者 block 卡片名称
+	 * @param value 转换为卡片时附加的卡片值
+	 */
+	execute(target: string, value?: CardValue) {
+		const editor = this.editor;
+		if (!isEngine(editor)) return;
+		editor.block.convert(target, { value });
+	}
+
+	queryState() {
+		const editor = this.editor;
+		if (!isEngine(editor)) return;
+		return editor.block.getConvertTarget();
+	}
+}
@@ -14,6 +14,7 @@ import {
 	SelectStyleType,
 } from '@aomao/engine';
 import './index.css';
+import { toStaticHTML } from '../static';
 
 export default class FileCard<V extends FileValue = FileValue> extends Card<V> {
 	static get cardName() {
@@ -36,6 +37,8 @@ export default class FileCard<V extends FileValue = FileValue> extends Card<V> {
 		return false;
 	}
 
+	static toStaticHTML = toStaticHTML;
+
 	private container?: NodeInterface;
 
 	getLocales() {
@@ -178,8 +181,22 @@ export default class FileCard<V extends FileValue = FileValue> extends Card<V> {
 		}
 
 		let percentHtml = '';
-		if (status === 'uploading')
+		let actionsHtml = '';
+		if (status === 'uploading') {
 			percentHtml = `<span class="percent">${percent || 0}%</span>`;
+			const editor = this.editor;
+			if (isEngine(editor) && !editor.readonly)
+				actionsHtml = `<span class="data-file-actions">${[
+					'pause',
+					'resume',
+					'cancel',
+				]
+					.map(
+						(action) =>
+							`<span class="data-file-action-${action}">${locales[action]}</span>`,
+					)
+					.join('')}</span>`;
+		}
 
 		return `
         <a class="data-file data-file-${status}">
@@ -187,6 +204,7 @@ export default class FileCard<V extends FileValue = FileValue> extends Card<V> {
             ${percentHtml}
             <span class="data-file-title">${escape(name)}</span>
             ${fileSizeHtml}
+            ${actionsHtml}
         </a>
         `;
 	}
@@ -215,6 +233,31 @@ export default class FileCard<V extends FileValue = FileValue> extends Card<V> {
 		});
 	}
 
+	/**
+	 * 上传暂停时隐藏加载图标，暂停按钮切换为继续
+	 * @param paused 是否暂停
+	 */
+	setUploadPaused(paused: boolean) {
+		if (paused) this.container?.addClass('data-file-paused');
+		else this.container?.removeClass('data-file-paused');
+	}
+
+	bindUploadActions() {
+		(['pause', 'resume', 'cancel'] as const).forEach((action) => {
+			this.container
+				?.find(`.data-file-action-${action}`)
+				.on('click', (event: MouseEvent) => {
+					event.preventDefault();
+					event.stopPropagation();
+					this.editor.command.executeMethod(
+						'file-uploader',
+						action,
+						this.id,
+					);
+				});
+		});
+	}
+
 	setProgressPercent(percent: number) {
 		this.container?.find('.percent').html(`${percent}%`);
 		this.setValue({
@@ -232,7 +275,10 @@ export default class FileCard<V extends FileValue = FileValue> extends Card<V> {
 		return;
 	}
 
-	render(): string | void | NodeInterface {
+	/**
+	 * 渲染文件节点，编辑器和阅读器共用
+	 */
+	private renderContainer() {
 		const value = this.getValue();
 		if (!value) return;
 		if (!this.container || this.container.length === 0) {
@@ -241,37 +287,66 @@ export default class FileCard<V extends FileValue = FileValue> extends Card<V> {
 		} else {
 			this.container = this.getCenter().first()!;
 		}
-		const editor = this.editor;
-		if (isEngine(editor)) {
-			this.container.attributes('draggable', 'true');
-		} else {
-			this.renderView();
-		}
 		if (value.status === 'error') {
 			this.bindErrorEvent(this.root);
 		}
 		this.container?.find('.percent').html(`${value.percent}%`);
 		this.updateMaxWidth();
 		window.addEventListener('resize', this.onWindowResize);
-		editor.on('editor:resize', this.onWindowResize);
+		this.editor.on('editor:resize', this.onWindowResize);
+		return value;
 	}
 
-	renderView() {
+	render(): string | void | NodeInterface {
+		const value = this.renderContainer();
+		if (!value) return;
+		if (isEngine(this.editor))
+			this.container?.attributes('draggable', 'true');
+		if (value.status === 'uploading') this.bindUploadActions();
+	}
+
+	renderReader(): string | void | NodeInterface {
+		const value = this.renderContainer();
+		if (!value || !this.container) return;
 		// 默认点击都是下载
-		const value = this.getValue();
 		const options =
 			this.editor.plugin.findPlugin<FileOptions>('file')?.options ?? {};
 		const downloadUrl = sanitizeUrl(
 			this.onBeforeRender('download', value.download || ''),
 		);
 		if (options.onDownload) {
-			this.container?.on('click', () => {
+			this.container.on('click', () => {
 				options.onDownload!(downloadUrl, value);
 			});
 		} else {
-			this.container?.attributes('target', '_blank');
-			this.container?.attributes('href', downloadUrl);
+			this.container.attributes('target', '_blank');
+			this.container.attributes('href', downloadUrl);
 		}
+		const { preview } = value;
+		if (value.status !== 'done' || !preview) return;
+		// 有预览地址时在文件名后显示预览按钮，文件节点是链接，按钮不能使用 a 标签
+		this.container.find('.data-file-preview').remove();
+		const button = $(
+			'<span class="data-file-preview"><span class="data-icon data-icon-preview" /></span>',
+		);
+		button.on('mouseenter', () => {
+			Tooltip.show(button, this.getLocales().preview);
+		});
+		button.on('mouseleave', () => {
+			Tooltip.hide();
+		});
+		button.on('click', (event: MouseEvent) => {
+			event.preventDefault();
+			event.stopPropagation();
+			Tooltip.hide();
+			if (options.onPreview) options.onPreview(preview, value);
+			else
+				window.open(
+					sanitizeUrl(this.onBeforeRender('preview', preview)),
+					'_blank',
+				);
+		});
+		this.container.append(button);
 	}
 
 	didUpdate() {
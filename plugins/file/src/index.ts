@@ -12,6 +12,7 @@ import {
 	SchemaInterface,
 } from '@aomao/engine';
 import FileComponent from './component';
+import FileStatic from './static';
 import FileUploader from './uploader';
 import type { FileUploaderOptions } from './uploader';
 import locales from './locales';
@@ -199,5 +200,5 @@ export default class<T extends FileOptions = FileOptions> extends Plugin<T> {
 	}
 }
 
-export { FileComponent, FileUploader };
+export { FileComponent, FileUploader, FileStatic };
 export type { FileValue, FileOptions, FileUploaderOptions };
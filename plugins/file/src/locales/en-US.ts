@@ -1,10 +1,14 @@
 export default {
 	file: {
+		title: 'File',
 		errorMessageCopy: 'Copy error message',
 		loadError: 'The file failed to load!',
 		uploadError: 'The picture failed to upload!',
 		uploadLimitError: 'Upload file size is limited to $size',
 		download: 'Download',
+		pause: 'Pause',
+		resume: 'Resume',
+		cancel: 'Cancel',
 		preview: 'Preview',
 	},
 };
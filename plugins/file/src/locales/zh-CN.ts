@@ -1,10 +1,14 @@
 export default {
 	file: {
+		title: '附件',
 		errorMessageCopy: '复制错误信息',
 		loadError: '文件加载失败！',
 		uploadError: '上传文件失败！',
 		uploadLimitError: '上传文件大小限制为 $size',
 		download: '下载',
+		pause: '暂停',
+		resume: '继续',
+		cancel: '取消',
 		preview: '预览',
 	},
 };
@@ -0,0 +1,25 @@
+import { CardStaticEntry, escape, sanitizeUrl } from '@aomao/engine';
+import type { FileValue } from './types';
+
+/**
+ * 静态渲染为文件链接
+ */
+export const toStaticHTML = (value: FileValue) => {
+	const { url, name, status } = value;
+	if (!url || status !== 'done') return '';
+	return `<a target="_blank" href="${escape(
+		sanitizeUrl(url),
+	)}" style="word-wrap: break-word;color: #096DD9;text-decoration: none;"><span style="font-size: 14px;">\ud83d\udcce</span>${escape(
+		name,
+	)}</a>`;
+};
+
+/**
+ * 附件卡片的静态渲染器，不依赖组件和 DOM，服务端可以通过 @aomao/plugin-file/dist/static 单独引入
+ */
+const FileStatic: CardStaticEntry<FileValue> = {
+	cardName: 'file',
+	toStaticHTML,
+};
+
+export default FileStatic;
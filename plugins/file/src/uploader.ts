@@ -10,8 +10,14 @@ import {
 	decodeCardValue,
 	CARD_VALUE_KEY,
 	encodeCardValue,
+	SlashItem,
+} from '@aomao/engine';
+import {
+	RequestData,
+	RequestHeaders,
+	UploaderChunkOptions,
+	UploadTransport,
 } from '@aomao/engine';
-import { RequestData, RequestHeaders } from '@aomao/engine';
 import FileComponent from './component';
 import type { FileValue } from './types';
 
@@ -60,6 +66,22 @@ export interface FileUploaderOptions extends PluginOptions {
 	 * 上传大小限制，默认 1024 * 1024 * 5 就是5M
 	 */
 	limitSize?: number;
+	/**
+	 * 分片上传，上传中断后可以从未完成的分片继续，传 true 时分片大小为 5M，依次请求 action 加上 /init、/chunk、/complete 的地址
+	 */
+	chunk?: UploaderChunkOptions | boolean;
+	/**
+	 * 自定义上传方式，例如使用 PresignedTransport 直接上传到对象存储，设置后不再请求 action
+	 */
+	transport?: UploadTransport;
+	/**
+	 * 请求失败后的重试次数，默认 3
+	 */
+	retries?: number;
+	/**
+	 * 第一次重试的等待时间，单位毫秒，之后每次翻倍，默认 1000
+	 */
+	retryDelay?: number;
 	/**
 	 * 解析上传后的Respone，返回 result:是否成功，data:成功：文件地址，失败：错误信息
 	 */
@@ -121,9 +143,37 @@ export default class<
 		return names.indexOf('*') >= 0 || names.indexOf(name) >= 0;
 	}
 
-	async execute(files?: Array<File> | MouseEvent) {
+	slash(): Array<SlashItem> {
+		return [
+			{
+				name: 'file-uploader',
+				title: this.editor.language.get<string>('file', 'title'),
+				keywords: [
+					'file',
+					'attachment',
+					'fujian',
+					'wenjian',
+					'附件',
+					'文件',
+				],
+			},
+		];
+	}
+
+	async execute(files?: Array<File> | MouseEvent | string, ...args: any) {
 		const editor = this.editor;
 		if (!isEngine(editor)) return;
+		if (typeof files === 'string') {
+			switch (files) {
+				case 'pause':
+					return this.pause(args[0]);
+				case 'resume':
+					return this.resume(args[0]);
+				case 'cancel':
+					return this.cancel(args[0]);
+			}
+			return;
+		}
 		const { request, card, language } = editor;
 		const {
 			action,
@@ -134,6 +184,10 @@ export default class<
 			withCredentials,
 			headers,
 			name,
+			chunk,
+			retries,
+			retryDelay,
+			transport,
 		} = this.options;
 		let data = this.options.data;
 		if (typeof data === 'function') {
@@ -161,6 +215,10 @@ export default class<
 				crossOrigin,
 				withCredentials,
 				headers,
+				chunk,
+				retries,
+				retryDelay,
+				transport,
 				onBefore: (file) => {
 					if (file.size > limitSize) {
 						editor.messageError(
@@ -310,6 +368,48 @@ export default class<
 		return;
 	}
 
+	getUploadUid(id: string) {
+		return Object.keys(this.cardComponents).find(
+			(uid) => this.cardComponents[uid].id === id,
+		);
+	}
+
+	/**
+	 * 暂停卡片对应的上传
+	 * @param id 卡片 id
+	 */
+	pause(id: string) {
+		const uid = this.getUploadUid(id);
+		if (!uid || !this.editor.request.pauseUpload(uid)) return false;
+		this.cardComponents[uid].setUploadPaused(true);
+		return true;
+	}
+
+	/**
+	 * 恢复卡片对应的上传
+	 * @param id 卡片 id
+	 */
+	resume(id: string) {
+		const uid = this.getUploadUid(id);
+		if (!uid || !this.editor.request.resumeUpload(uid)) return false;
+		this.cardComponents[uid].setUploadPaused(false);
+		return true;
+	}
+
+	/**
+	 * 取消卡片对应的上传并移除卡片
+	 * @param id 卡片 id
+	 */
+	cancel(id: string) {
+		const editor = this.editor;
+		const uid = this.getUploadUid(id);
+		if (!uid || !isEngine(editor)) return false;
+		editor.request.cancelUpload(uid);
+		delete this.cardComponents[uid];
+		editor.card.remove(id);
+		return true;
+	}
+
 	dropFiles = (files: Array<File>) => {
 		const editor = this.editor;
 		if (!isEngine(editor)) return;
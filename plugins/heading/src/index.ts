@@ -13,6 +13,8 @@ import {
 import type MarkdownIt from 'markdown-it';
 import Outline from './outline';
 import type { OutlineData } from './outline';
+import TocModel, { findReadingSection } from './toc';
+import type { TocItem, TocModelOptions } from './toc';
 import './index.css';
 
 export interface HeadingOptions extends PluginOptions {
@@ -83,12 +85,22 @@ export default class<
 		if (this.tagName.length === 0) return;
 		container.find(this.tagName.join(',')).each((heading) => {
 			const node = $(heading);
+			// 不是由编辑器保存的内容可能没有 id，补上后锚点才能定位到标题
+			if (!node.attributes('id') && !editor.card.closest(node, true))
+				node.attributes(
+					'id',
+					node.attributes(DATA_ID) || getHashId(node),
+				);
 			const id = node.attributes('id');
 			if (id) {
 				node.find('.data-anchor-button').remove();
 				Tooltip.hide();
 				const button = $(
-					`<a class="data-anchor-button" ${DATA_ELEMENT}="${UI}"><span class="data-icon data-icon-${node.name}"></span></a>`,
+					`<a class="data-anchor-button" href="#${encodeURIComponent(
+						id,
+					)}" ${DATA_ELEMENT}="${UI}"><span class="data-icon data-icon-${
+						node.name
+					}"></span></a>`,
 				);
 				if (node.height() !== 24) {
 					button.css({
@@ -108,9 +120,12 @@ export default class<
 				button.on('click', (e) => {
 					e.preventDefault();
 					e.stopPropagation();
+					const { origin, pathname, search } = window.location;
 					const url = this.options.anchorCopy
 						? this.options.anchorCopy(id)
-						: window.location.href + '/' + id;
+						: `${origin}${pathname}${search}#${encodeURIComponent(
+								id,
+						  )}`;
 
 					if (editor.clipboard.copy(url)) {
 						editor.messageSuccess(
@@ -385,6 +400,6 @@ export default class<
 	}
 }
 
-export type { OutlineData };
+export type { OutlineData, TocItem, TocModelOptions };
 
-export { Outline };
+export { Outline, TocModel, findReadingSection };
@@ -0,0 +1,227 @@
+import { $, EditorInterface } from '@aomao/engine';
+import Outline from './outline';
+import type { OutlineData } from './outline';
+import './toc.css';
+
+export type TocItem = OutlineData & {
+	// 是否有下级标题
+	hasChildren: boolean;
+	// 下级标题是否已折叠
+	collapsed: boolean;
+	// 是否为正在阅读的标题
+	active: boolean;
+};
+
+export type TocModelOptions = {
+	/**
+	 * 标题距离滚动区域顶部的距离小于这个值时作为正在阅读的标题，点击跳转时标题也停在这个位置，默认 0
+	 */
+	offset?: number;
+	/**
+	 * 默认展开的深度，深度达到这个值的标题默认折叠下级标题，默认全部展开
+	 */
+	level?: number;
+	/**
+	 * 目录或者正在阅读的标题改变时触发
+	 */
+	onChange?: (items: Array<TocItem>) => void;
+};
+
+const outline = new Outline();
+
+/**
+ * 查找正在阅读的标题，顶部在 top 以上的最后一个标题
+ * @param elements 标题节点
+ * @param top 距离视口顶部的距离
+ */
+export const findReadingSection = (elements: Array<Element>, top: number) => {
+	let index = -1;
+	for (let i = 0; i < elements.length; i++) {
+		const rect = elements[i].getBoundingClientRect();
+		if (rect.height === 0) continue;
+		if (rect.top > top + 1) break;
+		index = i;
+	}
+	return index;
+};
+
+class TocModel {
+	private editor: EditorInterface;
+	private options: TocModelOptions;
+	// 和默认折叠状态相反的标题 id
+	private toggled: Array<string> = [];
+	data: Array<OutlineData> = [];
+	// 正在阅读的标题在 data 中的索引
+	active = -1;
+
+	constructor(editor: EditorInterface, options: TocModelOptions = {}) {
+		this.editor = editor;
+		this.options = options;
+	}
+
+	/**
+	 * 获取编辑器中一级深度的标题，卡片中的标题不纳入目录
+	 */
+	getData() {
+		const { card, container } = this.editor;
+		const nodes: Array<Element> = [];
+		container.find('h1,h2,h3,h4,h5,h6').each((child) => {
+			const node = $(child);
+			if (card.closest(node) || !node.parent()?.isRoot()) return;
+			nodes.push(child as Element);
+		});
+		return outline.normalize(nodes) as Array<OutlineData>;
+	}
+
+	/**
+	 * 获取需要显示的目录项，折叠的标题下的标题不显示
+	 */
+	getItems() {
+		const items: Array<TocItem> = [];
+		// 被折叠的标题深度，比它深的标题都隐藏
+		let hiddenDepth = 0;
+		this.data.forEach((data, index) => {
+			if (hiddenDepth > 0 && data.depth > hiddenDepth) {
+				// 正在阅读的标题被折叠时，高亮它所在的折叠标题
+				if (index === this.active)
+					items[items.length - 1].active = true;
+				return;
+			}
+			const next = this.data[index + 1];
+			const hasChildren = !!next && next.depth > data.depth;
+			const collapsed = hasChildren && this.isCollapsed(data);
+			hiddenDepth = collapsed ? data.depth : 0;
+			items.push({
+				...data,
+				hasChildren,
+				collapsed,
+				active: index === this.active,
+			});
+		});
+		return items;
+	}
+
+	isCollapsed(data: OutlineData) {
+		const { level } = this.options;
+		const collapsed = level !== undefined && data.depth >= level;
+		return this.toggled.indexOf(data.id) > -1 ? !collapsed : collapsed;
+	}
+
+	/**
+	 * 折叠或者展开标题下的标题
+	 * @param id 标题 id
+	 */
+	toggle(id: string) {
+		const index = this.toggled.indexOf(id);
+		if (index > -1) this.toggled.splice(index, 1);
+		else this.toggled.push(id);
+		this.emit();
+	}
+
+	/**
+	 * 按深度折叠，深度达到 level 的标题都折叠下级标题
+	 * @param level 深度，不传时全部展开
+	 */
+	setLevel(level?: number) {
+		this.options.level = level;
+		this.toggled = [];
+		this.emit();
+	}
+
+	getScrollElement() {
+		const element = this.editor.scrollNode?.get<HTMLElement>();
+		// 整个文档滚动时，滚动事件在 window 上触发
+		if (
+			!element ||
+			element === document.documentElement ||
+			element === document.body
+		)
+			return window;
+		return element;
+	}
+
+	/**
+	 * 平滑滚动到标题的位置
+	 * @param id 标题 id
+	 */
+	scrollTo(id: string) {
+		const index = this.data.findIndex((data) => data.id === id);
+		if (index < 0) return;
+		const element = this.data[index].node as Element;
+		const { offset = 0 } = this.options;
+		const scrollElement = this.getScrollElement();
+		const { top } = element.getBoundingClientRect();
+		if (scrollElement === window) {
+			window.scrollTo({
+				top: top + window.pageYOffset - offset,
+				behavior: 'smooth',
+			});
+		} else {
+			const scrollNode = scrollElement as HTMLElement;
+			scrollNode.scrollTo({
+				top:
+					top -
+					scrollNode.getBoundingClientRect().top +
+					scrollNode.scrollTop -
+					offset,
+				behavior: 'smooth',
+			});
+		}
+		// 滚动是动画，先高亮点击的标题
+		this.active = index;
+		this.emit();
+	}
+
+	update = () => {
+		this.data = this.getData();
+		this.active = this.getActive();
+		this.emit();
+	};
+
+	updateActive = () => {
+		const active = this.getActive();
+		if (active === this.active) return;
+		this.active = active;
+		this.emit();
+	};
+
+	getActive() {
+		const { offset = 0 } = this.options;
+		const scrollElement = this.getScrollElement();
+		const top =
+			scrollElement === window
+				? 0
+				: (scrollElement as HTMLElement).getBoundingClientRect().top;
+		return findReadingSection(
+			this.data.map(({ node }) => node as Element),
+			top + offset,
+		);
+	}
+
+	emit() {
+		const { onChange } = this.options;
+		if (onChange) onChange(this.getItems());
+	}
+
+	bind() {
+		const { editor } = this;
+		editor.on('change', this.update);
+		editor.on('afterSetValue', this.update);
+		this.getScrollElement().addEventListener('scroll', this.updateActive);
+		window.addEventListener('resize', this.updateActive);
+		this.update();
+	}
+
+	unbind() {
+		const { editor } = this;
+		editor.off('change', this.update);
+		editor.off('afterSetValue', this.update);
+		this.getScrollElement().removeEventListener(
+			'scroll',
+			this.updateActive,
+		);
+		window.removeEventListener('resize', this.updateActive);
+	}
+}
+
+export default TocModel;
@@ -7,6 +7,9 @@ import {
 	SchemaInterface,
 	CARD_VALUE_KEY,
 	decodeCardValue,
+	Element,
+	MarkdownContext,
+	getCardName,
 } from '@aomao/engine';
 import type MarkdownIt from 'markdown-it';
 import HrComponent, { HrValue } from './component';
@@ -16,6 +19,7 @@ const PARSE_HTML = 'parse:html';
 const PASTE_SCHEMA = 'paste:schema';
 const PASTE_EACH = 'paste:each';
 const MARKDOWN_IT = 'markdown-it';
+const PARSE_MARKDOWN = 'parse:markdown';
 export default class<T extends HrOptions = HrOptions> extends Plugin<T> {
 	static get pluginName() {
 		return 'hr';
@@ -28,6 +32,7 @@ export default class<T extends HrOptions = HrOptions> extends Plugin<T> {
 		editor.on(PASTE_EACH, this.pasteHtml);
 		if (isEngine(editor)) {
 			editor.on(MARKDOWN_IT, this.markdownIt);
+			editor.on(PARSE_MARKDOWN, this.parseMarkdown);
 		}
 	}
 
@@ -96,6 +101,16 @@ export default class<T extends HrOptions = HrOptions> extends Plugin<T> {
 		return results;
 	};
 
+	parseMarkdown = (
+		node: Element,
+		_context: MarkdownContext,
+		callback: (markdown: string) => void,
+	) => {
+		if (getCardName(node) !== HrComponent.cardName) return;
+		callback('---');
+		return false;
+	};
+
 	destroy() {
 		const editor = this.editor;
 		editor.off(PARSE_HTML, this.parseHtml);
@@ -103,6 +118,7 @@ export default class<T extends HrOptions = HrOptions> extends Plugin<T> {
 		editor.off(PASTE_EACH, this.pasteHtml);
 		if (isEngine(editor)) {
 			editor.off(MARKDOWN_IT, this.markdownIt);
+			editor.off(PARSE_MARKDOWN, this.parseMarkdown);
 		}
 	}
 }
@@ -426,7 +426,7 @@ class Image {
 			.filter((image) => {
 				return image.find('img').length > 0;
 			})
-			.forEach((imageNode, index) => {
+			.forEach((imageNode) => {
 				const card = editor.card.find<ImageValue>(imageNode);
 				const value = card?.getValue();
 				if (!card || !value) return;
@@ -451,8 +451,9 @@ class Image {
 					w: naturalWidth,
 					h: naturalHeight,
 				});
+				// 跳过的图片不在预览列表中，索引以列表为准
 				if (cardRoot?.equal(imageNode)) {
-					rootIndex = index;
+					rootIndex = imageArray.length - 1;
 				}
 			});
 		this.pswp.open(imageArray, rootIndex);
@@ -10,6 +10,7 @@ import {
 	ToolbarItemOptions,
 } from '@aomao/engine';
 import Image, { Size } from './image';
+import { toStaticHTML } from '../static';
 
 export interface ImageValue extends CardValue {
 	/**
@@ -45,6 +46,10 @@ export interface ImageValue extends CardValue {
 	 * 错误状态下的错误信息
 	 */
 	message?: string;
+	/**
+	 * 低质量占位图，图片加载完成前作为背景显示
+	 */
+	placeholder?: string;
 	/**
 	 * 图片大小
 	 */
@@ -85,6 +90,9 @@ class ImageComponent<T extends ImageValue = ImageValue> extends Card<T> {
 	static get collab() {
 		return false;
 	}
+
+	static toStaticHTML = toStaticHTML;
+
 	// static get autoSelected() {
 	// 	return false;
 	// }
@@ -361,7 +369,7 @@ class ImageComponent<T extends ImageValue = ImageValue> extends Card<T> {
 			if (value.percent) this.image.setProgressPercent(value.percent);
 			this.image.resizer?.destroy();
 		}
-		this.image.render(loadingBg);
+		this.image.render(loadingBg || value.placeholder);
 	}
 
 	didUpdate() {
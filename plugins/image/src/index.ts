@@ -10,14 +10,22 @@ import {
 	Plugin,
 	PluginEntry,
 	READY_CARD_KEY,
+	Element,
+	MarkdownContext,
+	escapeMarkdown,
+	getCardName,
+	getCardValue,
+	isEngine,
 } from '@aomao/engine';
 import ImageComponent, { ImageValue } from './component';
 import ImageUploader from './uploader';
+import ImageStatic from './static';
 import { ImageUploaderOptions } from './uploader';
 import locales from './locales';
-import { ImageOptions } from './types';
+import { ImageOptions, ImageProcessOptions } from './types';
 
 const PARSE_HTML = 'parse:html';
+const PARSE_MARKDOWN = 'parse:markdown';
 
 export default class<T extends ImageOptions = ImageOptions> extends Plugin<T> {
 	static get pluginName() {
@@ -28,6 +36,9 @@ export default class<T extends ImageOptions = ImageOptions> extends Plugin<T> {
 		const editor = this.editor;
 		editor.language.add(locales);
 		editor.on(PARSE_HTML, this.parseHtml);
+		if (isEngine(editor)) {
+			editor.on(PARSE_MARKDOWN, this.parseMarkdown);
+		}
 	}
 
 	execute(
@@ -163,10 +174,37 @@ export default class<T extends ImageOptions = ImageOptions> extends Plugin<T> {
 		return results;
 	};
 
+	parseMarkdown = (
+		node: Element,
+		_context: MarkdownContext,
+		callback: (markdown: string) => void,
+	) => {
+		if (getCardName(node) !== ImageComponent.cardName) return;
+		const value = getCardValue<ImageValue>(node);
+		if (!value.src || value.status !== 'done') {
+			callback('');
+			return false;
+		}
+		let src = value.src;
+		const { onBeforeRender } = this.options;
+		if (onBeforeRender) {
+			src = onBeforeRender(value.status, value.src, this.editor);
+		}
+		const image = `![${escapeMarkdown(value.alt || '')}](${src})`;
+		callback(value.link?.href ? `[${image}](${value.link.href})` : image);
+		return false;
+	};
+
 	destroy() {
 		this.editor.off(PARSE_HTML, this.parseHtml);
+		this.editor.off(PARSE_MARKDOWN, this.parseMarkdown);
 	}
 }
 
-export { ImageComponent, ImageUploader };
-export type { ImageValue, ImageOptions, ImageUploaderOptions };
+export { ImageComponent, ImageUploader, ImageStatic };
+export type {
+	ImageValue,
+	ImageOptions,
+	ImageUploaderOptions,
+	ImageProcessOptions,
+};
@@ -1,5 +1,6 @@
 export default {
 	image: {
+		title: 'Image',
 		next: 'Next',
 		prev: 'Previous',
 		zoomIn: 'Zoom In',
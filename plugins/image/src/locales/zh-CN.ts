@@ -1,5 +1,6 @@
 export default {
 	image: {
+		title: '图片',
 		next: '下一张',
 		prev: '上一张',
 		zoomIn: '放大',
@@ -0,0 +1,283 @@
+import type { File } from '@aomao/engine';
+import type { ImageProcessOptions } from './types';
+
+export type ProcessResult = {
+	file: File;
+	/**
+	 * 低质量占位图 base64 地址
+	 */
+	placeholder?: string;
+};
+
+type JpegInfo = {
+	/**
+	 * EXIF 方向，1 - 8
+	 */
+	orientation: number;
+	/**
+	 * 是否包含 EXIF 信息
+	 */
+	exif: boolean;
+	/**
+	 * 未旋转的宽高
+	 */
+	width: number;
+	height: number;
+};
+
+/**
+ * 可以解码后重新编码的格式，gif 动图和 svg 矢量图保持原样
+ */
+const PROCESS_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/bmp'];
+
+const readAsArrayBuffer = (file: Blob) => {
+	return new Promise<ArrayBuffer>((resolve, reject) => {
+		const fileReader = new FileReader();
+		fileReader.addEventListener('load', () =>
+			resolve(fileReader.result as ArrayBuffer),
+		);
+		fileReader.addEventListener('error', () => reject(fileReader.error));
+		fileReader.readAsArrayBuffer(file);
+	});
+};
+
+/**
+ * 读取 JPEG 的 EXIF 方向和 SOF 中的原始宽高
+ * @param buffer 文件内容
+ */
+export const readJpegInfo = (buffer: ArrayBuffer): JpegInfo => {
+	const info: JpegInfo = { orientation: 1, exif: false, width: 0, height: 0 };
+	const view = new DataView(buffer);
+	try {
+		if (view.getUint16(0) !== 0xffd8) return info;
+		let offset = 2;
+		while (offset + 4 <= view.byteLength) {
+			const marker = view.getUint16(offset);
+			if ((marker & 0xff00) !== 0xff00) break;
+			// APP1 Exif
+			if (
+				marker === 0xffe1 &&
+				view.getUint32(offset + 4) === 0x45786966
+			) {
+				info.exif = true;
+				const tiff = offset + 10;
+				const little = view.getUint16(tiff) === 0x4949;
+				const ifd = tiff + view.getUint32(tiff + 4, little);
+				const count = view.getUint16(ifd, little);
+				for (let i = 0; i < count; i++) {
+					const entry = ifd + 2 + i * 12;
+					if (view.getUint16(entry, little) === 0x0112) {
+						const orientation = view.getUint16(entry + 8, little);
+						if (orientation >= 1 && orientation <= 8)
+							info.orientation = orientation;
+						break;
+					}
+				}
+			}
+			// SOF0 - SOF15，排除 DHT、JPG、DAC
+			else if (
+				marker >= 0xffc0 &&
+				marker <= 0xffcf &&
+				marker !== 0xffc4 &&
+				marker !== 0xffc8 &&
+				marker !== 0xffcc
+			) {
+				info.height = view.getUint16(offset + 5);
+				info.width = view.getUint16(offset + 7);
+				break;
+			}
+			offset += 2 + view.getUint16(offset + 2);
+		}
+	} catch (error) {
+		// 文件损坏时按没有 EXIF 处理
+	}
+	return info;
+};
+
+const loadImage = (file: Blob) => {
+	return new Promise<HTMLImageElement>((resolve, reject) => {
+		const url = URL.createObjectURL(file);
+		const image = new Image();
+		image.onload = () => {
+			URL.revokeObjectURL(url);
+			resolve(image);
+		};
+		image.onerror = () => {
+			URL.revokeObjectURL(url);
+			reject(new Error('Image decode failed'));
+		};
+		image.src = url;
+	});
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality: number) => {
+	return new Promise<Blob | null>((resolve) =>
+		canvas.toBlob(resolve, type, quality),
+	);
+};
+
+/**
+ * 绘制时按 EXIF 方向旋转，width、height 为旋转后的画布大小
+ */
+const transform = (
+	context: CanvasRenderingContext2D,
+	orientation: number,
+	width: number,
+	height: number,
+) => {
+	switch (orientation) {
+		case 2:
+			context.transform(-1, 0, 0, 1, width, 0);
+			break;
+		case 3:
+			context.transform(-1, 0, 0, -1, width, height);
+			break;
+		case 4:
+			context.transform(1, 0, 0, -1, 0, height);
+			break;
+		case 5:
+			context.transform(0, 1, 1, 0, 0, 0);
+			break;
+		case 6:
+			context.transform(0, 1, -1, 0, width, 0);
+			break;
+		case 7:
+			context.transform(0, -1, -1, 0, width, height);
+			break;
+		case 8:
+			context.transform(0, -1, 1, 0, 0, height);
+			break;
+	}
+};
+
+/**
+ * 浏览器解码时是否已经按 EXIF 方向旋转
+ * 方向 5 - 8 宽高互换，可以和 SOF 中的宽高比较，其它方向只能根据 image-orientation 的支持情况判断
+ */
+const isOrientationApplied = (image: HTMLImageElement, info: JpegInfo) => {
+	if (info.orientation >= 5 && info.width && info.height) {
+		return (
+			image.naturalWidth === info.height &&
+			image.naturalHeight === info.width
+		);
+	}
+	return (
+		typeof CSS !== 'undefined' &&
+		!!CSS.supports &&
+		CSS.supports('image-orientation', 'from-image')
+	);
+};
+
+const createCanvas = (width: number, height: number) => {
+	const canvas = document.createElement('canvas');
+	canvas.width = width;
+	canvas.height = height;
+	return canvas;
+};
+
+/**
+ * jpeg 不支持透明，铺上白色背景，避免透明区域变成黑色
+ */
+const flatten = (canvas: HTMLCanvasElement, width: number, height: number) => {
+	const flatCanvas = createCanvas(width, height);
+	const context = flatCanvas.getContext('2d');
+	if (context) {
+		context.fillStyle = '#FFFFFF';
+		context.fillRect(0, 0, width, height);
+		context.drawImage(canvas, 0, 0, width, height);
+	}
+	return flatCanvas;
+};
+
+const getFileName = (name: string, type: string) => {
+	const ext = type === 'image/webp' ? 'webp' : 'jpg';
+	const index = name.lastIndexOf('.');
+	return (index > 0 ? name.substring(0, index) : name || 'image') + '.' + ext;
+};
+
+/**
+ * 上传前处理图片：缩小尺寸、重新编码、去掉 EXIF 并保留方向，生成低质量占位图
+ * 不支持的格式或者处理失败时返回原文件
+ * @param file 图片文件
+ * @param options 处理选项
+ */
+export const processImage = async (
+	file: File,
+	options: ImageProcessOptions = {},
+): Promise<ProcessResult> => {
+	if (PROCESS_TYPES.indexOf(file.type) < 0) return { file };
+	const {
+		maxWidth = 2560,
+		maxHeight = 2560,
+		type = 'image/webp',
+		quality = 0.85,
+		placeholder = true,
+	} = options;
+	try {
+		const info: JpegInfo =
+			file.type === 'image/jpeg'
+				? readJpegInfo(await readAsArrayBuffer(file))
+				: { orientation: 1, exif: false, width: 0, height: 0 };
+		const image = await loadImage(file);
+		const rotate =
+			info.orientation > 1 && !isOrientationApplied(image, info);
+		const swap = rotate && info.orientation >= 5;
+		let width = swap ? image.naturalHeight : image.naturalWidth;
+		let height = swap ? image.naturalWidth : image.naturalHeight;
+		if (!width || !height) return { file };
+		const scale = Math.min(1, maxWidth / width, maxHeight / height);
+		width = Math.max(1, Math.round(width * scale));
+		height = Math.max(1, Math.round(height * scale));
+
+		const canvas = createCanvas(width, height);
+		const context = canvas.getContext('2d');
+		if (!context) return { file };
+		if (rotate) transform(context, info.orientation, width, height);
+		context.drawImage(
+			image,
+			0,
+			0,
+			swap ? height : width,
+			swap ? width : height,
+		);
+
+		const result: ProcessResult = { file };
+		if (placeholder !== false) {
+			const placeholderWidth = Math.min(
+				typeof placeholder === 'number' ? placeholder : 24,
+				width,
+			);
+			const placeholderCanvas = flatten(
+				canvas,
+				placeholderWidth,
+				Math.max(1, Math.round((height * placeholderWidth) / width)),
+			);
+			result.placeholder = placeholderCanvas.toDataURL('image/jpeg', 0.6);
+		}
+
+		let blob =
+			type === 'image/webp' ? await toBlob(canvas, type, quality) : null;
+		// 不支持 webp 编码时会返回 png
+		if (!blob || blob.type !== type) {
+			blob = await toBlob(
+				flatten(canvas, width, height),
+				'image/jpeg',
+				quality,
+			);
+		}
+		if (!blob) return result;
+		// 没有缩放、旋转和 EXIF，重新编码后更大时使用原文件
+		if (scale === 1 && !rotate && !info.exif && blob.size >= file.size)
+			return result;
+		const newFile: File = new globalThis.File(
+			[blob],
+			getFileName(file.name, blob.type),
+			{ type: blob.type, lastModified: file.lastModified },
+		);
+		newFile.uid = file.uid;
+		result.file = newFile;
+		return result;
+	} catch (error) {
+		return { file };
+	}
+};
@@ -0,0 +1,43 @@
+import {
+	CardStaticContext,
+	CardStaticEntry,
+	CardType,
+	escape,
+	sanitizeUrl,
+} from '@aomao/engine';
+import type { ImageValue } from './component';
+
+/**
+ * 静态渲染，onBeforeRender 依赖编辑器实例，这里直接使用图片地址
+ */
+export const toStaticHTML = (
+	value: ImageValue,
+	{ type }: CardStaticContext,
+) => {
+	const { src, status, alt, size, link } = value;
+	if (!src || status !== 'done') return '';
+	const styles = ['visibility:visible'];
+	if (size?.width) styles.push(`width:${size.width}px`);
+	if (size?.height) styles.push(`height:${size.height}px`);
+	let html = `<img src="${escape(sanitizeUrl(src))}" alt="${escape(
+		alt || '',
+	)}" data-type="${type}" style="${styles.join(';')};" />`;
+	if (link?.href) {
+		html = `<a href="${escape(sanitizeUrl(link.href))}" target="${escape(
+			link.target || '_blank',
+		)}">${html}</a>`;
+	}
+	return type === CardType.BLOCK
+		? `<p style="text-align:center;">${html}</p>`
+		: html;
+};
+
+/**
+ * 图片卡片的静态渲染器，不依赖组件和 DOM，服务端可以通过 @aomao/plugin-image/dist/static 单独引入
+ */
+const ImageStatic: CardStaticEntry<ImageValue> = {
+	cardName: 'image',
+	toStaticHTML,
+};
+
+export default ImageStatic;
@@ -68,3 +68,26 @@ export interface ImageOptions extends PluginOptions {
 		editor: EditorInterface,
 	) => (ToolbarItemOptions | CardToolbarItemOptions)[];
 }
+
+export type ImageProcessOptions = {
+	/**
+	 * 最大宽度，超过后按比例缩小，默认 2560
+	 */
+	maxWidth?: number;
+	/**
+	 * 最大高度，超过后按比例缩小，默认 2560
+	 */
+	maxHeight?: number;
+	/**
+	 * 重新编码的格式，默认 image/webp，浏览器不支持时使用 image/jpeg
+	 */
+	type?: 'image/webp' | 'image/jpeg';
+	/**
+	 * 编码质量，0 - 1 之间，默认 0.85
+	 */
+	quality?: number;
+	/**
+	 * 生成低质量占位图保存在卡片值中，传入数字为占位图宽度，默认 true 宽度为 24
+	 */
+	placeholder?: boolean | number;
+};
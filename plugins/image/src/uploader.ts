@@ -5,7 +5,6 @@ import {
 	isEngine,
 	NodeInterface,
 	Plugin,
-	random,
 	READY_CARD_KEY,
 	getExtensionName,
 	SchemaInterface,
@@ -15,11 +14,18 @@ import {
 	encodeCardValue,
 	removeUnit,
 	CardType,
+	SlashItem,
 } from '@aomao/engine';
 import type MarkdownIt from 'markdown-it';
-import type { RequestData, RequestHeaders } from '@aomao/engine';
+import type {
+	RequestData,
+	RequestHeaders,
+	UploadTransport,
+} from '@aomao/engine';
 import { ImageOptions } from '.';
 import ImageComponent, { ImageValue } from './component';
+import { processImage } from './process';
+import type { ImageProcessOptions } from './types';
 export interface ImageUploaderOptions extends PluginOptions {
 	/**
 	 * 文件上传配置
@@ -69,6 +75,14 @@ export interface ImageUploaderOptions extends PluginOptions {
 		 * 上传大小限制，默认 1024 * 1024 * 5 就是5M
 		 */
 		limitSize?: number;
+		/**
+		 * 自定义上传方式，例如使用 PresignedTransport 直接上传到对象存储，设置后不再请求 action
+		 */
+		transport?: UploadTransport;
+		/**
+		 * 上传前处理图片，缩小尺寸、重新编码并去掉 EXIF，传 true 使用默认配置
+		 */
+		process?: boolean | ImageProcessOptions;
 	};
 	remote: {
 		/**
@@ -133,6 +147,7 @@ export default class<
 > extends Plugin<T> {
 	private cardComponents: { [key: string]: ImageComponent<ImageValue> } = {};
 	private loadCounts: { [key: string]: number } = {};
+	private placeholders: { [key: string]: string } = {};
 
 	static get pluginName() {
 		return 'image-uploader';
@@ -244,6 +259,16 @@ export default class<
 		};
 	}
 
+	slash(): Array<SlashItem> {
+		return [
+			{
+				name: 'image-uploader',
+				title: this.editor.language.get<string>('image', 'title'),
+				keywords: ['image', 'img', 'picture', 'tupian', '图片'],
+			},
+		];
+	}
+
 	async execute(files?: Array<File> | string | MouseEvent) {
 		const editor = this.editor;
 		if (!isEngine(editor)) return;
@@ -258,6 +283,8 @@ export default class<
 			withCredentials,
 			headers,
 			name,
+			transport,
+			process,
 		} = this.options.file;
 		const { parse } = this.options;
 		const limitSize = this.options.file.limitSize || 5 * 1024 * 1024;
@@ -280,6 +307,20 @@ export default class<
 			return;
 		}
 		if (files.length === 0) return;
+		if (process) {
+			files = await Promise.all(
+				files.map(async (file, index) => {
+					if (!file.uid) file.uid = request.createUid(index);
+					const result = await processImage(
+						file,
+						process === true ? {} : process,
+					);
+					if (result.placeholder)
+						this.placeholders[file.uid] = result.placeholder;
+					return result.file;
+				}),
+			);
+		}
 		request.upload(
 			{
 				url: action,
@@ -289,6 +330,7 @@ export default class<
 				data,
 				type,
 				contentType,
+				transport,
 				onBefore: (file) => {
 					if (file.size > limitSize) {
 						editor.messageError(
@@ -301,6 +343,7 @@ export default class<
 									(limitSize / 1024 / 1024).toFixed(0) + 'M',
 								),
 						);
+						delete this.placeholders[file.uid || ''];
 						return false;
 					}
 					return true;
@@ -328,6 +371,7 @@ export default class<
 							'image',
 							{
 								...value,
+								placeholder: this.placeholders[fileInfo.uid],
 								status: 'uploading',
 								type:
 									value.type ||
@@ -391,6 +435,7 @@ export default class<
 				},
 				onSuccess: (response, file) => {
 					const component = this.cardComponents[file.uid || ''];
+					delete this.placeholders[file.uid || ''];
 					if (!component) return;
 					let src =
 						response.url ||
@@ -423,6 +468,7 @@ export default class<
 				},
 				onError: (error, file) => {
 					const component = this.cardComponents[file.uid || ''];
+					delete this.placeholders[file.uid || ''];
 					if (!component) return;
 					card.update<ImageValue>(component.id, {
 						status: 'error',
@@ -700,7 +746,7 @@ export default class<
 				const ext = getExtensionName(fileBlob);
 				const name = ext ? 'image.'.concat(ext) : 'image';
 				const file: File = new globalThis.File([fileBlob], name);
-				file.uid = new Date().getTime() + '-' + random();
+				file.uid = editor.request.createUid(0);
 				editor.command.execute('image-uploader', [file]);
 				this.cardComponents[file.uid] = component;
 				return;
@@ -2,12 +2,17 @@ import React from 'react';
 import {
 	$,
 	Card,
+	CardConvertBlock,
 	CardToolbarItemOptions,
 	CardType,
 	isEngine,
 	NodeInterface,
 	Parser,
 	ToolbarItemOptions,
+	transformCustomTags,
+	Element as ModelElement,
+	Node as ModelNode,
+	MarkdownContext,
 } from '@aomao/engine';
 import ReactDOM from 'react-dom';
 import type { LightblockValue } from './types';
@@ -31,6 +36,25 @@ class Lightblock extends Card<LightblockValue> {
 		return false;
 	}
 
+	/**
+	 * 转换为其它类型时取出高亮块中的内容
+	 */
+	static toBlocks(value: LightblockValue) {
+		return value.html || '<p><br /></p>';
+	}
+
+	/**
+	 * 段落转换为高亮块时使用默认的主题，段落作为高亮块的内容
+	 */
+	static fromBlocks(blocks: Array<CardConvertBlock>): LightblockValue {
+		return {
+			borderColor: '#fed4a4',
+			backgroundColor: '#fff5eb',
+			text: 'light-block',
+			html: blocks.map(({ html }) => html).join(''),
+		};
+	}
+
 	contenteditable = ['div.lightblock-editor-container'];
 
 	#container?: NodeInterface;
@@ -95,6 +119,17 @@ class Lightblock extends Card<LightblockValue> {
 		} as LightblockValue;
 	}
 
+	toMarkdown(_node: ModelElement, context: MarkdownContext) {
+		const { html } = this.getValue();
+		const container = $(`<div>${transformCustomTags(html || '')}</div>`);
+		const root = ModelNode.createFromDOM(
+			container.get<Element>()!,
+			this.editor.schema,
+		);
+		const content = root ? context.toMarkdown(root) : '';
+		return `::: tip\n${content}\n:::`;
+	}
+
 	updateColor = (value = this.getValue()) => {
 		this.#container?.css({
 			borderColor: value.borderColor,
@@ -10,6 +10,7 @@ import {
 	encodeCardValue,
 	READY_CARD_KEY,
 	Parser,
+	SlashItem,
 } from '@aomao/engine';
 import locales from './locale';
 import type MarkdownIt from 'markdown-it';
@@ -35,6 +36,22 @@ export default class extends Plugin<LightblockOptions> {
 		}
 	}
 
+	slash(): Array<SlashItem> {
+		return [
+			{
+				name: 'lightblock',
+				title: this.editor.language.get<string>('lightblock', 'title'),
+				keywords: [
+					'lightblock',
+					'highlight',
+					'callout',
+					'gaoliangkuai',
+					'高亮块',
+				],
+			},
+		];
+	}
+
 	execute() {
 		const editor = this.editor;
 
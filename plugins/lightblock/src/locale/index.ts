@@ -1,6 +1,7 @@
 export default {
 	'en-US': {
 		lightblock: {
+			title: 'Highlight block',
 			theme: 'theme',
 			borderColor: 'border color',
 			backgroundColor: 'background color',
@@ -9,6 +10,7 @@ export default {
 	},
 	'zh-CN': {
 		lightblock: {
+			title: '高亮块',
 			theme: '主题',
 			borderColor: '边框颜色',
 			backgroundColor: '背景颜色',
@@ -1,4 +1,11 @@
-import { isEngine, MarkPlugin, PluginOptions } from '@aomao/engine';
+import {
+	isEngine,
+	MarkPlugin,
+	PluginOptions,
+	Element,
+	MarkdownContext,
+	wrapMarkdown,
+} from '@aomao/engine';
 import type MarkdownIt from 'markdown-it';
 import mdMark from 'markdown-it-mark';
 import './index.css';
@@ -36,6 +43,11 @@ export default class<
 		}
 	};
 
+	toMarkdown(node: Element, context: MarkdownContext) {
+		if (this.options.markdown === false) return;
+		return wrapMarkdown(context.children(node), '==');
+	}
+
 	destroy(): void {
 		this.editor.off(MARKDOWN_IT, this.markdownIt);
 	}
@@ -16,6 +16,7 @@ export type Options = {
 	onFocus?: () => void;
 	onBlur?: () => void;
 	onChange?: (value: string) => void;
+	onDisplayChange?: (display: boolean) => void;
 	onOk?: (event: Event) => void;
 	onDestroy?: () => void;
 };
@@ -34,7 +35,23 @@ class MathEditor {
 		this.container?.find('textarea').get<HTMLTextAreaElement>()?.focus();
 	}
 
-	render(cardId: string, defaultValue?: string) {
+	/**
+	 * 显示公式渲染错误，并高亮编辑框。不传错误信息时清除
+	 * @param message 错误信息
+	 */
+	setError(message?: string) {
+		if (!this.container) return;
+		const error = this.container.find('.data-math-editor-error');
+		if (message) {
+			this.container.addClass('data-card-math-editor-error');
+			error.text(message);
+		} else {
+			this.container.removeClass('data-card-math-editor-error');
+			error.text('');
+		}
+	}
+
+	render(cardId: string, defaultValue?: string, display?: boolean) {
 		this.destroy();
 
 		this.container = $(
@@ -44,7 +61,8 @@ class MathEditor {
 		);
 
 		const locales = getLocales(this.editor);
-		const { onBlur, onFocus, onChange, onOk, tips } = this.options;
+		const { onBlur, onFocus, onChange, onDisplayChange, onOk, tips } =
+			this.options;
 		const textarea = $(`<textarea>${defaultValue || ''}</textarea>`);
 
 		textarea.on('focus', () => {
@@ -70,11 +88,22 @@ class MathEditor {
 		});
 
 		this.container.append(textarea);
+		this.container.append($(`<div class="data-math-editor-error"></div>`));
 		const toolbar = $(`<div class="data-math-editor-toolbar"></div>`);
 		if (tips)
 			toolbar.append(
 				$(`<div class="data-math-editor-toolbar-tips">${tips}</div>`),
 			);
+		const displayContainer = $(
+			`<label class="data-math-editor-toolbar-display"><input type="checkbox"${
+				display ? ' checked' : ''
+			} />${locales.display}</label>`,
+		);
+		displayContainer.find('input').on('change', (event: Event) => {
+			if (onDisplayChange)
+				onDisplayChange((event.target as HTMLInputElement).checked);
+		});
+		toolbar.append(displayContainer);
 		const buttonContainer = $(
 			`<div class="data-math-editor-toolbar-button"><a class="data-embed-toolbar-btn">${locales.ok}</div>`,
 		);
@@ -14,10 +14,15 @@ import { getLocales } from '../utils';
 import MathEditor from './editor';
 import './index.css';
 import { MathOptions } from '@/types';
+import { toStaticHTML } from '../static';
 
 export interface MathValue extends CardValue {
 	code: string;
 	url: string;
+	/**
+	 * 是否按块级公式渲染
+	 */
+	display?: boolean;
 }
 
 export default class MathCard<T extends MathValue = MathValue> extends Card<T> {
@@ -35,6 +40,8 @@ export default class MathCard<T extends MathValue = MathValue> extends Card<T> {
 		return false;
 	}
 
+	static toStaticHTML = toStaticHTML;
+
 	protected container?: NodeInterface;
 	protected editorContainer?: NodeInterface;
 	protected mathEditor?: MathEditor;
@@ -57,6 +64,11 @@ export default class MathCard<T extends MathValue = MathValue> extends Card<T> {
 				this.editorContainer?.removeClass('textarea-focus');
 			},
 			onChange: this.queryMath,
+			onDisplayChange: (display: boolean) => {
+				this.setValue({ display } as T);
+				this.renderDisplay(display);
+				this.renderMath(this.getValue()?.code || '');
+			},
 			onOk: (event: Event) => {
 				event.stopPropagation();
 				event.preventDefault();
@@ -85,6 +97,7 @@ export default class MathCard<T extends MathValue = MathValue> extends Card<T> {
 			code,
 			success,
 			failed,
+			!!this.getValue()?.display,
 		);
 	}
 
@@ -141,13 +154,15 @@ export default class MathCard<T extends MathValue = MathValue> extends Card<T> {
 					this.container?.empty();
 					this.container?.append(image);
 				};
+				this.mathEditor?.setError();
 				this.setValue({
 					url,
 					code,
 				} as T);
 				this.isSaving = false;
 			},
-			() => {
+			(message: string) => {
+				this.mathEditor?.setError(code ? message : undefined);
 				this.renderPureText(code);
 				this.setValue({
 					url: '',
@@ -182,15 +197,21 @@ export default class MathCard<T extends MathValue = MathValue> extends Card<T> {
 			?.css('max-width', Math.max(maxWidth, 0) + 'px');
 	};
 
+	renderDisplay(display: boolean) {
+		if (display) this.container?.addClass('data-math-display');
+		else this.container?.removeClass('data-math-display');
+	}
+
 	renderView() {
 		const editor = this.editor;
 		const value = this.getValue();
 		const locales = getLocales(editor);
-		const { url, code } = value || { url: '', code: '' };
+		const { url, code, display } = value || { url: '', code: '' };
 		if (!this.container) {
 			this.container = $('<span class="data-math-container"></span>');
 			this.getCenter().empty().append(this.container);
 		}
+		this.renderDisplay(!!display);
 		if (url) {
 			let image = this.container.find('img');
 			if (image.length === 0) {
@@ -227,7 +248,11 @@ export default class MathCard<T extends MathValue = MathValue> extends Card<T> {
 		if (!this.mathEditor) return;
 		const value = this.getValue();
 		if (!value || !value.id) return;
-		this.editorContainer = this.mathEditor.render(value.id, value.code);
+		this.editorContainer = this.mathEditor.render(
+			value.id,
+			value.code,
+			!!value.display,
+		);
 		if (this.container)
 			this.#position?.bind(this.editorContainer, this.container);
 	}
@@ -14,14 +14,29 @@ import {
 	AjaxInterface,
 	READY_CARD_KEY,
 	CARD_VALUE_KEY,
+	CARD_TYPE_KEY,
+	CardType,
+	Element,
+	MarkdownContext,
+	getCardName,
+	getCardValue,
+	RequestDataValue,
+	SlashItem,
 } from '@aomao/engine';
+import murmur3 from 'murmurhash-js';
 import MathComponent, { MathValue } from './component';
+import MathStatic from './static';
+import { getLocales } from './utils';
 import locales from './locales';
-import { MathOptions } from './types';
+import MathJaxRenderer from './renderer';
+import { MathOptions, MathRenderer, MathRenderOptions } from './types';
 
 const PARSE_HTML = 'parse:html';
 const PASTE_SCHEMA = 'paste:schema';
 const PASTE_EACH = 'paste:each';
+const PARSE_MARKDOWN = 'parse:markdown';
+// 最多缓存的公式渲染结果数量
+const MAX_CACHE_SIZE = 500;
 
 export default class Math<
 	T extends MathOptions = MathOptions,
@@ -33,6 +48,15 @@ export default class Math<
 	 * 不同卡片的当前请求
 	 */
 	#request: Record<string, AjaxInterface> = {};
+	/**
+	 * 不同卡片当前的渲染，只使用最后一次渲染的结果
+	 */
+	#rendering: Record<string, number> = {};
+	/**
+	 * 公式渲染结果缓存，以公式代码和渲染模式的哈希作为键
+	 */
+	#cache = new Map<number, string>();
+	#renderer?: MathRenderer;
 
 	init() {
 		const editor = this.editor;
@@ -40,6 +64,26 @@ export default class Math<
 		editor.on(PARSE_HTML, this.parseHtml);
 		editor.on(PASTE_EACH, this.pasteHtml);
 		editor.on(PASTE_SCHEMA, this.pasteSchema);
+		if (isEngine(editor)) {
+			editor.on(PARSE_MARKDOWN, this.parseMarkdown);
+		}
+	}
+
+	slash(): Array<SlashItem> {
+		return [
+			{
+				name: 'math',
+				title: this.editor.language.get<string>('math', 'title'),
+				keywords: [
+					'math',
+					'formula',
+					'latex',
+					'gongshi',
+					'公式',
+					'数学公式',
+				],
+			},
+		];
 	}
 
 	execute(...args: any): void {
@@ -49,6 +93,7 @@ export default class Math<
 			{
 				code: args[0] || '',
 				url: args[1] || '',
+				display: !!args[2],
 			},
 		);
 		card.activate(cardComponent.root);
@@ -60,8 +105,8 @@ export default class Math<
 	action(action: string, ...args: any) {
 		switch (action) {
 			case 'query':
-				const [key, code, success, failed] = args;
-				return this.query(key, code, success, failed);
+				const [key, code, success, failed, display] = args;
+				return this.query(key, code, success, failed, display);
 		}
 	}
 
@@ -70,13 +115,67 @@ export default class Math<
 		code: string,
 		success: (url: string) => void,
 		failed: (message: string) => void,
+		display: boolean = false,
+	) {
+		const { renderer, action } = this.options;
+		this.#request[key]?.abort();
+		const rendering = (this.#rendering[key] ?? 0) + 1;
+		this.#rendering[key] = rendering;
+		if (!code.trim()) return failed(getLocales(this.editor).getError);
+		const hash = murmur3(`${display ? 'display' : 'inline'}:${code}`, 42);
+		const cached = this.#cache.get(hash);
+		if (cached) return success(cached);
+		const done = (url: string) => {
+			this.#cache.delete(hash);
+			this.#cache.set(hash, url);
+			if (this.#cache.size > MAX_CACHE_SIZE)
+				this.#cache.delete(this.#cache.keys().next().value);
+			success(url);
+		};
+		if (!renderer && action) {
+			return this.request(key, code, done, failed, display);
+		}
+		if (!renderer && !this.#renderer)
+			this.#renderer = new MathJaxRenderer();
+		this.render(renderer ?? this.#renderer!, code, { display })
+			.then((data) => {
+				if (this.#rendering[key] === rendering) done(this.toUrl(data));
+			})
+			.catch((error: Error) => {
+				if (this.#rendering[key] === rendering)
+					failed(error?.message || getLocales(this.editor).getError);
+			});
+	}
+
+	/**
+	 * 使用渲染器在客户端渲染公式
+	 */
+	async render(
+		renderer: MathRenderer,
+		code: string,
+		options: MathRenderOptions,
+	) {
+		return renderer.render(code, options);
+	}
+
+	/**
+	 * 请求 action 地址生成公式
+	 */
+	request(
+		key: string,
+		code: string,
+		success: (url: string) => void,
+		failed: (message: string) => void,
+		display: boolean = false,
 	) {
 		const { request, language } = this.editor;
 		const { action, type, contentType, parse, headers } = this.options;
 		const data = this.options.data;
-		this.#request[key]?.abort();
+		const content: Record<string, RequestDataValue> = { content: code };
+		// 块级公式额外携带 display 参数
+		if (display) content.display = true;
 		this.#request[key] = request.ajax({
-			url: action,
+			url: action!,
 			method: 'POST',
 			contentType: contentType || 'application/json',
 			type: type === undefined ? 'json' : type,
@@ -85,11 +184,11 @@ export default class Math<
 				typeof data === 'function'
 					? async () => {
 							const newData = await data();
-							return { ...newData, content: code };
+							return { ...newData, ...content };
 					  }
 					: {
 							...data,
-							content: code,
+							...content,
 					  },
 			success: (response) => {
 				const url =
@@ -101,21 +200,7 @@ export default class Math<
 					? { result: true, data: url }
 					: { result: false };
 				if (result.result) {
-					const isUrl =
-						result.data.indexOf('http') === 0 ||
-						result.data.indexOf('/') === 0;
-					let url = result.data;
-					if (!isUrl) {
-						url = this.exConvertToPx(result.data);
-						url =
-							(url.indexOf('data:') < 0
-								? 'data:image/svg+xml,'
-								: '') +
-							encodeURIComponent(url)
-								.replace(/'/g, '%27')
-								.replace(/"/g, '%22');
-					}
-					success(url);
+					success(this.toUrl(result.data));
 				} else {
 					failed(result.data);
 				}
@@ -126,6 +211,19 @@ export default class Math<
 		});
 	}
 
+	/**
+	 * 把 SVG 代码转换为图片地址，图片地址原样返回
+	 */
+	toUrl(data: string) {
+		const isUrl = data.indexOf('http') === 0 || data.indexOf('/') === 0;
+		if (isUrl) return data;
+		const url = this.exConvertToPx(data);
+		return (
+			(url.indexOf('data:') < 0 ? 'data:image/svg+xml,' : '') +
+			encodeURIComponent(url).replace(/'/g, '%27').replace(/"/g, '%22')
+		);
+	}
+
 	exConvertToPx(svg: string) {
 		const regWidth = /width="([\d\.]+ex)"/;
 		const widthMaths = regWidth.exec(svg);
@@ -289,13 +387,35 @@ export default class Math<
 		return results;
 	};
 
+	parseMarkdown = (
+		node: Element,
+		_context: MarkdownContext,
+		callback: (markdown: string) => void,
+	) => {
+		if (getCardName(node) !== MathComponent.cardName) return;
+		const { code, display } = getCardValue<MathValue>(node);
+		if (!code) {
+			callback('');
+		} else if (display || node[CARD_TYPE_KEY] === CardType.BLOCK) {
+			callback(`$$\n${code.trim()}\n$$`);
+		} else {
+			callback(`$${code.trim()}$`);
+		}
+		return false;
+	};
+
 	destroy() {
 		const editor = this.editor;
 		editor.off(PARSE_HTML, this.parseHtml);
 		editor.off(PASTE_EACH, this.pasteHtml);
 		editor.off(PASTE_SCHEMA, this.pasteSchema);
+		editor.off(PARSE_MARKDOWN, this.parseMarkdown);
+		Object.values(this.#request).forEach((request) => request.abort());
+		this.#request = {};
+		this.#rendering = {};
+		this.#cache.clear();
 	}
 }
 
-export { MathComponent };
-export type { MathValue, MathOptions };
+export { MathComponent, MathJaxRenderer, MathStatic };
+export type { MathValue, MathOptions, MathRenderer, MathRenderOptions };
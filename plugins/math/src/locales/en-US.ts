@@ -2,9 +2,11 @@ import { isMacos } from '@aomao/engine';
 
 export default {
 	math: {
+		title: 'Formula',
 		errorMessageCopy: 'Copy error message',
 		getError: 'Failed to get svg code',
 		placeholder: 'Add Tex formula',
+		display: 'Display mode',
 		ok: 'Ok',
 		buttonTips: `${isMacos ? '⌘' : 'Ctrl'} + Enter`,
 		tips: {
@@ -2,9 +2,11 @@ import { isMacos } from '@aomao/engine';
 
 export default {
 	math: {
+		title: '公式',
 		errorMessageCopy: '复制错误信息',
 		getError: '获取svg代码失败',
 		placeholder: '添加 Tex 公式',
+		display: '块级公式',
 		ok: '确定',
 		buttonTips: `${isMacos ? '⌘' : 'Ctrl'} + Enter`,
 		tips: {
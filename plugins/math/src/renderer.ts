@@ -0,0 +1,65 @@
+import type { mathjax } from 'mathjax-full/js/mathjax';
+import type { LiteAdaptor } from 'mathjax-full/js/adaptors/liteAdaptor';
+import { MathRenderer, MathRenderOptions } from './types';
+
+type MathDocument = ReturnType<typeof mathjax.document>;
+
+/**
+ * 内置的 MathJax 渲染器，在客户端把 TeX 公式渲染为 SVG 代码
+ */
+export class MathJaxRenderer implements MathRenderer {
+	#adaptor?: LiteAdaptor;
+	#document?: Promise<MathDocument>;
+
+	/**
+	 * 第一次渲染时才加载 MathJax 并创建文档，没有用到公式时不会加载 MathJax
+	 */
+	protected getDocument() {
+		if (!this.#document) {
+			this.#document = Promise.all([
+				import('mathjax-full/js/mathjax'),
+				import('mathjax-full/js/input/tex'),
+				import('mathjax-full/js/output/svg'),
+				import('mathjax-full/js/adaptors/liteAdaptor'),
+				import('mathjax-full/js/handlers/html'),
+				import('mathjax-full/js/input/tex/AllPackages'),
+			]).then(
+				([
+					{ mathjax },
+					{ TeX },
+					{ SVG },
+					{ liteAdaptor },
+					{ RegisterHTMLHandler },
+					{ AllPackages },
+				]) => {
+					this.#adaptor = liteAdaptor();
+					RegisterHTMLHandler(this.#adaptor);
+					return mathjax.document('', {
+						InputJax: new TeX({
+							// 不使用 noundefined，未定义的命令作为错误提示出来
+							packages: AllPackages.filter(
+								(name) => name !== 'noundefined',
+							),
+							// 默认会把错误渲染到公式中，这里抛出，交给公式编辑器显示
+							formatError: (_: unknown, error: Error) => {
+								throw error;
+							},
+						}),
+						OutputJax: new SVG({ fontCache: 'none' }),
+					});
+				},
+			);
+			// 加载失败后下次重新加载
+			this.#document.catch(() => (this.#document = undefined));
+		}
+		return this.#document;
+	}
+
+	async render(code: string, { display }: MathRenderOptions) {
+		const document = await this.getDocument();
+		const node = document.convert(code, { display });
+		return this.#adaptor!.innerHTML(node);
+	}
+}
+
+export default MathJaxRenderer;
@@ -0,0 +1,23 @@
+import { CardStaticEntry, escape, sanitizeUrl } from '@aomao/engine';
+import type { MathValue } from './component';
+
+/**
+ * 静态渲染为公式图片，没有图片地址时输出公式代码
+ */
+export const toStaticHTML = (value: MathValue) => {
+	const { code, url } = value;
+	if (!url) return code ? `<code>${escape(code)}</code>` : '';
+	return `<span><img src="${escape(sanitizeUrl(url))}" alt="${escape(
+		code || '',
+	)}" style="visibility:visible;vertical-align:middle;" /></span>`;
+};
+
+/**
+ * 公式卡片的静态渲染器，不依赖组件和 DOM，服务端可以通过 @aomao/plugin-math/dist/static 单独引入
+ */
+const MathStatic: CardStaticEntry<MathValue> = {
+	cardName: 'math',
+	toStaticHTML,
+};
+
+export default MathStatic;
@@ -7,11 +7,37 @@ import {
 	ToolbarItemOptions,
 } from '@aomao/engine';
 
+/**
+ * 公式渲染选项
+ */
+export type MathRenderOptions = {
+	/**
+	 * 是否按块级公式（display 模式）渲染，否则按行内公式渲染
+	 */
+	display: boolean;
+};
+
+/**
+ * 公式渲染器，在客户端把公式代码渲染为 SVG 代码或者图片地址
+ */
+export interface MathRenderer {
+	/**
+	 * 渲染公式，公式有错误时抛出错误，错误信息会显示在公式编辑器中
+	 * @param code 公式代码
+	 * @param options 渲染选项
+	 */
+	render(code: string, options: MathRenderOptions): string | Promise<string>;
+}
+
 export interface MathOptions extends PluginOptions {
+	/**
+	 * 公式渲染器，设置后不再请求 action。renderer 和 action 都没有设置时使用内置的 MathJax 渲染器
+	 */
+	renderer?: MathRenderer;
 	/**
 	 * 请求生成公式svg地址
 	 */
-	action: string;
+	action?: string;
 	/**
 	 * 数据返回类型，默认 json
 	 */
@@ -0,0 +1,6 @@
+export default {
+	esm: 'rollup',
+	cjs: 'rollup',
+	entry: ['src/index.ts', 'src/static.ts'],
+	runtimeHelpers: true,
+};
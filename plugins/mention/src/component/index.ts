@@ -21,6 +21,7 @@ import CollapseComponent, { CollapseComponentInterface } from './collapse';
 import { MentionItem } from '../types';
 import './index.css';
 import { MentionOptions } from '../types';
+import { toStaticHTML } from '../static';
 export interface MentionValue extends CardValue {
 	key?: string;
 	name?: string;
@@ -54,6 +55,8 @@ class Mention<T extends MentionValue = MentionValue> extends Card<T> {
 		return SelectStyleType.NONE;
 	}
 
+	static toStaticHTML = toStaticHTML;
+
 	getMaxWidth = () => {
 		const block = this.editor.block.closest(this.root);
 		return block.get<Element>()!.clientWidth - 4;
@@ -15,6 +15,7 @@ import {
 	Node,
 } from '@aomao/engine';
 import MentionComponent, { MentionValue } from './component';
+import MentionStatic from './static';
 import locales from './locales';
 import { MentionOptions } from './types';
 
@@ -219,6 +220,6 @@ class MentionPlugin<
 		}
 	}
 }
-export { MentionComponent };
+export { MentionComponent, MentionStatic };
 export type { MentionValue, MentionOptions };
 export default MentionPlugin;
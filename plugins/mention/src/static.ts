@@ -0,0 +1,25 @@
+import { CardStaticEntry, escape } from '@aomao/engine';
+import type { MentionValue } from './component';
+
+/**
+ * 静态渲染，标记由内向外包裹内容
+ */
+export const toStaticHTML = (value: MentionValue) => {
+	const { id, name, marks = [] } = value;
+	if (!id || !name) return '';
+	const html = marks.reduce(
+		(html, mark) => mark.replace(/(<\/[^>]+>)$/, `${html}$1`),
+		`@${escape(name)}`,
+	);
+	return `<span style="color:#1890ff">${html}</span>`;
+};
+
+/**
+ * 提及卡片的静态渲染器，不依赖组件和 DOM，服务端可以通过 @aomao/plugin-mention/dist/static 单独引入
+ */
+const MentionStatic: CardStaticEntry<MentionValue> = {
+	cardName: 'mention',
+	toStaticHTML,
+};
+
+export default MentionStatic;
@@ -1,4 +1,13 @@
-import { Plugin, isEngine, NodeInterface } from '@aomao/engine';
+import {
+	Plugin,
+	isEngine,
+	NodeInterface,
+	Element,
+	MarkdownContext,
+	getCardName,
+	getCardValue,
+	getMarkdownFence,
+} from '@aomao/engine';
 import type MarkdownIt from 'markdown-it';
 import MermaidComponent from './component';
 import type { MermaidValue } from './component';
@@ -9,6 +18,7 @@ import mermaidMk from './component/markdown';
 // const PASTE_SCHEMA = 'paste:schema';
 const PASTE_EACH = 'paste:each';
 const MARKDOWN_IT = 'markdown-it';
+const PARSE_MARKDOWN = 'parse:markdown';
 
 export interface MermaidOptions {
 	hotkey?: any;
@@ -28,6 +38,7 @@ export default class extends Plugin<MermaidOptions> {
 		if (isEngine(editor)) {
 			editor.on(MARKDOWN_IT, this.markdownIt);
 			editor.on(PASTE_EACH, this.pasteHtml);
+			editor.on(PARSE_MARKDOWN, this.parseMarkdown);
 		}
 	}
 
@@ -78,11 +89,24 @@ export default class extends Plugin<MermaidOptions> {
 		}
 	};
 
+	parseMarkdown = (
+		node: Element,
+		_context: MarkdownContext,
+		callback: (markdown: string) => void,
+	) => {
+		if (getCardName(node) !== MermaidComponent.cardName) return;
+		const { code = '' } = getCardValue<MermaidValue>(node);
+		const fence = getMarkdownFence(code);
+		callback(`${fence}mermaid\n${code}\n${fence}`);
+		return false;
+	};
+
 	destroy() {
 		const editor = this.editor;
 		if (isEngine(editor)) {
 			editor.off(MARKDOWN_IT, this.markdownIt);
 			editor.off(PASTE_EACH, this.pasteHtml);
+			editor.off(PARSE_MARKDOWN, this.parseMarkdown);
 		}
 	}
 }
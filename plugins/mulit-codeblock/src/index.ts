@@ -8,6 +8,7 @@ import {
 	PluginOptions,
 	decodeCardValue,
 	READY_CARD_KEY,
+	SlashItem,
 } from '@aomao/engine';
 import locales from './locale';
 import type MarkdownIt from 'markdown-it';
@@ -38,6 +39,25 @@ export default class extends Plugin<MulitCodeblockOptions> {
 		editor.on('markdown-it', this.markdownIt);
 	}
 
+	slash(): Array<SlashItem> {
+		return [
+			{
+				name: 'mulit_codeblock',
+				title: this.editor.language.get<string>(
+					'mulitCodeblock',
+					'title',
+				),
+				keywords: [
+					'codeblock',
+					'code',
+					'daimakuai',
+					'代码块',
+					'多功能代码块',
+				],
+			},
+		];
+	}
+
 	execute() {
 		const { editor, options } = this;
 
@@ -1,6 +1,7 @@
 export default {
 	'en-US': {
 		mulitCodeblock: {
+			title: 'Multi codeblock',
 			add: 'Add',
 			copysuccess: 'Copy success!',
 			copyfail: 'Copy failed!',
@@ -10,6 +11,7 @@ export default {
 	},
 	'zh-CN': {
 		mulitCodeblock: {
+			title: '多功能代码块',
 			add: '添加',
 			copysuccess: '复制成功！',
 			copyfail: '复制失败，请重试！',
@@ -12,6 +12,7 @@ import {
 } from '@aomao/engine';
 import StatusEditor from './editor';
 import './index.css';
+import { toStaticHTML } from '../static';
 
 export interface StatusValue extends CardValue {
 	text: string;
@@ -37,6 +38,8 @@ class Status<T extends StatusValue = StatusValue> extends Card<T> {
 		return SelectStyleType.NONE;
 	}
 
+	static toStaticHTML = toStaticHTML;
+
 	defaultColors: Array<{
 		background: string;
 		color: string;
@@ -10,8 +10,10 @@ import {
 	decodeCardValue,
 	CARD_VALUE_KEY,
 	READY_CARD_KEY,
+	SlashItem,
 } from '@aomao/engine';
 import StatusComponent, { StatusValue } from './components';
+import StatusStatic from './static';
 import locales from './locales';
 import { StatusOptions } from './types';
 
@@ -34,6 +36,16 @@ export default class<
 		editor.on(PASTE_SCHEMA, this.pasteSchema);
 	}
 
+	slash(): Array<SlashItem> {
+		return [
+			{
+				name: 'status',
+				title: this.editor.language.get<string>('status', 'title'),
+				keywords: ['status', 'label', 'zhuangtai', '状态'],
+			},
+		];
+	}
+
 	execute() {
 		const editor = this.editor;
 		if (!isEngine(editor)) return;
@@ -142,5 +154,5 @@ export default class<
 		editor.off(PASTE_SCHEMA, this.pasteSchema);
 	}
 }
-export { StatusComponent };
+export { StatusComponent, StatusStatic };
 export type { StatusValue };
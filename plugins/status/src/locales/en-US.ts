@@ -1,5 +1,6 @@
 export default {
 	status: {
+		title: 'Status',
 		defaultValue: 'SET A STATUS',
 	},
 };
@@ -1,5 +1,6 @@
 export default {
 	status: {
+		title: '状态',
 		defaultValue: '设置状态',
 	},
 };
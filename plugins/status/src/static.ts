@@ -0,0 +1,25 @@
+import { CardStaticEntry, escape } from '@aomao/engine';
+import type { StatusValue } from './components';
+
+/**
+ * 静态渲染，颜色来自值里面保存的背景色和字体颜色标记
+ */
+export const toStaticHTML = (value: StatusValue) => {
+	const { text, marks = [] } = value;
+	if (!text) return '';
+	const html = marks.reduce(
+		(html, mark) => mark.replace(/(<\/[^>]+>)$/, `${html}$1`),
+		escape(text),
+	);
+	return `<span style="font-weight:400;overflow:hidden;max-width:200px;white-space:nowrap;border-radius:4px;border:2px solid transparent;padding:0 3px;text-overflow:ellipsis;">${html}</span>`;
+};
+
+/**
+ * 状态卡片的静态渲染器，不依赖组件和 DOM，服务端可以通过 @aomao/plugin-status/dist/static 单独引入
+ */
+const StatusStatic: CardStaticEntry<StatusValue> = {
+	cardName: 'status',
+	toStaticHTML,
+};
+
+export default StatusStatic;
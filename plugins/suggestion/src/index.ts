@@ -0,0 +1,64 @@
+import { isEngine, Plugin, PluginOptions } from '@aomao/engine';
+
+export interface SuggestionOptions extends PluginOptions {
+	hotkey?: string | Array<string>;
+	// 建议的作者，开启建议模式时没有传入作者时使用
+	author?: string;
+}
+export default class<
+	T extends SuggestionOptions = SuggestionOptions,
+> extends Plugin<T> {
+	static get pluginName() {
+		return 'suggestion';
+	}
+
+	execute(
+		action:
+			| 'enable'
+			| 'disable'
+			| 'toggle'
+			| 'accept'
+			| 'reject'
+			| 'accept-all'
+			| 'reject-all' = 'toggle',
+		value?: string,
+	) {
+		const editor = this.editor;
+		if (!isEngine(editor) || editor.readonly) return;
+		const { suggestion } = editor;
+		switch (action) {
+			case 'enable':
+				suggestion.enable(value ?? this.options.author ?? '');
+				break;
+			case 'disable':
+				suggestion.disable();
+				break;
+			case 'toggle':
+				if (suggestion.enabled) suggestion.disable();
+				else suggestion.enable(value ?? this.options.author ?? '');
+				break;
+			case 'accept':
+				if (value) suggestion.accept(value);
+				break;
+			case 'reject':
+				if (value) suggestion.reject(value);
+				break;
+			case 'accept-all':
+				suggestion.acceptAll();
+				break;
+			case 'reject-all':
+				suggestion.rejectAll();
+				break;
+		}
+	}
+
+	queryState() {
+		const editor = this.editor;
+		if (!isEngine(editor)) return;
+		return editor.suggestion.enabled;
+	}
+
+	hotkey() {
+		return this.options.hotkey || '';
+	}
+}
@@ -5,6 +5,8 @@ import {
 	isEngine,
 	MarkPlugin,
 	PluginOptions,
+	Element,
+	MarkdownContext,
 } from '@aomao/engine';
 import type MarkdownIt from 'markdown-it';
 import mdSup from 'markdown-it-sup';
@@ -68,6 +70,14 @@ export default class<T extends SupOptions = SupOptions> extends MarkPlugin<T> {
 		}
 	};
 
+	toMarkdown(node: Element, context: MarkdownContext) {
+		if (this.options.markdown === false) return;
+		const text = context.children(node);
+		// 包含空白字符时语法无法识别，使用默认的 html 方式保留
+		if (!text || /\s/.test(text)) return;
+		return `^${text}^`;
+	}
+
 	destroy(): void {
 		this.editor.off(MARKDOWN_IT, this.markdownIt);
 	}
@@ -1,16 +1,38 @@
 import {
 	$,
 	ClipboardData,
+	DATA_ELEMENT,
 	DATA_ID,
 	DATA_TRANSIENT_ATTRIBUTES,
 	EditorInterface,
 	isEngine,
 	NodeInterface,
 	Parser,
+	UI,
 } from '@aomao/engine';
 import { EventEmitter2 } from 'eventemitter2';
-import { TableCommandInterface, TableInterface } from '../types';
+import {
+	TableCommandInterface,
+	TableInterface,
+	TableModelCol,
+	TableOptions,
+	TableSortOrder,
+	TableTextDelimiter,
+} from '../types';
 import Template from './template';
+import { getSortParser } from './helper';
+import { parseDelimitedText, stringifyDelimitedText, toTableHtml } from './csv';
+
+const FILTER_ATTRIBUTE = 'data-table-filter';
+const FREEZE_ATTRIBUTE = 'data-table-freeze';
+// 冻结的行向下平移的距离，设置在 wrapper 上
+const FREEZE_TOP = '--table-freeze-top';
+let styleId = 0;
+
+const collator = new Intl.Collator(undefined, {
+	numeric: true,
+	sensitivity: 'base',
+});
 
 class TableCommand extends EventEmitter2 implements TableCommandInterface {
 	private editor: EditorInterface;
@@ -18,6 +40,18 @@ class TableCommand extends EventEmitter2 implements TableCommandInterface {
 	private tableCleared: boolean = false;
 	private rowCleared: boolean = false;
 	private colCleared: boolean = false;
+	/**
+	 * 每一列的筛选关键字
+	 */
+	#filters = new Map<number, string>();
+	#filterStyle?: NodeInterface;
+	/**
+	 * 冻结的行数和列数，和卡片值中的 freezeRows、freezeCols 保持一致
+	 */
+	#freeze = { rows: 0, cols: 0 };
+	#freezeStyle?: NodeInterface;
+	// 限定筛选、冻结样式的作用范围
+	#styleId = `${++styleId}`;
 	tableRoot?: NodeInterface;
 	colsHeader?: NodeInterface;
 	rowsHeader?: NodeInterface;
@@ -689,6 +723,48 @@ class TableCommand extends EventEmitter2 implements TableCommandInterface {
 		this.emit('actioned', 'paste', ...args);
 	}
 
+	importText(text: string, delimiter?: TableTextDelimiter, ...args: any) {
+		const rows = parseDelimitedText(text, delimiter);
+		if (rows.length === 0) return false;
+		// 粘贴到已有的表格中不处理表头
+		this.paste(
+			{ html: toTableHtml(rows, false), text, files: [] },
+			...args,
+		);
+		return true;
+	}
+
+	getText(delimiter: TableTextDelimiter = ',') {
+		const { selection } = this.table;
+		// 只有一个单元格时导出整个表格
+		const rows = selection.getSelectionRows(
+			selection.getSelectArea().count <= 1,
+		);
+		if (!rows) return;
+		return stringifyDelimitedText(rows, delimiter);
+	}
+
+	copyText() {
+		const text = this.getText('\t');
+		if (text === undefined) return false;
+		return this.editor.clipboard.copy(text);
+	}
+
+	downloadCSV(name: string = 'table.csv') {
+		const text = this.getText(',');
+		if (text === undefined) return false;
+		// 带上 BOM，Excel 才能识别为 UTF-8
+		const url = URL.createObjectURL(
+			new Blob([`\ufeff${text}`], { type: 'text/csv;charset=utf-8' }),
+		);
+		const link = document.createElement('a');
+		link.href = url;
+		link.download = name;
+		link.click();
+		setTimeout(() => URL.revokeObjectURL(url), 0);
+		return true;
+	}
+
 	mergeCell(...args: any) {
 		const { selection, helper } = this.table;
 		const { selectArea, tableModel } = selection;
@@ -772,6 +848,393 @@ class TableCommand extends EventEmitter2 implements TableCommandInterface {
 
 		this.emit('actioned', 'splitCell', ...args);
 	}
+
+	/**
+	 * 获取单元格的文本，被合并的位置取合并单元格的文本
+	 */
+	private getCellText(row: number, col: number) {
+		const { selection, helper } = this.table;
+		const table = selection.tableModel?.table;
+		let cell = table?.[row]?.[col];
+		if (cell && helper.isEmptyModelCol(cell))
+			cell = table?.[cell.parent.row]?.[cell.parent.col];
+		if (!cell || helper.isEmptyModelCol(cell) || !cell.element) return '';
+		return helper.getCellText(cell.element);
+	}
+
+	/**
+	 * 判断表头的行数。第一行的内容全部加粗，或者第一行是文本而下面都是数字、日期时，第一行作为表头
+	 */
+	private getHeaderRows(col: number) {
+		const { selection, helper } = this.table;
+		const { tableModel } = selection;
+		if (!tableModel || tableModel.rows < 2) return 0;
+		// 冻结的行作为表头
+		const { rows } = this.getFreeze();
+		if (rows > 0) return rows;
+		const cells = tableModel.table[0].filter(
+			(cell) => !helper.isEmptyModelCol(cell) && !!cell.element,
+		);
+		const isBold =
+			cells.length > 0 &&
+			cells.every((cell) => {
+				const element = (cell as TableModelCol).element!;
+				const text = helper.getCellText(element);
+				const bold = Array.from(element.querySelectorAll('strong,b'))
+					.map((node) => node.textContent || '')
+					.join('')
+					.replace(/\u200b/g, '')
+					.trim();
+				return !!text && bold === text.replace(/\n/g, '');
+			});
+		if (isBold) return 1;
+		const first = this.getCellText(0, col);
+		const values: Array<string> = [];
+		for (let r = 1; r < tableModel.rows; r++) {
+			values.push(this.getCellText(r, col));
+		}
+		const parser = getSortParser(values);
+		return !!first && !!parser && parser(first) === undefined ? 1 : 0;
+	}
+
+	getSortArea(col: number = this.table.selection.getSelectArea().begin.col) {
+		const { selection, helper } = this.table;
+		const { tableModel, selectArea } = selection;
+		if (!tableModel) return;
+		let begin = this.getHeaderRows(col);
+		let end = tableModel.rows - 1;
+		// 选中了多行时只排序选中的行
+		if (
+			selectArea &&
+			!selectArea.allRow &&
+			selectArea.end.row > selectArea.begin.row
+		) {
+			begin = selectArea.begin.row;
+			end = selectArea.end.row;
+		}
+		if (end <= begin) return;
+		for (let r = begin; r <= end; r++) {
+			// 跨行合并的单元格移动后无法保持合并，不能排序
+			const hasRowSpan = tableModel.table[r].some((cell) =>
+				helper.isEmptyModelCol(cell)
+					? cell.parent.row !== r
+					: cell.rowSpan > 1,
+			);
+			if (hasRowSpan) return;
+		}
+		return { begin, end };
+	}
+
+	sort(
+		col: number,
+		order: TableSortOrder = 'asc',
+		area = this.getSortArea(col),
+		...args: any
+	) {
+		const tableElement = this.tableRoot?.get<HTMLTableElement>();
+		if (!area || !tableElement) return false;
+		const rows: Array<{ element: HTMLTableRowElement; text: string }> = [];
+		for (let r = area.begin; r <= area.end; r++) {
+			const element = tableElement.rows[r];
+			if (!element) return false;
+			rows.push({ element, text: this.getCellText(r, col) });
+		}
+		const parent = rows[0].element.parentNode;
+		if (rows.some(({ element }) => element.parentNode !== parent))
+			return false;
+		const parser = getSortParser(rows.map(({ text }) => text));
+		const sorted = rows.slice().sort((a, b) => {
+			if (!a.text || !b.text) return (a.text ? 0 : 1) - (b.text ? 0 : 1);
+			const result = parser
+				? parser(a.text)! - parser(b.text)!
+				: collator.compare(a.text, b.text);
+			return order === 'desc' ? -result : result;
+		});
+		if (sorted.every((row, index) => row === rows[index])) return false;
+		// 按排序后的顺序依次移动到原来的最后一行之后，移动行会生成操作，可以撤销
+		const move = () => {
+			const next = rows[rows.length - 1].element.nextSibling;
+			sorted.forEach(({ element }) =>
+				parent!.insertBefore(element, next),
+			);
+			this.emit('actioned', 'sort', ...args);
+		};
+		const editor = this.editor;
+		// 移动每一行的操作合并为一条历史记录
+		if (isEngine(editor))
+			editor.history.transact(move, {
+				label: editor.language.get<string>(
+					'table',
+					order === 'desc' ? 'sortDesc' : 'sortAsc',
+				),
+			});
+		else move();
+		return true;
+	}
+
+	sortAsc() {
+		const { begin } = this.table.selection.getSelectArea();
+		this.sort(begin.col, 'asc');
+	}
+
+	sortDesc() {
+		const { begin } = this.table.selection.getSelectArea();
+		this.sort(begin.col, 'desc');
+	}
+
+	filter(
+		keyword: string = '',
+		col: number = this.table.selection.getSelectArea().begin.col,
+	) {
+		keyword = keyword.trim();
+		if (keyword) this.#filters.set(col, keyword);
+		else this.#filters.delete(col);
+		this.refreshFilter();
+	}
+
+	getFilter(col: number) {
+		return this.#filters.get(col);
+	}
+
+	hasFilter() {
+		return this.#filters.size > 0;
+	}
+
+	clearFilter() {
+		this.#filters.clear();
+		this.refreshFilter();
+	}
+
+	/**
+	 * 隐藏的行通过 UI 节点中的样式控制，不修改表格节点，不会产生操作
+	 */
+	refreshFilter() {
+		const { wrapper, selection } = this.table;
+		const { tableModel } = selection;
+		if (!wrapper) return;
+		const hidden: Array<number> = [];
+		if (tableModel && this.#filters.size > 0) {
+			const filters = Array.from(this.#filters)
+				.filter(([col]) => col < tableModel.cols)
+				.map(([col, keyword]) => ({
+					col,
+					keyword: keyword.toLowerCase(),
+					headerRows: this.getHeaderRows(col),
+				}));
+			for (let r = 0; r < tableModel.rows; r++) {
+				const matched = filters.every(
+					({ col, keyword, headerRows }) =>
+						r < headerRows ||
+						this.getCellText(r, col)
+							.toLowerCase()
+							.includes(keyword),
+				);
+				if (!matched) hidden.push(r);
+			}
+		}
+		wrapper.find(Template.COLS_HEADER_ITEM_CLASS).each((item, index) => {
+			if (this.#filters.has(index))
+				$(item).addClass('table-cols-header-item-filtered');
+			else $(item).removeClass('table-cols-header-item-filtered');
+		});
+		wrapper.find(Template.ROWS_HEADER_ITEM_CLASS).each((item, index) => {
+			if (hidden.includes(index))
+				$(item).addClass('table-rows-header-item-hidden');
+			else $(item).removeClass('table-rows-header-item-hidden');
+		});
+		if (hidden.length === 0) {
+			this.#filterStyle?.remove();
+			this.#filterStyle = undefined;
+			wrapper.removeAttributes(FILTER_ATTRIBUTE);
+			return;
+		}
+		if (!this.#filterStyle || !wrapper.contains(this.#filterStyle)) {
+			this.#filterStyle = $(`<style ${DATA_ELEMENT}="${UI}"></style>`);
+			wrapper.append(this.#filterStyle);
+		}
+		wrapper.attributes(FILTER_ATTRIBUTE, this.#styleId);
+		this.#filterStyle.text(
+			`${hidden
+				.map(
+					(row) =>
+						`[${FILTER_ATTRIBUTE}="${this.#styleId}"] ${
+							Template.TABLE_CLASS
+						} tr:nth-child(${row + 1})`,
+				)
+				.join(',')}{display:none}`,
+		);
+	}
+
+	freeze(rows: number, cols: number, ...args: any) {
+		const { tableModel } = this.table.selection;
+		if (!tableModel) return;
+		this.#freeze = {
+			rows: Math.max(0, Math.min(rows, tableModel.rows)),
+			cols: Math.max(0, Math.min(cols, tableModel.cols)),
+		};
+		this.table.setValue({
+			freezeRows: this.#freeze.rows,
+			freezeCols: this.#freeze.cols,
+		});
+		this.refreshFreeze();
+		this.emit('actioned', 'freeze', ...args);
+	}
+
+	freezeRows(
+		count: number = this.table.selection.getSelectArea().end.row + 1,
+		...args: any
+	) {
+		this.freeze(count, this.#freeze.cols, ...args);
+	}
+
+	freezeCols(
+		count: number = this.table.selection.getSelectArea().end.col + 1,
+		...args: any
+	) {
+		this.freeze(this.#freeze.rows, count, ...args);
+	}
+
+	unfreeze(...args: any) {
+		this.freeze(0, 0, ...args);
+	}
+
+	getFreeze() {
+		const { tableModel } = this.table.selection;
+		if (!tableModel) return { rows: 0, cols: 0 };
+		// 删除行列后冻结的数量可能超出表格
+		return {
+			rows: Math.min(this.#freeze.rows, tableModel.rows),
+			cols: Math.min(this.#freeze.cols, tableModel.cols),
+		};
+	}
+
+	refreshFreeze(freeze?: { rows?: number; cols?: number }) {
+		if (freeze)
+			this.#freeze = { rows: freeze.rows ?? 0, cols: freeze.cols ?? 0 };
+		const { wrapper, selection, helper } = this.table;
+		const { tableModel } = selection;
+		if (!wrapper) return;
+		const { rows, cols } = this.getFreeze();
+		if (!tableModel || (rows === 0 && cols === 0)) {
+			this.#freezeStyle?.remove();
+			this.#freezeStyle = undefined;
+			wrapper.removeAttributes(FREEZE_ATTRIBUTE);
+			wrapper.get<HTMLElement>()?.style.removeProperty(FREEZE_TOP);
+			return;
+		}
+		// 冻结的列相对第一列的位置，取每一列第一个没有跨列的单元格
+		const lefts: Array<number> = [];
+		let base: number | undefined = undefined;
+		for (let c = 0; c < cols; c++) {
+			const cell = tableModel.table.find((cells) => {
+				const cell = cells[c];
+				return (
+					!helper.isEmptyModelCol(cell) &&
+					cell.colSpan === 1 &&
+					!!cell.element
+				);
+			})?.[c] as TableModelCol | undefined;
+			const left = cell?.element?.getBoundingClientRect().left;
+			if (left === undefined) {
+				lefts.push(lefts[c - 1] ?? 0);
+				continue;
+			}
+			if (base === undefined) base = left;
+			lefts.push(left - base);
+		}
+		const scope = `[${FREEZE_ATTRIBUTE}="${this.#styleId}"]`;
+		const rules: Array<string> = [];
+		tableModel.table.forEach((cells, r) => {
+			cells.forEach((cell, c) => {
+				if (helper.isEmptyModelCol(cell) || !cell.element) return;
+				const id = cell.element.getAttribute(DATA_ID);
+				const isRow = r < rows;
+				const isCol = c < cols;
+				if (!id || (!isRow && !isCol)) return;
+				// 单元格内容的层级是 3，冻结的单元格要盖住滚动过来的单元格，单元格设置的背景色优先
+				const styles = [
+					isCol ? `position:sticky;left:${lefts[c]}px` : '',
+					isRow ? `transform:translateY(var(${FREEZE_TOP},0))` : '',
+					`z-index:${isRow && isCol ? 5 : 4}`,
+					'background-color:#fff',
+				];
+				rules.push(
+					`${scope} ${
+						Template.TABLE_CLASS
+					} td[${DATA_ID}="${id}"]{${styles
+						.filter((style) => !!style)
+						.join(';')}}`,
+				);
+			});
+		});
+		// 编辑模式下的行列头跟随冻结的行列
+		wrapper.find(Template.COLS_HEADER_ITEM_CLASS).each((item, index) => {
+			if (index >= cols) return;
+			const nth = Array.from(item.parentNode?.children ?? []).indexOf(
+				item as Element,
+			);
+			rules.push(
+				`${scope} ${Template.COLS_HEADER_ITEM_CLASS}:nth-child(${
+					nth + 1
+				}){position:sticky;left:${lefts[index]}px;z-index:4}`,
+			);
+		});
+		wrapper.find(Template.ROWS_HEADER_ITEM_CLASS).each((item, index) => {
+			if (index >= rows) return;
+			const nth = Array.from(item.parentNode?.children ?? []).indexOf(
+				item as Element,
+			);
+			rules.push(
+				`${scope} ${Template.ROWS_HEADER_ITEM_CLASS}:nth-child(${
+					nth + 1
+				}){transform:translateY(var(${FREEZE_TOP},0));z-index:4}`,
+			);
+		});
+		if (!this.#freezeStyle || !wrapper.contains(this.#freezeStyle)) {
+			this.#freezeStyle = $(`<style ${DATA_ELEMENT}="${UI}"></style>`);
+			wrapper.append(this.#freezeStyle);
+		}
+		wrapper.attributes(FREEZE_ATTRIBUTE, this.#styleId);
+		this.#freezeStyle.text(rules.join(''));
+		this.updateFreeze();
+	}
+
+	/**
+	 * 冻结的行滚动出可视区域时向下平移，固定在顶部，滚动到表格底部时跟随表格离开
+	 */
+	updateFreeze = () => {
+		const { wrapper } = this.table;
+		const element = wrapper?.get<HTMLElement>();
+		const table = this.tableRoot?.get<HTMLTableElement>();
+		if (!element || !table) return;
+		const { rows } = this.getFreeze();
+		let offset = 0;
+		if (rows > 0) {
+			const options =
+				this.editor.plugin.findPlugin<TableOptions>('table')?.options
+					.stickyHeader;
+			// 滚动容器在页面顶部以上时以页面顶部为准
+			const top =
+				Math.max(
+					this.editor.scrollNode
+						?.get<Element>()
+						?.getBoundingClientRect().top ?? 0,
+					0,
+				) + (typeof options === 'object' ? options.offset ?? 0 : 0);
+			const rect = table.getBoundingClientRect();
+			const lastRow = this.tableRoot?.find('tr').eq(rows - 1);
+			const height = lastRow
+				? lastRow.get<Element>()!.getBoundingClientRect().bottom -
+				  rect.top
+				: 0;
+			offset = Math.max(
+				0,
+				Math.min(top - rect.top, rect.height - height),
+			);
+		}
+		if (offset > 0) element.style.setProperty(FREEZE_TOP, `${offset}px`);
+		else element.style.removeProperty(FREEZE_TOP);
+	};
 }
 
 export default TableCommand;
@@ -1442,7 +1442,7 @@ class ControllBar extends EventEmitter2 implements ControllBarInterface {
 		)
 			return;
 		event.preventDefault();
-		const { selection } = this.table;
+		const { selection, command } = this.table;
 		const menuItems = this.menuBar.find(Template.MENUBAR_ITEM_CLASS);
 		menuItems.removeClass('disabled');
 		menuItems.each((menu) => {
@@ -1458,22 +1458,27 @@ class ControllBar extends EventEmitter2 implements ControllBarInterface {
 				const inputElement = inputNode.get<HTMLInputElement>()!;
 				if (!this.menuSets.has(menu)) {
 					this.menuSets.add(menu);
-					inputNode
-						.on('blur', () => {
+					// 筛选输入的是关键字，其它输入的是插入的数量
+					if (action !== 'filter')
+						inputNode.on('blur', () => {
 							inputElement.value = Math.min(
 								parseInt(inputElement.value, 10) || 1,
 								this.MAX_INSERT_NUM,
 							).toString();
-						})
-						.on('keydown', (event) => {
-							if (isHotkey('enter', event)) {
-								this.handleTriggerMenu(menuNode);
-							}
 						});
+					inputNode.on('keydown', (event) => {
+						if (isHotkey('enter', event)) {
+							this.handleTriggerMenu(menuNode);
+						}
+					});
 					inputNode.on('mousedown', this.onMenuInputMousedown);
 				}
 
 				const selectArea = selection.getSelectArea();
+				if (action === 'filter') {
+					inputElement.value =
+						command.getFilter(selectArea.begin.col) ?? '';
+				}
 				const isInsertCol =
 					['insertColLeft', 'insertColRight'].indexOf(action) > -1;
 				const isInsertRow =
@@ -1578,6 +1583,15 @@ class ControllBar extends EventEmitter2 implements ControllBarInterface {
 				return !selection.selectArea;
 			case 'mockPaste':
 				return !command.hasCopyData();
+			case 'sortAsc':
+			case 'sortDesc':
+				return !command.getSortArea();
+			case 'clearFilter':
+				return !command.hasFilter();
+			case 'unfreeze': {
+				const { rows, cols } = command.getFreeze();
+				return rows === 0 && cols === 0;
+			}
 			case 'removeCol':
 			case 'insertColLeft':
 			case 'insertColRight':
@@ -1606,15 +1620,16 @@ class ControllBar extends EventEmitter2 implements ControllBarInterface {
 			const inputNode = menu.find(
 				`input${Template.MENUBAR_ITEM_INPUT_CALSS}`,
 			);
-			let args: undefined | number = undefined;
+			let args: undefined | number | string = undefined;
 			if (inputNode.length > 0) {
-				args = Math.min(
-					parseInt(
-						inputNode.get<HTMLInputElement>()?.value || '1',
-						10,
-					),
-					this.MAX_INSERT_NUM,
-				);
+				const value = inputNode.get<HTMLInputElement>()?.value;
+				args =
+					action === 'filter'
+						? value
+						: Math.min(
+								parseInt(value || '1', 10),
+								this.MAX_INSERT_NUM,
+						  );
 			}
 
 			this.table.command[action](args);
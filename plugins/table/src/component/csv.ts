@@ -0,0 +1,172 @@
+import { escape } from '@aomao/engine';
+import { TableTextDelimiter } from '../types';
+import { getSortParser } from './helper';
+
+const DELIMITERS: Array<TableTextDelimiter> = ['\t', ',', ';'];
+
+/**
+ * 统计一行中引号外的分隔符数量
+ */
+const countDelimiter = (line: string, delimiter: TableTextDelimiter) => {
+	let count = 0;
+	let quoted = false;
+	for (const char of line) {
+		if (char === '"') quoted = !quoted;
+		else if (char === delimiter && !quoted) count++;
+	}
+	return count;
+};
+
+/**
+ * 根据第一行中出现次数最多的分隔符，判断是制表符、逗号还是分号分隔
+ */
+export const detectDelimiter = (text: string): TableTextDelimiter => {
+	const line = text.split(/\r\n|\n|\r/, 1)[0] ?? '';
+	let delimiter: TableTextDelimiter = ',';
+	let max = 0;
+	DELIMITERS.forEach((item) => {
+		const count = countDelimiter(line, item);
+		if (count > max) {
+			max = count;
+			delimiter = item;
+		}
+	});
+	return delimiter;
+};
+
+/**
+ * 按 RFC 4180 解析 CSV、TSV 文本，引号中的字段可以包含分隔符和换行，两个引号表示一个引号。
+ * 返回的每一行长度可能不同
+ */
+export const parseDelimitedText = (
+	text: string,
+	delimiter: TableTextDelimiter = detectDelimiter(text),
+) => {
+	text = text.replace(/^\ufeff/, '');
+	const rows: Array<Array<string>> = [];
+	let row: Array<string> = [];
+	let field = '';
+	let quoted = false;
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char !== '"') field += char;
+			else if (text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else quoted = false;
+			continue;
+		}
+		if (char === '"' && field === '') {
+			quoted = true;
+		} else if (char === delimiter) {
+			row.push(field);
+			field = '';
+		} else if (char === '\r' || char === '\n') {
+			if (char === '\r' && text[i + 1] === '\n') i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+	// 最后一行没有换行符
+	if (field || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+	return rows;
+};
+
+/**
+ * 把二维数组转换为 CSV、TSV 文本，包含分隔符、引号或者换行的字段使用引号包裹
+ */
+export const stringifyDelimitedText = (
+	rows: Array<Array<string>>,
+	delimiter: TableTextDelimiter = ',',
+) => {
+	return rows
+		.map((row) =>
+			row
+				.map((value) =>
+					/["\r\n]/.test(value) || value.includes(delimiter)
+						? `"${value.replace(/"/g, '""')}"`
+						: value,
+				)
+				.join(delimiter),
+		)
+		.join('\r\n');
+};
+
+/**
+ * 从 Excel 等表格软件复制的纯文本是制表符分隔的，至少有两行两列并且每一行的列数相同时才作为表格数据，
+ * 避免把普通文本中的制表符当作表格
+ */
+export const getSpreadsheetRows = (text: string) => {
+	if (text.indexOf('\t') < 0) return;
+	const rows = parseDelimitedText(text, '\t');
+	const cols = rows[0]?.length ?? 0;
+	if (rows.length < 2 || cols < 2) return;
+	return rows.every((row) => row.length === cols) ? rows : undefined;
+};
+
+/**
+ * 判断第一行是否是表头：第一行都不为空，并且有一列下面的数据都是数字或日期而第一行不是
+ */
+export const hasHeaderRow = (rows: Array<Array<string>>) => {
+	if (rows.length < 2) return false;
+	const [header, ...body] = rows;
+	if (header.some((value) => !value.trim())) return false;
+	return header.some((value, col) => {
+		const parser = getSortParser(
+			body.map((row) => (row[col] ?? '').trim()),
+		);
+		return !!parser && parser(value.trim()) === undefined;
+	});
+};
+
+/**
+ * 把文本数据转换为表格 html，列数不足的行用空单元格补齐，表头使用粗体
+ * @param rows 每一行的数据
+ * @param header 第一行是否是表头，默认自动判断
+ */
+export const toTableHtml = (
+	rows: Array<Array<string>>,
+	header: boolean = hasHeaderRow(rows),
+) => {
+	const cols = Math.max(1, ...rows.map((row) => row.length));
+	const trs = rows.map((row, index) => {
+		const tds: Array<string> = [];
+		for (let col = 0; col < cols; col++) {
+			const content = (row[col] ?? '')
+				.split(/\r\n|\n|\r/)
+				.map((line) => {
+					if (!line) return '<p><br /></p>';
+					const text = escape(line);
+					return `<p>${
+						header && index === 0
+							? `<strong>${text}</strong>`
+							: text
+					}</p>`;
+				})
+				.join('');
+			tds.push(`<td>${content}</td>`);
+		}
+		return `<tr>${tds.join('')}</tr>`;
+	});
+	return `<table><colgroup>${'<col />'.repeat(
+		cols,
+	)}</colgroup><tbody>${trs.join('')}</tbody></table>`;
+};
+
+/**
+ * 是否是 CSV、TSV 文件
+ */
+export const isDelimitedFile = (file: File) => {
+	return (
+		/\.(csv|tsv)$/i.test(file.name) ||
+		['text/csv', 'text/tab-separated-values'].includes(file.type)
+	);
+};
@@ -0,0 +1,531 @@
+import { $, DATA_ELEMENT, EditorInterface, isEngine, UI } from '@aomao/engine';
+import debounce from 'lodash/debounce';
+import {
+	FormulaValue,
+	TableFormulaInterface,
+	TableInterface,
+	TableModel,
+} from '../types';
+import { parseNumber } from './helper';
+
+const FORMULA_VALUE_CLASS = 'table-formula-value';
+
+/**
+ * 公式计算错误，显示为 #VALUE! 这样的错误码
+ */
+export class FormulaError {
+	readonly code: string;
+
+	constructor(code: string) {
+		this.code = code;
+	}
+}
+
+type Token = {
+	type: 'number' | 'string' | 'ref' | 'name' | 'op';
+	value: string;
+};
+
+type Operand = FormulaValue | Array<FormulaValue>;
+
+const TOKEN_REG =
+	/\s*(?:(\d+\.?\d*(?:e[-+]?\d+)?|\.\d+(?:e[-+]?\d+)?)|"((?:[^"]|"")*)"|(\$?[A-Za-z]{1,3}\$?\d+)(?![\w(])|([A-Za-z_][\w.]*)|(<>|<=|>=|[-+*/^&=<>(),:%]))/y;
+
+const tokenize = (formula: string) => {
+	const tokens: Array<Token> = [];
+	TOKEN_REG.lastIndex = 0;
+	while (TOKEN_REG.lastIndex < formula.length) {
+		if (!formula.slice(TOKEN_REG.lastIndex).trim()) break;
+		const start = TOKEN_REG.lastIndex;
+		const result = TOKEN_REG.exec(formula);
+		if (!result || TOKEN_REG.lastIndex === start) return;
+		const [, number, string, ref, name, op] = result;
+		if (number !== undefined)
+			tokens.push({ type: 'number', value: number });
+		else if (string !== undefined)
+			tokens.push({ type: 'string', value: string.replace(/""/g, '"') });
+		else if (ref !== undefined)
+			tokens.push({ type: 'ref', value: ref.replace(/\$/g, '') });
+		else if (name !== undefined) tokens.push({ type: 'name', value: name });
+		else tokens.push({ type: 'op', value: op });
+	}
+	return tokens;
+};
+
+/**
+ * 把 A1 这样的单元格地址转换为表格模型中的坐标
+ */
+export const parseCellAddress = (address: string) => {
+	const result = /^([A-Za-z]+)(\d+)$/.exec(address);
+	if (!result) return;
+	const col = result[1]
+		.toUpperCase()
+		.split('')
+		.reduce((value, char) => value * 26 + char.charCodeAt(0) - 64, 0);
+	return { row: parseInt(result[2], 10) - 1, col: col - 1 };
+};
+
+const isError = (value: unknown): value is FormulaError =>
+	value instanceof FormulaError;
+
+const toNumber = (value: FormulaValue): number | FormulaError => {
+	if (isError(value)) return value;
+	if (value === null) return 0;
+	if (typeof value === 'boolean') return value ? 1 : 0;
+	if (typeof value === 'number') return value;
+	const number = parseNumber(value);
+	return number === undefined ? new FormulaError('#VALUE!') : number;
+};
+
+const toBoolean = (value: FormulaValue): boolean | FormulaError => {
+	if (isError(value)) return value;
+	if (typeof value === 'string') {
+		const text = value.toUpperCase();
+		if (text === 'TRUE' || text === 'FALSE') return text === 'TRUE';
+		const number = parseNumber(value);
+		return number === undefined
+			? new FormulaError('#VALUE!')
+			: number !== 0;
+	}
+	return !!value;
+};
+
+/**
+ * 取出函数参数中的数字。区域中只统计数字，直接传入的参数会转换为数字
+ */
+const getNumbers = (args: Array<Operand>) => {
+	const numbers: Array<number> = [];
+	for (const arg of args) {
+		if (Array.isArray(arg)) {
+			for (const value of arg) {
+				if (isError(value)) return value;
+				if (typeof value === 'number') numbers.push(value);
+			}
+			continue;
+		}
+		if (arg === null) continue;
+		const number = toNumber(arg);
+		if (isError(number)) return number;
+		numbers.push(number);
+	}
+	return numbers;
+};
+
+const FUNCTIONS: Record<
+	string,
+	(args: Array<Operand>) => FormulaValue | undefined
+> = {
+	SUM: (args) => {
+		const numbers = getNumbers(args);
+		if (isError(numbers)) return numbers;
+		return numbers.reduce((sum, number) => sum + number, 0);
+	},
+	AVERAGE: (args) => {
+		const numbers = getNumbers(args);
+		if (isError(numbers)) return numbers;
+		if (numbers.length === 0) return new FormulaError('#DIV/0!');
+		return (
+			numbers.reduce((sum, number) => sum + number, 0) / numbers.length
+		);
+	},
+	COUNT: (args) => {
+		let count = 0;
+		args.forEach((arg) => {
+			(Array.isArray(arg) ? arg : [arg]).forEach((value) => {
+				if (typeof value === 'number') count++;
+			});
+		});
+		return count;
+	},
+	MIN: (args) => {
+		const numbers = getNumbers(args);
+		if (isError(numbers)) return numbers;
+		return numbers.length > 0 ? Math.min(...numbers) : 0;
+	},
+	MAX: (args) => {
+		const numbers = getNumbers(args);
+		if (isError(numbers)) return numbers;
+		return numbers.length > 0 ? Math.max(...numbers) : 0;
+	},
+	IF: (args) => {
+		if (args.length < 2 || args.length > 3) return;
+		const [condition, yes, no = false] = args;
+		if (Array.isArray(condition) || Array.isArray(yes) || Array.isArray(no))
+			return new FormulaError('#VALUE!');
+		const result = toBoolean(condition);
+		if (isError(result)) return result;
+		return result ? yes : no;
+	},
+};
+
+const compare = (left: FormulaValue, right: FormulaValue) => {
+	const leftValue = left ?? 0;
+	const rightValue = right ?? 0;
+	if (typeof leftValue === 'number' && typeof rightValue === 'number')
+		return leftValue - rightValue;
+	const a = String(leftValue).toLowerCase();
+	const b = String(rightValue).toLowerCase();
+	return a === b ? 0 : a > b ? 1 : -1;
+};
+
+/**
+ * 公式解析器，按运算符优先级递归下降解析，解析的同时计算结果
+ */
+class FormulaParser {
+	private tokens: Array<Token>;
+	private index = 0;
+	private getValue: (row: number, col: number) => FormulaValue;
+
+	constructor(
+		tokens: Array<Token>,
+		getValue: (row: number, col: number) => FormulaValue,
+	) {
+		this.tokens = tokens;
+		this.getValue = getValue;
+	}
+
+	parse(): FormulaValue {
+		const value = this.comparison();
+		if (this.index < this.tokens.length || Array.isArray(value))
+			return new FormulaError('#VALUE!');
+		return value;
+	}
+
+	private peek(value?: string) {
+		const token = this.tokens[this.index];
+		if (!token || (value !== undefined && token.value !== value)) return;
+		return token;
+	}
+
+	private next() {
+		return this.tokens[this.index++];
+	}
+
+	private isOp(...ops: Array<string>) {
+		const token = this.peek();
+		return !!token && token.type === 'op' && ops.includes(token.value);
+	}
+
+	private scalar(value: Operand): FormulaValue {
+		return Array.isArray(value) ? new FormulaError('#VALUE!') : value;
+	}
+
+	private comparison(): Operand {
+		let left = this.concat();
+		while (this.isOp('=', '<>', '<', '>', '<=', '>=')) {
+			const op = this.next().value;
+			const a = this.scalar(left);
+			const b = this.scalar(this.concat());
+			if (isError(a) || isError(b)) {
+				left = isError(a) ? a : b;
+				continue;
+			}
+			const result = compare(a, b);
+			left =
+				op === '='
+					? result === 0
+					: op === '<>'
+					? result !== 0
+					: op === '<'
+					? result < 0
+					: op === '>'
+					? result > 0
+					: op === '<='
+					? result <= 0
+					: result >= 0;
+		}
+		return left;
+	}
+
+	private concat(): Operand {
+		let left = this.additive();
+		while (this.isOp('&')) {
+			this.next();
+			const a = this.scalar(left);
+			const b = this.scalar(this.additive());
+			if (isError(a) || isError(b)) left = isError(a) ? a : b;
+			else left = `${a ?? ''}${b ?? ''}`;
+		}
+		return left;
+	}
+
+	private arithmetic(
+		left: Operand,
+		right: Operand,
+		fn: (a: number, b: number) => number | FormulaError,
+	): FormulaValue {
+		const a = toNumber(this.scalar(left));
+		const b = toNumber(this.scalar(right));
+		if (isError(a)) return a;
+		if (isError(b)) return b;
+		return fn(a, b);
+	}
+
+	private additive(): Operand {
+		let left = this.term();
+		while (this.isOp('+', '-')) {
+			const op = this.next().value;
+			left = this.arithmetic(left, this.term(), (a, b) =>
+				op === '+' ? a + b : a - b,
+			);
+		}
+		return left;
+	}
+
+	private term(): Operand {
+		let left = this.power();
+		while (this.isOp('*', '/')) {
+			const op = this.next().value;
+			left = this.arithmetic(left, this.power(), (a, b) => {
+				if (op === '*') return a * b;
+				return b === 0 ? new FormulaError('#DIV/0!') : a / b;
+			});
+		}
+		return left;
+	}
+
+	private power(): Operand {
+		let left = this.unary();
+		while (this.isOp('^')) {
+			this.next();
+			left = this.arithmetic(left, this.unary(), (a, b) => a ** b);
+		}
+		return left;
+	}
+
+	private unary(): Operand {
+		if (this.isOp('-', '+')) {
+			const op = this.next().value;
+			const value = toNumber(this.scalar(this.unary()));
+			if (isError(value)) return value;
+			return op === '-' ? -value : value;
+		}
+		let value = this.primary();
+		while (this.isOp('%')) {
+			this.next();
+			value = this.arithmetic(value, 100, (a, b) => a / b);
+		}
+		return value;
+	}
+
+	private range(from: string, to: string): Operand {
+		const start = parseCellAddress(from);
+		const end = parseCellAddress(to);
+		if (!start || !end) return new FormulaError('#REF!');
+		const values: Array<FormulaValue> = [];
+		for (
+			let row = Math.min(start.row, end.row);
+			row <= Math.max(start.row, end.row);
+			row++
+		) {
+			for (
+				let col = Math.min(start.col, end.col);
+				col <= Math.max(start.col, end.col);
+				col++
+			) {
+				values.push(this.getValue(row, col));
+			}
+		}
+		return values;
+	}
+
+	private primary(): Operand {
+		const token = this.next();
+		if (!token) return new FormulaError('#VALUE!');
+		switch (token.type) {
+			case 'number':
+				return parseFloat(token.value);
+			case 'string':
+				return token.value;
+			case 'ref':
+				if (this.isOp(':')) {
+					this.next();
+					const end = this.next();
+					if (!end || end.type !== 'ref')
+						return new FormulaError('#REF!');
+					return this.range(token.value, end.value);
+				}
+				const address = parseCellAddress(token.value);
+				return address
+					? this.getValue(address.row, address.col)
+					: new FormulaError('#REF!');
+			case 'name':
+				const name = token.value.toUpperCase();
+				if (!this.peek('(')) {
+					if (name === 'TRUE' || name === 'FALSE')
+						return name === 'TRUE';
+					return new FormulaError('#NAME?');
+				}
+				this.next();
+				const args: Array<Operand> = [];
+				if (!this.peek(')')) {
+					do {
+						args.push(this.comparison());
+					} while (this.isOp(',') && this.next());
+				}
+				if (!this.peek(')')) return new FormulaError('#VALUE!');
+				this.next();
+				const fn = FUNCTIONS[name];
+				if (!fn) return new FormulaError('#NAME?');
+				const result = fn(args);
+				return result === undefined
+					? new FormulaError('#VALUE!')
+					: result;
+			case 'op':
+				if (token.value === '(') {
+					const value = this.comparison();
+					if (!this.peek(')')) return new FormulaError('#VALUE!');
+					this.next();
+					return value;
+				}
+		}
+		return new FormulaError('#VALUE!');
+	}
+}
+
+/**
+ * 单元格公式，以 = 开头的单元格内容作为公式计算。
+ * 公式本身保存在单元格中，计算结果显示在覆盖单元格的 UI 节点中，不会产生操作
+ */
+class TableFormula implements TableFormulaInterface {
+	private editor: EditorInterface;
+	private table: TableInterface;
+	// 正在编辑的单元格显示公式
+	#editing?: HTMLTableCellElement;
+
+	constructor(editor: EditorInterface, table: TableInterface) {
+		this.editor = editor;
+		this.table = table;
+	}
+
+	init() {
+		const editor = this.editor;
+		if (isEngine(editor)) {
+			editor.on('change', this.onChange);
+			editor.on('select', this.onSelect);
+		}
+		this.refresh();
+	}
+
+	isFormula(text: string) {
+		return text.length > 1 && text[0] === '=';
+	}
+
+	evaluate(formula: string, tableModel = this.table.selection.tableModel) {
+		return this.calculate(formula, tableModel, new Map(), new Set());
+	}
+
+	private calculate(
+		formula: string,
+		tableModel: TableModel | undefined,
+		cache: Map<string, FormulaValue>,
+		visiting: Set<string>,
+	): FormulaValue {
+		const tokens = tokenize(formula.replace(/^=/, ''));
+		if (!tokens || tokens.length === 0) return new FormulaError('#VALUE!');
+		const getValue = (row: number, col: number): FormulaValue => {
+			const key = `${row},${col}`;
+			if (cache.has(key)) return cache.get(key)!;
+			const cell = tableModel?.table[row]?.[col];
+			if (!cell) return new FormulaError('#REF!');
+			if (this.table.helper.isEmptyModelCol(cell) || !cell.element)
+				return null;
+			// 循环引用
+			if (visiting.has(key)) return new FormulaError('#CYCLE!');
+			const text = this.table.helper.getCellText(cell.element);
+			let value: FormulaValue = null;
+			if (this.isFormula(text)) {
+				visiting.add(key);
+				value = this.calculate(text, tableModel, cache, visiting);
+				visiting.delete(key);
+			} else if (text) {
+				value = parseNumber(text) ?? text;
+			}
+			cache.set(key, value);
+			return value;
+		};
+		return new FormulaParser(tokens, getValue).parse();
+	}
+
+	format(value: FormulaValue) {
+		if (value === null) return '0';
+		if (isError(value)) return value.code;
+		if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+		if (typeof value === 'number')
+			return isFinite(value)
+				? String(parseFloat(value.toPrecision(12)))
+				: '#NUM!';
+		return value;
+	}
+
+	refresh() {
+		const { selection, helper, wrapper } = this.table;
+		const { tableModel } = selection;
+		if (!tableModel || !wrapper) return;
+		const cache = new Map<string, FormulaValue>();
+		tableModel.table.forEach((cells) => {
+			cells.forEach((cell) => {
+				if (helper.isEmptyModelCol(cell) || !cell.element) return;
+				const element = cell.element as HTMLTableCellElement;
+				const node = $(element);
+				let valueNode = node.children(`.${FORMULA_VALUE_CLASS}`);
+				const text = helper.getCellText(element);
+				if (!this.isFormula(text) || element === this.#editing) {
+					valueNode.remove();
+					return;
+				}
+				const value = this.format(
+					this.calculate(text, tableModel, cache, new Set()),
+				);
+				if (valueNode.length === 0) {
+					valueNode = $(
+						`<div class="${FORMULA_VALUE_CLASS}" ${DATA_ELEMENT}="${UI}"></div>`,
+					);
+					node.append(valueNode);
+				}
+				if (valueNode.text() !== value) valueNode.text(value);
+				if (value[0] === '#') valueNode.addClass('table-formula-error');
+				else valueNode.removeClass('table-formula-error');
+				// 遮住公式，背景和单元格保持一致
+				const background = getComputedStyle(element).backgroundColor;
+				valueNode.css(
+					'background-color',
+					!background ||
+						background === 'transparent' ||
+						background === 'rgba(0, 0, 0, 0)'
+						? ''
+						: background,
+				);
+			});
+		});
+	}
+
+	onChange = debounce(() => {
+		this.refresh();
+	}, 100);
+
+	onSelect = () => {
+		const editor = this.editor;
+		if (!isEngine(editor)) return;
+		const { startNode } = editor.change.range.get();
+		const td = startNode.closest('td');
+		const element =
+			td.length > 0 && this.table.wrapper?.contains(td)
+				? td.get<HTMLTableCellElement>()!
+				: undefined;
+		if (element === this.#editing) return;
+		this.#editing = element;
+		this.refresh();
+	};
+
+	destroy() {
+		const editor = this.editor;
+		this.onChange.cancel();
+		if (isEngine(editor)) {
+			editor.off('change', this.onChange);
+			editor.off('select', this.onSelect);
+		}
+	}
+}
+
+export default TableFormula;
@@ -15,9 +15,48 @@ import {
 	transformCustomTags,
 	EditorInterface,
 	isEngine,
+	DATA_ELEMENT,
+	UI,
 } from '@aomao/engine';
 import Template from './template';
 
+/**
+ * 解析单元格中的数字，支持千分位、货币符号和百分比，不是数字时返回 undefined
+ */
+export const parseNumber = (text: string) => {
+	const value = text.replace(/[,\s]/g, '').replace(/^[¥$€£]/, '');
+	if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?%?$/i.test(value)) return;
+	const number = parseFloat(value);
+	return value.endsWith('%') ? number / 100 : number;
+};
+
+/**
+ * 解析 2022-01-02、2022/1/2、2022年1月2日 等格式的日期
+ */
+export const parseDate = (text: string) => {
+	if (
+		!/^\d{4}[-/.年]\d{1,2}[-/.月]\d{1,2}日?(\s+\d{1,2}:\d{2}(:\d{2})?)?$/.test(
+			text,
+		)
+	)
+		return;
+	const time = Date.parse(text.replace(/[-.年月]/g, '/').replace('日', ''));
+	return isNaN(time) ? undefined : time;
+};
+
+/**
+ * 根据一列的值判断按数字、日期还是文本排序，空值不参与判断
+ */
+export const getSortParser = (values: Array<string>) => {
+	const items = values.filter((value) => !!value);
+	if (items.length === 0) return;
+	if (items.every((value) => parseNumber(value) !== undefined))
+		return parseNumber;
+	if (items.every((value) => parseDate(value) !== undefined))
+		return parseDate;
+	return;
+};
+
 class Helper implements HelperInterface {
 	private clipboard?: {
 		html: string;
@@ -640,6 +679,29 @@ class Helper implements HelperInterface {
 		});
 		return table;
 	}
+
+	getCellText(cell: HTMLElement) {
+		const content = $(cell).find(Template.TABLE_TD_CONTENT_CLASS);
+		// 阅读模式下没有内容节点，直接取单元格中除 UI 节点以外的文本
+		const nodes = Array.from(
+			content.length > 0
+				? content.get<HTMLElement>()!.childNodes
+				: cell.childNodes,
+		).filter(
+			(child) =>
+				child.nodeType !== Node.ELEMENT_NODE ||
+				(child as Element).getAttribute(DATA_ELEMENT) !== UI,
+		);
+		// 段落之间换行
+		return nodes
+			.map((node) => {
+				const text = node.textContent || '';
+				return this.#editor.node.isBlock(node) ? `${text}\n` : text;
+			})
+			.join('')
+			.replace(/\u200b/g, '')
+			.trim();
+	}
 }
 
 export default Helper;
@@ -1,6 +1,7 @@
 import {
 	$,
 	Card,
+	CardDiffContext,
 	CardToolbarItemOptions,
 	CardType,
 	closest,
@@ -17,11 +18,13 @@ import {
 	Scrollbar,
 	SelectStyleType,
 	ToolbarItemOptions,
+	UI,
 } from '@aomao/engine';
 import {
 	ControllBarInterface,
 	HelperInterface,
 	TableCommandInterface,
+	TableFormulaInterface,
 	TableInterface,
 	TableOptions,
 	TableSelectionInterface,
@@ -34,7 +37,10 @@ import menuData from './menu';
 import ControllBar from './controllbar';
 import TableSelection from './selection';
 import TableCommand from './command';
+import TableFormula from './formula';
+import { isDelimitedFile } from './csv';
 import { ColorTool, Palette } from './toolbar';
+import { toStaticHTML } from '../static';
 
 class TableComponent<V extends TableValue = TableValue>
 	extends Card<V>
@@ -64,6 +70,23 @@ class TableComponent<V extends TableValue = TableValue>
 		return true;
 	}
 
+	static toStaticHTML = toStaticHTML;
+
+	/**
+	 * 比较表格的两个版本，单元格内的修改和增删的行列都在合并后的表格中标记
+	 */
+	static diff(
+		oldValue: TableValue,
+		newValue: TableValue,
+		context: CardDiffContext,
+	): TableValue | void {
+		if (!oldValue.html || !newValue.html) return;
+		return {
+			...newValue,
+			html: context.diffValue(oldValue.html, newValue.html),
+		};
+	}
+
 	static colors = Palette.getColors().map((group) =>
 		group.map((color) => {
 			return { color, border: Palette.getStroke(color) };
@@ -89,12 +112,14 @@ class TableComponent<V extends TableValue = TableValue>
 		max_insert_num: this.maxInsertNum,
 	});
 	command: TableCommandInterface = new TableCommand(this.editor, this);
+	formula: TableFormulaInterface = new TableFormula(this.editor, this);
 	scrollbar?: Scrollbar;
 	viewport?: NodeInterface;
 	colorTool?: ColorTool;
 	noBorderToolButton?: NodeInterface;
 	alignToolButton?: NodeInterface;
 	#changeTimeout?: NodeJS.Timeout;
+	#stickyHeader?: NodeInterface;
 
 	init() {
 		super.init();
@@ -345,14 +370,42 @@ class TableComponent<V extends TableValue = TableValue>
 			| ToolbarItemOptions
 			| CardToolbarItemOptions
 		)[] => {
+			const language = editor.language.get('table');
+			const exportItem: ToolbarItemOptions = {
+				key: 'export',
+				type: 'dropdown',
+				content: '<span class="data-icon data-icon-download" />',
+				title: language['export']['title'],
+				items: [
+					{
+						type: 'button',
+						content: language['export']['csv'],
+						onClick: () => this.command.downloadCSV(),
+					},
+					{
+						type: 'button',
+						content: language['export']['tsv'],
+						onClick: () => {
+							if (this.command.copyText())
+								editor.messageSuccess(
+									'copy',
+									editor.language.get<string>(
+										'copy',
+										'success',
+									),
+								);
+						},
+					},
+				],
+			};
 			if (!isEngine(editor) || editor.readonly)
 				return [
 					{
 						key: 'maximize',
 						type: 'maximize',
 					},
+					exportItem,
 				];
-			const language = editor.language.get('table');
 			const funBtns: Array<ToolbarItemOptions | CardToolbarItemOptions> =
 				[
 					{
@@ -472,6 +525,7 @@ class TableComponent<V extends TableValue = TableValue>
 							);
 						},
 					},
+					exportItem,
 					{
 						key: 'delete',
 						type: 'delete',
@@ -661,6 +715,13 @@ class TableComponent<V extends TableValue = TableValue>
 		this.conltrollBar.refresh();
 		this.selection.render('change');
 		const oldValue = super.getValue();
+		// 先更新冻结的行，筛选时冻结的行作为表头
+		this.command.refreshFreeze({
+			rows: oldValue?.freezeRows,
+			cols: oldValue?.freezeCols,
+		});
+		this.command.refreshFilter();
+		this.formula.refresh();
 		if (oldValue?.noBorder) {
 			this.noBorderToolButton?.addClass('active');
 		} else this.noBorderToolButton?.removeClass('active');
@@ -736,6 +797,74 @@ class TableComponent<V extends TableValue = TableValue>
 		}
 	}
 
+	/**
+	 * 阅读模式下复制表格的第一行作为表头，表格滚动出可视区域时固定在顶部。
+	 * 表头放在可以横向滚动的 viewport 中，横向滚动时跟随表格一起滚动
+	 */
+	initStickyHeader() {
+		this.#stickyHeader?.remove();
+		const table = this.viewport?.find('table').eq(0);
+		const row = table?.find('tr').eq(0);
+		if (!this.viewport || !table || !row) return;
+		const header = $(
+			`<div class="data-table-sticky-header" ${DATA_ELEMENT}="${UI}"></div>`,
+		);
+		const headerTable = $(table.get<Element>()!.cloneNode(false));
+		table.find('colgroup').each((colgroup) => {
+			headerTable.append(colgroup.cloneNode(true));
+		});
+		const body = document.createElement('tbody');
+		body.appendChild(row.get<Element>()!.cloneNode(true));
+		headerTable.append(body);
+		header.append(headerTable);
+		this.viewport.append(header);
+		this.#stickyHeader = header;
+		window.addEventListener('scroll', this.updateStickyHeader, {
+			passive: true,
+		});
+		window.addEventListener('resize', this.updateStickyHeader);
+		this.editor.scrollNode?.on('scroll', this.updateStickyHeader, {
+			passive: true,
+		});
+		this.updateStickyHeader();
+	}
+
+	updateStickyHeader = () => {
+		const header = this.#stickyHeader;
+		const table = this.viewport?.find('table').eq(0);
+		if (!header || !table || !this.viewport) return;
+		const options =
+			this.editor.plugin.findPlugin<TableOptions>('table')?.options
+				.stickyHeader;
+		const offset = typeof options === 'object' ? options.offset ?? 0 : 0;
+		const top =
+			(this.editor.scrollNode?.get<Element>()?.getBoundingClientRect()
+				.top ?? 0) + offset;
+		const rect = table.get<Element>()!.getBoundingClientRect();
+		const height = header.get<HTMLElement>()!.offsetHeight;
+		if (rect.top >= top || rect.bottom - height <= top) {
+			header.css('display', 'none');
+			return;
+		}
+		// 单元格宽度和原表格保持一致
+		const cells = table.find('tr').eq(0)?.children().toArray() ?? [];
+		header
+			.find('tr')
+			.children()
+			.each((cell, index) => {
+				const width = cells[index]?.get<HTMLElement>()?.offsetWidth;
+				if (width !== undefined) $(cell).css('width', `${width}px`);
+			});
+		header.find('table').css('width', `${rect.width}px`);
+		const viewportRect = this.viewport
+			.get<Element>()!
+			.getBoundingClientRect();
+		header.css({
+			display: 'block',
+			top: `${top - viewportRect.top}px`,
+		});
+	};
+
 	updateScrollbar = () => {
 		if (!this.scrollbar) return;
 		const hideHeight =
@@ -847,9 +976,28 @@ class TableComponent<V extends TableValue = TableValue>
 		const tableOptions = tablePlugin?.options.overflow || {};
 		if (this.viewport) {
 			this.selection.refreshModel();
+			this.formula.init();
+			const { freezeRows, freezeCols } = super.getValue() ?? {};
+			this.command.refreshFreeze({ rows: freezeRows, cols: freezeCols });
 			setTimeout(() => {
 				this.initScrollbar();
+				// 渲染完成后列宽才是最终的，重新计算冻结列的位置
+				this.command.refreshFreeze();
 			}, 0);
+			window.addEventListener('scroll', this.command.updateFreeze, {
+				passive: true,
+			});
+			window.addEventListener('resize', this.command.updateFreeze);
+			editor.scrollNode?.on('scroll', this.command.updateFreeze, {
+				passive: true,
+			});
+			// 冻结了行时不再复制表头
+			if (
+				!isEngine(editor) &&
+				tablePlugin?.options.stickyHeader &&
+				!freezeRows
+			)
+				this.initStickyHeader();
 		}
 		this.selection.on('select', () => {
 			this.conltrollBar.refresh(false);
@@ -869,6 +1017,7 @@ class TableComponent<V extends TableValue = TableValue>
 			editor.trigger('editor:resize');
 			this.updateScrollbar();
 		});
+		if (isEngine(editor)) this.wrapper?.on('drop', this.onDrop);
 		this.command.on('actioned', (action, silence) => {
 			if (action === 'paste') {
 				editor.card.render(this.wrapper);
@@ -897,6 +1046,34 @@ class TableComponent<V extends TableValue = TableValue>
 		if (tableOptions.maxRightWidth)
 			this.overflow(tableOptions.maxRightWidth());
 	}
+
+	/**
+	 * 拖入 CSV、TSV 文件时从放下位置的单元格开始导入
+	 */
+	onDrop = (event: DragEvent) => {
+		const editor = this.editor;
+		if (!isEngine(editor) || editor.readonly) return;
+		const file = Array.from(event.dataTransfer?.files ?? []).find(
+			isDelimitedFile,
+		);
+		const td = $(event.target as Node).closest('td');
+		if (!file || td.length === 0 || !this.wrapper?.contains(td)) return;
+		event.preventDefault();
+		event.stopPropagation();
+		const [row, col] = this.selection.getCellPoint(td);
+		file.text()
+			.then((text) => {
+				this.selection.select({ row, col }, { row, col });
+				this.command.importText(text);
+			})
+			.catch(() => {
+				editor.messageError(
+					'table',
+					editor.language.get<string>('table', 'readError'),
+				);
+			});
+	};
+
 	private remoteRefreshTimeout: NodeJS.Timeout | null = null;
 
 	remoteRefresh() {
@@ -982,9 +1159,10 @@ class TableComponent<V extends TableValue = TableValue>
 		}, 10);
 	}
 
-	render() {
-		const editor = this.editor;
-		this.template.isReadonly = !isEngine(editor) || editor.readonly;
+	/**
+	 * 获取第一次渲染的值，已经渲染过的返回 undefined
+	 */
+	private getRenderValue() {
 		// 重新渲染
 		if (
 			this.wrapper &&
@@ -1012,25 +1190,43 @@ class TableComponent<V extends TableValue = TableValue>
 			value.rows = model.rows;
 			value.cols = model.cols;
 		}
+		return value;
+	}
+
+	private renderWrapper(wrapper: NodeInterface, value: TableValue) {
+		this.wrapper = wrapper;
+		value.rows = wrapper.find('tr').length;
+		if (value.width) wrapper.find('table').css('width', `${value.width}px`);
+		return wrapper;
+	}
+
+	render() {
+		const editor = this.editor;
+		this.template.isReadonly = !isEngine(editor) || editor.readonly;
+		const value = this.getRenderValue();
+		if (typeof value !== 'object') return value;
 		//渲染卡片
-		this.wrapper = isEngine(editor)
-			? $(
-					this.template.htmlEdit(
-						value,
-						menuData(editor.language.get('table')),
-					),
-			  )
-			: $(this.template.htmlView(value));
-		if (!isEngine(editor)) {
-			this.wrapper
-				.find('table')
-				.addClass('data-table')
-				.addClass('data-table-view');
-		}
-		value.rows = this.wrapper.find('tr').length;
-		if (value.width)
-			this.wrapper.find('table').css('width', `${value.width}px`);
-		return this.wrapper;
+		return this.renderWrapper(
+			$(
+				this.template.htmlEdit(
+					value,
+					menuData(editor.language.get('table')),
+				),
+			),
+			value,
+		);
+	}
+
+	renderReader() {
+		this.template.isReadonly = true;
+		const value = this.getRenderValue();
+		if (typeof value !== 'object') return value;
+		const wrapper = $(this.template.htmlView(value));
+		wrapper
+			.find('table')
+			.addClass('data-table')
+			.addClass('data-table-view');
+		return this.renderWrapper(wrapper, value);
 	}
 
 	destroy() {
@@ -1039,8 +1235,17 @@ class TableComponent<V extends TableValue = TableValue>
 		window.removeEventListener('scroll', this.updateScrollbar);
 		window.removeEventListener('resize', this.updateScrollbar);
 		editor.scrollNode?.off('scroll', this.updateScrollbar);
+		window.removeEventListener('scroll', this.updateStickyHeader);
+		window.removeEventListener('resize', this.updateStickyHeader);
+		editor.scrollNode?.off('scroll', this.updateStickyHeader);
+		this.#stickyHeader?.remove();
 		this.scrollbar?.destroy();
+		window.removeEventListener('scroll', this.command.updateFreeze);
+		window.removeEventListener('resize', this.command.updateFreeze);
+		editor.scrollNode?.off('scroll', this.command.updateFreeze);
+		this.wrapper?.off('drop', this.onDrop);
 		this.command.removeAllListeners();
+		this.formula.destroy();
 		const selection = this.selection;
 		selection.removeAllListeners();
 		selection.destroy();
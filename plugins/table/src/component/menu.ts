@@ -56,6 +56,47 @@ export default (locale: { [key: string]: string }): TableMenu => {
 		{
 			split: true,
 		},
+		{
+			action: 'sortAsc',
+			icon: 'sort-asc',
+			text: locale.sortAsc,
+		},
+		{
+			action: 'sortDesc',
+			icon: 'sort-desc',
+			text: locale.sortDesc,
+		},
+		{
+			action: 'filter',
+			icon: 'filter',
+			text: locale.filter,
+		},
+		{
+			action: 'clearFilter',
+			icon: 'clear-filter',
+			text: locale.clearFilter,
+		},
+		{
+			split: true,
+		},
+		{
+			action: 'freezeRows',
+			icon: 'freeze-row',
+			text: locale.freezeRows,
+		},
+		{
+			action: 'freezeCols',
+			icon: 'freeze-col',
+			text: locale.freezeCols,
+		},
+		{
+			action: 'unfreeze',
+			icon: 'unfreeze',
+			text: locale.unfreeze,
+		},
+		{
+			split: true,
+		},
 		{
 			action: 'removeCol',
 			icon: 'remove-col',
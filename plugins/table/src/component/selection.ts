@@ -1106,6 +1106,43 @@ class TableSelection extends EventEmitter2 implements TableSelectionInterface {
 		)}</table></body>`;
 	}
 
+	/**
+	 * 获取选中区域每个单元格的文本，合并单元格的文本放在左上角，公式为计算结果
+	 * @param all 是否获取整个表格
+	 */
+	getSelectionRows(all: boolean = false) {
+		const { tableModel } = this;
+		const { helper, formula } = this.table;
+		if (!tableModel) return null;
+		let begin = { row: 0, col: 0 };
+		let end = { row: tableModel.rows - 1, col: tableModel.cols - 1 };
+		if (!all) {
+			const area = this.getSelectArea();
+			if (area.begin.row < 0 || area.begin.col < 0) return null;
+			begin = area.begin;
+			end = area.end;
+		}
+		const rows: Array<Array<string>> = [];
+		for (let r = begin.row; r <= end.row; r++) {
+			const row: Array<string> = [];
+			for (let c = begin.col; c <= end.col; c++) {
+				const cell = tableModel.table[r][c];
+				if (helper.isEmptyModelCol(cell) || !cell.element) {
+					row.push('');
+					continue;
+				}
+				const text = helper.getCellText(cell.element);
+				row.push(
+					formula.isFormula(text)
+						? formula.format(formula.evaluate(text, tableModel))
+						: text,
+				);
+			}
+			rows.push(row);
+		}
+		return rows;
+	}
+
 	hasMergeCell() {
 		const { table, tableModel } = this;
 		if (!tableModel) return false;
@@ -165,6 +165,13 @@ class Template implements TemplateInterface {
 							`<input type='text' maxlength="3" class="${MENUBAR_ITEM_INPUT_CALSS_NAME}" />`,
 						) || '';
 					break;
+				case 'filter':
+					menuContent =
+						menuContent?.replace(
+							'$data',
+							`<input type='text' class="${MENUBAR_ITEM_INPUT_CALSS_NAME} ${MENUBAR_ITEM_INPUT_CALSS_NAME}-filter" />`,
+						) || '';
+					break;
 			}
 			return `<div class="${MENUBAR_ITEM_CLASS_NAME}" ${DATA_ELEMENT}="${UI}" data-action="${menu.action}">
                 <span class="data-icon data-icon-table-${menu.icon}"></span>${menuContent}</div>`;
@@ -1,6 +1,7 @@
 import {
 	$,
 	CARD_KEY,
+	ClipboardData,
 	EDITABLE_SELECTOR,
 	isEngine,
 	NodeInterface,
@@ -13,11 +14,31 @@ import {
 	CARD_VALUE_KEY,
 	transformCustomTags,
 	DATA_ID,
+	Element as ModelElement,
+	Node as ModelNode,
+	MarkdownContext,
+	getCardName,
+	getCardValue,
+	SlashItem,
 } from '@aomao/engine';
 import type MarkdownIt from 'markdown-it';
 import TableComponent, { Template, Helper } from './component';
+import { FormulaError } from './component/formula';
+import TableStatic from './static';
+import {
+	getSpreadsheetRows,
+	isDelimitedFile,
+	parseDelimitedText,
+	stringifyDelimitedText,
+	toTableHtml,
+} from './component/csv';
 import locales from './locale';
-import { TableInterface, TableOptions, TableValue } from './types';
+import {
+	TableInterface,
+	TableOptions,
+	TableTextDelimiter,
+	TableValue,
+} from './types';
 import './index.css';
 class Table<T extends TableOptions = TableOptions> extends Plugin<T> {
 	static get pluginName() {
@@ -41,9 +62,12 @@ class Table<T extends TableOptions = TableOptions> extends Plugin<T> {
 		editor.on('paste:schema', this.pasteSchema);
 		if (isEngine(editor)) {
 			this.editor.on('markdown-it', this.markdownIt);
+			editor.on('parse:markdown', this.parseMarkdown);
 			editor.change.event.onDocument('copy', this.onCopy, 0);
 			editor.change.event.onDocument('cut', this.onCut, 0);
 			editor.change.event.onDocument('paste', this.onPaste, 0);
+			editor.on('paste:event', this.pasteEvent);
+			editor.on('drop:files', this.dropFiles);
 		}
 	}
 
@@ -114,13 +138,17 @@ class Table<T extends TableOptions = TableOptions> extends Plugin<T> {
 			!component.isCursor(range.startNode)
 		) {
 			const data = editor.clipboard.getData(event);
+			if (!data) return true;
 			if (
-				!data ||
 				!/<meta\s+name="aomao"\s+content="table"\s{0,}\/?>/gi.test(
 					data.html || '',
 				)
 			) {
-				return true;
+				// 从表格软件复制的单元格按制表符分隔的文本粘贴
+				if (!data.text || !getSpreadsheetRows(data.text)) return true;
+				event.preventDefault();
+				component.command.importText(data.text, '\t');
+				return false;
 			}
 			event.preventDefault();
 			component.command.paste(data);
@@ -129,10 +157,77 @@ class Table<T extends TableOptions = TableOptions> extends Plugin<T> {
 		return true;
 	};
 
+	/**
+	 * 粘贴制表符分隔的纯文本时生成表格
+	 */
+	pasteEvent = (
+		data: ClipboardData & { isPasteText: boolean },
+	): boolean | void => {
+		const editor = this.editor;
+		if (!isEngine(editor) || data.isPasteText) return;
+		if (/<table[\s>]/i.test(data.html || '')) return;
+		const rows = getSpreadsheetRows(data.text || '');
+		if (!rows) return;
+		editor.change.cacheRangeBeforeCommand();
+		editor.change.paste(toTableHtml(rows));
+		return false;
+	};
+
+	/**
+	 * 拖入 CSV、TSV 文件时生成表格，其它文件留给别的插件处理
+	 */
+	dropFiles = (files: Array<File>): boolean | void => {
+		const editor = this.editor;
+		if (!isEngine(editor)) return;
+		const tableFiles = files.filter(isDelimitedFile);
+		if (tableFiles.length === 0) return;
+		Promise.all(tableFiles.map((file) => file.text()))
+			.then((texts) => {
+				texts.forEach((text) => {
+					const rows = parseDelimitedText(text);
+					if (rows.length === 0) return;
+					editor.change.cacheRangeBeforeCommand();
+					editor.change.paste(toTableHtml(rows));
+				});
+			})
+			.catch(() => {
+				editor.messageError(
+					'table',
+					editor.language.get<string>('table', 'readError'),
+				);
+			});
+		// 不修改原来的文件集合，其它文件重新触发一次，后面的监听只会收到其它文件
+		const otherFiles = files.filter((file) => !isDelimitedFile(file));
+		if (otherFiles.length > 0) editor.trigger('drop:files', otherFiles);
+		return false;
+	};
+
 	hotkey() {
 		return this.options.hotkey || '';
 	}
 
+	slash(): Array<SlashItem> {
+		const { language } = this.editor;
+		return [
+			{
+				name: 'table',
+				title: language.get<string>('table', 'title'),
+				description: language.get<string>('table', 'description'),
+				keywords: ['table', 'grid', 'biaoge', '表格'],
+				// 表格 4x3：4 行 3 列
+				params: (text) => {
+					const match = /^(\d+)\s*[x*×\s]\s*(\d+)$/i.exec(text);
+					if (!match) return;
+					const rows = parseInt(match[1], 10);
+					const cols = parseInt(match[2], 10);
+					if (rows < 1 || cols < 1 || rows > 100 || cols > 100)
+						return;
+					return [rows, cols];
+				},
+			},
+		];
+	}
+
 	schema(): Array<SchemaBlock> {
 		return [
 			{
@@ -390,8 +485,9 @@ class Table<T extends TableOptions = TableOptions> extends Plugin<T> {
 			clearWH(node, 'height');
 			const tbody = node.find('tbody');
 
-			// 表头放在tbody最前面
+			// 表头放在tbody最前面，表头的行作为冻结的行
 			const thead = node.find('thead');
+			const freezeRows = thead.find('tr').length;
 			if (thead && thead.length > 0) tbody.prepend(thead.children());
 			thead.remove();
 			// 表头放在tbody最前面
@@ -473,6 +569,7 @@ class Table<T extends TableOptions = TableOptions> extends Plugin<T> {
 				.replace(/>\s+</g, '><');
 			editor.card.replaceNode<TableValue>(node, TableComponent.cardName, {
 				html,
+				freezeRows: freezeRows > 0 ? freezeRows : undefined,
 			});
 			node.remove();
 		});
@@ -530,6 +627,17 @@ class Table<T extends TableOptions = TableOptions> extends Plugin<T> {
 			table.find(Template.TABLE_TD_CONTENT_CLASS).each((content) => {
 				editor.node.unwrap($(content));
 			});
+			// 冻结的行作为表头导出
+			const headRows = table
+				.find('tr')
+				.toArray()
+				.slice(0, value?.freezeRows ?? 0);
+			if (headRows.length > 0) {
+				const thead = $(document.createElement('thead'));
+				const parent = headRows[0].parent();
+				(parent?.name === 'tbody' ? parent : headRows[0]).before(thead);
+				headRows.forEach((tr) => thead.append(tr));
+			}
 			if (callback) {
 				table = callback(table, value);
 			}
@@ -554,16 +662,84 @@ class Table<T extends TableOptions = TableOptions> extends Plugin<T> {
 		}
 	};
 
+	parseMarkdown = (
+		node: ModelElement,
+		context: MarkdownContext,
+		callback: (markdown: string) => void,
+	) => {
+		if (getCardName(node) !== TableComponent.cardName) return;
+		const value = getCardValue<TableValue>(node);
+		const table = value.html ? $(transformCustomTags(value.html)) : null;
+		if (!table || table.length === 0) {
+			callback('');
+			return false;
+		}
+		const { schema } = this.editor;
+		// 合并的单元格按照 markdown 表格的格式拆分为空单元格
+		const rows: Array<Array<string>> = [];
+		table.find('tr').each((tr, rowIndex) => {
+			const row = (rows[rowIndex] = rows[rowIndex] || []);
+			let colIndex = 0;
+			$(tr)
+				.children()
+				.each((td) => {
+					if (!['TD', 'TH'].includes(td.nodeName)) return;
+					while (row[colIndex] !== undefined) colIndex++;
+					const cell = ModelNode.createFromDOM(td, schema);
+					row[colIndex] = cell
+						? context
+								.toMarkdown(cell, { inTable: true })
+								.trim()
+								.replace(/\n+/g, '<br>')
+						: '';
+					const { rowSpan, colSpan } = td as HTMLTableCellElement;
+					for (let r = 0; r < (rowSpan || 1); r++) {
+						const spanRow = (rows[rowIndex + r] =
+							rows[rowIndex + r] || []);
+						for (let c = 0; c < (colSpan || 1); c++) {
+							if (r === 0 && c === 0) continue;
+							spanRow[colIndex + c] = '';
+						}
+					}
+					colIndex += colSpan || 1;
+				});
+		});
+		const cols = Math.max(...rows.map((row) => row.length));
+		if (rows.length === 0 || cols <= 0) {
+			callback('');
+			return false;
+		}
+		const toLine = (row: Array<string>) => {
+			const cells: Array<string> = [];
+			for (let c = 0; c < cols; c++) cells.push(row[c] || '');
+			return `| ${cells.join(' | ')} |`;
+		};
+		const lines = rows.map(toLine);
+		lines.splice(1, 0, toLine(new Array(cols).fill('---')));
+		callback(lines.join('\n'));
+		return false;
+	};
+
 	destroy() {
 		const editor = this.editor;
 		editor.off('parse:html', this.parseHtml);
+		editor.off('parse:markdown', this.parseMarkdown);
 		editor.off('paste:each-after', this.pasteHtml);
 		editor.off('paste:schema', this.pasteSchema);
 		editor.off('markdown-it', this.markdownIt);
+		editor.off('paste:event', this.pasteEvent);
+		editor.off('drop:files', this.dropFiles);
 	}
 }
 
 export default Table;
 
-export { TableComponent };
-export type { TableValue, TableOptions };
+export {
+	TableComponent,
+	TableStatic,
+	FormulaError,
+	parseDelimitedText,
+	stringifyDelimitedText,
+	toTableHtml,
+};
+export type { TableValue, TableOptions, TableTextDelimiter };
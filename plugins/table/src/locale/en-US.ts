@@ -1,5 +1,7 @@
 export default {
 	table: {
+		title: 'Table',
+		description: 'Type "table 4x3" for 4 rows and 3 columns',
 		insertColLeft: 'Insert column(s) $data left',
 		insertColRight: 'Insert column(s) $data right',
 		insertRowUp: 'Insert row(s) $data up',
@@ -9,6 +11,13 @@ export default {
 		removeCol: 'Delete selected column(s)',
 		removeRow: 'Delete selected row(s)',
 		removeTable: 'Delete table',
+		sortAsc: 'Sort ascending',
+		sortDesc: 'Sort descending',
+		filter: 'Filter $data',
+		clearFilter: 'Clear filter',
+		freezeRows: 'Freeze up to this row',
+		freezeCols: 'Freeze up to this column',
+		unfreeze: 'Unfreeze',
 		copy: 'Copy',
 		cut: 'Cut',
 		paste: 'Paste',
@@ -27,5 +36,11 @@ export default {
 			middle: 'Align middle',
 			bottom: 'Align bottom',
 		},
+		export: {
+			title: 'Export',
+			csv: 'Download CSV',
+			tsv: 'Copy as TSV',
+		},
+		readError: 'Unable to read the file',
 	},
 };
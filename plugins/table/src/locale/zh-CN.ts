@@ -1,5 +1,7 @@
 export default {
 	table: {
+		title: '表格',
+		description: '输入“表格 4x3”插入 4 行 3 列的表格',
 		insertColLeft: '左边插入 $data 列',
 		insertColRight: '右边插入 $data 列',
 		insertRowUp: '上方插入 $data 行',
@@ -9,6 +11,13 @@ export default {
 		removeCol: '删除选中列',
 		removeRow: '删除选中行',
 		removeTable: '删除表格',
+		sortAsc: '升序排列',
+		sortDesc: '降序排列',
+		filter: '筛选 $data',
+		clearFilter: '清除筛选',
+		freezeRows: '冻结至当前行',
+		freezeCols: '冻结至当前列',
+		unfreeze: '取消冻结',
 		copy: '复制',
 		cut: '剪切',
 		paste: '粘贴',
@@ -27,5 +36,11 @@ export default {
 			middle: '垂直居中',
 			bottom: '底对齐',
 		},
+		export: {
+			title: '导出',
+			csv: '下载 CSV',
+			tsv: '复制为 TSV',
+		},
+		readError: '无法读取文件',
 	},
 };
@@ -0,0 +1,52 @@
+import { CardStaticContext, CardStaticEntry } from '@aomao/engine';
+import type { TableValue } from './types';
+
+/**
+ * 在标签属性的 style 前面增加样式，已有的样式优先
+ * @param attributes 标签属性
+ * @param style 样式
+ */
+const addStyle = (attributes: string, style: string) => {
+	const reg = /(\s)style="([^"]*)"/i;
+	if (!reg.test(attributes)) return `${attributes} style="${style}"`;
+	return attributes.replace(reg, (_, space, value) => {
+		return `${space}style="${style}${value}"`;
+	});
+};
+
+/**
+ * 静态渲染，与 parse:html 输出的表格样式保持一致
+ */
+export const toStaticHTML = (value: TableValue, context: CardStaticContext) => {
+	if (!value.html) return '';
+	const border = value.noBorder ? '0 none' : '1px solid #d9d9d9';
+	const html = context
+		.toHTML(value.html)
+		.replace(
+			/<table\b([^>]*)>/i,
+			(_, attributes) =>
+				`<table${addStyle(
+					attributes,
+					'outline:none;border-collapse:collapse;width:100%;',
+				)}>`,
+		)
+		.replace(
+			/<td\b([^>]*)>/gi,
+			(_, attributes) =>
+				`<td${addStyle(
+					attributes,
+					`min-width:auto;white-space:flat;word-wrap:break-word;margin:4px 8px;border:${border};padding:4px 8px;cursor:default;vertical-align:top;`,
+				)}>`,
+		);
+	return `<div class="editor-table-wrapper" style="width:100%;overflow:auto;">${html}</div>`;
+};
+
+/**
+ * 表格卡片的静态渲染器，不依赖组件和 DOM，服务端可以通过 @aomao/plugin-table/dist/static 单独引入
+ */
+const TableStatic: CardStaticEntry<TableValue> = {
+	cardName: 'table',
+	toStaticHTML,
+};
+
+export default TableStatic;
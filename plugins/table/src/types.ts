@@ -9,6 +9,7 @@ import {
 	ToolbarItemOptions,
 } from '@aomao/engine';
 import { EventEmitter2 } from 'eventemitter2';
+import type { FormulaError } from './component/formula';
 
 export interface HelperInterface {
 	isEmptyModelCol(
@@ -93,6 +94,12 @@ export interface HelperInterface {
 	 * @return {NodeInterface} 修复过的 table dom
 	 */
 	normalizeTable(table: NodeInterface): NodeInterface;
+
+	/**
+	 * 获取单元格中的纯文本，段落之间换行，去掉首尾空白
+	 * @param cell 单元格
+	 */
+	getCellText(cell: HTMLElement): string;
 }
 
 export interface TemplateInterface {
@@ -140,6 +147,14 @@ export interface TableValue extends CardValue {
 	color?: string;
 	noBorder?: boolean;
 	overflow?: boolean;
+	/**
+	 * 冻结的行数，滚动时固定在顶部，导出 html 时放在 thead 中
+	 */
+	freezeRows?: number;
+	/**
+	 * 冻结的列数，横向滚动时固定在左侧
+	 */
+	freezeCols?: number;
 }
 
 export type TableMenuItem = {
@@ -183,12 +198,17 @@ export interface TableInterface<V extends TableValue = TableValue>
 	selection: TableSelectionInterface;
 	conltrollBar: ControllBarInterface;
 	command: TableCommandInterface;
+	formula: TableFormulaInterface;
 	colMinWidth: number;
 	rowMinHeight: number;
 	/**
 	 * 渲染
 	 */
 	render(): string | NodeInterface | void;
+	/**
+	 * 阅读模式渲染
+	 */
+	renderReader(): string | NodeInterface | void;
 }
 
 export interface TableOptions extends PluginOptions {
@@ -202,6 +222,10 @@ export interface TableOptions extends PluginOptions {
 	/**最大插入行、列 */
 	maxInsertNum?: number;
 	markdown?: boolean;
+	/**
+	 * 阅读模式下表格滚动出可视区域时，第一行固定在顶部。offset 为固定时距离顶部的距离
+	 */
+	stickyHeader?: boolean | { offset?: number };
 	cardToolbars?: (
 		items: (ToolbarItemOptions | CardToolbarItemOptions)[],
 		editor: EditorInterface,
@@ -356,6 +380,160 @@ export interface TableCommandInterface extends EventEmitter2 {
 	splitCell(...args: any): void;
 
 	hasCopyData(): boolean;
+
+	/**
+	 * 获取排序的行范围。选中了多行时为选中的行，否则为表头以下的所有行。
+	 * 范围内有跨行合并的单元格时无法排序，返回 undefined
+	 * @param col 排序的列
+	 */
+	getSortArea(col?: number): { begin: number; end: number } | undefined;
+
+	/**
+	 * 按列排序，数字、日期和文本分别按各自的大小比较，空单元格始终排在最后
+	 * @param col 排序的列
+	 * @param order 升序或降序
+	 * @param area 排序的行范围，默认使用 getSortArea 的结果
+	 * @return 是否排序
+	 */
+	sort(
+		col: number,
+		order?: TableSortOrder,
+		area?: { begin: number; end: number },
+		...args: any
+	): boolean;
+
+	/**
+	 * 按选中的列升序排列
+	 */
+	sortAsc(): void;
+
+	/**
+	 * 按选中的列降序排列
+	 */
+	sortDesc(): void;
+
+	/**
+	 * 筛选选中的列，只显示包含关键字的行。筛选只影响显示，不会修改表格内容
+	 * @param keyword 关键字，为空时清除该列的筛选
+	 * @param col 筛选的列，默认为选中的列
+	 */
+	filter(keyword?: string, col?: number): void;
+
+	/**
+	 * 获取列的筛选关键字
+	 * @param col 列
+	 */
+	getFilter(col: number): string | undefined;
+
+	/**
+	 * 是否有列在筛选
+	 */
+	hasFilter(): boolean;
+
+	/**
+	 * 清除所有列的筛选
+	 */
+	clearFilter(): void;
+
+	/**
+	 * 表格内容变化后重新计算需要隐藏的行
+	 */
+	refreshFilter(): void;
+	/**
+	 * 冻结表格前面的行和列，保存在卡片值中
+	 * @param rows 冻结的行数
+	 * @param cols 冻结的列数
+	 */
+	freeze(rows: number, cols: number, ...args: any): void;
+	/**
+	 * 冻结到指定行，默认冻结到选中的最后一行
+	 * @param count 冻结的行数
+	 */
+	freezeRows(count?: number, ...args: any): void;
+	/**
+	 * 冻结到指定列，默认冻结到选中的最后一列
+	 * @param count 冻结的列数
+	 */
+	freezeCols(count?: number, ...args: any): void;
+	/**
+	 * 取消冻结的行和列
+	 */
+	unfreeze(...args: any): void;
+	/**
+	 * 获取冻结的行数和列数，不会超出表格的行列数
+	 */
+	getFreeze(): { rows: number; cols: number };
+	/**
+	 * 根据冻结的行列重新生成样式，表格变化后调用
+	 * @param freeze 卡片值中冻结的行列数，远程修改或者重新渲染时传入
+	 */
+	refreshFreeze(freeze?: { rows?: number; cols?: number }): void;
+	/**
+	 * 滚动时更新冻结的行的位置
+	 */
+	updateFreeze(): void;
+	/**
+	 * 把 CSV、TSV 文本从选中的单元格开始粘贴到表格中，超出表格时自动增加行列
+	 * @param text 文本
+	 * @param delimiter 分隔符，默认自动判断
+	 * @return 是否有可以粘贴的数据
+	 */
+	importText(
+		text: string,
+		delimiter?: TableTextDelimiter,
+		...args: any
+	): boolean;
+	/**
+	 * 获取选中区域的 CSV、TSV 文本，没有选中多个单元格时获取整个表格，公式为计算结果
+	 * @param delimiter 分隔符，默认逗号
+	 */
+	getText(delimiter?: TableTextDelimiter): string | undefined;
+	/**
+	 * 把选中区域作为 TSV 文本复制到剪贴板，可以直接粘贴到表格软件中
+	 */
+	copyText(): boolean;
+	/**
+	 * 把选中区域下载为 CSV 文件
+	 * @param name 文件名
+	 */
+	downloadCSV(name?: string): boolean;
+}
+
+export type TableSortOrder = 'asc' | 'desc';
+
+/**
+ * CSV、TSV 文本的分隔符
+ */
+export type TableTextDelimiter = ',' | '\t' | ';';
+
+/**
+ * 公式的计算结果，null 表示空单元格，错误为 FormulaError
+ */
+export type FormulaValue = number | string | boolean | null | FormulaError;
+
+export interface TableFormulaInterface {
+	init(): void;
+	/**
+	 * 是否为公式，以 = 开头的内容作为公式
+	 * @param text 单元格文本
+	 */
+	isFormula(text: string): boolean;
+	/**
+	 * 计算公式，单元格地址使用表格模型中的坐标，A1 为第一行第一列
+	 * @param formula 公式，可以以 = 开头
+	 * @param tableModel 表格模型，默认为当前表格
+	 */
+	evaluate(formula: string, tableModel?: TableModel): FormulaValue;
+	/**
+	 * 把计算结果格式化为显示的文本
+	 * @param value 计算结果
+	 */
+	format(value: FormulaValue): string;
+	/**
+	 * 重新计算所有公式单元格并显示结果
+	 */
+	refresh(): void;
+	destroy(): void;
 }
 
 export type TableSelectionArea = {
@@ -415,6 +593,8 @@ export interface TableSelectionInterface extends EventEmitter2 {
 
 	getSelectionHtml(all?: boolean): string | null;
 
+	getSelectionRows(all?: boolean): Array<Array<string>> | null;
+
 	hasMergeCell(): boolean;
 
 	isRowSelected(): boolean;
@@ -9,6 +9,7 @@ import {
 	PluginOptions,
 	decodeCardValue,
 	encodeCardValue,
+	SlashItem,
 } from '@aomao/engine';
 import locales from './local';
 import { TagValue } from './component/type';
@@ -33,6 +34,16 @@ export default class extends Plugin<Options> {
 		editor.on('paste:each', this.pasteHtml);
 	}
 
+	slash(): Array<SlashItem> {
+		return [
+			{
+				name: 'tag',
+				title: this.editor.language.get<string>('tag', 'title'),
+				keywords: ['tag', 'label', 'biaoqian', '标签'],
+			},
+		];
+	}
+
 	execute() {
 		const { editor } = this;
 		if (!isEngine(editor) || editor.readonly) {
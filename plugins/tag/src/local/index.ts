@@ -1,6 +1,7 @@
 export default {
 	'en-US': {
 		tag: {
+			title: 'Tag',
 			defaultTag: 'Default Tag',
 			customTag: 'Custom Tag',
 			historyTag: 'History Tag',
@@ -14,6 +15,7 @@ export default {
 	},
 	'zh-CN': {
 		tag: {
+			title: '标签',
 			defaultTag: '默认标签',
 			customTag: '自定义标签',
 			historyTag: '历史标签',
@@ -0,0 +1,5 @@
+import commonjs from '@rollup/plugin-commonjs';
+
+export default {
+	extraRollupPlugins: [commonjs()],
+};
@@ -0,0 +1,64 @@
+import { App, createApp } from 'vue';
+import {
+	$,
+	Card,
+	CardToolbarItemOptions,
+	CardType,
+	CardValue,
+	isEngine,
+	NodeInterface,
+	ToolbarItemOptions,
+} from '@aomao/engine';
+import Toc from '../toc.vue';
+
+export interface TocValue extends CardValue {}
+
+class TocComponent<T extends TocValue = TocValue> extends Card<T> {
+	static get cardName() {
+		return 'toc';
+	}
+
+	static get cardType() {
+		return CardType.BLOCK;
+	}
+
+	static get autoActivate() {
+		return false;
+	}
+
+	#container?: NodeInterface;
+	#vm?: App;
+
+	toolbar(): Array<ToolbarItemOptions | CardToolbarItemOptions> {
+		if (!isEngine(this.editor) || this.editor.readonly) return [];
+		return [
+			{ key: 'dnd', type: 'dnd' },
+			{ key: 'copy', type: 'copy' },
+			{ key: 'delete', type: 'delete' },
+		];
+	}
+
+	render() {
+		this.getCenter().addClass('card-toc');
+		this.#container = $('<div></div>');
+		return this.#container;
+	}
+
+	didRender() {
+		super.didRender();
+		const container = this.#container?.get<HTMLElement>();
+		if (!container) return;
+		// 目录跟随文档中的标题自动更新
+		this.#vm?.unmount();
+		this.#vm = createApp(Toc, { editor: this.editor });
+		this.#vm.mount(container);
+	}
+
+	destroy() {
+		super.destroy();
+		this.#vm?.unmount();
+		this.#vm = undefined;
+	}
+}
+
+export default TocComponent;
@@ -0,0 +1,6 @@
+/* eslint-disable */
+declare module '*.vue' {
+	import { DefineComponent } from 'vue';
+	const component: DefineComponent<{}, {}, any>;
+	export default component;
+}
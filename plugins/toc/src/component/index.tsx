@@ -0,0 +1,62 @@
+import ReactDOM from 'react-dom';
+import {
+	$,
+	Card,
+	CardToolbarItemOptions,
+	CardType,
+	CardValue,
+	isEngine,
+	NodeInterface,
+	ToolbarItemOptions,
+} from '@aomao/engine';
+import Toc from '../toc';
+
+export interface TocValue extends CardValue {}
+
+class TocComponent<T extends TocValue = TocValue> extends Card<T> {
+	static get cardName() {
+		return 'toc';
+	}
+
+	static get cardType() {
+		return CardType.BLOCK;
+	}
+
+	static get autoActivate() {
+		return false;
+	}
+
+	#container?: NodeInterface;
+
+	toolbar(): Array<ToolbarItemOptions | CardToolbarItemOptions> {
+		if (!isEngine(this.editor) || this.editor.readonly) return [];
+		return [
+			{ key: 'dnd', type: 'dnd' },
+			{ key: 'copy', type: 'copy' },
+			{ key: 'delete', type: 'delete' },
+		];
+	}
+
+	render() {
+		this.getCenter().addClass('card-toc');
+		this.#container = $('<div></div>');
+		return this.#container;
+	}
+
+	didRender() {
+		super.didRender();
+		// 目录跟随文档中的标题自动更新
+		ReactDOM.render(
+			<Toc editor={this.editor} />,
+			this.#container?.get<HTMLElement>()!,
+		);
+	}
+
+	destroy() {
+		super.destroy();
+		const container = this.#container?.get<HTMLElement>();
+		if (container) ReactDOM.unmountComponentAtNode(container);
+	}
+}
+
+export default TocComponent;
@@ -0,0 +1,39 @@
+import { isEngine, Plugin, PluginOptions, SlashItem } from '@aomao/engine';
+import TocComponent from './component';
+import type { TocValue } from './component';
+import Toc from './toc';
+import type { TocProps } from './toc';
+import { TocModel, findReadingSection } from '@aomao/plugin-heading';
+import type { TocItem, TocModelOptions } from '@aomao/plugin-heading';
+import locales from './locales';
+
+export interface TocOptions extends PluginOptions {}
+
+export default class<T extends TocOptions = TocOptions> extends Plugin<T> {
+	static get pluginName() {
+		return 'toc';
+	}
+
+	init() {
+		this.editor.language.add(locales);
+	}
+
+	slash(): Array<SlashItem> {
+		return [
+			{
+				name: 'toc',
+				title: this.editor.language.get<string>('toc', 'title'),
+				keywords: ['toc', 'outline', 'mulu', '目录', '大纲'],
+			},
+		];
+	}
+
+	execute() {
+		const editor = this.editor;
+		if (!isEngine(editor) || editor.readonly) return;
+		editor.card.insert(TocComponent.cardName);
+	}
+}
+
+export { TocComponent, Toc, TocModel, findReadingSection };
+export type { TocValue, TocProps, TocItem, TocModelOptions };
@@ -0,0 +1,8 @@
+export default {
+	toc: {
+		title: 'Table of contents',
+		empty: 'Add headings to create a table of contents',
+		expand: 'Expand',
+		collapse: 'Collapse',
+	},
+};
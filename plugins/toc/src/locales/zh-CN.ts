@@ -0,0 +1,8 @@
+export default {
+	toc: {
+		title: '目录',
+		empty: '添加标题后会在这里生成目录',
+		expand: '展开',
+		collapse: '折叠',
+	},
+};
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { EditorInterface } from '@aomao/engine';
+import { TocModel } from '@aomao/plugin-heading';
+import type { TocItem, TocModelOptions } from '@aomao/plugin-heading';
+import locales from './locales';
+
+export type TocProps = Omit<TocModelOptions, 'onChange'> & {
+	editor: EditorInterface;
+	/**
+	 * 标题，默认为语言包中的“目录”，设置为 false 不显示
+	 */
+	title?: React.ReactNode | false;
+	className?: string;
+};
+
+export default function Toc({
+	editor,
+	title,
+	className,
+	offset,
+	level,
+}: TocProps) {
+	const modelRef = useRef<TocModel | null>(null);
+	const [items, setItems] = useState<Array<TocItem>>([]);
+
+	useEffect(() => {
+		editor.language.add(locales);
+		const model = new TocModel(editor, {
+			offset,
+			level,
+			onChange: setItems,
+		});
+		model.bind();
+		modelRef.current = model;
+		return () => {
+			model.unbind();
+			modelRef.current = null;
+		};
+	}, [editor, offset, level]);
+
+	const getText = (key: string) => editor.language.get<string>('toc', key);
+
+	return (
+		<div
+			className={['data-toc-wrapper', className]
+				.filter((name) => !!name)
+				.join(' ')}
+		>
+			{title !== false && (
+				<div className="data-toc-title">
+					{title ?? getText('title')}
+				</div>
+			)}
+			{items.length === 0 ? (
+				<div className="data-toc-empty">{getText('empty')}</div>
+			) : (
+				<div className="data-toc">
+					{items.map((item) => (
+						<div
+							key={item.id}
+							className={[
+								'data-toc-item',
+								`data-toc-item-${item.depth}`,
+								item.active ? 'data-toc-item-active' : '',
+							]
+								.filter((name) => !!name)
+								.join(' ')}
+						>
+							{item.hasChildren && (
+								<span
+									className={`data-toc-item-toggle data-icon data-icon-arrow-${
+										item.collapsed ? 'right' : 'down'
+									}`}
+									title={getText(
+										item.collapsed ? 'expand' : 'collapse',
+									)}
+									onMouseDown={(event) =>
+										event.preventDefault()
+									}
+									onClick={() =>
+										modelRef.current?.toggle(item.id)
+									}
+								/>
+							)}
+							<a
+								href={`#${item.id}`}
+								onMouseDown={(event) => event.preventDefault()}
+								onClick={(event) => {
+									event.preventDefault();
+									modelRef.current?.scrollTo(item.id);
+								}}
+							>
+								{item.text}
+							</a>
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -19,6 +19,7 @@ import {
 	Resizer,
 } from '@aomao/engine';
 import './index.css';
+import { toStaticHTML } from '../static';
 
 export type VideoStatus = 'uploading' | 'transcoding' | 'done' | 'error';
 
@@ -103,6 +104,8 @@ class VideoComponent<T extends VideoValue = VideoValue> extends Card<T> {
 		return false;
 	}
 
+	static toStaticHTML = toStaticHTML;
+
 	getLocales() {
 		return this.editor.language.get<{ [key: string]: string }>('video');
 	}
@@ -139,6 +142,20 @@ class VideoComponent<T extends VideoValue = VideoValue> extends Card<T> {
 			? `<div class="data-video-title">${escape(name)}</div>`
 			: '';
 		if (status === 'uploading') {
+			const editor = this.editor;
+			const actions =
+				isEngine(editor) && !editor.readonly
+					? `<span class="data-video-actions">${[
+							'pause',
+							'resume',
+							'cancel',
+					  ]
+							.map(
+								(action) =>
+									`<a class="data-video-action-${action}">${locales[action]}</a>`,
+							)
+							.join('')}</span>`
+					: '';
 			return `
             <div class="data-video">
                 <div class="data-video-content data-video-uploading">
@@ -149,7 +166,8 @@ class VideoComponent<T extends VideoValue = VideoValue> extends Card<T> {
                         </div>
                         <div class="data-video-progress">
                             ${icons.spin}
-                            <span class="percent">${percent || 0}%<span>
+                            <span class="percent">${percent || 0}%</span>
+                            ${actions}
                         </div>
                     </div>
                 </div>
@@ -340,6 +358,32 @@ class VideoComponent<T extends VideoValue = VideoValue> extends Card<T> {
 		return getItems();
 	}
 
+	/**
+	 * 上传暂停时隐藏加载图标，暂停按钮切换为继续
+	 * @param paused 是否暂停
+	 */
+	setUploadPaused(paused: boolean) {
+		const content = this.container?.find('.data-video-uploading');
+		if (paused) content?.addClass('data-video-paused');
+		else content?.removeClass('data-video-paused');
+	}
+
+	bindUploadActions() {
+		(['pause', 'resume', 'cancel'] as const).forEach((action) => {
+			this.container
+				?.find(`.data-video-action-${action}`)
+				.on('click', (event: MouseEvent) => {
+					event.preventDefault();
+					event.stopPropagation();
+					this.editor.command.executeMethod(
+						'video-uploader',
+						action,
+						this.id,
+					);
+				});
+		});
+	}
+
 	setProgressPercent(percent: number) {
 		this.container?.find('.percent').html(`${percent}%`);
 		this.setValue({
@@ -757,6 +801,7 @@ class VideoComponent<T extends VideoValue = VideoValue> extends Card<T> {
 		editor.on('editor:resize', this.onWindowResize);
 		this.toolbarModel?.setDefaultAlign('top');
 		this.container?.on('mousedown', this.handleClick);
+		if (value.status === 'uploading') this.bindUploadActions();
 		if (!isEngine(editor) || editor.readonly) {
 			this.mask?.hide();
 		}
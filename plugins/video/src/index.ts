@@ -17,6 +17,7 @@ import {
 } from '@aomao/engine';
 import VideoComponent from './component';
 import type { VideoValue, VideoStatus } from './component';
+import VideoStatic from './static';
 import VideoUploader from './uploader';
 import type { VideoUploaderOptions } from './uploader';
 import locales from './locales';
@@ -231,5 +232,5 @@ export default class VideoPlugin<
 	}
 }
 
-export { VideoComponent, VideoUploader };
+export { VideoComponent, VideoUploader, VideoStatic };
 export type { VideoValue, VideoOptions, VideoStatus, VideoUploaderOptions };
@@ -1,10 +1,14 @@
 export default {
 	video: {
+		title: 'Video',
 		errorMessageCopy: 'Copy error message',
 		loadError: 'The video failed to load!',
 		uploadError: 'The video failed to upload!',
 		uploadLimitError: 'Upload video size is limited to $size',
 		download: 'Download',
+		pause: 'Pause',
+		resume: 'Resume',
+		cancel: 'Cancel',
 		preview: 'Preview',
 		loading: 'Loading...',
 		transcoding: 'Transcoding...',
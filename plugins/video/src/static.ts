@@ -0,0 +1,23 @@
+import { CardStaticEntry, escape, sanitizeUrl } from '@aomao/engine';
+import type { VideoValue } from './component';
+
+/**
+ * 静态渲染为 video 标签，上传未完成时不输出
+ */
+export const toStaticHTML = (value: VideoValue) => {
+	const { url, cover, status } = value;
+	if (!url || status !== 'done') return '';
+	return `<div><video controls src="${escape(sanitizeUrl(url))}" poster="${
+		cover ? escape(sanitizeUrl(cover)) : 'none'
+	}" webkit-playsinline="webkit-playsinline" playsinline="playsinline" style="outline:none;"></video></div>`;
+};
+
+/**
+ * 视频卡片的静态渲染器，不依赖组件和 DOM，服务端可以通过 @aomao/plugin-video/dist/static 单独引入
+ */
+const VideoStatic: CardStaticEntry<VideoValue> = {
+	cardName: 'video',
+	toStaticHTML,
+};
+
+export default VideoStatic;
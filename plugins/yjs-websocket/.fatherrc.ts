@@ -2,6 +2,14 @@ export default {
 	esm: 'rollup',
 	cjs: 'rollup',
 	entry: ['src/index.ts', 'src/server.ts'],
-	extraExternals: ['ws', 'http', 'buffer', 'y-leveldb', 'mongodb'],
+	extraExternals: [
+		'ws',
+		'http',
+		'buffer',
+		'fs',
+		'path',
+		'y-leveldb',
+		'mongodb',
+	],
 	runtimeHelpers: true,
 };
@@ -1,5 +1,11 @@
 import { ServerOptions, startServer } from './server/start';
 
+export type {
+	PersistenceOptions,
+	PersistenceProvider,
+} from './server/persistence';
+export type { VersionMeta, VersionOptions } from './server/version';
+
 export default (options: Partial<ServerOptions> = {}) => {
 	const {
 		host = process.env.HOST || '0.0.0.0',
@@ -0,0 +1,201 @@
+import * as Y from 'yjs';
+import * as promise from 'lib0/promise';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface FileStorageOptions {
+	flushSize?: number;
+}
+
+const SNAPSHOT_FILE = 'snapshot';
+const UPDATES_FILE = 'updates';
+
+/**
+ * Read a file, returns null if the file doesn't exist.
+ */
+const readFile = async (file: string) => {
+	try {
+		return new Uint8Array(await fs.readFile(file));
+	} catch (err: any) {
+		if (err?.code === 'ENOENT') return null;
+		throw err;
+	}
+};
+
+/**
+ * Persist documents to the file system, every document has its own directory:
+ * - snapshot: all compacted updates merged into a single update
+ * - updates: incremental updates appended after the last snapshot
+ */
+export class FilePersistence {
+	dir: string;
+	flushSize: number;
+	tr: { [docName: string]: Promise<any> };
+
+	constructor(dir: string, { flushSize = 400 }: FileStorageOptions = {}) {
+		this.dir = dir;
+		this.flushSize = flushSize;
+		// scope the queue of the transaction to each docName
+		this.tr = {};
+	}
+
+	/**
+	 * Execute an transaction on a document. This will ensure that the files of
+	 * the document are not written concurrently.
+	 */
+	private _transact<T>(docName: string, f: () => Promise<T>): Promise<T> {
+		if (!this.tr[docName]) {
+			this.tr[docName] = promise.resolve();
+		}
+
+		const currTr = this.tr[docName];
+
+		this.tr[docName] = (async () => {
+			await currTr;
+
+			let res = null;
+			try {
+				res = await f();
+			} catch (err) {
+				console.warn('Error during saving transaction', err);
+			}
+			return res;
+		})();
+		return this.tr[docName];
+	}
+
+	/**
+	 * The directory of the document. Names like `.` and `..` are not encoded and
+	 * would resolve outside of the data directory, so they are rejected.
+	 */
+	private getDocDir(docName: string) {
+		const name = encodeURIComponent(docName);
+		const root = path.resolve(this.dir);
+		const dir = path.resolve(root, name);
+		if (
+			!name ||
+			name === '.' ||
+			name === '..' ||
+			path.dirname(dir) !== root
+		) {
+			throw new Error(`Invalid document name "${docName}"`);
+		}
+		return dir;
+	}
+
+	/**
+	 * Read the snapshot and all updates stored after it.
+	 */
+	private async readUpdates(docName: string, dir: string) {
+		const updates: Uint8Array[] = [];
+		const snapshot = await readFile(path.join(dir, SNAPSHOT_FILE));
+		if (snapshot) updates.push(snapshot);
+		const log = await readFile(path.join(dir, UPDATES_FILE));
+		if (log) {
+			const decoder = decoding.createDecoder(log);
+			try {
+				while (decoding.hasContent(decoder)) {
+					updates.push(decoding.readVarUint8Array(decoder));
+				}
+			} catch (err) {
+				// the last update was not completely written, ignore it
+				console.warn(`Incomplete update found in "${docName}"`);
+			}
+		}
+		return updates;
+	}
+
+	/**
+	 * Replace the snapshot of the document and remove the merged updates.
+	 */
+	private async writeSnapshot(dir: string, update: Uint8Array) {
+		await fs.mkdir(dir, { recursive: true });
+		const file = path.join(dir, SNAPSHOT_FILE);
+		// write to a temporary file first, so the snapshot is never half written
+		await fs.writeFile(`${file}.tmp`, update);
+		await fs.rename(`${file}.tmp`, file);
+		await fs.rm(path.join(dir, UPDATES_FILE), { force: true });
+	}
+
+	/**
+	 * Create a Y.Doc instance with the data persisted in the file system.
+	 */
+	async getYDoc(docName: string): Promise<Y.Doc> {
+		const dir = this.getDocDir(docName);
+		return this._transact(docName, async () => {
+			const updates = await this.readUpdates(docName, dir);
+			const ydoc = new Y.Doc();
+			ydoc.transact(() => {
+				for (let i = 0; i < updates.length; i++) {
+					Y.applyUpdate(ydoc, updates[i]);
+				}
+			});
+			if (updates.length > this.flushSize) {
+				await this.writeSnapshot(dir, Y.encodeStateAsUpdate(ydoc));
+			}
+			return ydoc;
+		});
+	}
+
+	/**
+	 * Append a single document update to the updates file.
+	 */
+	async storeUpdate(docName: string, update: Uint8Array): Promise<void> {
+		const dir = this.getDocDir(docName);
+		return this._transact(docName, async () => {
+			await fs.mkdir(dir, { recursive: true });
+			const encoder = encoding.createEncoder();
+			encoding.writeVarUint8Array(encoder, update);
+			await fs.appendFile(
+				path.join(dir, UPDATES_FILE),
+				encoding.toUint8Array(encoder),
+			);
+		});
+	}
+
+	/**
+	 * Merge the snapshot and all updates into a new snapshot.
+	 */
+	async flushDocument(docName: string): Promise<void> {
+		const dir = this.getDocDir(docName);
+		return this._transact(docName, async () => {
+			const updates = await this.readUpdates(docName, dir);
+			if (updates.length < 2) return;
+			await this.writeSnapshot(dir, Y.mergeUpdates(updates));
+		});
+	}
+
+	/**
+	 * Delete a document, and all associated files.
+	 */
+	async clearDocument(docName: string): Promise<void> {
+		const dir = this.getDocDir(docName);
+		return this._transact(docName, async () => {
+			await fs.rm(dir, {
+				recursive: true,
+				force: true,
+			});
+		});
+	}
+
+	/**
+	 * Retrieve the names of all stored documents.
+	 */
+	async getAllDocNames() {
+		try {
+			const names = await fs.readdir(this.dir);
+			return names.map((name) => decodeURIComponent(name));
+		} catch (err) {
+			return [];
+		}
+	}
+
+	/**
+	 * Wait for all pending transactions.
+	 */
+	async destroy() {
+		await Promise.all(Object.values(this.tr));
+	}
+}
@@ -9,15 +9,28 @@ import { WSSharedDoc } from './types';
 import { MongoAdapterOptions, MongodbPersistence } from './mongodb/persistence';
 import { MongoConnectionlOptions } from './mongodb/adapter';
 import { MongoClientOptions } from 'mongodb';
+import { FilePersistence, FileStorageOptions } from './file/persistence';
 
-type PersistenceProvider = LeveldbPersistence | MongodbPersistence;
+/**
+ * 持久化存储，可以自定义实现
+ */
+export interface PersistenceProvider {
+	// 获取存储的文档
+	getYDoc(docName: string): Promise<Y.Doc>;
+	// 存储一次文档更新
+	storeUpdate(docName: string, update: Uint8Array): Promise<unknown>;
+	// 将所有更新合并为一个快照
+	flushDocument(docName: string): Promise<unknown>;
+	// 删除文档
+	clearDocument(docName: string): Promise<unknown>;
+}
 
 interface Persistence {
 	bindState: (
 		docname: string,
 		doc: WSSharedDoc,
 		onInitialValue?: (doc: WSSharedDoc) => Promise<void> | void,
-	) => void;
+	) => Promise<void> | void;
 	writeState: (
 		docname: string,
 		doc: WSSharedDoc,
@@ -29,7 +42,9 @@ interface Persistence {
 let persistence: null | Persistence = null;
 
 interface PersistenceBaseOptions {
-	provider: 'leveldb' | 'mongodb';
+	provider: 'leveldb' | 'mongodb' | 'file' | PersistenceProvider;
+	// 文档打开期间定时将更新合并为快照的间隔，单位毫秒，默认不定时合并
+	snapshotInterval?: number;
 }
 
 export interface LeveldbPersistenceOptions extends PersistenceBaseOptions {
@@ -45,17 +60,32 @@ export interface MongodbPersistenceOptions
 	url: string | MongoConnectionlOptions;
 }
 
+export interface FilePersistenceOptions
+	extends PersistenceBaseOptions,
+		FileStorageOptions {
+	provider: 'file';
+	dir?: string;
+}
+
+export interface CustomPersistenceOptions extends PersistenceBaseOptions {
+	provider: PersistenceProvider;
+}
+
 export type PersistenceOptions =
 	| LeveldbPersistenceOptions
-	| MongodbPersistenceOptions;
+	| MongodbPersistenceOptions
+	| FilePersistenceOptions
+	| CustomPersistenceOptions;
 
 export const initPersistence = async (
 	options: PersistenceOptions,
 	contentField = 'content',
 ) => {
 	let db: PersistenceProvider | null = null;
-	const { provider, ...others } = options;
-	if (provider === 'leveldb') {
+	const { provider, snapshotInterval = 0, ...others } = options;
+	if (typeof provider === 'object') {
+		db = provider;
+	} else if (provider === 'leveldb') {
 		const { dir = './db' } = others as LeveldbPersistenceOptions;
 		console.info('Persisting documents to "' + dir + '"');
 		db = new LeveldbPersistence(dir);
@@ -67,8 +97,17 @@ export const initPersistence = async (
 		db = new MongodbPersistence(url, { flushSize }, opts);
 
 		console.info('Persisting documents to mongodb');
+	} else if (provider === 'file') {
+		const { dir = './db', flushSize } = others as Omit<
+			FilePersistenceOptions,
+			'provider'
+		>;
+		console.info('Persisting documents to "' + dir + '"');
+		db = new FilePersistence(dir, { flushSize });
 	}
 	if (!db) throw new Error('No persistence provider found');
+	// 定时合并快照的定时器
+	const timers = new Map<string, NodeJS.Timeout>();
 
 	persistence = {
 		provider: db,
@@ -91,19 +130,32 @@ export const initPersistence = async (
 				db?.storeUpdate(docname, update);
 			});
 
+			// 加载期间所有连接已经关闭，不再定时合并
+			if (snapshotInterval > 0 && !ydoc.closed) {
+				clearInterval(timers.get(docname));
+				timers.set(
+					docname,
+					setInterval(() => {
+						db?.flushDocument(docname).catch((error) => {
+							console.error('Snapshot flush error.', error);
+						});
+					}, snapshotInterval),
+				);
+			}
+
 			// init empty content
 			if (content._length === 0 && updateContent._length === 0) {
 				if (onInitialValue) await onInitialValue(ydoc);
 			}
 		},
-		writeState: async (docname, ydoc) => {
+		writeState: async (docname) => {
 			// This is called when all connections to the document are closed.
-			// In the future, this method might also be called in intervals or after a certain number of updates.
-			return new Promise((resolve) => {
-				// When the returned Promise resolves, the document will be destroyed.
-				// So make sure that the document really has been written to the database.
-				resolve();
-			});
+			clearInterval(timers.get(docname));
+			timers.delete(docname);
+			if (!db) return;
+			// When the returned Promise resolves, the document will be destroyed.
+			// Updates are stored in order, so the snapshot contains all of them.
+			await db.flushDocument(docname);
 		},
 	};
 };
@@ -1,8 +1,9 @@
 import WebSocket from 'ws';
 import http from 'http';
-import { getYDoc, setupWSConnection, UpdateCallback } from './utils';
+import { docs, getYDoc, setupWSConnection, UpdateCallback } from './utils';
 import { initPersistence, PersistenceOptions } from './persistence';
 import { WSSharedDoc } from './types';
+import { handleVersionRequest, initVersions, VersionOptions } from './version';
 
 const wss = new WebSocket.Server({ noServer: true });
 
@@ -24,6 +25,8 @@ export interface ServerOptions {
 	contentField?: string;
 	// 更新回调
 	callback?: UpdateCallback;
+	// 版本选项，需要开启持久化，默认为 false 不保存版本
+	versionOptions?: VersionOptions | false;
 }
 
 const SERVER_OPTIONS_WEAKMAP = new WeakMap<http.Server, ServerOptions>();
@@ -42,8 +45,11 @@ export const startServer = (options: ServerOptions) => {
 		port,
 		persistenceOptions = { provider: 'leveldb' },
 		contentField,
+		versionOptions = false,
 	} = options;
 	const server = http.createServer((request, response) => {
+		if (handleVersionRequest(request, response, (name) => docs.get(name)))
+			return;
 		if (requestListener) {
 			requestListener(request, response);
 		} else {
@@ -84,6 +90,8 @@ export const startServer = (options: ServerOptions) => {
 
 	if (persistenceOptions !== false) {
 		initPersistence(persistenceOptions, contentField);
+		if (versionOptions !== false)
+			initVersions(versionOptions, contentField);
 	}
 
 	server.listen(port, host, () => {
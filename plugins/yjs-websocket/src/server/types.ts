@@ -6,6 +6,10 @@ export interface WSSharedDoc extends Doc {
 	name: string;
 	conns: Map<WebSocket, Set<number>>;
 	awareness: awarenessProtocol.Awareness;
+	// 从持久化存储中加载完成
+	whenLoaded: Promise<void>;
+	// 所有连接已经关闭，写入存储后销毁
+	closed: boolean;
 	sendCustomMessage: (conn: WebSocket, message: Record<string, any>) => void;
 	broadcastCustomMessage: (
 		message: Record<string, any>,
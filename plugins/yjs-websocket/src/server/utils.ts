@@ -14,6 +14,7 @@ import { WSSharedDoc as WSSharedDocInterface } from './types';
 
 import { callbackHandler, CallbackOptions } from './callback';
 import { getPersistence } from './persistence';
+import { bindVersions, writeVersion } from './version';
 import { messageAwareness, messageCustom, messageSync } from '../message';
 
 const wsReadyStateConnecting = 0;
@@ -58,6 +59,8 @@ class WSSharedDoc extends Y.Doc implements WSSharedDocInterface {
 	name: string;
 	conns: Map<WebSocket.WebSocket, Set<number>>;
 	awareness: awarenessProtocol.Awareness;
+	whenLoaded: Promise<void> = Promise.resolve();
+	closed: boolean = false;
 	/**
 	 * @param {string} name
 	 */
@@ -160,7 +163,13 @@ export const getYDoc = (
 		doc.gc = gc;
 		const persistence = getPersistence();
 		if (persistence !== null) {
-			persistence.bindState(docname, doc, onInitialValue);
+			doc.whenLoaded = Promise.resolve(
+				persistence.bindState(docname, doc, onInitialValue),
+			)
+				.then(() => bindVersions(doc))
+				.catch((error) => {
+					console.error('Persistence bind error.', error);
+				});
 		}
 		docs.set(docname, doc);
 		return doc;
@@ -238,9 +247,21 @@ const closeConn = (doc: WSSharedDocInterface, conn: WebSocket.WebSocket) => {
 		const persistence = getPersistence();
 		if (doc.conns.size === 0 && persistence !== null) {
 			// if persisted, we store state and destroy ydocument
-			persistence.writeState(doc.name, doc).then(() => {
-				doc.destroy();
-			});
+			// wait for the document to be loaded before writing it,
+			// the state is stored even if the version fails to be saved
+			doc.closed = true;
+			doc.whenLoaded
+				.then(() => writeVersion(doc))
+				.catch((error) => {
+					console.error('Version write error.', error);
+				})
+				.then(() => persistence.writeState(doc.name, doc))
+				.catch((error) => {
+					console.error('Persistence write error.', error);
+				})
+				.then(() => {
+					doc.destroy();
+				});
 			docs.delete(doc.name);
 		}
 	}
@@ -0,0 +1,74 @@
+import * as Y from 'yjs';
+
+const CARD_KEY = 'data-card-key';
+const READY_CARD_KEY = 'data-ready-card';
+const CARD_TYPE_KEY = 'data-card-type';
+const CARD_VALUE_KEY = 'data-card-value';
+const CARD_EDITABLE_KEY = 'data-card-editable';
+const VOID_TAGS = ['br', 'hr', 'img', 'input', 'col', 'wbr'];
+
+const escapeText = (text: string) => {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;');
+};
+
+/**
+ * 与引擎的 toCardValue 一致，卡片转换为 <card> 标签
+ */
+const toCardValue = (attributes: Record<string, string>) => {
+	const card: Record<string, string | undefined> = {
+		type: attributes[CARD_TYPE_KEY],
+		value: attributes[CARD_VALUE_KEY],
+		name: (
+			attributes[CARD_KEY] || attributes[READY_CARD_KEY]
+		).toLowerCase(),
+		editable: attributes[CARD_EDITABLE_KEY],
+	};
+	Object.keys(attributes).forEach((name) => {
+		if (name.indexOf('data-') === 0 && name.indexOf('data-card') !== 0) {
+			card[name] = attributes[name];
+		}
+	});
+	let value = '<card ';
+	for (const name in card) {
+		if (card[name] === undefined) continue;
+		value += `${name}="${card[name]}" `;
+	}
+	return value + '></card>';
+};
+
+const nodeToValue = (node: Y.XmlElement | Y.XmlText): string => {
+	if (node instanceof Y.XmlText) {
+		return escapeText(node.toString()).replace(/\u200b/g, '');
+	}
+	const attributes = node.getAttributes() as Record<string, string>;
+	if (attributes[CARD_KEY] && attributes[CARD_TYPE_KEY])
+		return toCardValue(attributes);
+	let value = `<${node.nodeName}`;
+	for (const [key, attr] of Object.entries(attributes)) {
+		value += ` ${key}="${attr}"`;
+	}
+	if (VOID_TAGS.includes(node.nodeName)) return value + ' />';
+	return `${value}>${childrenToValue(node)}</${node.nodeName}>`;
+};
+
+const childrenToValue = (node: Y.XmlElement) => {
+	return node
+		.toArray()
+		.map((child) =>
+			child instanceof Y.XmlElement || child instanceof Y.XmlText
+				? nodeToValue(child)
+				: '',
+		)
+		.join('');
+};
+
+/**
+ * 将共享的文档内容转换为编辑器值，不包含根节点
+ * @param root 文档内容
+ */
+export const yElementToValue = (root: Y.XmlElement) => {
+	return childrenToValue(root);
+};
@@ -0,0 +1,405 @@
+import http from 'http';
+import * as Y from 'yjs';
+import { getPersistence } from './persistence';
+import { WSSharedDoc } from './types';
+import { yElementToValue } from './value';
+
+export interface VersionMeta {
+	// 版本 id
+	id: string;
+	// 版本名称，自动保存的版本为空
+	name: string;
+	// 是否为自动保存的版本
+	auto: boolean;
+	// 创建时间
+	createdAt: number;
+}
+
+type StoredVersion = VersionMeta & {
+	// Y.encodeSnapshot 编码后的快照
+	snapshot: Uint8Array;
+};
+
+export interface VersionOptions {
+	// http 接口路径前缀，默认为 /versions
+	path?: string;
+	// 文档打开期间自动保存版本的间隔，单位毫秒，默认 10 分钟，0 为只在所有连接关闭时保存
+	interval?: number;
+	// 每个文档最多保留的自动版本数量，默认 50
+	maxAutoVersions?: number;
+	// 将编辑器值转换为 html，例如使用引擎的 StaticParser，默认返回编辑器值
+	toHTML?: (value: string) => string;
+	// http 接口鉴权，返回 false 时响应 403。http 接口不经过 websocket 的 auth，没有设置时拒绝所有请求
+	auth: (
+		request: http.IncomingMessage,
+		docname: string,
+	) => Promise<boolean> | boolean;
+	// 允许跨域访问 http 接口的来源，默认为 *，false 不允许跨域
+	cors?: string | Array<string> | false;
+}
+
+let options: (VersionOptions & { contentField: string }) | null = null;
+const timers = new Map<string, NodeJS.Timeout>();
+
+const getVersionsName = (docname: string) => `${docname}#versions`;
+const getVersionName = (docname: string, id: string) =>
+	`${docname}#version-${id}`;
+
+const toMeta = ({ snapshot, ...meta }: StoredVersion): VersionMeta => meta;
+
+/**
+ * 修改存储的版本列表，每次修改都作为一次更新写入持久化存储
+ */
+const updateVersions = async (
+	docname: string,
+	f: (versions: Y.Array<StoredVersion>) => void,
+) => {
+	const persistence = getPersistence();
+	if (!persistence) throw new Error('Persistence is required for versions');
+	const { provider } = persistence;
+	const name = getVersionsName(docname);
+	const ydoc = await provider.getYDoc(name);
+	try {
+		const updates: Array<Promise<unknown>> = [];
+		ydoc.on('update', (update: Uint8Array) => {
+			updates.push(provider.storeUpdate(name, update));
+		});
+		const versions = ydoc.getArray<StoredVersion>('versions');
+		ydoc.transact(() => f(versions));
+		await Promise.all(updates);
+	} finally {
+		ydoc.destroy();
+	}
+};
+
+const getStoredVersions = async (docname: string) => {
+	const persistence = getPersistence();
+	if (!persistence) return [];
+	const ydoc = await persistence.provider.getYDoc(getVersionsName(docname));
+	const versions = ydoc.getArray<StoredVersion>('versions').toArray();
+	ydoc.destroy();
+	return versions;
+};
+
+export const initVersions = (
+	versionOptions: VersionOptions,
+	contentField = 'content',
+) => {
+	options = { ...versionOptions, contentField };
+};
+
+/**
+ * 获取文档的所有版本，按创建时间倒序
+ * @param docname 文档名称
+ */
+export const getVersions = async (docname: string) => {
+	const versions = await getStoredVersions(docname);
+	return versions.map(toMeta).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * 为文档创建一个版本，自动保存的版本在文档没有变化时不会创建
+ * @param docname 文档名称
+ * @param doc 文档
+ * @param name 版本名称
+ * @param auto 是否为自动保存
+ */
+export const createVersion = async (
+	docname: string,
+	doc: Y.Doc,
+	name: string = '',
+	auto: boolean = false,
+): Promise<VersionMeta | null> => {
+	const persistence = getPersistence();
+	if (!persistence) throw new Error('Persistence is required for versions');
+	const snapshot = Y.snapshot(doc);
+	const versions = await getStoredVersions(docname);
+	const last = versions[versions.length - 1];
+	if (
+		auto &&
+		last &&
+		Y.equalSnapshots(Y.decodeSnapshot(last.snapshot), snapshot)
+	)
+		return null;
+
+	const version: StoredVersion = {
+		id: Date.now().toString(36) + Math.random().toString(36).substr(2, 6),
+		name,
+		auto,
+		createdAt: Date.now(),
+		snapshot: Y.encodeSnapshot(snapshot),
+	};
+	await persistence.provider.storeUpdate(
+		getVersionName(docname, version.id),
+		Y.encodeStateAsUpdate(doc),
+	);
+	const maxAutoVersions = options?.maxAutoVersions ?? 50;
+	const removed: string[] = [];
+	await updateVersions(docname, (yVersions) => {
+		yVersions.push([version]);
+		if (!auto) return;
+		// 超出数量的自动版本从最早的开始移除
+		let count = yVersions.toArray().filter((item) => item.auto).length;
+		for (let i = 0; i < yVersions.length && count > maxAutoVersions; ) {
+			const item = yVersions.get(i);
+			if (item.auto) {
+				yVersions.delete(i, 1);
+				removed.push(item.id);
+				count--;
+			} else i++;
+		}
+	});
+	await Promise.all(
+		removed.map((id) =>
+			persistence.provider.clearDocument(getVersionName(docname, id)),
+		),
+	);
+	return toMeta(version);
+};
+
+/**
+ * 获取版本的文档，不存在时返回 null
+ * @param docname 文档名称
+ * @param id 版本 id
+ */
+export const getVersionDoc = async (docname: string, id: string) => {
+	const persistence = getPersistence();
+	const versions = await getStoredVersions(docname);
+	const version = versions.find((item) => item.id === id);
+	if (!persistence || !version) return null;
+	const ydoc = await persistence.provider.getYDoc(
+		getVersionName(docname, id),
+	);
+	return { version: toMeta(version), ydoc };
+};
+
+/**
+ * 将文档还原到指定版本，还原前会自动保存当前版本
+ * @param docname 文档名称
+ * @param doc 文档
+ * @param id 版本 id
+ */
+export const restoreVersion = async (
+	docname: string,
+	doc: Y.Doc,
+	id: string,
+) => {
+	const result = await getVersionDoc(docname, id);
+	if (!result) return null;
+	const { contentField = 'content' } = options ?? {};
+	await createVersion(docname, doc, '', true);
+	const source = result.ydoc.get(contentField, Y.XmlElement) as Y.XmlElement;
+	const target = doc.get(contentField, Y.XmlElement) as Y.XmlElement;
+	doc.transact(() => {
+		target.delete(0, target.length);
+		target.insert(
+			0,
+			source.toArray().map((child) => child.clone()) as Array<
+				Y.XmlElement | Y.XmlText
+			>,
+		);
+	});
+	result.ydoc.destroy();
+	return result.version;
+};
+
+/**
+ * 文档打开后定时自动保存版本
+ * @param doc 文档
+ */
+export const bindVersions = (doc: WSSharedDoc) => {
+	const interval = options?.interval ?? 600000;
+	if (!options || interval <= 0 || doc.closed) return;
+	clearInterval(timers.get(doc.name));
+	timers.set(
+		doc.name,
+		setInterval(() => {
+			createVersion(doc.name, doc, '', true).catch((error) => {
+				console.error('Auto version error.', error);
+			});
+		}, interval),
+	);
+};
+
+/**
+ * 文档所有连接关闭时保存一个自动版本
+ * @param doc 文档
+ */
+export const writeVersion = async (doc: WSSharedDoc) => {
+	clearInterval(timers.get(doc.name));
+	timers.delete(doc.name);
+	if (!options) return;
+	await createVersion(doc.name, doc, '', true);
+};
+
+/**
+ * 获取文档执行操作，文档已经打开时使用内存中的文档，修改会同步给所有连接
+ * 没有打开时从持久化存储中读取，修改写入存储后立即销毁，不会常驻内存
+ * @param docname 文档名称
+ * @param getDoc 获取已经打开的文档
+ * @param f 操作，文档不存在时不执行并返回 null
+ */
+const withDoc = async <T>(
+	docname: string,
+	getDoc: (docname: string) => WSSharedDoc | undefined,
+	f: (doc: Y.Doc) => Promise<T>,
+): Promise<T | null> => {
+	const openedDoc = getDoc(docname);
+	if (openedDoc) {
+		await openedDoc.whenLoaded;
+		return f(openedDoc);
+	}
+	const persistence = getPersistence();
+	if (!persistence) return null;
+	const { provider } = persistence;
+	const ydoc = await provider.getYDoc(docname);
+	try {
+		// 存储中没有任何更新，文档不存在
+		if (ydoc.store.clients.size === 0) return null;
+		const updates: Array<Promise<unknown>> = [];
+		ydoc.on('update', (update: Uint8Array) => {
+			updates.push(provider.storeUpdate(docname, update));
+		});
+		const result = await f(ydoc);
+		await Promise.all(updates);
+		return result;
+	} finally {
+		ydoc.destroy();
+	}
+};
+
+/**
+ * 跨域响应头，来源不在允许的列表中时不返回
+ */
+const getCorsHeaders = (
+	request: http.IncomingMessage,
+): http.OutgoingHttpHeaders => {
+	const { cors = '*' } = options ?? {};
+	const { origin } = request.headers;
+	if (cors === false || !origin) return {};
+	const headers: http.OutgoingHttpHeaders = {
+		'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+		'Access-Control-Allow-Headers':
+			request.headers['access-control-request-headers'] || 'Content-Type',
+		'Access-Control-Max-Age': 600,
+	};
+	if (cors === '*') {
+		headers['Access-Control-Allow-Origin'] = '*';
+		return headers;
+	}
+	if ((Array.isArray(cors) ? cors : [cors]).indexOf(origin) < 0) return {};
+	headers['Access-Control-Allow-Origin'] = origin;
+	headers['Access-Control-Allow-Credentials'] = 'true';
+	headers['Vary'] = 'Origin';
+	return headers;
+};
+
+const sendJSON = (
+	request: http.IncomingMessage,
+	response: http.ServerResponse,
+	status: number,
+	data: Record<string, any> | Array<any>,
+) => {
+	response.writeHead(status, {
+		...getCorsHeaders(request),
+		'Content-Type': 'application/json',
+	});
+	response.end(JSON.stringify(data));
+};
+
+const readBody = (request: http.IncomingMessage) => {
+	return new Promise<Record<string, any>>((resolve) => {
+		let body = '';
+		request.on('data', (chunk) => {
+			body += chunk;
+		});
+		request.on('end', () => {
+			try {
+				resolve(body ? JSON.parse(body) : {});
+			} catch (error) {
+				resolve({});
+			}
+		});
+	});
+};
+
+/**
+ * 处理版本的 http 请求，不是版本接口时返回 false
+ * GET {path}/:docname 版本列表
+ * POST {path}/:docname 创建版本，body 为 { name }
+ * GET {path}/:docname/:id 获取版本的编辑器值和 html
+ * POST {path}/:docname/:id/restore 还原版本
+ * @param getDoc 获取已经打开的文档，没有打开的文档从持久化存储中读取
+ */
+export const handleVersionRequest = (
+	request: http.IncomingMessage,
+	response: http.ServerResponse,
+	getDoc: (docname: string) => WSSharedDoc | undefined,
+) => {
+	if (!options || !request.url) return false;
+	const { path = '/versions', toHTML, auth, contentField } = options;
+	const pathname = request.url.split('?')[0];
+	if (pathname.indexOf(`${path}/`) !== 0) return false;
+	const parts = pathname.substr(path.length + 1).split('/');
+	const { method } = request;
+	const send = (status: number, data: Record<string, any> | Array<any>) =>
+		sendJSON(request, response, status, data);
+
+	const handle = async () => {
+		// 跨域预检请求
+		if (method === 'OPTIONS') {
+			response.writeHead(204, getCorsHeaders(request));
+			return response.end();
+		}
+		let docname: string, id: string, action: string;
+		try {
+			[docname, id, action] = parts.map((part) =>
+				decodeURIComponent(part),
+			);
+		} catch (error) {
+			// 路径中有错误的转义
+			return send(400, { message: 'Bad request' });
+		}
+		if (!docname) return send(404, { message: 'Not found' });
+		if (!auth || !(await auth(request, docname)))
+			return send(403, { message: 'Forbidden' });
+		if (!id && method === 'GET') {
+			return send(200, await getVersions(docname));
+		}
+		if (!id && method === 'POST') {
+			const { name = '' } = await readBody(request);
+			const version = await withDoc(docname, getDoc, (doc) =>
+				createVersion(docname, doc, String(name)),
+			);
+			if (!version) return send(404, { message: 'Not found' });
+			return send(200, version);
+		}
+		if (id && !action && method === 'GET') {
+			const result = await getVersionDoc(docname, id);
+			if (!result) return send(404, { message: 'Not found' });
+			const value = yElementToValue(
+				result.ydoc.get(contentField, Y.XmlElement) as Y.XmlElement,
+			);
+			result.ydoc.destroy();
+			return send(200, {
+				...result.version,
+				value,
+				html: toHTML ? toHTML(value) : value,
+			});
+		}
+		if (id && action === 'restore' && method === 'POST') {
+			const version = await withDoc(docname, getDoc, (doc) =>
+				restoreVersion(docname, doc, id),
+			);
+			if (!version) return send(404, { message: 'Not found' });
+			return send(200, version);
+		}
+		return send(404, { message: 'Not found' });
+	};
+
+	handle().catch((error) => {
+		console.error('Version request error.', error);
+		send(500, { message: error.message });
+	});
+	return true;
+};
@@ -9,6 +9,13 @@ import {
 } from './cursors';
 import { withYjs as withYjsPlguin, WithYjsOptions, YjsEditor } from './yjs';
 import { CursorData } from './types';
+import { createVersionClient } from './version';
+import type {
+	VersionClient,
+	VersionClientOptions,
+	VersionData,
+	VersionMeta,
+} from './version';
 
 export type WithYjsPluginOptions = WithYjsOptions & WithCursorsOptions;
 
@@ -22,5 +29,12 @@ export const withYjs = (
 	return withYCursors(e, awareness, options);
 };
 
-export { YjsEditor, YCursorEditor };
-export type { CursorStateChangeEvent, CursorData };
+export { YjsEditor, YCursorEditor, createVersionClient };
+export type {
+	CursorStateChangeEvent,
+	CursorData,
+	VersionClient,
+	VersionClientOptions,
+	VersionData,
+	VersionMeta,
+};
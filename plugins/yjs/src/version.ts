@@ -0,0 +1,108 @@
+import type {
+	EditorInterface,
+	RequestHeaders,
+	ViewInterface,
+} from '@aomao/engine';
+
+export type VersionMeta = {
+	id: string;
+	// 版本名称，自动保存的版本为空
+	name: string;
+	// 是否为自动保存的版本
+	auto: boolean;
+	createdAt: number;
+};
+
+export type VersionData = VersionMeta & {
+	// 版本的编辑器值
+	value: string;
+	// 服务端配置了 toHTML 时为转换后的 html，否则与 value 一致
+	html: string;
+};
+
+export type VersionClientOptions = {
+	// 服务端版本接口地址，例如 http://localhost:1234/versions
+	url: string;
+	// 文档名称
+	docname: string;
+	headers?: RequestHeaders;
+	// 是否跨域请求，默认根据 url 判断，跨域时不发送 X-Requested-With 请求头
+	crossOrigin?: boolean;
+	// 跨域请求是否携带 cookie，服务端 cors 需要设置为具体的来源
+	withCredentials?: boolean;
+};
+
+export type VersionClient = {
+	// 获取版本列表，按创建时间倒序
+	list(): Promise<VersionMeta[]>;
+	// 创建一个命名版本
+	create(name: string): Promise<VersionMeta>;
+	// 获取版本内容
+	get(id: string): Promise<VersionData>;
+	// 将文档还原到指定版本，协作中的编辑器会同步收到还原后的内容
+	restore(id: string): Promise<VersionMeta>;
+	// 在 View 中以只读的方式预览版本
+	preview(view: ViewInterface, id: string): Promise<VersionData>;
+};
+
+/**
+ * 接口地址是否与当前页面不同源
+ * @param url 接口地址
+ */
+const isCrossOrigin = (url: string) => {
+	try {
+		return (
+			new URL(url, window.location.href).origin !== window.location.origin
+		);
+	} catch (error) {
+		return false;
+	}
+};
+
+export const createVersionClient = (
+	editor: EditorInterface,
+	{
+		url,
+		docname,
+		headers,
+		crossOrigin = isCrossOrigin(url),
+		withCredentials,
+	}: VersionClientOptions,
+): VersionClient => {
+	const baseUrl = `${url.replace(/\/$/, '')}/${encodeURIComponent(docname)}`;
+
+	const request = <T>(
+		method: 'GET' | 'POST',
+		path: string = '',
+		data?: Record<string, any>,
+	) => {
+		return new Promise<T>((resolve, reject) => {
+			editor.request.ajax({
+				url: baseUrl + path,
+				method,
+				type: 'json',
+				contentType: 'application/json',
+				headers,
+				crossOrigin,
+				withCredentials,
+				data,
+				success: resolve,
+				error: reject,
+			});
+		});
+	};
+
+	const client: VersionClient = {
+		list: () => request<VersionMeta[]>('GET'),
+		create: (name) => request<VersionMeta>('POST', '', { name }),
+		get: (id) => request<VersionData>('GET', `/${encodeURIComponent(id)}`),
+		restore: (id) =>
+			request<VersionMeta>('POST', `/${encodeURIComponent(id)}/restore`),
+		preview: async (view, id) => {
+			const data = await client.get(id);
+			view.render(data.value);
+			return data;
+		},
+	};
+	return client;
+};